@@ -0,0 +1,46 @@
+// Prints the code points kept in the bundled Noto Sans SC, one hex value per line,
+// for `pyftsubset --unicodes-file`. The set is every character of the national
+// CJK encodings (GB 2312, Big5 common characters, JIS X 0208 and KS X 1001) plus
+// the kana, bopomofo, CJK punctuation and full-width blocks.
+//
+//   node scripts/cjk-charset.mjs > cjk.txt
+
+const range = (first, last) => Array.from({ length: last - first + 1 }, (_, i) => first + i);
+
+const codePoints = new Set();
+
+const addEncoding = (encoding, leadBytes, trailBytes) => {
+  const decoder = new TextDecoder(encoding);
+  for (const lead of leadBytes) {
+    for (const trail of trailBytes) {
+      const text = decoder.decode(new Uint8Array([lead, trail]));
+      if (!text.includes('�')) {
+        for (const char of text) codePoints.add(char.codePointAt(0));
+      }
+    }
+  }
+};
+
+addEncoding('gbk', range(0xa1, 0xf7), range(0xa1, 0xfe));
+addEncoding('big5', range(0xa4, 0xc6), [...range(0x40, 0x7e), ...range(0xa1, 0xfe)]);
+addEncoding('shift_jis', [...range(0x81, 0x9f), ...range(0xe0, 0xef)], [...range(0x40, 0x7e), ...range(0x80, 0xfc)]);
+addEncoding('euc-kr', range(0xa1, 0xfe), range(0xa1, 0xfe));
+
+const BLOCKS = [
+  [0x3000, 0x303f], // CJK symbols and punctuation
+  [0x3040, 0x30ff], // Hiragana and katakana
+  [0x3100, 0x312f], // Bopomofo
+  [0x31a0, 0x31bf], // Bopomofo extended
+  [0x31f0, 0x31ff], // Katakana phonetic extensions
+  [0xff00, 0xffef], // Half-width and full-width forms
+];
+for (const [first, last] of BLOCKS) {
+  for (const codePoint of range(first, last)) codePoints.add(codePoint);
+}
+
+console.log(
+  [...codePoints]
+    .sort((a, b) => a - b)
+    .map((codePoint) => codePoint.toString(16).toUpperCase().padStart(4, '0'))
+    .join('\n')
+);
@@ -1,47 +1,393 @@
-import { useState, useEffect, useCallback } from 'react';
-import { FileSignature } from 'lucide-react';
-import { PDFUpload, PDFPreview, SignerForm, SignatureLog, ActionBar } from '@/components';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { FileSignature, PenTool, ShieldCheck, Inbox, Settings } from 'lucide-react';
+import {
+  PDFUpload,
+  PDFPreview,
+  SignerForm,
+  SignatureLog,
+  ActionBar,
+  DocumentVerifier,
+  EnvelopeDashboard,
+  DocumentMatchPrompt,
+  ProtocolSettings,
+  WorkflowEditor,
+} from '@/components';
+import { Button } from '@/components/ui/button';
+import { NativeSelect } from '@/components/ui/native-select';
 import { Toaster } from '@/components/ui/toaster';
 import { useToast } from '@/components/ui/use-toast';
-import { applySignatureStamp, validatePDF, finalizePDFWithProtocol } from '@/services/pdf';
+import { validatePDF, finalizePDFWithProtocol } from '@/services/pdf';
+import { loadPKCS12Credentials, type PKCS12Credentials } from '@/services/pades';
+import { getTimestampAuthority, requestTimestamp } from '@/services/timestamp';
+import { LOCALES, LOCALE_NAMES, getMessages, isLocale, useI18n } from '@/i18n';
 import {
   getOrCreateDeviceId,
   normalizeName,
-  normalizeCPF,
+  normalizeSignerDocument,
+  getSignerDocumentIssuer,
+  getSignerRefusalError,
+  getSignerTurnError,
+  getWorkflowStatus,
   generateSignatureHash,
-  saveSignatureLog,
-  loadSignatureLog,
-  clearSignatureLog,
+  generateRefusalHash,
+  generateChainGenesis,
+  verifySignatureChain,
+  base64ToBytes,
+  getInitialsHashInput,
+  getPlacementHashInput,
+  signWithDeviceKey,
+  saveEnvelope,
+  loadEnvelope,
+  listEnvelopes,
+  deleteEnvelope,
+  getClearedAuditTrail,
+  findEnvelopeByContent,
+  getCurrentEnvelopeId,
+  setCurrentEnvelopeId,
+  migrateLegacySignatureLog,
+  getStorageQuota,
+  requestPersistentStorage,
+  importSignatureLogs,
   createSignatureLog,
   addSignatureToLog,
-  isPDFMatchingLog,
+  addRefusalToLog,
+  addAuditEventToLog,
+  createReadingTracker,
+  startPageView,
+  stopPageView,
+  getReadingEvidence,
+  getReadingHashInput,
+  hasReadAllPages,
+  exportLogsToJSON,
+  exportLogsToCSV,
+  importLogsFromFile,
+  downloadFile,
+  loadProtocolTemplate,
+  saveProtocolTemplate,
+  clearProtocolTemplate,
+  DEFAULT_PROTOCOL_TEMPLATE,
 } from '@/utils';
-import type { PDFMetadata, SignatureData, SignatureLog as SignatureLogType } from '@/types';
+import type {
+  AuditEventDetails,
+  ChainVerification,
+  Envelope,
+  EnvelopeRecord,
+  Locale,
+  LogExportFormat,
+  PDFMetadata,
+  ProtocolTemplate,
+  ReadingEvidence,
+  SignatureData,
+  SignaturePlacement,
+  SignatureLog as SignatureLogType,
+  SignatureRefusal,
+  SignerAttachments,
+  SigningWorkflow,
+  StorageQuota,
+  TimestampToken,
+} from '@/types';
 import type { SignerFormSchemaType } from '@/schemas';
 
+type AppView = 'home' | 'sign' | 'verify' | 'settings';
+
+// Page views are saved together, this long after the last one
+const PAGE_VIEW_SAVE_DELAY = 2000;
+
 function App() {
   const { toast } = useToast();
+  const { t, locale, setLocale } = useI18n();
   const [deviceId, setDeviceId] = useState<string>('');
   const [currentFile, setCurrentFile] = useState<File | null>(null);
   const [pdfBytes, setPdfBytes] = useState<Uint8Array | null>(null);
+  // Where the next signature's visual stamp goes; null signs without a stamp
+  const [stampPlacement, setStampPlacement] = useState<SignaturePlacement | null>(null);
   const [signatureLog, setSignatureLog] = useState<SignatureLogType | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isDownloading, setIsDownloading] = useState(false);
+  const [view, setView] = useState<AppView>('home');
+  const [protocolTemplate, setProtocolTemplate] = useState<ProtocolTemplate>(loadProtocolTemplate);
+  const [chainStatus, setChainStatus] = useState<ChainVerification | null>(null);
+  const [storageQuota, setStorageQuota] = useState<StorageQuota | null>(null);
+  // Whether the open envelope (log and PDF) is saved in the repository
+  const [isSaved, setIsSaved] = useState(false);
+  const [envelopes, setEnvelopes] = useState<EnvelopeRecord[]>([]);
+  const [isLoadingEnvelopes, setIsLoadingEnvelopes] = useState(true);
+  const [busyEnvelopeId, setBusyEnvelopeId] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  // Stored envelope with the same content as a file uploaded under another name
+  const [pendingMatch, setPendingMatch] = useState<{
+    envelope: EnvelopeRecord;
+    bytes: Uint8Array;
+    metadata: PDFMetadata;
+  } | null>(null);
+  // PKCS#12 credentials by signature ID (kept only in memory)
+  const certificateCredentials = useRef(new Map<string, PKCS12Credentials>());
+  // Pages of the open envelope viewed in the preview since the last signature or refusal, with the time on each
+  const readingTracker = useRef(createReadingTracker());
+  // Snapshot of the tracker, to re-render the signer form as pages are viewed
+  const [readingProgress, setReadingProgress] = useState<ReadingEvidence>(() =>
+    getReadingEvidence(readingTracker.current)
+  );
+
+  // Page views recorded in the log but not saved yet
+  const pageViewsPending = useRef(false);
+
+  /**
+   * Starts tracking the reading of the next signer, or of another document
+   * @param keepDisplayedPage - The next signer of the same document starts on the page still displayed
+   */
+  const resetReading = useCallback((keepDisplayedPage: boolean = false) => {
+    const previous = readingTracker.current;
+    readingTracker.current = createReadingTracker(keepDisplayedPage ? previous.pageCount : 0);
+    if (keepDisplayedPage && previous.viewing) {
+      startPageView(readingTracker.current, previous.viewing.page, previous.pageCount);
+    }
+    setReadingProgress(getReadingEvidence(readingTracker.current));
+  }, []);
+
+  /**
+   * Reloads the envelope list and the storage usage
+   */
+  const refreshEnvelopes = useCallback(async () => {
+    try {
+      setEnvelopes(await listEnvelopes());
+    } catch (error) {
+      console.error('Error listing envelopes:', error);
+    } finally {
+      setIsLoadingEnvelopes(false);
+      setStorageQuota(await getStorageQuota());
+    }
+  }, []);
+
+  /**
+   * Shows an envelope in the signing view
+   */
+  const showEnvelope = useCallback((envelope: Envelope) => {
+    resetReading();
+    setSignatureLog(envelope.log);
+    setChainStatus(null);
+    setStampPlacement(null);
+    if (envelope.pdfBytes) {
+      const { fileName, lastModified } = envelope.log.pdfMetadata;
+      setCurrentFile(
+        new File([envelope.pdfBytes as Uint8Array<ArrayBuffer>], fileName, { type: 'application/pdf', lastModified })
+      );
+      setPdfBytes(envelope.pdfBytes);
+      setIsSaved(true);
+    } else {
+      setCurrentFile(null);
+      setPdfBytes(null);
+      setIsSaved(false);
+    }
+  }, [resetReading]);
+
+  /**
+   * Persists the open envelope and refreshes the envelope list
+   */
+  const persistEnvelope = useCallback(
+    async (log: SignatureLogType, bytes?: Uint8Array | null) => {
+      pageViewsPending.current = false;
+      try {
+        await saveEnvelope(log, bytes);
+        setCurrentEnvelopeId(log.documentId);
+        setIsSaved(true);
+      } catch (error) {
+        setIsSaved(false);
+        toast({
+          variant: 'destructive',
+          title: t.toasts.saveErrorTitle,
+          description: error instanceof Error ? error.message : t.toasts.saveErrorDescription,
+        });
+      } finally {
+        await refreshEnvelopes();
+      }
+    },
+    [toast, refreshEnvelopes, t]
+  );
+
+  /**
+   * Records the pages already in the reading tracker: those viewed before the envelope had a log,
+   * or the page still displayed when the next signer starts
+   * @param log - Signature log
+   * @returns Log with a page view event per tracked page
+   */
+  const addTrackedPageViews = useCallback(
+    (log: SignatureLogType): SignatureLogType => {
+      const { durations, pageCount } = readingTracker.current;
+      return [...durations.keys()].reduce(
+        (next, page) => addAuditEventToLog(next, 'page-viewed', deviceId, { page, pageCount }),
+        log
+      );
+    },
+    [deviceId]
+  );
 
-  // Initialize device ID and load saved log on mount
+  // Initialize device ID and reopen the last envelope on mount
   useEffect(() => {
     const id = getOrCreateDeviceId();
     setDeviceId(id);
 
-    const savedLog = loadSignatureLog();
-    if (savedLog) {
-      setSignatureLog(savedLog);
+    let cancelled = false;
+    const messages = getMessages();
+    (async () => {
+      try {
+        const migratedLog = await migrateLegacySignatureLog();
+        if (migratedLog && !cancelled) {
+          toast({
+            title: messages.toasts.logMigratedTitle,
+            description: messages.toasts.logMigratedDescription(migratedLog.pdfMetadata.fileName),
+          });
+        }
+
+        await requestPersistentStorage();
+        if (cancelled) return;
+        await refreshEnvelopes();
+
+        // Keep the last open envelope ready in the signing view
+        const currentId = getCurrentEnvelopeId();
+        const envelope = currentId ? await loadEnvelope(currentId) : null;
+        if (envelope && !cancelled) showEnvelope(envelope);
+      } catch (error) {
+        console.error('Error loading envelopes:', error);
+        setIsLoadingEnvelopes(false);
+        toast({
+          variant: 'destructive',
+          title: messages.toasts.storageUnavailableTitle,
+          description: messages.toasts.storageUnavailableDescription,
+        });
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [toast, refreshEnvelopes, showEnvelope]);
+
+  // Re-verify the signature chain whenever the log or the document changes
+  useEffect(() => {
+    if (!signatureLog || (signatureLog.signatures.length === 0 && !signatureLog.refusals?.length)) return;
+
+    let cancelled = false;
+    verifySignatureChain(signatureLog, pdfBytes)
+      .then((result) => {
+        if (!cancelled) setChainStatus(result);
+      })
+      .catch((error) => console.error('Error verifying signature chain:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [signatureLog, pdfBytes]);
+
+  /**
+   * Creates and saves a new envelope for a document
+   */
+  const startEnvelope = useCallback(
+    async (metadata: PDFMetadata, bytes: Uint8Array) => {
+      // The trail of a deleted envelope of the same document carries on in the new one
+      const clearedTrail = metadata.contentHash ? await getClearedAuditTrail(metadata.contentHash) : [];
+      const log: SignatureLogType = {
+        ...createSignatureLog(metadata),
+        ...(clearedTrail.length > 0 && { auditTrail: clearedTrail }),
+      };
+      const newLog = addTrackedPageViews(
+        addAuditEventToLog(log, 'uploaded', deviceId, { fileName: metadata.fileName })
+      );
+      setSignatureLog(newLog);
+      await persistEnvelope(newLog, bytes);
+    },
+    [deviceId, persistEnvelope, addTrackedPageViews]
+  );
+
+  /**
+   * Continues a stored envelope with the same document content
+   */
+  const continueEnvelope = useCallback(
+    async (envelope: EnvelopeRecord, metadata: PDFMetadata, bytes: Uint8Array) => {
+      // Logs created before content matching get their hash recorded now
+      const matchedLog: SignatureLogType = envelope.log.pdfMetadata.contentHash
+        ? envelope.log
+        : { ...envelope.log, pdfMetadata: { ...envelope.log.pdfMetadata, contentHash: metadata.contentHash } };
+      const log = addTrackedPageViews(
+        addAuditEventToLog(matchedLog, 'reuploaded', deviceId, { fileName: metadata.fileName })
+      );
+      setSignatureLog(log);
+      await persistEnvelope(log, envelope.hasPdf ? undefined : bytes);
       toast({
-        title: 'Log de assinaturas recuperado',
-        description: `Encontrado log com ${savedLog.signatures.length} assinatura(s). Faça upload do PDF "${savedLog.pdfMetadata.fileName}" para continuar assinando.`,
+        title: t.toasts.documentRecognizedTitle,
+        description: t.toasts.documentRecognizedDescription(log.signatures.length),
       });
-    }
-  }, [toast]);
+    },
+    [deviceId, persistEnvelope, addTrackedPageViews, toast, t]
+  );
+
+  // Count the time on each page displayed in the preview and record its first view by each signer
+  const handlePageView = useCallback(
+    (page: number, pageCount: number) => {
+      const tracker = readingTracker.current;
+      const firstView = !tracker.durations.has(page);
+      startPageView(tracker, page, pageCount);
+      if (!firstView) return;
+
+      setReadingProgress(getReadingEvidence(tracker));
+      // Pages viewed before the envelope has a log are recorded when it is created
+      setSignatureLog((log) => log && addAuditEventToLog(log, 'page-viewed', deviceId, { page, pageCount }));
+      pageViewsPending.current = true;
+    },
+    [deviceId]
+  );
+
+  // Save the page views a moment after the last one, instead of once per page
+  useEffect(() => {
+    if (!pageViewsPending.current || !signatureLog) return;
+
+    const timer = setTimeout(() => {
+      pageViewsPending.current = false;
+      persistEnvelope(signatureLog);
+    }, PAGE_VIEW_SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [signatureLog, persistEnvelope]);
+
+  // Time with the tab hidden does not count as reading
+  useEffect(() => {
+    let hiddenPage: number | null = null;
+    const handleVisibilityChange = () => {
+      const tracker = readingTracker.current;
+      if (document.hidden) {
+        hiddenPage = tracker.viewing?.page ?? null;
+        stopPageView(tracker);
+      } else if (hiddenPage !== null) {
+        startPageView(tracker, hiddenPage, tracker.pageCount);
+        hiddenPage = null;
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
+
+  // Stop counting time on a page once the preview no longer displays it
+  const handlePageHide = useCallback((page: number) => {
+    if (readingTracker.current.viewing?.page === page) stopPageView(readingTracker.current);
+  }, []);
+
+  /**
+   * Gets the audit details of a signature or refusal and starts tracking the reading of the next signer
+   * @param name - Normalized signer name
+   * @param reading - Pages viewed by the signer
+   * @returns Signer and pages viewed in the preview
+   */
+  const takeViewingDetails = useCallback(
+    (name: string, reading: ReadingEvidence): AuditEventDetails => {
+      resetReading(true);
+      return {
+        name,
+        pagesViewed: reading.pages.length,
+        ...(reading.pageCount > 0 && { pageCount: reading.pageCount }),
+      };
+    },
+    [resetReading]
+  );
 
   // Handle file selection
   const handleFileSelect = useCallback(
@@ -52,104 +398,203 @@ function App() {
         if (!isValid) {
           toast({
             variant: 'destructive',
-            title: 'PDF inválido',
-            description: 'O arquivo selecionado não é um PDF válido ou está corrompido.',
+            title: t.toasts.invalidPdfTitle,
+            description: t.toasts.invalidPdfDescription,
           });
           return;
         }
 
+        // The log of another open envelope must not get the page views of this document
+        resetReading();
+        setSignatureLog(null);
         setCurrentFile(file);
         setPdfBytes(bytes);
+        setStampPlacement(null);
+        setPendingMatch(null);
 
-        // Check if we have a saved log that matches this file
-        const savedLog = loadSignatureLog();
-        if (savedLog && isPDFMatchingLog(savedLog, metadata)) {
-          // File matches saved log - user is continuing with same document
-          setSignatureLog(savedLog);
-          toast({
-            title: 'Documento reconhecido',
-            description: `Este documento já possui ${savedLog.signatures.length} assinatura(s) registrada(s). Você pode adicionar mais assinaturas.`,
-          });
+        // Documents are identified by the SHA-256 of their bytes, not by file name
+        const existing = await findEnvelopeByContent(metadata, bytes);
+        if (!existing) {
+          await startEnvelope(metadata, bytes);
+        } else if (existing.log.pdfMetadata.fileName === metadata.fileName) {
+          await continueEnvelope(existing, metadata, bytes);
         } else {
-          // New document - create new log
-          const newLog = createSignatureLog(metadata);
-          setSignatureLog(newLog);
-          saveSignatureLog(newLog);
-
-          if (savedLog) {
-            toast({
-              title: 'Novo documento',
-              description: 'O log anterior foi substituído pelo novo documento.',
-            });
-          }
+          // Same content under another name: let the user decide
+          setSignatureLog(null);
+          setPendingMatch({ envelope: existing, bytes, metadata });
         }
       } catch (error) {
         console.error('Error processing file:', error);
         toast({
           variant: 'destructive',
-          title: 'Erro ao processar arquivo',
-          description: 'Ocorreu um erro ao processar o arquivo PDF.',
+          title: t.toasts.fileErrorTitle,
+          description: t.toasts.fileErrorDescription,
         });
       }
     },
-    [toast]
+    [toast, startEnvelope, continueEnvelope, resetReading, t]
   );
 
+  // Continue the known envelope offered for a renamed file
+  const handleUseExistingLog = useCallback(async () => {
+    if (!pendingMatch) return;
+    setPendingMatch(null);
+    await continueEnvelope(pendingMatch.envelope, pendingMatch.metadata, pendingMatch.bytes);
+  }, [pendingMatch, continueEnvelope]);
+
+  // Ignore the known envelope and start a new one for the renamed file
+  const handleCreateNewFromMatch = useCallback(async () => {
+    if (!pendingMatch) return;
+    setPendingMatch(null);
+    await startEnvelope(pendingMatch.metadata, pendingMatch.bytes);
+  }, [pendingMatch, startEnvelope]);
+
   // Handle signature submission
   const handleSign = useCallback(
-    async (data: SignerFormSchemaType) => {
+    async (data: SignerFormSchemaType, { certificate, handwritten, initials }: SignerAttachments) => {
       if (!pdfBytes || !signatureLog) {
         toast({
           variant: 'destructive',
-          title: 'Erro',
-          description: 'Carregue um PDF antes de assinar.',
+          title: t.toasts.errorTitle,
+          description: t.toasts.uploadBeforeSigning,
         });
         return;
       }
 
+      // Only the signers whose turn it is in the envelope workflow may sign
+      const turnError = getSignerTurnError(signatureLog, data.name, data.identity);
+      if (turnError) {
+        toast({
+          variant: 'destructive',
+          title: t.toasts.signerRefusedTitle,
+          description: t.signerForm.turnErrors[turnError],
+        });
+        return;
+      }
+
+      // Envelopes may require the signer to view every page of the document first
+      const readingSnapshot = getReadingEvidence(readingTracker.current);
+      if (signatureLog.requireFullReading && !hasReadAllPages(readingSnapshot)) {
+        toast({
+          variant: 'destructive',
+          title: t.toasts.readingRequiredTitle,
+          description: t.toasts.readingRequiredDescription(readingSnapshot.pages.length, readingSnapshot.pageCount),
+        });
+        return;
+      }
+
+      let credentials: PKCS12Credentials | null = null;
+      if (certificate) {
+        try {
+          credentials = loadPKCS12Credentials(certificate.bytes, certificate.password);
+        } catch (error) {
+          toast({
+            variant: 'destructive',
+            title: t.toasts.invalidCertificateTitle,
+            description: error instanceof Error ? error.message : t.toasts.invalidCertificateDescription,
+          });
+          return;
+        }
+      }
+
       setIsLoading(true);
 
       try {
         const timestamp = new Date().toISOString();
         const normalizedName = normalizeName(data.name);
-        const normalizedCPF = normalizeCPF(data.cpf);
+        const { identity } = data;
+        const normalizedDocument = normalizeSignerDocument(identity.number, identity.type);
+        const documentIssuer = getSignerDocumentIssuer(identity);
+        // Pages viewed up to now, with the time spent on each; absent if the preview never showed a page
+        const readingEvidence = getReadingEvidence(readingTracker.current);
+        const reading = readingEvidence.pageCount > 0 ? readingEvidence : undefined;
+
+        // Chain to the previous signature (or to the genesis derived from the document)
+        const lastSignature = signatureLog.signatures[signatureLog.signatures.length - 1];
+        const previousHash = lastSignature
+          ? lastSignature.hash
+          : await generateChainGenesis(signatureLog.documentId, pdfBytes);
 
-        // Generate hash using current PDF bytes
-        const hash = await generateSignatureHash(
-          pdfBytes,
-          normalizedName,
-          normalizedCPF,
+        // Generate hash using current PDF bytes (and the drawn signature, if any)
+        const hash = await generateSignatureHash(pdfBytes, {
+          name: normalizedName,
+          cpf: normalizedDocument,
+          documentType: identity.type,
+          documentIssuer,
+          role: data.role,
           deviceId,
-          timestamp
-        );
+          timestamp,
+          previousHash,
+          certificate: credentials?.info.fingerprint,
+          placement: getPlacementHashInput(stampPlacement ?? undefined),
+          handwrittenImage: handwritten ? base64ToBytes(handwritten.image) : undefined,
+          initials: getInitialsHashInput(initials ?? undefined),
+          reading: getReadingHashInput(reading),
+        });
+
+        // Sign the hash with this device's non-extractable key
+        const deviceSigning = await signWithDeviceKey(hash);
+
+        // Trusted timestamp (RFC 3161) over the signature hash, when a TSA is configured;
+        // signing proceeds without it if the TSA fails
+        let timestampToken: TimestampToken | null = null;
+        const timestampAuthority = getTimestampAuthority();
+        try {
+          if (timestampAuthority) timestampToken = await requestTimestamp(timestampAuthority, hash);
+        } catch (error) {
+          console.error('Error requesting timestamp:', error);
+          toast({
+            title: t.toasts.timestampUnavailableTitle,
+            description:
+              error instanceof Error
+                ? `${error.message} ${t.toasts.timestampUnavailableDescription}`
+                : t.toasts.timestampUnavailableDescription,
+          });
+        }
 
         // Create signature data
         const signature: SignatureData = {
           id: crypto.randomUUID(),
           name: normalizedName,
-          cpf: normalizedCPF,
+          cpf: normalizedDocument,
+          documentType: identity.type,
+          ...(documentIssuer && { documentIssuer }),
+          role: data.role,
           deviceId,
           timestamp,
           hash,
+          previousHash,
+          devicePublicKey: deviceSigning.publicKey,
+          deviceSignature: deviceSigning.signature,
+          ...(credentials && { certificate: credentials.info }),
+          ...(timestampToken && { timestampToken }),
+          ...(stampPlacement && { placement: stampPlacement }),
+          ...(handwritten && { handwritten }),
+          ...(initials && { initials }),
+          ...(reading && { reading }),
         };
 
-        // Apply stamp to PDF
-        const newPdfBytes = await applySignatureStamp(
-          pdfBytes,
-          signature,
-          signatureLog.signatures.length
-        );
+        if (credentials) {
+          certificateCredentials.current.set(signature.id, credentials);
+        }
 
-        // Update state
-        setPdfBytes(newPdfBytes);
-        const updatedLog = addSignatureToLog(signatureLog, signature);
+        // Update state; the visual stamp is drawn when the PDF is finalized
+        const updatedLog = addTrackedPageViews(
+          addAuditEventToLog(
+            addSignatureToLog(signatureLog, signature),
+            'signed',
+            deviceId,
+            takeViewingDetails(normalizedName, readingEvidence)
+          )
+        );
         setSignatureLog(updatedLog);
-        saveSignatureLog(updatedLog);
+        setStampPlacement(null);
+        await persistEnvelope(updatedLog, pdfBytes);
 
         toast({
           variant: 'success',
-          title: 'Assinatura aplicada!',
-          description: `Documento assinado por ${normalizedName}. Hash: ${hash.substring(0, 16)}...`,
+          title: t.toasts.signedTitle,
+          description: t.toasts.signedDescription(normalizedName, hash.substring(0, 16)),
         });
 
         console.log('Assinatura completa:', {
@@ -160,129 +605,705 @@ function App() {
         console.error('Error signing PDF:', error);
         toast({
           variant: 'destructive',
-          title: 'Erro ao assinar',
-          description: 'Ocorreu um erro ao aplicar a assinatura no PDF.',
+          title: t.toasts.signErrorTitle,
+          description: t.toasts.signErrorDescription,
         });
       } finally {
         setIsLoading(false);
       }
     },
-    [pdfBytes, signatureLog, deviceId, toast]
+    [
+      pdfBytes,
+      signatureLog,
+      deviceId,
+      stampPlacement,
+      toast,
+      persistEnvelope,
+      takeViewingDetails,
+      addTrackedPageViews,
+      t,
+    ]
   );
 
-  // Handle PDF download
-  const handleDownload = useCallback(async () => {
-    if (!pdfBytes || !currentFile || !signatureLog) return;
+  // Record that a signer declines to sign; the envelope can no longer be finalized
+  const handleRefuse = useCallback(
+    async (data: SignerFormSchemaType, reason: string) => {
+      if (!pdfBytes || !signatureLog) {
+        toast({
+          variant: 'destructive',
+          title: t.toasts.errorTitle,
+          description: t.toasts.uploadBeforeSigning,
+        });
+        return;
+      }
 
-    setIsDownloading(true);
+      const refusalError = getSignerRefusalError(signatureLog, data.name, data.identity);
+      if (refusalError) {
+        toast({
+          variant: 'destructive',
+          title: t.toasts.signerRefusedTitle,
+          description: t.signerForm.turnErrors[refusalError],
+        });
+        return;
+      }
+
+      setIsLoading(true);
+
+      try {
+        const timestamp = new Date().toISOString();
+        const normalizedName = normalizeName(data.name);
+        const { identity } = data;
+        const normalizedDocument = normalizeSignerDocument(identity.number, identity.type);
+        const documentIssuer = getSignerDocumentIssuer(identity);
+
+        // Chain to the last signature, like the next signature would
+        const lastSignature = signatureLog.signatures[signatureLog.signatures.length - 1];
+        const previousHash = lastSignature
+          ? lastSignature.hash
+          : await generateChainGenesis(signatureLog.documentId, pdfBytes);
+
+        const hash = await generateRefusalHash(pdfBytes, {
+          name: normalizedName,
+          cpf: normalizedDocument,
+          documentType: identity.type,
+          documentIssuer,
+          role: data.role,
+          reason,
+          deviceId,
+          timestamp,
+          previousHash,
+        });
+        const deviceSigning = await signWithDeviceKey(hash);
+
+        const refusal: SignatureRefusal = {
+          id: crypto.randomUUID(),
+          name: normalizedName,
+          cpf: normalizedDocument,
+          documentType: identity.type,
+          ...(documentIssuer && { documentIssuer }),
+          role: data.role,
+          reason,
+          deviceId,
+          timestamp,
+          hash,
+          previousHash,
+          devicePublicKey: deviceSigning.publicKey,
+          deviceSignature: deviceSigning.signature,
+        };
+
+        const updatedLog = addTrackedPageViews(
+          addAuditEventToLog(
+            addRefusalToLog(signatureLog, refusal),
+            'refused',
+            deviceId,
+            takeViewingDetails(normalizedName, getReadingEvidence(readingTracker.current))
+          )
+        );
+        setSignatureLog(updatedLog);
+        await persistEnvelope(updatedLog, pdfBytes);
+
+        toast({
+          variant: 'destructive',
+          title: t.toasts.refusalRecordedTitle,
+          description: t.toasts.refusalRecordedDescription(normalizedName),
+        });
+      } catch (error) {
+        console.error('Error recording refusal:', error);
+        toast({
+          variant: 'destructive',
+          title: t.toasts.refusalErrorTitle,
+          description: t.toasts.refusalErrorDescription,
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [pdfBytes, signatureLog, deviceId, toast, persistEnvelope, takeViewingDetails, addTrackedPageViews, t]
+  );
+
+  /**
+   * Finalizes an envelope (protocol page, headers, manifest, optional PAdES) and downloads it
+   * @param log - Envelope signature log
+   * @param bytes - Envelope PDF bytes
+   */
+  const downloadFinalizedEnvelope = useCallback(
+    async (log: SignatureLogType, bytes: Uint8Array) => {
+      // A final version is only produced once the signing workflow is completed
+      const workflowStatus = getWorkflowStatus(log);
+      if (workflowStatus !== 'completed') {
+        toast({
+          variant: 'destructive',
+          title: t.toasts.workflowIncompleteTitle,
+          description: t.toasts.workflowIncompleteDescription(t.common.workflowStatus[workflowStatus]),
+        });
+        return;
+      }
+
+      // The PAdES signature uses the latest certificate loaded in this session
+      const certificateSignature = [...log.signatures]
+        .reverse()
+        .find((signature) => certificateCredentials.current.has(signature.id));
+      const pades = certificateSignature
+        ? certificateCredentials.current.get(certificateSignature.id)
+        : undefined;
 
-    try {
       // Finalize PDF with protocol page and hash headers on all pages
-      const finalizedPdfBytes = await finalizePDFWithProtocol(pdfBytes, signatureLog);
-      
-      const blob = new Blob([finalizedPdfBytes.buffer as ArrayBuffer], { type: 'application/pdf' });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      
+      const finalizedPdfBytes = await finalizePDFWithProtocol(bytes, log, { pades, template: protocolTemplate });
+
       // Generate filename with suffix
-      const originalName = currentFile.name.replace(/\.pdf$/i, '');
-      const signatureCount = signatureLog?.signatures.length || 0;
-      link.download = `${originalName}_assinado_${signatureCount}x.pdf`;
-      link.href = url;
-      
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
+      const originalName = log.pdfMetadata.fileName.replace(/\.pdf$/i, '');
+      const fileName = `${originalName}_assinado_${log.signatures.length}x.pdf`;
+      downloadFile(finalizedPdfBytes.buffer as ArrayBuffer, fileName, 'application/pdf');
+
+      // Record the finalization so the dashboard can show it
+      const now = new Date().toISOString();
+      const finalizedLog: SignatureLogType = addAuditEventToLog(
+        { ...log, finalizedAt: now, updatedAt: now },
+        'downloaded',
+        deviceId,
+        { fileName }
+      );
+      try {
+        await saveEnvelope(finalizedLog);
+      } catch (error) {
+        console.error('Error recording finalization:', error);
+      }
+      if (log.documentId === signatureLog?.documentId) {
+        setSignatureLog(finalizedLog);
+      }
+      await refreshEnvelopes();
+
+      // Only one certificate signs the file; the protocol says which, and so does the toast
+      const otherCertificates = log.signatures.some(
+        (signature) => signature.certificate && signature.certificate.serialNumber !== pades?.info.serialNumber
+      );
+      toast({
+        title: t.toasts.downloadStartedTitle,
+        description: !pades
+          ? otherCertificates
+            ? t.toasts.downloadWithoutPades
+            : t.toasts.downloadWithProtocol
+          : otherCertificates
+            ? t.toasts.downloadWithPadesOthersInProtocol(pades.info.commonName)
+            : t.toasts.downloadWithPades(pades.info.commonName),
+      });
+    },
+    [signatureLog, deviceId, protocolTemplate, refreshEnvelopes, toast, t]
+  );
+
+  // Download the protocol of a refused envelope, which is not finalized
+  const handleDownloadRefusal = useCallback(async () => {
+    if (!pdfBytes || !signatureLog?.refusals?.length) return;
+
+    setIsDownloading(true);
+
+    try {
+      const recordBytes = await finalizePDFWithProtocol(pdfBytes, signatureLog, { template: protocolTemplate });
+      const fileName = `${signatureLog.pdfMetadata.fileName.replace(/\.pdf$/i, '')}_recusado.pdf`;
+      downloadFile(recordBytes.buffer as ArrayBuffer, fileName, 'application/pdf');
 
+      const updatedLog = addAuditEventToLog(signatureLog, 'downloaded', deviceId, { fileName });
+      setSignatureLog(updatedLog);
+      await persistEnvelope(updatedLog);
       toast({
-        title: 'Download iniciado',
-        description: 'O PDF assinado com protocolo está sendo baixado.',
+        title: t.toasts.refusalDownloadedTitle,
+        description: t.toasts.refusalDownloadedDescription,
       });
+    } catch (error) {
+      console.error('Error downloading refusal record:', error);
+      toast({
+        variant: 'destructive',
+        title: t.toasts.downloadErrorTitle,
+        description: t.toasts.downloadErrorDescription,
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  }, [pdfBytes, signatureLog, deviceId, protocolTemplate, persistEnvelope, toast, t]);
+
+  // Handle PDF download
+  const handleDownload = useCallback(async () => {
+    if (!pdfBytes || !currentFile || !signatureLog) return;
+
+    setIsDownloading(true);
+
+    try {
+      await downloadFinalizedEnvelope(signatureLog, pdfBytes);
     } catch (error) {
       console.error('Error downloading PDF:', error);
       toast({
         variant: 'destructive',
-        title: 'Erro ao baixar',
-        description: 'Ocorreu um erro ao baixar o PDF assinado.',
+        title: t.toasts.downloadErrorTitle,
+        description: t.toasts.downloadErrorDescription,
       });
     } finally {
       setIsDownloading(false);
     }
-  }, [pdfBytes, currentFile, signatureLog, toast]);
+  }, [pdfBytes, currentFile, signatureLog, downloadFinalizedEnvelope, toast, t]);
 
-  // Handle clear/reset
-  const handleClear = useCallback(() => {
+  /**
+   * Downloads signature logs as versioned JSON or flat CSV
+   */
+  const exportLogs = useCallback((logs: SignatureLogType[], format: LogExportFormat, baseName: string) => {
+    if (format === 'json') {
+      downloadFile(exportLogsToJSON(logs), `${baseName}.json`, 'application/json');
+    } else {
+      downloadFile(exportLogsToCSV(logs), `${baseName}.csv`, 'text/csv;charset=utf-8');
+    }
+  }, []);
+
+  // Export the log of the open envelope
+  const handleExportLog = useCallback(
+    (format: LogExportFormat) => {
+      if (!signatureLog) return;
+      exportLogs([signatureLog], format, `${signatureLog.pdfMetadata.fileName.replace(/\.pdf$/i, '')}_log`);
+    },
+    [signatureLog, exportLogs]
+  );
+
+  // Export the logs of every stored envelope
+  const handleExportAllLogs = useCallback(
+    (format: LogExportFormat) => {
+      if (envelopes.length === 0) return;
+      const date = new Date().toISOString().slice(0, 10);
+      exportLogs(
+        envelopes.map((envelope) => envelope.log),
+        format,
+        `logs_assinaturas_${date}`
+      );
+    },
+    [envelopes, exportLogs]
+  );
+
+  // Import logs exported as JSON or CSV into the repository
+  const handleImportLogs = useCallback(
+    async (file: File) => {
+      setIsImporting(true);
+
+      try {
+        const logs = await importLogsFromFile(await file.text(), file.name);
+        const result = await importSignatureLogs(logs);
+        toast({
+          variant: 'success',
+          title: t.toasts.logsImportedTitle,
+          description: t.toasts.logsImportedDescription(result.imported, result.updated, result.skipped),
+        });
+      } catch (error) {
+        console.error('Error importing logs:', error);
+        toast({
+          variant: 'destructive',
+          title: t.toasts.importRejectedTitle,
+          description: error instanceof Error ? error.message : t.toasts.importRejectedDescription,
+        });
+      } finally {
+        setIsImporting(false);
+        await refreshEnvelopes();
+      }
+    },
+    [refreshEnvelopes, toast, t]
+  );
+
+  // Reopen an envelope from the dashboard
+  const handleOpenEnvelope = useCallback(
+    async (id: string) => {
+      try {
+        const envelope = await loadEnvelope(id);
+        if (!envelope) {
+          toast({
+            variant: 'destructive',
+            title: t.toasts.envelopeNotFoundTitle,
+            description: t.toasts.envelopeNotFoundDescription,
+          });
+          await refreshEnvelopes();
+          return;
+        }
+
+        const openedLog = addAuditEventToLog(envelope.log, 'opened', deviceId);
+        await saveEnvelope(openedLog);
+        showEnvelope({ ...envelope, log: openedLog });
+        setCurrentEnvelopeId(id);
+        setView('sign');
+
+        if (!envelope.pdfBytes) {
+          toast({
+            title: t.toasts.uploadPdfTitle,
+            description: t.toasts.uploadPdfDescription(envelope.log.pdfMetadata.fileName),
+          });
+        }
+      } catch (error) {
+        console.error('Error opening envelope:', error);
+        toast({
+          variant: 'destructive',
+          title: t.toasts.openErrorTitle,
+          description: t.toasts.openErrorDescription,
+        });
+      }
+    },
+    [deviceId, showEnvelope, refreshEnvelopes, toast, t]
+  );
+
+  // Finalize and download an envelope from the dashboard
+  const handleFinalizeEnvelope = useCallback(
+    async (id: string) => {
+      setBusyEnvelopeId(id);
+
+      try {
+        const envelope = await loadEnvelope(id);
+        if (!envelope?.pdfBytes) {
+          toast({
+            variant: 'destructive',
+            title: t.toasts.pdfUnavailableTitle,
+            description: t.toasts.pdfUnavailableDescription,
+          });
+          return;
+        }
+        await downloadFinalizedEnvelope(envelope.log, envelope.pdfBytes);
+      } catch (error) {
+        console.error('Error finalizing envelope:', error);
+        toast({
+          variant: 'destructive',
+          title: t.toasts.finalizeErrorTitle,
+          description: t.toasts.finalizeErrorDescription,
+        });
+      } finally {
+        setBusyEnvelopeId(null);
+      }
+    },
+    [downloadFinalizedEnvelope, toast, t]
+  );
+
+  /**
+   * Closes the open envelope without deleting it
+   */
+  const closeEnvelope = useCallback(() => {
     setCurrentFile(null);
     setPdfBytes(null);
+    setStampPlacement(null);
     setSignatureLog(null);
-    clearSignatureLog();
+    setChainStatus(null);
+    setIsSaved(false);
+    setPendingMatch(null);
+    setCurrentEnvelopeId(null);
+  }, []);
+
+  // Start a new envelope from the dashboard; the open one stays saved with its closing recorded
+  const handleNewEnvelope = useCallback(async () => {
+    const openLog = signatureLog;
+    closeEnvelope();
+    setView('sign');
+
+    if (openLog) {
+      try {
+        await saveEnvelope(addAuditEventToLog(openLog, 'closed', deviceId));
+        await refreshEnvelopes();
+      } catch (error) {
+        console.error('Error recording envelope closing:', error);
+      }
+    }
+  }, [signatureLog, deviceId, closeEnvelope, refreshEnvelopes]);
+
+  // Delete an envelope from the dashboard
+  const handleDeleteEnvelope = useCallback(
+    async (id: string) => {
+      setBusyEnvelopeId(id);
+
+      try {
+        await deleteEnvelope(id, deviceId);
+        if (id === signatureLog?.documentId) {
+          closeEnvelope();
+        }
+        toast({
+          title: t.toasts.envelopeDeletedTitle,
+          description: t.toasts.envelopeDeletedDescription,
+        });
+      } catch (error) {
+        console.error('Error deleting envelope:', error);
+        toast({
+          variant: 'destructive',
+          title: t.toasts.deleteErrorTitle,
+          description: t.toasts.deleteErrorDescription,
+        });
+      } finally {
+        setBusyEnvelopeId(null);
+        await refreshEnvelopes();
+      }
+    },
+    [signatureLog, deviceId, closeEnvelope, refreshEnvelopes, toast, t]
+  );
+
+  // Save the protocol template edited in the settings screen
+  const handleSaveTemplate = useCallback(
+    async (template: ProtocolTemplate) => {
+      try {
+        setProtocolTemplate(saveProtocolTemplate(template));
+        toast({
+          variant: 'success',
+          title: t.toasts.templateSavedTitle,
+          description: t.toasts.templateSavedDescription,
+        });
+      } catch (error) {
+        toast({
+          variant: 'destructive',
+          title: t.toasts.templateInvalidTitle,
+          description: error instanceof Error ? error.message : t.toasts.templateInvalidDescription,
+        });
+      }
+    },
+    [toast, t]
+  );
 
+  // Go back to the default protocol template
+  const handleResetTemplate = useCallback(() => {
+    clearProtocolTemplate();
+    setProtocolTemplate(DEFAULT_PROTOCOL_TEMPLATE);
     toast({
-      title: 'Documento removido',
-      description: 'O documento e o log de assinaturas foram limpos.',
+      title: t.toasts.templateResetTitle,
+      description: t.toasts.templateResetDescription,
     });
-  }, [toast]);
+  }, [toast, t]);
+
+  // Record the protocol language of the open envelope
+  const handleProtocolLocaleChange = useCallback(
+    async (protocolLocale: Locale) => {
+      if (!signatureLog) return;
+      const updatedLog: SignatureLogType = { ...signatureLog, protocolLocale };
+      setSignatureLog(updatedLog);
+      await persistEnvelope(updatedLog);
+    },
+    [signatureLog, persistEnvelope]
+  );
+
+  // Record the author of the open envelope; an empty name removes it
+  const handleAuthorChange = useCallback(
+    async (author: string) => {
+      if (!signatureLog) return;
+      const updatedLog: SignatureLogType = { ...signatureLog, author: author || undefined };
+      setSignatureLog(updatedLog);
+      await persistEnvelope(updatedLog);
+    },
+    [signatureLog, persistEnvelope]
+  );
+
+  // Record whether signers of the open envelope must view every page before signing
+  const handleRequireFullReadingChange = useCallback(
+    async (required: boolean) => {
+      if (!signatureLog) return;
+      const updatedLog: SignatureLogType = { ...signatureLog, requireFullReading: required || undefined };
+      setSignatureLog(updatedLog);
+      await persistEnvelope(updatedLog);
+    },
+    [signatureLog, persistEnvelope]
+  );
+
+  // Record the signing workflow of the open envelope; removing every expected signer removes it
+  const handleWorkflowChange = useCallback(
+    async (workflow: SigningWorkflow | undefined) => {
+      if (!signatureLog) return;
+      const updatedLog: SignatureLogType = { ...signatureLog, workflow };
+      setSignatureLog(updatedLog);
+      await persistEnvelope(updatedLog);
+    },
+    [signatureLog, persistEnvelope]
+  );
+
+  // Handle clear/reset
+  const handleClear = useCallback(async () => {
+    const openLog = signatureLog;
+    const hasPendingViews = pageViewsPending.current;
+    pageViewsPending.current = false;
+    closeEnvelope();
+    certificateCredentials.current.clear();
+
+    try {
+      if (openLog) {
+        // Page views not saved yet still go into the trail kept after deletion
+        if (hasPendingViews) await saveEnvelope(openLog);
+        await deleteEnvelope(openLog.documentId, deviceId);
+      }
+      await refreshEnvelopes();
+      toast({
+        title: t.toasts.documentRemovedTitle,
+        description: t.toasts.documentRemovedDescription,
+      });
+    } catch (error) {
+      console.error('Error deleting envelope:', error);
+      toast({
+        variant: 'destructive',
+        title: t.toasts.removeErrorTitle,
+        description: t.toasts.removeErrorDescription,
+      });
+    }
+  }, [signatureLog, deviceId, closeEnvelope, refreshEnvelopes, toast, t]);
+
+  const readingPending = !!signatureLog?.requireFullReading && !hasReadAllPages(readingProgress);
 
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
       <header className="border-b bg-card">
         <div className="container mx-auto px-4 py-4">
-          <div className="flex items-center gap-3">
-            <FileSignature className="h-8 w-8 text-primary" />
-            <div>
-              <h1 className="text-2xl font-bold tracking-tight">
-                Assinatura Eletrônica de PDF
-              </h1>
-              <p className="text-sm text-muted-foreground">
-                MVP - Aplicação 100% Frontend
-              </p>
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex items-center gap-3">
+              <FileSignature className="h-8 w-8 text-primary" />
+              <div>
+                <h1 className="text-2xl font-bold tracking-tight">{t.app.title}</h1>
+                <p className="text-sm text-muted-foreground">{t.app.subtitle}</p>
+              </div>
             </div>
+            <nav className="flex flex-wrap items-center gap-2">
+              <Button
+                variant={view === 'home' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setView('home')}
+              >
+                <Inbox className="h-4 w-4" />
+                {t.app.nav.envelopes}
+              </Button>
+              <Button
+                variant={view === 'sign' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setView('sign')}
+              >
+                <PenTool className="h-4 w-4" />
+                {t.app.nav.sign}
+              </Button>
+              <Button
+                variant={view === 'verify' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setView('verify')}
+              >
+                <ShieldCheck className="h-4 w-4" />
+                {t.app.nav.verify}
+              </Button>
+              <Button
+                variant={view === 'settings' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setView('settings')}
+              >
+                <Settings className="h-4 w-4" />
+                {t.app.nav.settings}
+              </Button>
+              <NativeSelect
+                aria-label={t.app.language}
+                className="h-9 w-auto"
+                value={locale}
+                onChange={(e) => isLocale(e.target.value) && setLocale(e.target.value)}
+              >
+                {LOCALES.map((option) => (
+                  <option key={option} value={option}>
+                    {LOCALE_NAMES[option]}
+                  </option>
+                ))}
+              </NativeSelect>
+            </nav>
           </div>
         </div>
       </header>
 
       {/* Main Content */}
       <main className="container mx-auto px-4 py-6">
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          {/* Left Column - Upload & Preview */}
-          <div className="space-y-6">
-            <PDFUpload
-              onFileSelect={handleFileSelect}
-              onClear={handleClear}
-              currentFile={currentFile}
-              hasSignatures={signatureLog?.signatures.length ? signatureLog.signatures.length > 0 : false}
+        {view === 'home' ? (
+          <div className="max-w-4xl mx-auto">
+            <EnvelopeDashboard
+              envelopes={envelopes}
+              currentEnvelopeId={signatureLog?.documentId ?? null}
+              isLoading={isLoadingEnvelopes}
+              busyEnvelopeId={busyEnvelopeId}
+              onOpen={handleOpenEnvelope}
+              onFinalize={handleFinalizeEnvelope}
+              onDelete={handleDeleteEnvelope}
+              onNew={handleNewEnvelope}
+              onExportAll={handleExportAllLogs}
+              onImport={handleImportLogs}
+              isImporting={isImporting}
             />
-            <PDFPreview pdfBytes={pdfBytes} />
           </div>
-
-          {/* Right Column - Form & Log */}
-          <div className="space-y-6">
-            <ActionBar
-              deviceId={deviceId}
-              hasFile={!!currentFile}
-              hasSignatures={signatureLog?.signatures.length ? signatureLog.signatures.length > 0 : false}
-              onDownload={handleDownload}
-              onClear={handleClear}
-              isDownloading={isDownloading}
-            />
-            <SignerForm
-              onSubmit={handleSign}
-              disabled={!currentFile}
-              isLoading={isLoading}
+        ) : view === 'verify' ? (
+          <div className="max-w-2xl mx-auto">
+            <DocumentVerifier />
+          </div>
+        ) : view === 'settings' ? (
+          <div className="max-w-3xl mx-auto">
+            <ProtocolSettings
+              template={protocolTemplate}
+              onSave={handleSaveTemplate}
+              onReset={handleResetTemplate}
             />
-            <SignatureLog signatures={signatureLog?.signatures || []} />
           </div>
-        </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Left Column - Upload & Preview */}
+            <div className="space-y-6">
+              {pendingMatch && (
+                <DocumentMatchPrompt
+                  fileName={pendingMatch.metadata.fileName}
+                  envelope={pendingMatch.envelope}
+                  onUseExisting={handleUseExistingLog}
+                  onCreateNew={handleCreateNewFromMatch}
+                />
+              )}
+              <PDFUpload
+                onFileSelect={handleFileSelect}
+                onClear={handleClear}
+                currentFile={currentFile}
+                hasSignatures={signatureLog?.signatures.length ? signatureLog.signatures.length > 0 : false}
+              />
+              <PDFPreview
+                pdfBytes={pdfBytes}
+                stamps={signatureLog?.signatures ?? []}
+                placement={stampPlacement}
+                onPlacementChange={setStampPlacement}
+                onPageView={handlePageView}
+                onPageHide={handlePageHide}
+              />
+            </div>
+
+            {/* Right Column - Form & Log */}
+            <div className="space-y-6">
+              <ActionBar
+                deviceId={deviceId}
+                hasFile={!!currentFile}
+                hasSignatures={signatureLog?.signatures.length ? signatureLog.signatures.length > 0 : false}
+                workflowStatus={signatureLog ? getWorkflowStatus(signatureLog) : 'pending'}
+                onDownload={handleDownload}
+                onDownloadRefusal={handleDownloadRefusal}
+                onClear={handleClear}
+                onExportLog={handleExportLog}
+                isDownloading={isDownloading}
+                isSaved={isSaved}
+                storageQuota={storageQuota}
+                protocolLocale={signatureLog?.protocolLocale}
+                onProtocolLocaleChange={handleProtocolLocaleChange}
+                author={signatureLog?.author}
+                onAuthorChange={handleAuthorChange}
+                requireFullReading={signatureLog?.requireFullReading}
+                onRequireFullReadingChange={handleRequireFullReadingChange}
+              />
+              <WorkflowEditor signatureLog={signatureLog} onChange={handleWorkflowChange} />
+              <SignerForm
+                onSubmit={handleSign}
+                onRefuse={handleRefuse}
+                signatureLog={signatureLog}
+                pendingReading={
+                  readingPending ? { viewed: readingProgress.pages.length, pageCount: readingProgress.pageCount } : null
+                }
+                disabled={!currentFile || !signatureLog}
+                isLoading={isLoading}
+              />
+              <SignatureLog
+                signatures={signatureLog?.signatures || []}
+                refusals={signatureLog?.refusals}
+                chainStatus={signatureLog?.signatures.length || signatureLog?.refusals?.length ? chainStatus : null}
+              />
+            </div>
+          </div>
+        )}
       </main>
 
       {/* Footer */}
       <footer className="border-t bg-card mt-8">
         <div className="container mx-auto px-4 py-4">
-          <p className="text-sm text-muted-foreground text-center">
-            MVP - Assinatura Eletrônica de PDF | Sem backend | Device ID substitui IP real
-          </p>
+          <p className="text-sm text-muted-foreground text-center">{t.app.footer}</p>
         </div>
       </footer>
 
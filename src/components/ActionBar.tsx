@@ -1,30 +1,84 @@
 import { useState, useCallback } from 'react';
-import { ClipboardCopy, Check, Download, Trash2, AlertTriangle, Info } from 'lucide-react';
+import {
+  ClipboardCopy,
+  Check,
+  Download,
+  Trash2,
+  AlertTriangle,
+  Info,
+  HardDrive,
+  FileJson,
+  FileSpreadsheet,
+  Languages,
+  UserPen,
+  Ban,
+  BookOpenCheck,
+} from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
 import { Separator } from '@/components/ui/separator';
+import { NativeSelect } from '@/components/ui/native-select';
+import type { Locale, LogExportFormat, StorageQuota, WorkflowStatus } from '@/types';
+import { DEFAULT_LOCALE, LOCALES, LOCALE_NAMES, formatNumber, isLocale, useI18n } from '@/i18n';
 import { cn } from '@/lib/utils';
 
 interface ActionBarProps {
   deviceId: string;
   hasFile: boolean;
   hasSignatures: boolean;
+  /** The final PDF is only produced once the signing workflow is completed */
+  workflowStatus: WorkflowStatus;
   onDownload: () => void;
+  /** Downloads the protocol of a refused envelope, offered instead of the final PDF */
+  onDownloadRefusal: () => void;
   onClear: () => void;
+  onExportLog: (format: LogExportFormat) => void;
+  /** Language of the protocol pages of the open envelope */
+  protocolLocale?: Locale;
+  onProtocolLocaleChange: (locale: Locale) => void;
+  /** Author of the open envelope, printed on the protocol */
+  author?: string;
+  onAuthorChange: (author: string) => void;
+  /** Signers of the open envelope must view every page before signing */
+  requireFullReading?: boolean;
+  onRequireFullReadingChange: (required: boolean) => void;
   isDownloading: boolean;
+  isSaved: boolean;
+  storageQuota: StorageQuota | null;
   className?: string;
 }
 
+const SIZE_FORMAT: Intl.NumberFormatOptions = { minimumFractionDigits: 1, maximumFractionDigits: 1 };
+
+function formatStorageSize(bytes: number, locale: Locale): string {
+  if (bytes < 1024 * 1024) return `${formatNumber(bytes / 1024, locale, SIZE_FORMAT)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${formatNumber(bytes / (1024 * 1024), locale, SIZE_FORMAT)} MB`;
+  return `${formatNumber(bytes / (1024 * 1024 * 1024), locale, SIZE_FORMAT)} GB`;
+}
+
 export function ActionBar({
   deviceId,
   hasFile,
   hasSignatures,
+  workflowStatus,
   onDownload,
+  onDownloadRefusal,
   onClear,
+  onExportLog,
+  protocolLocale = DEFAULT_LOCALE,
+  onProtocolLocaleChange,
+  author,
+  onAuthorChange,
+  requireFullReading = false,
+  onRequireFullReadingChange,
   isDownloading,
+  isSaved,
+  storageQuota,
   className,
 }: ActionBarProps) {
+  const { t, locale } = useI18n();
   const [copiedDeviceId, setCopiedDeviceId] = useState(false);
 
   const copyDeviceId = useCallback(async () => {
@@ -60,12 +114,12 @@ export function ActionBar({
               {copiedDeviceId ? (
                 <>
                   <Check className="h-4 w-4 mr-1 text-green-500" />
-                  Copiado
+                  {t.common.copied}
                 </>
               ) : (
                 <>
                   <ClipboardCopy className="h-4 w-4 mr-1" />
-                  Copiar
+                  {t.common.copy}
                 </>
               )}
             </Button>
@@ -75,8 +129,7 @@ export function ActionBar({
           <div className="flex items-start gap-2 p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm">
             <Info className="h-4 w-4 text-blue-500 shrink-0 mt-0.5" />
             <div className="text-blue-700">
-              <span className="font-medium">MVP - Modo Offline:</span> O Device ID substitui o IP 
-              real neste MVP. Em produção, o IP será obtido via backend.
+              <span className="font-medium">{t.actionBar.offlineTitle}</span> {t.actionBar.offlineDescription}
             </div>
           </div>
 
@@ -84,14 +137,26 @@ export function ActionBar({
 
           {/* Actions */}
           <div className="flex flex-wrap gap-3">
-            <Button
-              onClick={onDownload}
-              disabled={!hasFile || !hasSignatures || isDownloading}
-              className="flex-1 min-w-[140px]"
-            >
-              <Download className="mr-2 h-4 w-4" />
-              {isDownloading ? 'Baixando...' : 'Baixar PDF Assinado'}
-            </Button>
+            {workflowStatus === 'refused' ? (
+              <Button
+                variant="destructive"
+                onClick={onDownloadRefusal}
+                disabled={!hasFile || isDownloading}
+                className="flex-1 min-w-[140px]"
+              >
+                <Ban className="mr-2 h-4 w-4" />
+                {isDownloading ? t.actionBar.downloading : t.actionBar.downloadRefusal}
+              </Button>
+            ) : (
+              <Button
+                onClick={onDownload}
+                disabled={!hasFile || workflowStatus !== 'completed' || isDownloading}
+                className="flex-1 min-w-[140px]"
+              >
+                <Download className="mr-2 h-4 w-4" />
+                {isDownloading ? t.actionBar.downloading : t.actionBar.download}
+              </Button>
+            )}
             <Button
               variant="outline"
               onClick={onClear}
@@ -99,17 +164,125 @@ export function ActionBar({
               className="flex-1 min-w-[140px]"
             >
               <Trash2 className="mr-2 h-4 w-4" />
-              Limpar Tudo
+              {t.actionBar.clearAll}
             </Button>
           </div>
 
-          {/* Warning about persistence */}
-          {hasSignatures && (
+          {hasFile && workflowStatus === 'refused' ? (
+            <p className="text-xs text-destructive">{t.actionBar.refused}</p>
+          ) : (
+            hasFile &&
+            hasSignatures &&
+            workflowStatus !== 'completed' && (
+              <p className="text-xs text-muted-foreground">{t.actionBar.workflowIncomplete}</p>
+            )
+          )}
+
+          {/* Envelope author, saved when the field loses focus */}
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <UserPen className="h-4 w-4 text-muted-foreground" />
+            <label htmlFor="envelope-author" className="text-muted-foreground">
+              {t.actionBar.author}
+            </label>
+            <Input
+              key={author ?? ''}
+              id="envelope-author"
+              defaultValue={author ?? ''}
+              placeholder={t.actionBar.authorPlaceholder}
+              maxLength={100}
+              onBlur={(e) => {
+                const value = e.target.value.trim();
+                if (value !== (author ?? '')) onAuthorChange(value);
+              }}
+              onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+              disabled={!hasFile}
+              className="h-9 flex-1 min-w-[180px]"
+            />
+          </div>
+
+          {/* Reading requirement */}
+          <div className="space-y-1 text-sm">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={requireFullReading}
+                onChange={(e) => onRequireFullReadingChange(e.target.checked)}
+                disabled={!hasFile}
+                className="h-4 w-4 accent-primary"
+              />
+              <BookOpenCheck className="h-4 w-4 text-muted-foreground" />
+              <span className="text-muted-foreground">{t.actionBar.requireFullReading}</span>
+            </label>
+            {requireFullReading && (
+              <p className="text-xs text-muted-foreground">{t.actionBar.requireFullReadingHint}</p>
+            )}
+          </div>
+
+          {/* Protocol language */}
+          <div className="space-y-1 text-sm">
+            <div className="flex flex-wrap items-center gap-2">
+              <Languages className="h-4 w-4 text-muted-foreground" />
+              <label htmlFor="protocol-locale" className="text-muted-foreground">
+                {t.actionBar.protocolLanguage}
+              </label>
+              <NativeSelect
+                id="protocol-locale"
+                value={protocolLocale}
+                onChange={(e) => isLocale(e.target.value) && onProtocolLocaleChange(e.target.value)}
+                disabled={!hasFile}
+                className="h-9 w-auto"
+              >
+                {LOCALES.map((locale) => (
+                  <option key={locale} value={locale}>
+                    {LOCALE_NAMES[locale]}
+                  </option>
+                ))}
+              </NativeSelect>
+            </div>
+            {protocolLocale !== DEFAULT_LOCALE && (
+              <p className="text-xs text-muted-foreground">{t.actionBar.protocolLanguageHint}</p>
+            )}
+          </div>
+
+          {/* Log export */}
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-muted-foreground">{t.actionBar.exportLog}</span>
+            <Button variant="ghost" size="sm" onClick={() => onExportLog('json')} disabled={!hasFile}>
+              <FileJson className="h-4 w-4" />
+              JSON
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => onExportLog('csv')} disabled={!hasFile}>
+              <FileSpreadsheet className="h-4 w-4" />
+              CSV
+            </Button>
+          </div>
+
+          {/* Persistence status */}
+          {hasFile && isSaved && (
+            <div className="flex items-start gap-2 p-3 bg-muted/50 border rounded-lg text-sm">
+              <HardDrive className="h-4 w-4 text-muted-foreground shrink-0 mt-0.5" />
+              <div className="text-muted-foreground">
+                {t.actionBar.saved}
+                {storageQuota && storageQuota.quota > 0 && (
+                  <>
+                    {' '}
+                    {t.actionBar.storage(
+                      formatStorageSize(storageQuota.usage, locale),
+                      formatStorageSize(storageQuota.quota, locale),
+                      formatNumber(storageQuota.usage / storageQuota.quota, locale, { style: 'percent', ...SIZE_FORMAT })
+                    )}
+                    {!storageQuota.persisted && t.actionBar.notPersisted}.
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+
+          {hasSignatures && !isSaved && (
             <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm">
               <AlertTriangle className="h-4 w-4 text-amber-500 shrink-0 mt-0.5" />
               <div className="text-amber-700">
-                <span className="font-medium">Atenção:</span> O PDF assinado é mantido apenas em memória. 
-                Ao recarregar a página, faça o download antes ou precisará fazer upload novamente.
+                <span className="font-medium">{t.actionBar.warning}</span> {t.actionBar.notSaved}
               </div>
             </div>
           )}
@@ -0,0 +1,52 @@
+import { FileCheck2, FilePlus, FolderOpen } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import type { EnvelopeRecord } from '@/types';
+import { useI18n } from '@/i18n';
+import { cn } from '@/lib/utils';
+
+interface DocumentMatchPromptProps {
+  /** Name of the file just uploaded */
+  fileName: string;
+  /** Stored envelope with the same content */
+  envelope: EnvelopeRecord;
+  onUseExisting: () => void;
+  onCreateNew: () => void;
+  className?: string;
+}
+
+export function DocumentMatchPrompt({
+  fileName,
+  envelope,
+  onUseExisting,
+  onCreateNew,
+  className,
+}: DocumentMatchPromptProps) {
+  const { t, formatDate } = useI18n();
+  const { log } = envelope;
+  const createdAt = formatDate(log.createdAt, { dateStyle: 'short', timeStyle: 'short' });
+
+  return (
+    <Card className={cn('w-full border-amber-200 bg-amber-50', className)}>
+      <CardContent className="pt-4 space-y-3">
+        <div className="flex items-start gap-2 text-sm text-amber-800">
+          <FileCheck2 className="h-4 w-4 shrink-0 mt-0.5" />
+          <div>
+            <p className="font-medium">{t.matchPrompt.title}</p>
+            <p>{t.matchPrompt.description(fileName, log.pdfMetadata.fileName, createdAt, log.signatures.length)}</p>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button size="sm" onClick={onUseExisting}>
+            <FolderOpen className="h-4 w-4" />
+            {t.matchPrompt.useExisting}
+          </Button>
+          <Button size="sm" variant="outline" onClick={onCreateNew}>
+            <FilePlus className="h-4 w-4" />
+            {t.matchPrompt.createNew}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,217 @@
+import { useState, useCallback } from 'react';
+import {
+  ShieldCheck,
+  ShieldAlert,
+  ShieldQuestion,
+  ShieldMinus,
+  CheckCircle2,
+  AlertTriangle,
+  XCircle,
+  Loader2,
+  FileSearch,
+} from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { verifyFinalizedPDF } from '@/services/verification';
+import type { VerificationResult, VerificationStatus } from '@/types';
+import { useI18n } from '@/i18n';
+import { cn } from '@/lib/utils';
+
+interface DocumentVerifierProps {
+  className?: string;
+}
+
+const STATUS_DISPLAY: Record<VerificationStatus, { icon: typeof ShieldCheck; className: string }> = {
+  valid: {
+    icon: ShieldCheck,
+    className: 'bg-green-50 border-green-200 text-green-800',
+  },
+  partial: {
+    icon: ShieldMinus,
+    className: 'bg-amber-50 border-amber-200 text-amber-800',
+  },
+  tampered: {
+    icon: ShieldAlert,
+    className: 'bg-red-50 border-red-200 text-red-800',
+  },
+  unknown: {
+    icon: ShieldQuestion,
+    className: 'bg-muted/50 border-muted-foreground/25 text-muted-foreground',
+  },
+};
+
+async function readFileBytes(file: File): Promise<Uint8Array> {
+  return new Uint8Array(await file.arrayBuffer());
+}
+
+export function DocumentVerifier({ className }: DocumentVerifierProps) {
+  const { t } = useI18n();
+  const [signedFile, setSignedFile] = useState<File | null>(null);
+  const [originalFile, setOriginalFile] = useState<File | null>(null);
+  const [result, setResult] = useState<VerificationResult | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleVerify = useCallback(async () => {
+    if (!signedFile) return;
+
+    setIsVerifying(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      const signedBytes = await readFileBytes(signedFile);
+      const originalBytes = originalFile ? await readFileBytes(originalFile) : null;
+      setResult(await verifyFinalizedPDF(signedBytes, originalBytes));
+    } catch (err) {
+      console.error('Error verifying PDF:', err);
+      setError(err instanceof Error ? err.message : t.verifier.error);
+    } finally {
+      setIsVerifying(false);
+    }
+  }, [signedFile, originalFile, t]);
+
+  const statusDisplay = result ? { ...STATUS_DISPLAY[result.status], ...t.verifier.status[result.status] } : null;
+
+  return (
+    <Card className={cn('w-full', className)}>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <FileSearch className="h-5 w-5" />
+          {t.verifier.title}
+        </CardTitle>
+        <CardDescription>{t.verifier.description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="signed-pdf">{t.verifier.signedPdf}</Label>
+          <Input
+            id="signed-pdf"
+            type="file"
+            accept="application/pdf"
+            onChange={(e) => {
+              setSignedFile(e.target.files?.[0] ?? null);
+              setResult(null);
+            }}
+            disabled={isVerifying}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="original-pdf">{t.verifier.originalPdf}</Label>
+          <Input
+            id="original-pdf"
+            type="file"
+            accept="application/pdf"
+            onChange={(e) => {
+              setOriginalFile(e.target.files?.[0] ?? null);
+              setResult(null);
+            }}
+            disabled={isVerifying}
+          />
+          <p className="text-xs text-muted-foreground">{t.verifier.originalHint}</p>
+        </div>
+
+        <Button onClick={handleVerify} disabled={!signedFile || isVerifying} className="w-full">
+          {isVerifying ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              {t.verifier.verifying}
+            </>
+          ) : (
+            <>
+              <ShieldCheck className="mr-2 h-4 w-4" />
+              {t.verifier.verify}
+            </>
+          )}
+        </Button>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {result && statusDisplay && (
+          <div className="space-y-4">
+            <div className={cn('flex items-start gap-3 p-4 border rounded-lg', statusDisplay.className)}>
+              <statusDisplay.icon className="h-6 w-6 shrink-0" />
+              <div>
+                <p className="font-semibold">{statusDisplay.title}</p>
+                <p className="text-sm">{statusDisplay.description}</p>
+              </div>
+            </div>
+
+            <ul className="space-y-2 text-sm">
+              {result.checks.map((check) => (
+                <li key={check.id} className="flex items-start gap-2">
+                  {check.passed && check.warning ? (
+                    <AlertTriangle className="h-4 w-4 text-amber-500 shrink-0 mt-0.5" />
+                  ) : check.passed ? (
+                    <CheckCircle2 className="h-4 w-4 text-green-500 shrink-0 mt-0.5" />
+                  ) : (
+                    <XCircle className="h-4 w-4 text-destructive shrink-0 mt-0.5" />
+                  )}
+                  <div>
+                    <span>{check.label}</span>
+                    {check.details && (
+                      <p className="text-xs text-muted-foreground break-all">{check.details}</p>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+
+            {result.protocol && (
+              <>
+                <Separator />
+                <div className="space-y-2 text-sm">
+                  {result.protocol.envelopeName && (
+                    <div>
+                      <span className="text-muted-foreground">{t.verifier.envelope}: </span>
+                      <span>{result.protocol.envelopeName}</span>
+                    </div>
+                  )}
+                  <div>
+                    <span className="text-muted-foreground">HASH SICFAR: </span>
+                    <span className="font-mono text-xs break-all">{result.protocol.totvsHash}</span>
+                  </div>
+                  <div>
+                    <span className="text-muted-foreground">SHA256: </span>
+                    <span className="font-mono text-xs break-all">{result.protocol.documentHash}</span>
+                  </div>
+                  <div>
+                    <span className="text-muted-foreground">{t.verifier.manifest}: </span>
+                    <span>
+                      {result.manifest
+                        ? t.verifier.manifestSummary(result.manifest.version, result.manifest.signatures.length)
+                        : t.verifier.manifestMissing}
+                    </span>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">{t.verifier.signers(result.protocol.signers.length)}</p>
+                  {result.protocol.signers.map((signer, index) => (
+                    <div key={`${signer.document}-${index}`} className="p-3 bg-muted/50 rounded-lg text-sm space-y-1">
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline" className="font-mono">
+                          #{index + 1}
+                        </Badge>
+                        <span className="font-medium">{signer.name}</span>
+                      </div>
+                      <div className="text-muted-foreground">
+                        {signer.document} · {signer.signedAt}
+                      </div>
+                      {signer.hash && <div className="font-mono text-xs">{signer.hash}</div>}
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,322 @@
+import { useState, useMemo, useRef } from 'react';
+import {
+  FolderOpen,
+  FilePlus,
+  Download,
+  Trash2,
+  Search,
+  X,
+  Loader2,
+  Inbox,
+  FileJson,
+  FileSpreadsheet,
+  Upload,
+} from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import type { EnvelopeFilters, EnvelopeRecord, EnvelopeStatus, LogExportFormat } from '@/types';
+import {
+  EMPTY_ENVELOPE_FILTERS,
+  filterEnvelopes,
+  getEnvelopeStatus,
+  getLastSigner,
+  getWorkflowStatus,
+  formatSignerDocument,
+} from '@/utils';
+import { useI18n } from '@/i18n';
+import { cn } from '@/lib/utils';
+
+interface EnvelopeDashboardProps {
+  envelopes: EnvelopeRecord[];
+  currentEnvelopeId: string | null;
+  isLoading: boolean;
+  /** ID of the envelope with an action in progress */
+  busyEnvelopeId: string | null;
+  onOpen: (id: string) => void;
+  onFinalize: (id: string) => void;
+  onDelete: (id: string) => void;
+  onNew: () => void;
+  onExportAll: (format: LogExportFormat) => void;
+  onImport: (file: File) => void;
+  isImporting: boolean;
+  className?: string;
+}
+
+const STATUS_VARIANTS: Record<EnvelopeStatus, 'outline' | 'secondary' | 'success' | 'destructive'> = {
+  draft: 'outline',
+  signed: 'secondary',
+  finalized: 'success',
+  refused: 'destructive',
+};
+
+const DATE_FORMAT: Intl.DateTimeFormatOptions = { dateStyle: 'short', timeStyle: 'short' };
+
+function EnvelopeItem({
+  envelope,
+  isCurrent,
+  isBusy,
+  onOpen,
+  onFinalize,
+  onDelete,
+}: {
+  envelope: EnvelopeRecord;
+  isCurrent: boolean;
+  isBusy: boolean;
+  onOpen: () => void;
+  onFinalize: () => void;
+  onDelete: () => void;
+}) {
+  const { t, formatDate } = useI18n();
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const { log } = envelope;
+  const status = getEnvelopeStatus(log);
+  const lastSigner = getLastSigner(log);
+  const workflowStatus = getWorkflowStatus(log);
+
+  return (
+    <div className={cn('p-4 bg-muted/50 rounded-lg space-y-3', isCurrent && 'border border-primary')}>
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="font-medium truncate" title={log.pdfMetadata.fileName}>
+            {log.pdfMetadata.fileName}
+          </p>
+          <p className="text-xs text-muted-foreground font-mono truncate">{log.documentId}</p>
+        </div>
+        <div className="flex items-center gap-1 shrink-0">
+          {isCurrent && (
+            <Badge variant="outline" className="text-xs">
+              {t.dashboard.open}
+            </Badge>
+          )}
+          <Badge variant={STATUS_VARIANTS[status]} className="text-xs">
+            {t.dashboard.status[status]}
+          </Badge>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-1 text-sm">
+        <div>
+          <span className="text-muted-foreground">{t.dashboard.created}: </span>
+          <span>{formatDate(log.createdAt, DATE_FORMAT)}</span>
+        </div>
+        <div>
+          <span className="text-muted-foreground">{t.dashboard.updated}: </span>
+          <span>{formatDate(log.updatedAt, DATE_FORMAT)}</span>
+        </div>
+        <div>
+          <span className="text-muted-foreground">{t.dashboard.signatures}: </span>
+          <span>{log.signatures.length}</span>
+        </div>
+        <div className="truncate">
+          <span className="text-muted-foreground">{t.dashboard.lastSigner}: </span>
+          <span>{lastSigner ? `${lastSigner.name} (${formatSignerDocument(lastSigner.cpf, lastSigner.documentType, lastSigner.documentIssuer)})` : '—'}</span>
+        </div>
+        {log.workflow && (
+          <div>
+            <span className="text-muted-foreground">{t.dashboard.workflow}: </span>
+            <span>{t.common.workflowStatus[workflowStatus]}</span>
+          </div>
+        )}
+      </div>
+
+      {!envelope.hasPdf && (
+        <p className="text-xs text-amber-700">{t.dashboard.pdfMissing}</p>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" variant="outline" onClick={onOpen} disabled={isBusy}>
+          <FolderOpen className="h-4 w-4" />
+          {t.dashboard.openAction}
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={onFinalize}
+          disabled={isBusy || !envelope.hasPdf || workflowStatus !== 'completed'}
+        >
+          {isBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+          {t.dashboard.finalize}
+        </Button>
+        {confirmingDelete ? (
+          <>
+            <Button
+              size="sm"
+              variant="destructive"
+              onClick={() => {
+                setConfirmingDelete(false);
+                onDelete();
+              }}
+              disabled={isBusy}
+            >
+              <Trash2 className="h-4 w-4" />
+              {t.dashboard.confirmDelete}
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setConfirmingDelete(false)}>
+              {t.common.cancel}
+            </Button>
+          </>
+        ) : (
+          <Button size="sm" variant="ghost" onClick={() => setConfirmingDelete(true)} disabled={isBusy}>
+            <Trash2 className="h-4 w-4" />
+            {t.dashboard.delete}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function EnvelopeDashboard({
+  envelopes,
+  currentEnvelopeId,
+  isLoading,
+  busyEnvelopeId,
+  onOpen,
+  onFinalize,
+  onDelete,
+  onNew,
+  onExportAll,
+  onImport,
+  isImporting,
+  className,
+}: EnvelopeDashboardProps) {
+  const { t } = useI18n();
+  const [filters, setFilters] = useState<EnvelopeFilters>(EMPTY_ENVELOPE_FILTERS);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const filteredEnvelopes = useMemo(() => filterEnvelopes(envelopes, filters), [envelopes, filters]);
+  const hasFilters = Object.values(filters).some((value) => value !== '');
+
+  const updateFilter = (key: keyof EnvelopeFilters, value: string) => {
+    setFilters((current) => ({ ...current, [key]: value }));
+  };
+
+  return (
+    <Card className={cn('w-full', className)}>
+      <CardHeader className="pb-3">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Inbox className="h-5 w-5" />
+              {t.dashboard.title}
+            </CardTitle>
+            <CardDescription>{t.dashboard.count(envelopes.length)}</CardDescription>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button size="sm" variant="outline" onClick={() => onExportAll('json')} disabled={envelopes.length === 0}>
+              <FileJson className="h-4 w-4" />
+              {t.dashboard.exportJson}
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => onExportAll('csv')} disabled={envelopes.length === 0}>
+              <FileSpreadsheet className="h-4 w-4" />
+              {t.dashboard.exportCsv}
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => importInputRef.current?.click()} disabled={isImporting}>
+              {isImporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+              {t.dashboard.importLogs}
+            </Button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".json,.csv,application/json,text/csv"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImport(file);
+                e.target.value = '';
+              }}
+            />
+            <Button size="sm" onClick={onNew}>
+              <FilePlus className="h-4 w-4" />
+              {t.dashboard.newEnvelope}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Search and filters */}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+          <div className="space-y-1 md:col-span-2">
+            <Label htmlFor="envelope-search">{t.dashboard.search}</Label>
+            <div className="relative">
+              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                id="envelope-search"
+                placeholder={t.dashboard.searchPlaceholder}
+                value={filters.query}
+                onChange={(e) => updateFilter('query', e.target.value)}
+                className="pl-8"
+              />
+            </div>
+          </div>
+          <div className="space-y-1 md:col-span-2">
+            <Label htmlFor="envelope-cpf">{t.dashboard.signerCpf}</Label>
+            <Input
+              id="envelope-cpf"
+              placeholder={t.dashboard.signerDocumentPlaceholder}
+              value={filters.signerCPF}
+              onChange={(e) => updateFilter('signerCPF', e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="envelope-from">{t.dashboard.createdFrom}</Label>
+            <Input
+              id="envelope-from"
+              type="date"
+              value={filters.createdFrom}
+              max={filters.createdTo || undefined}
+              onChange={(e) => updateFilter('createdFrom', e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="envelope-to">{t.dashboard.createdTo}</Label>
+            <Input
+              id="envelope-to"
+              type="date"
+              value={filters.createdTo}
+              min={filters.createdFrom || undefined}
+              onChange={(e) => updateFilter('createdTo', e.target.value)}
+            />
+          </div>
+          {hasFilters && (
+            <div className="flex items-end">
+              <Button variant="ghost" size="sm" onClick={() => setFilters(EMPTY_ENVELOPE_FILTERS)}>
+                <X className="h-4 w-4" />
+                {t.dashboard.clearFilters}
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <Loader2 className="h-6 w-6 animate-spin mr-2" />
+            {t.dashboard.loading}
+          </div>
+        ) : filteredEnvelopes.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-8 text-muted-foreground">
+            <Inbox className="h-12 w-12 mb-3 opacity-50" />
+            <p>{envelopes.length === 0 ? t.dashboard.empty : t.dashboard.noMatches}</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {filteredEnvelopes.map((envelope) => (
+              <EnvelopeItem
+                key={envelope.id}
+                envelope={envelope}
+                isCurrent={envelope.id === currentEnvelopeId}
+                isBusy={envelope.id === busyEnvelopeId}
+                onOpen={() => onOpen(envelope.id)}
+                onFinalize={() => onFinalize(envelope.id)}
+                onDelete={() => onDelete(envelope.id)}
+              />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
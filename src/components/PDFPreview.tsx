@@ -1,27 +1,116 @@
-import { useState, useEffect, useMemo } from 'react';
-import { Document, Page, pdfjs } from 'react-pdf';
-import { ChevronLeft, ChevronRight, ZoomIn, ZoomOut, Loader2 } from 'lucide-react';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import type { KeyboardEvent, MouseEvent, PointerEvent } from 'react';
+import { Document, Page, type PageProps } from 'react-pdf';
+import { ChevronLeft, ChevronRight, ZoomIn, ZoomOut, Loader2, Stamp, X } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { useI18n } from '@/i18n';
 import { cn } from '@/lib/utils';
+import { SIGNATURE_STAMP_SIZE, clampPlacement } from '@/utils';
+import type { SignatureData, SignaturePlacement } from '@/types';
+import '@/lib/pdfjs';
 
 import 'react-pdf/dist/Page/AnnotationLayer.css';
 import 'react-pdf/dist/Page/TextLayer.css';
 
-// Configure PDF.js worker
-pdfjs.GlobalWorkerOptions.workerSrc = `//unpkg.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
-
 interface PDFPreviewProps {
   pdfBytes: Uint8Array | null;
+  /** Signatures already in the log; those with a placement are outlined on their page */
+  stamps?: SignatureData[];
+  /** Stamp position of the next signature */
+  placement?: SignaturePlacement | null;
+  onPlacementChange?: (placement: SignaturePlacement | null) => void;
+  /** Called whenever a page is displayed, for the audit trail and the reading evidence */
+  onPageView?: (pageNumber: number, pageCount: number) => void;
+  /** Called when the displayed page is replaced or the preview goes away, to stop counting its time */
+  onPageHide?: (pageNumber: number) => void;
   className?: string;
 }
 
-export function PDFPreview({ pdfBytes, className }: PDFPreviewProps) {
+// Page proxy handed over by react-pdf (its own copy of pdfjs-dist)
+type PDFPageProxy = Parameters<NonNullable<PageProps['onLoadSuccess']>>[0];
+
+interface ViewportRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Distance, in screen pixels, moved by each arrow key press
+const KEYBOARD_STEP = 5;
+
+/**
+ * Converts a rectangle in PDF user space to screen pixels of the rendered page
+ * @param page - Rendered page
+ * @param scale - Zoom level
+ * @param placement - Rectangle in PDF user space
+ * @returns Rectangle relative to the top-left corner of the page
+ */
+function toViewportRect(page: PDFPageProxy, scale: number, placement: SignaturePlacement): ViewportRect {
+  const viewport = page.getViewport({ scale });
+  const [x1, y1, x2, y2] = viewport.convertToViewportRectangle([
+    placement.x,
+    placement.y,
+    placement.x + placement.width,
+    placement.y + placement.height,
+  ]);
+  return {
+    left: Math.min(x1, x2),
+    top: Math.min(y1, y2),
+    width: Math.abs(x2 - x1),
+    height: Math.abs(y2 - y1),
+  };
+}
+
+/**
+ * Converts a stamp drawn at the given screen position back to PDF user space.
+ * Rotation and zoom are undone by the page viewport, so the stored
+ * placement does not depend on how the page was displayed.
+ * @param page - Rendered page
+ * @param scale - Zoom level
+ * @param left - Left edge of the stamp, in screen pixels
+ * @param top - Top edge of the stamp, in screen pixels
+ * @returns Placement kept inside the page
+ */
+function toPlacement(page: PDFPageProxy, scale: number, left: number, top: number): SignaturePlacement {
+  const viewport = page.getViewport({ scale });
+  const [x1, y1] = viewport.convertToPdfPoint(left, top);
+  const [x2, y2] = viewport.convertToPdfPoint(
+    left + SIGNATURE_STAMP_SIZE.width * scale,
+    top + SIGNATURE_STAMP_SIZE.height * scale
+  );
+  const [xMin, yMin, xMax, yMax] = page.view;
+  return clampPlacement(
+    {
+      pageIndex: page.pageNumber - 1,
+      x: Math.min(x1, x2),
+      y: Math.min(y1, y2),
+      width: Math.abs(x2 - x1),
+      height: Math.abs(y2 - y1),
+    },
+    [xMin, yMin, xMax, yMax]
+  );
+}
+
+export function PDFPreview({
+  pdfBytes,
+  stamps = [],
+  placement = null,
+  onPlacementChange,
+  onPageView,
+  onPageHide,
+  className,
+}: PDFPreviewProps) {
+  const { t } = useI18n();
   const [numPages, setNumPages] = useState<number>(0);
   const [pageNumber, setPageNumber] = useState<number>(1);
   const [scale, setScale] = useState<number>(1);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [page, setPage] = useState<PDFPageProxy | null>(null);
+  // Pointer position and stamp position when a drag started
+  const dragStart = useRef<{ clientX: number; clientY: number; left: number; top: number } | null>(null);
 
   // Create a blob URL from the PDF bytes
   const pdfUrl = useMemo(() => {
@@ -53,7 +142,7 @@ export function PDFPreview({ pdfBytes, className }: PDFPreviewProps) {
 
   function onDocumentLoadError(err: Error): void {
     console.error('Error loading PDF:', err);
-    setError('Erro ao carregar o PDF para visualização.');
+    setError(t.preview.loadError);
     setLoading(false);
   }
 
@@ -73,15 +162,85 @@ export function PDFPreview({ pdfBytes, className }: PDFPreviewProps) {
     setScale((prev) => Math.max(prev - 0.25, 0.5));
   };
 
+  // The page proxy lags behind pageNumber until the new page loads
+  const currentPage = page && page.pageNumber === pageNumber ? page : null;
+
+  // Report the displayed page once it has loaded, and when it stops being displayed
+  useEffect(() => {
+    if (!currentPage) return;
+    onPageView?.(currentPage.pageNumber, numPages);
+    return () => onPageHide?.(currentPage.pageNumber);
+  }, [currentPage, numPages, onPageView, onPageHide]);
+
+  const pendingRect =
+    currentPage && placement && placement.pageIndex === pageNumber - 1
+      ? toViewportRect(currentPage, scale, placement)
+      : null;
+
+  const moveStamp = (left: number, top: number) => {
+    if (currentPage) onPlacementChange?.(toPlacement(currentPage, scale, left, top));
+  };
+
+  // Puts the stamp in the middle of the page shown
+  const toggleStamp = () => {
+    if (placement) {
+      onPlacementChange?.(null);
+      return;
+    }
+    if (!currentPage) return;
+    const { width, height } = currentPage.getViewport({ scale });
+    moveStamp((width - SIGNATURE_STAMP_SIZE.width * scale) / 2, (height - SIGNATURE_STAMP_SIZE.height * scale) / 2);
+  };
+
+  // Clicking the page moves the stamp there, also across pages
+  const onOverlayClick = (event: MouseEvent<HTMLDivElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    moveStamp(
+      event.clientX - bounds.left - (SIGNATURE_STAMP_SIZE.width * scale) / 2,
+      event.clientY - bounds.top - (SIGNATURE_STAMP_SIZE.height * scale) / 2
+    );
+  };
+
+  const onStampPointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    if (!pendingRect) return;
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragStart.current = { clientX: event.clientX, clientY: event.clientY, left: pendingRect.left, top: pendingRect.top };
+  };
+
+  const onStampPointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    const start = dragStart.current;
+    if (!start) return;
+    moveStamp(start.left + event.clientX - start.clientX, start.top + event.clientY - start.clientY);
+  };
+
+  const onStampPointerUp = () => {
+    dragStart.current = null;
+  };
+
+  const onStampKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    if (!pendingRect) return;
+    const offsets: Record<string, [number, number]> = {
+      ArrowLeft: [-KEYBOARD_STEP, 0],
+      ArrowRight: [KEYBOARD_STEP, 0],
+      ArrowUp: [0, -KEYBOARD_STEP],
+      ArrowDown: [0, KEYBOARD_STEP],
+    };
+    const offset = offsets[event.key];
+    if (!offset) return;
+    event.preventDefault();
+    moveStamp(pendingRect.left + offset[0], pendingRect.top + offset[1]);
+  };
+
   if (!pdfBytes) {
     return (
       <Card className={cn('w-full', className)}>
         <CardHeader className="pb-3">
-          <CardTitle className="text-lg">Visualização do PDF</CardTitle>
+          <CardTitle className="text-lg">{t.preview.title}</CardTitle>
         </CardHeader>
         <CardContent>
           <div className="flex items-center justify-center h-64 border-2 border-dashed rounded-lg text-muted-foreground">
-            Carregue um PDF para visualizar
+            {t.preview.empty}
           </div>
         </CardContent>
       </Card>
@@ -92,15 +251,27 @@ export function PDFPreview({ pdfBytes, className }: PDFPreviewProps) {
     <Card className={cn('w-full', className)}>
       <CardHeader className="pb-3">
         <div className="flex items-center justify-between">
-          <CardTitle className="text-lg">Visualização do PDF</CardTitle>
+          <CardTitle className="text-lg">{t.preview.title}</CardTitle>
           <div className="flex items-center gap-1">
+            {onPlacementChange && (
+              <Button
+                variant={placement ? 'secondary' : 'outline'}
+                size="sm"
+                onClick={toggleStamp}
+                disabled={!placement && !currentPage}
+                className="h-8 mr-2"
+              >
+                {placement ? <X className="h-4 w-4 mr-1" /> : <Stamp className="h-4 w-4 mr-1" />}
+                {placement ? t.preview.removeStamp : t.preview.placeStamp}
+              </Button>
+            )}
             <Button
               variant="outline"
               size="icon"
               onClick={zoomOut}
               disabled={scale <= 0.5}
               className="h-8 w-8"
-              aria-label="Diminuir zoom"
+              aria-label={t.preview.zoomOut}
             >
               <ZoomOut className="h-4 w-4" />
             </Button>
@@ -113,7 +284,7 @@ export function PDFPreview({ pdfBytes, className }: PDFPreviewProps) {
               onClick={zoomIn}
               disabled={scale >= 2}
               className="h-8 w-8"
-              aria-label="Aumentar zoom"
+              aria-label={t.preview.zoomIn}
             >
               <ZoomIn className="h-4 w-4" />
             </Button>
@@ -151,13 +322,65 @@ export function PDFPreview({ pdfBytes, className }: PDFPreviewProps) {
                     scale={scale}
                     renderTextLayer={false}
                     renderAnnotationLayer={false}
+                    onLoadSuccess={setPage}
                     className="shadow-lg"
-                  />
+                  >
+                    {currentPage && (
+                      <div
+                        className={cn('absolute inset-0', placement ? 'cursor-crosshair' : 'pointer-events-none')}
+                        onClick={placement ? onOverlayClick : undefined}
+                      >
+                        {/* Stamps of the signatures already made */}
+                        {stamps
+                          .filter((signature) => signature.placement?.pageIndex === pageNumber - 1)
+                          .map((signature) => {
+                            const rect = toViewportRect(currentPage, scale, signature.placement!);
+                            return (
+                              <div
+                                key={signature.id}
+                                className="absolute flex items-center justify-center overflow-hidden rounded border border-dashed border-primary/60 bg-primary/5 p-1 text-center text-xs text-primary"
+                                style={rect}
+                                title={signature.name}
+                              >
+                                <span className="truncate">{signature.name}</span>
+                              </div>
+                            );
+                          })}
+
+                        {/* Stamp of the next signature */}
+                        {pendingRect && (
+                          <div
+                            role="button"
+                            tabIndex={0}
+                            aria-label={t.preview.stampLabel}
+                            className="absolute flex cursor-move touch-none select-none items-center justify-center rounded border-2 border-primary bg-primary/15 text-xs font-medium text-primary shadow-sm focus:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                            style={pendingRect}
+                            onClick={(event) => event.stopPropagation()}
+                            onPointerDown={onStampPointerDown}
+                            onPointerMove={onStampPointerMove}
+                            onPointerUp={onStampPointerUp}
+                            onPointerCancel={onStampPointerUp}
+                            onKeyDown={onStampKeyDown}
+                          >
+                            {t.preview.yourSignature}
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </Page>
                 </Document>
               )}
             </div>
           </div>
 
+          {placement && (
+            <p className="mt-3 text-xs text-muted-foreground text-center">
+              {placement.pageIndex === pageNumber - 1
+                ? t.preview.dragHint
+                : t.preview.stampOnPage(placement.pageIndex + 1)}
+            </p>
+          )}
+
           {/* Navigation Controls */}
           {numPages > 0 && (
             <div className="flex items-center justify-center gap-4 mt-4">
@@ -166,19 +389,19 @@ export function PDFPreview({ pdfBytes, className }: PDFPreviewProps) {
                 size="icon"
                 onClick={goToPrevPage}
                 disabled={pageNumber <= 1}
-                aria-label="Página anterior"
+                aria-label={t.preview.previousPage}
               >
                 <ChevronLeft className="h-4 w-4" />
               </Button>
               <span className="text-sm">
-                Página {pageNumber} de {numPages}
+                {t.preview.pageOf(pageNumber, numPages)}
               </span>
               <Button
                 variant="outline"
                 size="icon"
                 onClick={goToNextPage}
                 disabled={pageNumber >= numPages}
-                aria-label="Próxima página"
+                aria-label={t.preview.nextPage}
               >
                 <ChevronRight className="h-4 w-4" />
               </Button>
@@ -5,6 +5,8 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
 import type { PDFMetadata } from '@/types';
+import { generateSHA256 } from '@/utils';
+import { useI18n } from '@/i18n';
 
 interface PDFUploadProps {
   onFileSelect: (file: File, bytes: Uint8Array, metadata: PDFMetadata) => void;
@@ -21,6 +23,7 @@ export function PDFUpload({
   hasSignatures,
   className,
 }: PDFUploadProps) {
+  const { t, formatNumber } = useI18n();
   const [isDragging, setIsDragging] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -29,12 +32,12 @@ export function PDFUpload({
       setError(null);
 
       if (file.type !== 'application/pdf') {
-        setError('Por favor, selecione um arquivo PDF.');
+        setError(t.upload.selectPdf);
         return;
       }
 
       if (file.size > 50 * 1024 * 1024) {
-        setError('O arquivo PDF deve ter no máximo 50MB.');
+        setError(t.upload.tooLarge);
         return;
       }
 
@@ -45,7 +48,7 @@ export function PDFUpload({
         // Basic PDF validation (check magic bytes)
         const header = new TextDecoder().decode(bytes.slice(0, 5));
         if (header !== '%PDF-') {
-          setError('O arquivo não parece ser um PDF válido.');
+          setError(t.upload.notPdf);
           return;
         }
 
@@ -53,15 +56,16 @@ export function PDFUpload({
           fileName: file.name,
           fileSize: file.size,
           lastModified: file.lastModified,
+          contentHash: await generateSHA256(bytes),
         };
 
         onFileSelect(file, bytes, metadata);
       } catch (err) {
         console.error('Error processing file:', err);
-        setError('Erro ao processar o arquivo PDF.');
+        setError(t.upload.processError);
       }
     },
-    [onFileSelect]
+    [onFileSelect, t]
   );
 
   const handleDrop = useCallback(
@@ -102,8 +106,9 @@ export function PDFUpload({
 
   const formatFileSize = (bytes: number) => {
     if (bytes < 1024) return `${bytes} B`;
-    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
-    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    const options = { minimumFractionDigits: 1, maximumFractionDigits: 1 };
+    if (bytes < 1024 * 1024) return `${formatNumber(bytes / 1024, options)} KB`;
+    return `${formatNumber(bytes / (1024 * 1024), options)} MB`;
   };
 
   return (
@@ -111,7 +116,7 @@ export function PDFUpload({
       <CardHeader className="pb-3">
         <CardTitle className="flex items-center gap-2 text-lg">
           <FileText className="h-5 w-5" />
-          Documento PDF
+          {t.upload.title}
         </CardTitle>
       </CardHeader>
       <CardContent>
@@ -133,7 +138,7 @@ export function PDFUpload({
               accept="application/pdf"
               onChange={handleFileChange}
               className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-              aria-label="Upload PDF"
+              aria-label={t.upload.uploadLabel}
             />
             <div className="flex flex-col items-center gap-3 text-center">
               <Upload
@@ -144,12 +149,10 @@ export function PDFUpload({
               />
               <div>
                 <p className="font-medium">
-                  {isDragging
-                    ? 'Solte o arquivo aqui'
-                    : 'Arraste um PDF ou clique para selecionar'}
+                  {isDragging ? t.upload.dropHere : t.upload.dragOrClick}
                 </p>
                 <p className="text-sm text-muted-foreground mt-1">
-                  Máximo de 50MB
+                  {t.upload.maxSize}
                 </p>
               </div>
             </div>
@@ -168,7 +171,7 @@ export function PDFUpload({
                   </p>
                   {hasSignatures && (
                     <Badge variant="success" className="mt-2">
-                      PDF com assinaturas
+                      {t.upload.hasSignatures}
                     </Badge>
                   )}
                 </div>
@@ -178,7 +181,7 @@ export function PDFUpload({
                 size="icon"
                 onClick={onClear}
                 className="flex-shrink-0"
-                aria-label="Remover arquivo"
+                aria-label={t.upload.removeFile}
               >
                 <X className="h-4 w-4" />
               </Button>
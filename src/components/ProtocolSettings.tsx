@@ -0,0 +1,316 @@
+import { useState } from 'react';
+import { Settings, Save, RotateCcw, ArrowUp, ArrowDown, ImagePlus, Trash2, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Separator } from '@/components/ui/separator';
+import { REQUIRED_PROTOCOL_SECTIONS, protocolSectionIdSchema } from '@/schemas';
+import type {
+  ProtocolFontSizes,
+  ProtocolLabels,
+  ProtocolLogo,
+  ProtocolPalette,
+  ProtocolSectionId,
+  ProtocolTemplate,
+} from '@/types';
+import { DEFAULT_PROTOCOL_TEMPLATE, bytesToBase64 } from '@/utils';
+import { useI18n } from '@/i18n';
+import { cn } from '@/lib/utils';
+
+interface ProtocolSettingsProps {
+  template: ProtocolTemplate;
+  onSave: (template: ProtocolTemplate) => Promise<void>;
+  onReset: () => void;
+  className?: string;
+}
+
+// Keeps the saved template well below the localStorage quota
+const MAX_LOGO_SIZE = 512 * 1024;
+
+const ALL_SECTIONS: readonly ProtocolSectionId[] = protocolSectionIdSchema.options;
+
+const PALETTE_FIELDS: (keyof ProtocolPalette)[] = ['title', 'section', 'text', 'muted'];
+
+const LABEL_FIELDS: (keyof ProtocolLabels)[] = [
+  'title',
+  'hashLabel',
+  'documentSection',
+  'signaturesSection',
+  'authenticitySection',
+  'auditSection',
+  'disclaimerSection',
+  'footer',
+];
+
+const FONT_SIZE_FIELDS: { key: keyof ProtocolFontSizes; min: number; max: number }[] = [
+  { key: 'title', min: 12, max: 24 },
+  { key: 'section', min: 10, max: 16 },
+  { key: 'normal', min: 7, max: 12 },
+  { key: 'small', min: 6, max: 10 },
+];
+
+export function ProtocolSettings({ template, onSave, onReset, className }: ProtocolSettingsProps) {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<ProtocolTemplate>(template);
+  const [logoError, setLogoError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const update = <K extends keyof ProtocolTemplate>(key: K, value: ProtocolTemplate[K]) => {
+    setDraft((current) => ({ ...current, [key]: value }));
+  };
+
+  const handleLogoSelect = async (file: File | undefined) => {
+    if (!file) return;
+    if (file.type !== 'image/png' && file.type !== 'image/jpeg') {
+      setLogoError(t.settings.logoType);
+      return;
+    }
+    if (file.size > MAX_LOGO_SIZE) {
+      setLogoError(t.settings.logoSize);
+      return;
+    }
+
+    const logo: ProtocolLogo = {
+      data: bytesToBase64(new Uint8Array(await file.arrayBuffer())),
+      mimeType: file.type,
+    };
+    setLogoError(null);
+    update('logo', logo);
+  };
+
+  // Visible sections keep their print order; hidden ones are listed after them
+  const hiddenSections = ALL_SECTIONS.filter((section) => !draft.sections.includes(section));
+
+  const moveSection = (index: number, offset: -1 | 1) => {
+    const sections = [...draft.sections];
+    [sections[index], sections[index + offset]] = [sections[index + offset], sections[index]];
+    update('sections', sections);
+  };
+
+  const toggleSection = (section: ProtocolSectionId, visible: boolean) => {
+    update('sections', visible ? [...draft.sections, section] : draft.sections.filter((id) => id !== section));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = () => {
+    setDraft(DEFAULT_PROTOCOL_TEMPLATE);
+    setLogoError(null);
+    onReset();
+  };
+
+  return (
+    <Card className={cn('w-full', className)}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Settings className="h-5 w-5" />
+          {t.settings.title}
+        </CardTitle>
+        <CardDescription>{t.settings.description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Branding */}
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="organization-name">{t.settings.organizationName}</Label>
+            <Input
+              id="organization-name"
+              placeholder={t.settings.organizationPlaceholder}
+              value={draft.organizationName}
+              onChange={(e) => update('organizationName', e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="logo">{t.settings.logo}</Label>
+            {draft.logo && (
+              <div className="flex items-center gap-3 rounded-md border p-2">
+                <img
+                  src={`data:${draft.logo.mimeType};base64,${draft.logo.data}`}
+                  alt={t.settings.logoAlt}
+                  className="h-10 max-w-[150px] object-contain"
+                />
+                <Button type="button" variant="ghost" size="sm" onClick={() => update('logo', null)}>
+                  <Trash2 className="mr-1 h-4 w-4" />
+                  {t.settings.remove}
+                </Button>
+              </div>
+            )}
+            <div className="flex items-center gap-2">
+              <ImagePlus className="h-4 w-4 text-muted-foreground" />
+              <Input
+                id="logo"
+                type="file"
+                accept="image/png,image/jpeg"
+                onChange={(e) => {
+                  void handleLogoSelect(e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+                className={cn(logoError && 'border-destructive')}
+              />
+            </div>
+            {logoError && <p className="text-sm text-destructive">{logoError}</p>}
+          </div>
+        </div>
+
+        <Separator />
+
+        {/* Palette */}
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold">{t.settings.colors}</h3>
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+            {PALETTE_FIELDS.map((key) => (
+              <div key={key} className="space-y-2">
+                <Label htmlFor={`color-${key}`}>{t.settings.palette[key]}</Label>
+                <Input
+                  id={`color-${key}`}
+                  type="color"
+                  value={draft.palette[key]}
+                  onChange={(e) => update('palette', { ...draft.palette, [key]: e.target.value })}
+                  className="h-10 p-1"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <Separator />
+
+        {/* Labels and font sizes */}
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold">{t.settings.texts}</h3>
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+            {LABEL_FIELDS.map((key) => (
+              <div key={key} className="space-y-2">
+                <Label htmlFor={`label-${key}`}>{t.settings.labels[key]}</Label>
+                <Input
+                  id={`label-${key}`}
+                  placeholder={t.protocol[key]}
+                  value={draft.labels[key]}
+                  onChange={(e) => update('labels', { ...draft.labels, [key]: e.target.value })}
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">{t.settings.labelsHint}</p>
+
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+            {FONT_SIZE_FIELDS.map(({ key, min, max }) => (
+              <div key={key} className="space-y-2">
+                <Label htmlFor={`font-${key}`}>{t.settings.fontSizes[key]} (pt)</Label>
+                <Input
+                  id={`font-${key}`}
+                  type="number"
+                  min={min}
+                  max={max}
+                  value={Number.isNaN(draft.fontSizes[key]) ? '' : draft.fontSizes[key]}
+                  onChange={(e) => update('fontSizes', { ...draft.fontSizes, [key]: e.target.valueAsNumber })}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <Separator />
+
+        {/* Sections */}
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold">{t.settings.sections}</h3>
+          <ul className="space-y-2">
+            {draft.sections.map((section, index) => {
+              const required = REQUIRED_PROTOCOL_SECTIONS.includes(section);
+              const name = t.settings.sectionNames[section];
+              return (
+                <li key={section} className="flex items-center gap-2 rounded-md border p-2">
+                  <input
+                    type="checkbox"
+                    checked
+                    disabled={required}
+                    onChange={() => toggleSection(section, false)}
+                    aria-label={t.settings.showSection(name)}
+                    className="h-4 w-4 accent-primary"
+                  />
+                  <span className="flex-1 text-sm">
+                    {name}
+                    {required && (
+                      <span className="ml-2 text-xs text-muted-foreground">{t.settings.requiredSection}</span>
+                    )}
+                  </span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => moveSection(index, -1)}
+                    disabled={index === 0}
+                    aria-label={t.settings.moveUp(name)}
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => moveSection(index, 1)}
+                    disabled={index === draft.sections.length - 1}
+                    aria-label={t.settings.moveDown(name)}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                </li>
+              );
+            })}
+            {hiddenSections.map((section) => (
+              <li key={section} className="flex items-center gap-2 rounded-md border border-dashed p-2">
+                <input
+                  type="checkbox"
+                  checked={false}
+                  onChange={() => toggleSection(section, true)}
+                  aria-label={t.settings.showSection(t.settings.sectionNames[section])}
+                  className="h-4 w-4 accent-primary"
+                />
+                <span className="flex-1 text-sm text-muted-foreground">{t.settings.sectionNames[section]}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <Separator />
+
+        {/* Disclaimer */}
+        <div className="space-y-2">
+          <Label htmlFor="disclaimer">{t.settings.disclaimer}</Label>
+          <Textarea
+            id="disclaimer"
+            rows={5}
+            placeholder={t.settings.disclaimerPlaceholder}
+            value={draft.disclaimer}
+            onChange={(e) => update('disclaimer', e.target.value)}
+          />
+          {!draft.sections.includes('disclaimer') && draft.disclaimer.trim() && (
+            <p className="text-xs text-muted-foreground">{t.settings.disclaimerHidden}</p>
+          )}
+        </div>
+
+        <div className="flex flex-wrap justify-end gap-2">
+          <Button type="button" variant="outline" onClick={handleReset} disabled={isSaving}>
+            <RotateCcw className="mr-2 h-4 w-4" />
+            {t.settings.reset}
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            {t.settings.save}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
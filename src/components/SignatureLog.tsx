@@ -1,19 +1,30 @@
-import { ClipboardCopy, Check, FileSignature } from 'lucide-react';
-import { useState, useCallback } from 'react';
+import { ClipboardCopy, Check, FileSignature, Link2, Link2Off, KeySquare, Clock, Ban } from 'lucide-react';
+import { useState, useCallback, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import type { SignatureData } from '@/types';
-import { formatCPF, abbreviateHash } from '@/utils';
+import type { ChainVerification, SignatureData, SignatureRefusal, TimestampVerification } from '@/types';
+import {
+  formatSignerDocument,
+  abbreviateHash,
+  getTotalReadingTime,
+  verifyDeviceSignature,
+} from '@/utils';
+import { verifyTimestampToken } from '@/services/timestamp';
+import { useI18n } from '@/i18n';
 import { cn } from '@/lib/utils';
 
 interface SignatureLogProps {
   signatures: SignatureData[];
+  /** Refusals to sign, listed after the signatures */
+  refusals?: SignatureRefusal[];
+  chainStatus?: ChainVerification | null;
   className?: string;
 }
 
 function CopyButton({ text, label }: { text: string; label: string }) {
+  const { t } = useI18n();
   const [copied, setCopied] = useState(false);
 
   const handleCopy = useCallback(async () => {
@@ -37,96 +48,346 @@ function CopyButton({ text, label }: { text: string; label: string }) {
       {copied ? (
         <>
           <Check className="h-3 w-3 mr-1 text-green-500" />
-          Copiado
+          {t.common.copied}
         </>
       ) : (
         <>
           <ClipboardCopy className="h-3 w-3 mr-1" />
-          Copiar
+          {t.common.copy}
         </>
       )}
     </Button>
   );
 }
 
-function SignatureItem({ signature, index }: { signature: SignatureData; index: number }) {
-  const formattedDate = new Date(signature.timestamp).toLocaleString('pt-BR', {
-    dateStyle: 'short',
-    timeStyle: 'medium',
-  });
+function ChainStatus({ status }: { status: ChainVerification }) {
+  const { t } = useI18n();
+
+  if (status.valid) {
+    return (
+      <div className="flex items-center gap-2 p-2 bg-green-50 border border-green-200 rounded-lg text-sm text-green-700">
+        <Link2 className="h-4 w-4 shrink-0" />
+        <span>
+          {t.signatureLog.chainValid(status.length)}
+          {!status.hashesRecomputed && t.signatureLog.hashesNotRecomputed}
+        </span>
+      </div>
+    );
+  }
 
   return (
-    <div className="p-4 bg-muted/50 rounded-lg space-y-2">
+    <div className="flex items-center gap-2 p-2 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+      <Link2Off className="h-4 w-4 shrink-0" />
+      <span>
+        <span className="font-medium">{t.signatureLog.chainBroken}</span>{' '}
+        {status.failure && t.errors.chainBreak(status.failure)}
+      </span>
+    </div>
+  );
+}
+
+const DATE_FORMAT: Intl.DateTimeFormatOptions = { dateStyle: 'short', timeStyle: 'medium' };
+
+function SignatureItem({
+  signature,
+  index,
+  isBroken,
+}: {
+  signature: SignatureData;
+  index: number;
+  isBroken: boolean;
+}) {
+  const { t, formatDate, formatNumber } = useI18n();
+  const [deviceSignatureValid, setDeviceSignatureValid] = useState<boolean | null>(null);
+  const [timestampStatus, setTimestampStatus] = useState<TimestampVerification | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    if (signature.deviceSignature) {
+      verifyDeviceSignature(signature).then((valid) => {
+        if (!cancelled) setDeviceSignatureValid(valid);
+      });
+    }
+
+    if (signature.timestampToken) {
+      verifyTimestampToken(signature.timestampToken, signature.hash).then((result) => {
+        if (!cancelled) setTimestampStatus(result);
+      });
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, [signature]);
+
+  const formattedDate = formatDate(signature.timestamp, DATE_FORMAT);
+
+  // Valid tokens of TSAs outside the trust list, or of the local TSA, are not shown as trusted
+  const timestampTrust = timestampStatus?.valid ? (timestampStatus.trust ?? 'untrusted') : null;
+  const timestampVariant = !timestampTrust ? 'destructive' : timestampTrust === 'trusted' ? 'success' : 'secondary';
+  const timestampLabel = timestampTrust
+    ? {
+        trusted: t.signatureLog.validTimestamp,
+        untrusted: t.signatureLog.untrustedTimestamp,
+        local: t.signatureLog.localTimestamp,
+      }[timestampTrust]
+    : t.signatureLog.invalidTimestamp;
+
+  return (
+    <div className={cn('p-4 bg-muted/50 rounded-lg space-y-2', isBroken && 'border border-destructive')}>
       <div className="flex items-start justify-between gap-2">
         <div className="flex items-center gap-2">
           <Badge variant="outline" className="font-mono">
             #{index + 1}
           </Badge>
           <span className="font-medium">{signature.name}</span>
+          {signature.role && (
+            <Badge variant="secondary" className="text-xs">
+              {t.common.roles[signature.role]}
+            </Badge>
+          )}
         </div>
         <Badge variant="success" className="text-xs">
-          Assinado
+          {t.signatureLog.signed}
         </Badge>
       </div>
 
       <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-sm">
         <div>
-          <span className="text-muted-foreground">CPF: </span>
-          <span className="font-mono">{formatCPF(signature.cpf)}</span>
+          <span className="text-muted-foreground">
+            {t.common.documentTypes[signature.documentType ?? 'cpf']}:{' '}
+          </span>
+          <span className="font-mono">
+            {formatSignerDocument(signature.cpf, signature.documentType, signature.documentIssuer)}
+          </span>
         </div>
         <div>
-          <span className="text-muted-foreground">Data: </span>
+          <span className="text-muted-foreground">{t.signatureLog.date}: </span>
           <span>{formattedDate}</span>
         </div>
       </div>
 
+      {signature.handwritten && (
+        <img
+          src={`data:image/png;base64,${signature.handwritten.image}`}
+          alt={t.signatureLog.handwrittenAlt(signature.name)}
+          className="h-16 max-w-full rounded border bg-white object-contain"
+        />
+      )}
+
+      {signature.reading && (
+        <div className="text-sm">
+          <span className="text-muted-foreground">{t.signatureLog.reading}: </span>
+          <span>
+            {t.signatureLog.readingSummary(
+              signature.reading.pages.length,
+              signature.reading.pageCount,
+              formatNumber(getTotalReadingTime(signature.reading) / 1000, { maximumFractionDigits: 1 })
+            )}
+          </span>
+        </div>
+      )}
+
       <div className="text-sm">
         <span className="text-muted-foreground">Device ID: </span>
         <span className="font-mono text-xs">
           {signature.deviceId.substring(0, 18)}...
         </span>
-        <CopyButton text={signature.deviceId} label="Copiar Device ID" />
+        <CopyButton text={signature.deviceId} label={t.signatureLog.copyDeviceId} />
       </div>
 
+      {signature.devicePublicKey && (
+        <div className="text-sm flex items-center gap-1">
+          <KeySquare className="h-3 w-3 text-muted-foreground" />
+          <span className="text-muted-foreground">{t.signatureLog.deviceKey}: </span>
+          <span className="font-mono text-xs">{abbreviateHash(signature.devicePublicKey.x, 8)}</span>
+          {deviceSignatureValid !== null && (
+            <Badge variant={deviceSignatureValid ? 'success' : 'destructive'} className="text-xs">
+              {deviceSignatureValid ? t.signatureLog.validSignature : t.signatureLog.invalidSignature}
+            </Badge>
+          )}
+          <CopyButton text={JSON.stringify(signature.devicePublicKey)} label={t.signatureLog.copyPublicKey} />
+        </div>
+      )}
+
+      {signature.timestampToken && (
+        <div className="text-sm flex items-center gap-1 flex-wrap">
+          <Clock className="h-3 w-3 text-muted-foreground" />
+          <span className="text-muted-foreground">{t.signatureLog.timestamp}: </span>
+          <span>{formatDate(signature.timestampToken.genTime, DATE_FORMAT)}</span>
+          <span className="text-xs text-muted-foreground">({signature.timestampToken.authority})</span>
+          {timestampStatus && (
+            <Badge variant={timestampVariant} className="text-xs">
+              {timestampLabel}
+            </Badge>
+          )}
+        </div>
+      )}
+
+      {signature.certificate && (
+        <div className="text-sm">
+          <span className="text-muted-foreground">{t.signatureLog.certificate}: </span>
+          <span>{signature.certificate.commonName}</span>
+          <span className="font-mono text-xs text-muted-foreground"> {t.signatureLog.serial(signature.certificate.serialNumber)}</span>
+        </div>
+      )}
+
       <div className="text-sm flex items-center gap-1">
         <span className="text-muted-foreground">Hash: </span>
         <span className="font-mono text-xs">{abbreviateHash(signature.hash, 12)}</span>
-        <CopyButton text={signature.hash} label="Copiar Hash completo" />
+        <CopyButton text={signature.hash} label={t.signatureLog.copyHash} />
+      </div>
+
+      <div className="text-sm">
+        <span className="text-muted-foreground">{t.signatureLog.previousHash}: </span>
+        <span className="font-mono text-xs">
+          {signature.previousHash ? abbreviateHash(signature.previousHash, 12) : t.common.notChained}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+function RefusalItem({ refusal, isBroken }: { refusal: SignatureRefusal; isBroken: boolean }) {
+  const { t, formatDate } = useI18n();
+  const [deviceSignatureValid, setDeviceSignatureValid] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    if (refusal.deviceSignature) {
+      verifyDeviceSignature(refusal).then((valid) => {
+        if (!cancelled) setDeviceSignatureValid(valid);
+      });
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, [refusal]);
+
+  return (
+    <div
+      className={cn(
+        'p-4 bg-red-50 border border-red-200 rounded-lg space-y-2',
+        isBroken && 'border-destructive'
+      )}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Ban className="h-4 w-4 text-destructive" />
+          <span className="font-medium">{refusal.name}</span>
+          {refusal.role && (
+            <Badge variant="secondary" className="text-xs">
+              {t.common.roles[refusal.role]}
+            </Badge>
+          )}
+        </div>
+        <Badge variant="destructive" className="text-xs">
+          {t.signatureLog.refused}
+        </Badge>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-sm">
+        <div>
+          <span className="text-muted-foreground">
+            {t.common.documentTypes[refusal.documentType ?? 'cpf']}:{' '}
+          </span>
+          <span className="font-mono">
+            {formatSignerDocument(refusal.cpf, refusal.documentType, refusal.documentIssuer)}
+          </span>
+        </div>
+        <div>
+          <span className="text-muted-foreground">{t.signatureLog.date}: </span>
+          <span>{formatDate(refusal.timestamp, DATE_FORMAT)}</span>
+        </div>
+      </div>
+
+      <div className="text-sm">
+        <span className="text-muted-foreground">{t.signatureLog.reason}: </span>
+        <span className="whitespace-pre-wrap break-words">{refusal.reason}</span>
+      </div>
+
+      <div className="text-sm">
+        <span className="text-muted-foreground">Device ID: </span>
+        <span className="font-mono text-xs">
+          {refusal.deviceId.substring(0, 18)}...
+        </span>
+        <CopyButton text={refusal.deviceId} label={t.signatureLog.copyDeviceId} />
+      </div>
+
+      {refusal.devicePublicKey && (
+        <div className="text-sm flex items-center gap-1">
+          <KeySquare className="h-3 w-3 text-muted-foreground" />
+          <span className="text-muted-foreground">{t.signatureLog.deviceKey}: </span>
+          <span className="font-mono text-xs">{abbreviateHash(refusal.devicePublicKey.x, 8)}</span>
+          {deviceSignatureValid !== null && (
+            <Badge variant={deviceSignatureValid ? 'success' : 'destructive'} className="text-xs">
+              {deviceSignatureValid ? t.signatureLog.validSignature : t.signatureLog.invalidSignature}
+            </Badge>
+          )}
+        </div>
+      )}
+
+      <div className="text-sm flex items-center gap-1">
+        <span className="text-muted-foreground">Hash: </span>
+        <span className="font-mono text-xs">{abbreviateHash(refusal.hash, 12)}</span>
+        <CopyButton text={refusal.hash} label={t.signatureLog.copyHash} />
+      </div>
+
+      <div className="text-sm">
+        <span className="text-muted-foreground">{t.signatureLog.previousHash}: </span>
+        <span className="font-mono text-xs">{abbreviateHash(refusal.previousHash, 12)}</span>
       </div>
     </div>
   );
 }
 
-export function SignatureLog({ signatures, className }: SignatureLogProps) {
+export function SignatureLog({ signatures, refusals = [], chainStatus, className }: SignatureLogProps) {
+  const { t } = useI18n();
+
   return (
     <Card className={cn('w-full', className)}>
       <CardHeader className="pb-3">
         <CardTitle className="flex items-center gap-2 text-lg">
           <FileSignature className="h-5 w-5" />
-          Registro de Assinaturas
+          {t.signatureLog.title}
         </CardTitle>
         <CardDescription>
-          {signatures.length === 0
-            ? 'Nenhuma assinatura registrada'
-            : `${signatures.length} assinatura${signatures.length > 1 ? 's' : ''} registrada${signatures.length > 1 ? 's' : ''}`}
+          {t.signatureLog.count(signatures.length)}
+          {refusals.length > 0 && ` · ${t.signatureLog.refusals(refusals.length)}`}
         </CardDescription>
       </CardHeader>
       <CardContent>
-        {signatures.length === 0 ? (
+        {signatures.length === 0 && refusals.length === 0 ? (
           <div className="flex flex-col items-center justify-center py-8 text-muted-foreground">
             <FileSignature className="h-12 w-12 mb-3 opacity-50" />
-            <p>Assine o documento para ver o registro aqui</p>
+            <p>{t.signatureLog.empty}</p>
           </div>
         ) : (
           <div className="space-y-3 max-h-[400px] overflow-y-auto pr-1">
+            {chainStatus && <ChainStatus status={chainStatus} />}
             {signatures.map((signature, index) => (
               <div key={signature.id}>
-                <SignatureItem signature={signature} index={index} />
+                <SignatureItem
+                  signature={signature}
+                  index={index}
+                  isBroken={chainStatus?.brokenAt === index}
+                />
                 {index < signatures.length - 1 && (
                   <Separator className="mt-3" />
                 )}
               </div>
             ))}
+            {/* Refusals are numbered after the signatures by the chain verification */}
+            {refusals.map((refusal, index) => (
+              <RefusalItem
+                key={refusal.id}
+                refusal={refusal}
+                isBroken={chainStatus?.brokenAt === signatures.length + index}
+              />
+            ))}
           </div>
         )}
       </CardContent>
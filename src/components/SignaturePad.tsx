@@ -0,0 +1,138 @@
+import { useEffect, useRef } from 'react';
+import type { PointerEvent } from 'react';
+import { Eraser, Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useI18n } from '@/i18n';
+import { cn } from '@/lib/utils';
+import { SIGNATURE_PAD_SIZE, drawStrokes, type PadSize } from '@/utils';
+import type { SignaturePoint } from '@/types';
+
+interface SignaturePadProps {
+  strokes: SignaturePoint[][];
+  onChange: (strokes: SignaturePoint[][]) => void;
+  /** Coordinate space of the pad (defaults to the signature pad size) */
+  size?: PadSize;
+  /** Accessible name of the drawing area (defaults to the signature one) */
+  label?: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function SignaturePad({
+  strokes,
+  onChange,
+  size = SIGNATURE_PAD_SIZE,
+  label,
+  disabled,
+  className,
+}: SignaturePadProps) {
+  const { t } = useI18n();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Stroke being drawn; committed through onChange when the pointer is released
+  const currentStroke = useRef<SignaturePoint[] | null>(null);
+
+  // Clears the canvas and draws the committed strokes plus the one in progress
+  const redraw = () => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    const scale = canvas.width / size.width;
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    drawStrokes(context, currentStroke.current ? [...strokes, currentStroke.current] : strokes, scale);
+  };
+
+  // Backing store sized for the screen density so strokes stay sharp
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = size.width * ratio;
+    canvas.height = size.height * ratio;
+  }, [size]);
+
+  useEffect(redraw);
+
+  // Maps a pointer position to pad coordinates, whatever the displayed size of the canvas
+  const toPoint = (
+    input: { clientX: number; clientY: number; pointerType: string; pressure: number },
+    bounds: DOMRect
+  ): SignaturePoint => ({
+    x: ((input.clientX - bounds.left) * size.width) / bounds.width,
+    y: ((input.clientY - bounds.top) * size.height) / bounds.height,
+    // Mice and some pens report no pressure
+    pressure: input.pointerType === 'pen' && input.pressure > 0 ? input.pressure : 0.5,
+  });
+
+  const onPointerDown = (event: PointerEvent<HTMLCanvasElement>) => {
+    if (disabled || event.button !== 0) return;
+    event.preventDefault();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    currentStroke.current = [toPoint(event, event.currentTarget.getBoundingClientRect())];
+    redraw();
+  };
+
+  const onPointerMove = (event: PointerEvent<HTMLCanvasElement>) => {
+    const stroke = currentStroke.current;
+    if (!stroke) return;
+    const bounds = event.currentTarget.getBoundingClientRect();
+    // Coalesced events keep fast strokes smooth
+    const coalesced = event.nativeEvent.getCoalescedEvents?.() ?? [];
+    for (const input of coalesced.length > 0 ? coalesced : [event]) {
+      stroke.push(toPoint(input, bounds));
+    }
+    redraw();
+  };
+
+  const onPointerUp = () => {
+    const stroke = currentStroke.current;
+    if (!stroke) return;
+    currentStroke.current = null;
+    onChange([...strokes, stroke]);
+  };
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <canvas
+        ref={canvasRef}
+        aria-label={label ?? t.signaturePad.label}
+        className={cn(
+          'w-full touch-none rounded-md border border-dashed bg-white',
+          disabled ? 'cursor-not-allowed opacity-50' : 'cursor-crosshair'
+        )}
+        style={{ aspectRatio: `${size.width} / ${size.height}` }}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerCancel={onPointerUp}
+      />
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground">
+          {strokes.length > 0 ? t.signaturePad.drawn : t.signaturePad.hint}
+        </p>
+        <div className="flex gap-1">
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(strokes.slice(0, -1))}
+            disabled={disabled || strokes.length === 0}
+          >
+            <Undo2 className="mr-1 h-4 w-4" />
+            {t.signaturePad.undo}
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange([])}
+            disabled={disabled || strokes.length === 0}
+          >
+            <Eraser className="mr-1 h-4 w-4" />
+            {t.signaturePad.clear}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,47 +1,281 @@
-import { useForm } from 'react-hook-form';
+import { useMemo, useState } from 'react';
+import { useForm, useWatch, type FieldError } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { PenTool, Loader2 } from 'lucide-react';
+import { PenTool, Loader2, KeyRound, Signature, Stamp, UserCheck, Ban } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { signerFormSchema, type SignerFormSchemaType } from '@/schemas';
+import { Textarea } from '@/components/ui/textarea';
+import { NativeSelect } from '@/components/ui/native-select';
+import { SignaturePad } from '@/components/SignaturePad';
+import { refusalReasonSchema, signerFormSchema, type SignerFormSchemaType } from '@/schemas';
+import type {
+  CertificateFile,
+  HandwrittenSignature,
+  SignatureLog,
+  SignaturePoint,
+  SignerAttachments,
+  SignerDocumentType,
+  SignerInitials,
+} from '@/types';
+import {
+  BRAZILIAN_STATES,
+  COUNTRY_CODES,
+  INITIALS_PAD_SIZE,
+  SIGNER_DOCUMENT_TYPES,
+  SIGNER_ROLES,
+  formatCPF,
+  generateInitials,
+  getSignerRefusalError,
+  getSignersOnTurn,
+  getSignerTurnError,
+  getWorkflowStatus,
+  normalizeName,
+  renderHandwrittenSignature,
+} from '@/utils';
+import { findMissingGlyphs } from '@/services/fonts';
+import { useI18n } from '@/i18n';
 import { cn } from '@/lib/utils';
 
+const DOCUMENT_PLACEHOLDERS: Record<SignerDocumentType, string> = {
+  cpf: '000.000.000-00',
+  cnpj: '00.000.000/0000-00',
+  passport: 'AB1234567',
+  rne: 'V123456-7',
+  rg: '000000000',
+};
+
+// Formatted length of each document number
+const DOCUMENT_MAX_LENGTHS: Record<SignerDocumentType, number> = {
+  cpf: 14,
+  cnpj: 18,
+  passport: 9,
+  rne: 9,
+  rg: 14,
+};
+
+/**
+ * Masks a document number as the user types
+ * @param type - Document type
+ * @param value - Typed value
+ * @returns Value with the characters and punctuation of the type
+ */
+function formatDocumentInput(type: SignerDocumentType, value: string): string {
+  const upper = value.toUpperCase();
+  switch (type) {
+    case 'cpf':
+      return formatCPFInput(value);
+    case 'cnpj':
+      return formatCNPJInput(value);
+    case 'passport':
+      return upper.replace(/[^0-9A-Z]/g, '').slice(0, 9);
+    case 'rne': {
+      const chars = upper.replace(/[^0-9A-Z]/g, '').slice(0, 8);
+      return chars.length <= 7 ? chars : `${chars.slice(0, 7)}-${chars.slice(7)}`;
+    }
+    case 'rg':
+      return upper.replace(/[^0-9X]/g, '').slice(0, 14);
+  }
+}
+
+// Format CPF as user types
+function formatCPFInput(value: string): string {
+  const digits = value.replace(/\D/g, '').slice(0, 11);
+  if (digits.length <= 3) return digits;
+  if (digits.length <= 6) return `${digits.slice(0, 3)}.${digits.slice(3)}`;
+  if (digits.length <= 9)
+    return `${digits.slice(0, 3)}.${digits.slice(3, 6)}.${digits.slice(6)}`;
+  return `${digits.slice(0, 3)}.${digits.slice(3, 6)}.${digits.slice(6, 9)}-${digits.slice(9)}`;
+}
+
+// Format CNPJ as user types: 12 letters or digits, then 2 check digits
+function formatCNPJInput(value: string): string {
+  const clean = value.toUpperCase().replace(/[^0-9A-Z]/g, '');
+  const chars = (clean.slice(0, 12) + clean.slice(12).replace(/\D/g, '')).slice(0, 14);
+  if (chars.length <= 2) return chars;
+  if (chars.length <= 5) return `${chars.slice(0, 2)}.${chars.slice(2)}`;
+  if (chars.length <= 8) return `${chars.slice(0, 2)}.${chars.slice(2, 5)}.${chars.slice(5)}`;
+  if (chars.length <= 12)
+    return `${chars.slice(0, 2)}.${chars.slice(2, 5)}.${chars.slice(5, 8)}/${chars.slice(8)}`;
+  return `${chars.slice(0, 2)}.${chars.slice(2, 5)}.${chars.slice(5, 8)}/${chars.slice(8, 12)}-${chars.slice(12)}`;
+}
+
 interface SignerFormProps {
-  onSubmit: (data: SignerFormSchemaType) => Promise<void>;
+  onSubmit: (data: SignerFormSchemaType, attachments: SignerAttachments) => Promise<void>;
+  /** Records that the signer declines to sign, with the given reason */
+  onRefuse: (data: SignerFormSchemaType, reason: string) => Promise<void>;
+  /** Log of the open envelope; its workflow decides who may sign */
+  signatureLog?: SignatureLog | null;
+  /** Pages viewed so far, while the envelope requires reading every page before signing; refusing stays allowed */
+  pendingReading?: { viewed: number; pageCount: number } | null;
   disabled: boolean;
   isLoading: boolean;
   className?: string;
 }
 
-export function SignerForm({ onSubmit, disabled, isLoading, className }: SignerFormProps) {
+export function SignerForm({
+  onSubmit,
+  onRefuse,
+  signatureLog,
+  pendingReading,
+  disabled,
+  isLoading,
+  className,
+}: SignerFormProps) {
+  const { t, locale } = useI18n();
   const {
     register,
     handleSubmit,
     formState: { errors },
     reset,
+    control,
+    setValue,
+    setError,
+    clearErrors,
   } = useForm<SignerFormSchemaType>({
     resolver: zodResolver(signerFormSchema),
     defaultValues: {
       name: '',
-      cpf: '',
+      identity: { type: 'cpf', number: '' },
+      role: 'party',
     },
   });
 
+  const [useCertificate, setUseCertificate] = useState(false);
+  const [certificateFile, setCertificateFile] = useState<File | null>(null);
+  const [certificatePassword, setCertificatePassword] = useState('');
+  const [certificateError, setCertificateError] = useState<string | null>(null);
+  const [strokes, setStrokes] = useState<SignaturePoint[][]>([]);
+  const [handwritingError, setHandwritingError] = useState<string | null>(null);
+  const [useInitials, setUseInitials] = useState(false);
+  const [initialsMode, setInitialsMode] = useState<SignerInitials['kind']>('text');
+  const [initialsStrokes, setInitialsStrokes] = useState<SignaturePoint[][]>([]);
+  const [initialsError, setInitialsError] = useState<string | null>(null);
+  const [refusing, setRefusing] = useState(false);
+  const [refusalReason, setRefusalReason] = useState('');
+  const [refusalError, setRefusalError] = useState<string | null>(null);
+
+  // Initials generated the same way as the stored name is normalized
+  const typedName = useWatch({ control, name: 'name' });
+  const generatedInitials = generateInitials(normalizeName(typedName ?? ''));
+  const documentType = useWatch({ control, name: 'identity.type' });
+  // Fields of the other identity types are missing from the error type of the union
+  const identityErrors = errors.identity as Partial<Record<'number' | 'country' | 'state', FieldError>> | undefined;
+
+  // Expected signers allowed to sign now, when the envelope has a workflow
+  const workflow = signatureLog?.workflow;
+  const signersOnTurn = signatureLog && workflow ? getSignersOnTurn(signatureLog) : [];
+  const workflowClosed = !!workflow && signersOnTurn.length === 0;
+  // A refusal closes the envelope, with or without a workflow
+  const refused = !!signatureLog?.refusals?.length;
+
+  // Passport countries by name in the interface language
+  const countries = useMemo(() => {
+    const names = new Intl.DisplayNames([locale], { type: 'region' });
+    return COUNTRY_CODES.map((code) => ({ code, name: names.of(code) ?? code })).sort((a, b) =>
+      a.name.localeCompare(b.name, locale)
+    );
+  }, [locale]);
+
+  // The name is drawn on the protocol; a character missing from the fonts would
+  // come out blank and the verification would no longer find the signer
+  const checkNameGlyphs = async (name: string) => {
+    let missing: string[];
+    try {
+      missing = await findMissingGlyphs(name);
+    } catch (error) {
+      setError('name', { message: error instanceof Error ? error.message : String(error) });
+      return false;
+    }
+    if (missing.length > 0) {
+      setError('name', { message: t.signerForm.nameGlyphsMissing(missing.join(' ')) });
+      return false;
+    }
+    return true;
+  };
+
   const handleFormSubmit = async (data: SignerFormSchemaType) => {
-    await onSubmit(data);
-    reset();
+    const turnError = signatureLog ? getSignerTurnError(signatureLog, data.name, data.identity) : null;
+    if (turnError) {
+      setError(turnError === 'name-mismatch' ? 'name' : 'identity.number', { message: t.signerForm.turnErrors[turnError] });
+      return;
+    }
+    if (!(await checkNameGlyphs(data.name))) return;
+
+    let certificate: CertificateFile | null = null;
+
+    if (useCertificate) {
+      if (!certificateFile) {
+        setCertificateError(t.signerForm.certificateRequired);
+        return;
+      }
+      certificate = {
+        fileName: certificateFile.name,
+        bytes: new Uint8Array(await certificateFile.arrayBuffer()),
+        password: certificatePassword,
+      };
+    }
+
+    let handwritten: HandwrittenSignature | null = null;
+    if (strokes.length > 0) {
+      try {
+        handwritten = await renderHandwrittenSignature(strokes);
+      } catch (error) {
+        setHandwritingError(error instanceof Error ? error.message : t.signerForm.handwritingError);
+        return;
+      }
+    }
+
+    let initials: SignerInitials | null = null;
+    if (useInitials) {
+      if (initialsMode === 'text') {
+        initials = { kind: 'text', text: generateInitials(normalizeName(data.name)) };
+      } else if (initialsStrokes.length === 0) {
+        setInitialsError(t.signerForm.initialsRequired);
+        return;
+      } else {
+        try {
+          initials = { kind: 'drawn', drawing: await renderHandwrittenSignature(initialsStrokes, INITIALS_PAD_SIZE) };
+        } catch (error) {
+          setInitialsError(error instanceof Error ? error.message : t.signerForm.initialsError);
+          return;
+        }
+      }
+    }
+
+    setCertificateError(null);
+    setHandwritingError(null);
+    setInitialsError(null);
+    await onSubmit(data, { certificate, handwritten, initials });
+    // Keep the document type, issuer and role for the next signer
+    reset({ name: '', identity: { ...data.identity, number: '' }, role: data.role });
+    setCertificatePassword('');
+    setStrokes([]);
+    setInitialsStrokes([]);
   };
 
-  // Format CPF as user types
-  const formatCPFInput = (value: string) => {
-    const digits = value.replace(/\D/g, '').slice(0, 11);
-    if (digits.length <= 3) return digits;
-    if (digits.length <= 6) return `${digits.slice(0, 3)}.${digits.slice(3)}`;
-    if (digits.length <= 9)
-      return `${digits.slice(0, 3)}.${digits.slice(3, 6)}.${digits.slice(6)}`;
-    return `${digits.slice(0, 3)}.${digits.slice(3, 6)}.${digits.slice(6, 9)}-${digits.slice(9)}`;
+  const handleRefuseSubmit = async (data: SignerFormSchemaType) => {
+    const turnError = signatureLog ? getSignerRefusalError(signatureLog, data.name, data.identity) : null;
+    if (turnError) {
+      setError(turnError === 'name-mismatch' ? 'name' : 'identity.number', {
+        message: t.signerForm.turnErrors[turnError],
+      });
+      return;
+    }
+    if (!(await checkNameGlyphs(data.name))) return;
+
+    const reason = refusalReasonSchema.safeParse(refusalReason);
+    if (!reason.success) {
+      setRefusalError(reason.error.issues[0].message);
+      return;
+    }
+
+    setRefusalError(null);
+    await onRefuse(data, reason.data);
+    reset({ name: '', identity: { ...data.identity, number: '' }, role: data.role });
+    setRefusing(false);
+    setRefusalReason('');
   };
 
   return (
@@ -49,19 +283,53 @@ export function SignerForm({ onSubmit, disabled, isLoading, className }: SignerF
       <CardHeader className="pb-3">
         <CardTitle className="flex items-center gap-2 text-lg">
           <PenTool className="h-5 w-5" />
-          Dados do Assinante
+          {t.signerForm.title}
         </CardTitle>
-        <CardDescription>
-          Preencha os dados para assinar o documento
-        </CardDescription>
+        <CardDescription>{t.signerForm.description}</CardDescription>
       </CardHeader>
       <CardContent>
         <form onSubmit={handleSubmit(handleFormSubmit)} className="space-y-4">
+          {workflow && signatureLog && (
+            <div className="space-y-2 rounded-lg border p-3">
+              <p className="flex items-center gap-2 text-sm font-medium">
+                <UserCheck className="h-4 w-4" />
+                {t.signerForm.onTurn}
+              </p>
+              {workflowClosed || refused ? (
+                <p className="text-sm text-muted-foreground">
+                  {t.signerForm.workflowClosed(t.common.workflowStatus[getWorkflowStatus(signatureLog)])}
+                </p>
+              ) : (
+                <>
+                  <div className="flex flex-wrap gap-2">
+                    {signersOnTurn.map((signer) => (
+                      <Button
+                        key={signer.id}
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          setValue('name', signer.name);
+                          setValue('identity', { type: 'cpf', number: formatCPF(signer.cpf) });
+                          clearErrors();
+                        }}
+                        disabled={disabled || isLoading}
+                      >
+                        {signer.name} ({formatCPF(signer.cpf)})
+                      </Button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">{t.signerForm.onTurnHint}</p>
+                </>
+              )}
+            </div>
+          )}
+
           <div className="space-y-2">
-            <Label htmlFor="name">Nome Completo *</Label>
+            <Label htmlFor="name">{t.signerForm.name}</Label>
             <Input
               id="name"
-              placeholder="Digite o nome completo"
+              placeholder={t.signerForm.namePlaceholder}
               {...register('name')}
               disabled={disabled || isLoading}
               className={cn(errors.name && 'border-destructive')}
@@ -72,46 +340,341 @@ export function SignerForm({ onSubmit, disabled, isLoading, className }: SignerF
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="cpf">CPF *</Label>
+            <Label htmlFor="role">{t.signerForm.role}</Label>
+            <NativeSelect id="role" {...register('role')} disabled={disabled || isLoading}>
+              {SIGNER_ROLES.map((role) => (
+                <option key={role} value={role}>
+                  {t.common.roles[role]}
+                </option>
+              ))}
+            </NativeSelect>
+            <p className="text-xs text-muted-foreground">{t.signerForm.roleHint}</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="document-type">{t.signerForm.documentType}</Label>
+            <NativeSelect
+              id="document-type"
+              {...register('identity.type', {
+                onChange: () => {
+                  // The mask, the issuer and the validation change with the type
+                  setValue('identity.number', '');
+                  clearErrors('identity');
+                },
+              })}
+              disabled={disabled || isLoading}
+            >
+              {SIGNER_DOCUMENT_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {t.signerForm.documentTypes[type]}
+                </option>
+              ))}
+            </NativeSelect>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="document">{t.signerForm.documentNumber[documentType]}</Label>
             <Input
-              id="cpf"
-              placeholder="000.000.000-00"
-              {...register('cpf', {
+              id="document"
+              placeholder={DOCUMENT_PLACEHOLDERS[documentType]}
+              {...register('identity.number', {
                 onChange: (e) => {
-                  e.target.value = formatCPFInput(e.target.value);
+                  e.target.value = formatDocumentInput(documentType, e.target.value);
                 },
               })}
               disabled={disabled || isLoading}
-              className={cn(errors.cpf && 'border-destructive')}
-              maxLength={14}
+              className={cn(identityErrors?.number && 'border-destructive')}
+              maxLength={DOCUMENT_MAX_LENGTHS[documentType]}
+              autoCapitalize={documentType === 'cpf' ? undefined : 'characters'}
+            />
+            {identityErrors?.number && (
+              <p className="text-sm text-destructive">{identityErrors.number.message}</p>
+            )}
+            {documentType === 'cnpj' && <p className="text-xs text-muted-foreground">{t.signerForm.cnpjHint}</p>}
+            {documentType === 'rne' && <p className="text-xs text-muted-foreground">{t.signerForm.rneHint}</p>}
+          </div>
+
+          {documentType === 'passport' && (
+            <div className="space-y-2">
+              <Label htmlFor="document-country">{t.signerForm.country}</Label>
+              <NativeSelect
+                id="document-country"
+                {...register('identity.country')}
+                disabled={disabled || isLoading}
+                className={cn(identityErrors?.country && 'border-destructive')}
+              >
+                <option value="">{t.signerForm.selectCountry}</option>
+                {countries.map(({ code, name }) => (
+                  <option key={code} value={code}>
+                    {name}
+                  </option>
+                ))}
+              </NativeSelect>
+              {identityErrors?.country && (
+                <p className="text-sm text-destructive">{identityErrors.country.message}</p>
+              )}
+            </div>
+          )}
+
+          {documentType === 'rg' && (
+            <div className="space-y-2">
+              <Label htmlFor="document-state">{t.signerForm.state}</Label>
+              <NativeSelect
+                id="document-state"
+                {...register('identity.state')}
+                disabled={disabled || isLoading}
+                className={cn(identityErrors?.state && 'border-destructive')}
+              >
+                <option value="">{t.signerForm.selectState}</option>
+                {BRAZILIAN_STATES.map((state) => (
+                  <option key={state} value={state}>
+                    {state}
+                  </option>
+                ))}
+              </NativeSelect>
+              {identityErrors?.state && (
+                <p className="text-sm text-destructive">{identityErrors.state.message}</p>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label className="flex items-center gap-2">
+              <Signature className="h-4 w-4" />
+              {t.signerForm.handwritten}
+            </Label>
+            <SignaturePad
+              strokes={strokes}
+              onChange={(value) => {
+                setStrokes(value);
+                setHandwritingError(null);
+              }}
+              disabled={disabled || isLoading}
             />
-            {errors.cpf && (
-              <p className="text-sm text-destructive">{errors.cpf.message}</p>
+            {handwritingError && (
+              <p className="text-sm text-destructive">{handwritingError}</p>
+            )}
+          </div>
+
+          <div className="space-y-3 rounded-lg border p-3">
+            <label className="flex items-center gap-2 text-sm font-medium cursor-pointer">
+              <input
+                type="checkbox"
+                checked={useInitials}
+                onChange={(e) => {
+                  setUseInitials(e.target.checked);
+                  setInitialsError(null);
+                }}
+                disabled={disabled || isLoading}
+                className="h-4 w-4 accent-primary"
+              />
+              <Stamp className="h-4 w-4" />
+              {t.signerForm.useInitials}
+            </label>
+
+            {useInitials && (
+              <>
+                <div className="flex gap-4 text-sm">
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="initials-mode"
+                      checked={initialsMode === 'text'}
+                      onChange={() => {
+                        setInitialsMode('text');
+                        setInitialsError(null);
+                      }}
+                      disabled={disabled || isLoading}
+                      className="h-4 w-4 accent-primary"
+                    />
+                    {t.signerForm.initialsFromName}
+                  </label>
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="initials-mode"
+                      checked={initialsMode === 'drawn'}
+                      onChange={() => {
+                        setInitialsMode('drawn');
+                        setInitialsError(null);
+                      }}
+                      disabled={disabled || isLoading}
+                      className="h-4 w-4 accent-primary"
+                    />
+                    {t.signerForm.initialsDrawn}
+                  </label>
+                </div>
+
+                {initialsMode === 'text' ? (
+                  <p className="text-sm text-muted-foreground">
+                    {t.signerForm.initials}:{' '}
+                    <span className="font-mono font-semibold text-foreground">
+                      {generatedInitials || '—'}
+                    </span>
+                  </p>
+                ) : (
+                  <SignaturePad
+                    strokes={initialsStrokes}
+                    onChange={(value) => {
+                      setInitialsStrokes(value);
+                      setInitialsError(null);
+                    }}
+                    size={INITIALS_PAD_SIZE}
+                    label={t.signerForm.initialsPad}
+                    disabled={disabled || isLoading}
+                    className="max-w-[240px]"
+                  />
+                )}
+                {initialsError && (
+                  <p className="text-sm text-destructive">{initialsError}</p>
+                )}
+                <p className="text-xs text-muted-foreground">{t.signerForm.initialsHint}</p>
+              </>
+            )}
+          </div>
+
+          <div className="space-y-3 rounded-lg border p-3">
+            <label className="flex items-center gap-2 text-sm font-medium cursor-pointer">
+              <input
+                type="checkbox"
+                checked={useCertificate}
+                onChange={(e) => {
+                  setUseCertificate(e.target.checked);
+                  setCertificateError(null);
+                }}
+                disabled={disabled || isLoading}
+                className="h-4 w-4 accent-primary"
+              />
+              <KeyRound className="h-4 w-4" />
+              {t.signerForm.useCertificate}
+            </label>
+
+            {useCertificate && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="certificate">{t.signerForm.certificate}</Label>
+                  <Input
+                    id="certificate"
+                    type="file"
+                    accept=".p12,.pfx,application/x-pkcs12"
+                    onChange={(e) => {
+                      setCertificateFile(e.target.files?.[0] ?? null);
+                      setCertificateError(null);
+                    }}
+                    disabled={disabled || isLoading}
+                    className={cn(certificateError && 'border-destructive')}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="certificate-password">{t.signerForm.certificatePassword}</Label>
+                  <Input
+                    id="certificate-password"
+                    type="password"
+                    autoComplete="off"
+                    value={certificatePassword}
+                    onChange={(e) => setCertificatePassword(e.target.value)}
+                    disabled={disabled || isLoading}
+                  />
+                </div>
+                {certificateError && (
+                  <p className="text-sm text-destructive">{certificateError}</p>
+                )}
+                <p className="text-xs text-muted-foreground">{t.signerForm.certificateHint}</p>
+              </>
             )}
           </div>
 
           <Button
             type="submit"
             className="w-full"
-            disabled={disabled || isLoading}
+            disabled={disabled || isLoading || workflowClosed || refused || !!pendingReading}
           >
             {isLoading ? (
               <>
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Assinando...
+                {t.signerForm.signing}
               </>
             ) : (
               <>
                 <PenTool className="mr-2 h-4 w-4" />
-                Assinar Documento
+                {t.signerForm.sign}
               </>
             )}
           </Button>
 
-          {disabled && !isLoading && (
-            <p className="text-sm text-muted-foreground text-center">
-              Carregue um PDF para habilitar a assinatura
-            </p>
+          {!refused && (refusing ? (
+            <div className="space-y-3 rounded-lg border border-destructive/50 p-3">
+              <div className="space-y-2">
+                <Label htmlFor="refusal-reason">{t.signerForm.refusalReason}</Label>
+                <Textarea
+                  id="refusal-reason"
+                  placeholder={t.signerForm.refusalReasonPlaceholder}
+                  value={refusalReason}
+                  onChange={(e) => {
+                    setRefusalReason(e.target.value);
+                    setRefusalError(null);
+                  }}
+                  maxLength={500}
+                  disabled={disabled || isLoading}
+                  className={cn(refusalError && 'border-destructive')}
+                />
+                {refusalError && <p className="text-sm text-destructive">{refusalError}</p>}
+                <p className="text-xs text-muted-foreground">{t.signerForm.refusalHint}</p>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant="destructive"
+                  className="flex-1"
+                  onClick={handleSubmit(handleRefuseSubmit)}
+                  disabled={disabled || isLoading}
+                >
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      {t.signerForm.refusing}
+                    </>
+                  ) : (
+                    <>
+                      <Ban className="mr-2 h-4 w-4" />
+                      {t.signerForm.confirmRefusal}
+                    </>
+                  )}
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => {
+                    setRefusing(false);
+                    setRefusalError(null);
+                  }}
+                  disabled={isLoading}
+                >
+                  {t.common.cancel}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <Button
+              type="button"
+              variant="ghost"
+              className="w-full text-destructive hover:text-destructive"
+              onClick={() => setRefusing(true)}
+              disabled={disabled || isLoading}
+            >
+              <Ban className="mr-2 h-4 w-4" />
+              {t.signerForm.refuse}
+            </Button>
+          ))}
+
+          {disabled && !isLoading ? (
+            <p className="text-sm text-muted-foreground text-center">{t.signerForm.uploadFirst}</p>
+          ) : (
+            pendingReading && (
+              <p className="text-sm text-muted-foreground text-center">
+                {t.signerForm.readingRequired(pendingReading.viewed, pendingReading.pageCount)}
+              </p>
+            )
           )}
         </form>
       </CardContent>
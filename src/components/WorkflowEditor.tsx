@@ -0,0 +1,261 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { ListOrdered, UserPlus, ArrowUp, ArrowDown, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { NativeSelect } from '@/components/ui/native-select';
+import { expectedSignerFormSchema, type ExpectedSignerFormSchemaType } from '@/schemas';
+import type { ExpectedSignerState, SignatureLog, SigningOrder, SigningWorkflow, WorkflowStatus } from '@/types';
+import { formatCPF, getExpectedSignerStates, getWorkflowStatus, normalizeCPF, normalizeName } from '@/utils';
+import { useI18n } from '@/i18n';
+import { cn } from '@/lib/utils';
+
+interface WorkflowEditorProps {
+  signatureLog: SignatureLog | null;
+  /** Receives the edited workflow, or undefined when the last expected signer is removed */
+  onChange: (workflow: SigningWorkflow | undefined) => void;
+  className?: string;
+}
+
+const SIGNING_ORDERS: readonly SigningOrder[] = ['sequential', 'parallel'];
+
+const STATUS_VARIANTS: Record<WorkflowStatus, 'outline' | 'secondary' | 'success' | 'destructive'> = {
+  pending: 'outline',
+  'partially-signed': 'secondary',
+  completed: 'success',
+  expired: 'destructive',
+  refused: 'destructive',
+};
+
+const STATE_VARIANTS: Record<ExpectedSignerState, 'default' | 'outline' | 'secondary' | 'success' | 'destructive'> = {
+  signed: 'success',
+  refused: 'destructive',
+  'on-turn': 'default',
+  waiting: 'outline',
+  skipped: 'secondary',
+};
+
+/**
+ * Converts an ISO date to the local value of a datetime-local input
+ * @param iso - ISO date
+ * @returns Value like "2025-01-31T18:00"
+ */
+function toDateTimeLocal(iso: string): string {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 16);
+}
+
+export function WorkflowEditor({ signatureLog, onChange, className }: WorkflowEditorProps) {
+  const { t } = useI18n();
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    setError,
+  } = useForm<ExpectedSignerFormSchemaType>({
+    resolver: zodResolver(expectedSignerFormSchema),
+    defaultValues: { name: '', cpf: '', required: true },
+  });
+  // Order chosen before the first expected signer is added
+  const [initialOrder, setInitialOrder] = useState<SigningOrder>('sequential');
+
+  const workflow = signatureLog?.workflow;
+  const signers = workflow?.signers ?? [];
+  const order = workflow?.order ?? initialOrder;
+  // The expected signers are fixed once someone signs
+  const locked = !signatureLog || signatureLog.signatures.length > 0;
+  const status = signatureLog ? getWorkflowStatus(signatureLog) : null;
+  const states = signatureLog ? getExpectedSignerStates(signatureLog) : new Map<string, ExpectedSignerState>();
+
+  const update = (changes: Partial<SigningWorkflow>) => {
+    const next: SigningWorkflow = { order, signers, ...(workflow?.expiresAt && { expiresAt: workflow.expiresAt }), ...changes };
+    onChange(next.signers.length > 0 ? next : undefined);
+  };
+
+  const handleOrderChange = (value: SigningOrder) => {
+    if (workflow) {
+      update({ order: value });
+    } else {
+      setInitialOrder(value);
+    }
+  };
+
+  const moveSigner = (index: number, offset: number) => {
+    const next = [...signers];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    update({ signers: next });
+  };
+
+  const handleAdd = (data: ExpectedSignerFormSchemaType) => {
+    const cpf = normalizeCPF(data.cpf);
+    if (signers.some((signer) => signer.cpf === cpf)) {
+      setError('cpf', { message: t.workflow.duplicateCpf });
+      return;
+    }
+    update({ signers: [...signers, { id: crypto.randomUUID(), name: normalizeName(data.name), cpf, required: data.required }] });
+    reset({ name: '', cpf: '', required: data.required });
+  };
+
+  return (
+    <Card className={cn('w-full', className)}>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-2">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <ListOrdered className="h-5 w-5" />
+              {t.workflow.title}
+            </CardTitle>
+            <CardDescription>{t.workflow.description}</CardDescription>
+          </div>
+          {status && workflow && (
+            <Badge variant={STATUS_VARIANTS[status]} className="shrink-0 text-xs">
+              {t.common.workflowStatus[status]}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="workflow-order">{t.workflow.order}</Label>
+            <NativeSelect
+              id="workflow-order"
+              value={order}
+              onChange={(e) => handleOrderChange(e.target.value as SigningOrder)}
+              disabled={locked}
+            >
+              {SIGNING_ORDERS.map((option) => (
+                <option key={option} value={option}>
+                  {t.workflow.orders[option]}
+                </option>
+              ))}
+            </NativeSelect>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="workflow-deadline">{t.workflow.expiresAt}</Label>
+            <Input
+              id="workflow-deadline"
+              type="datetime-local"
+              value={workflow?.expiresAt ? toDateTimeLocal(workflow.expiresAt) : ''}
+              onChange={(e) => update({ expiresAt: e.target.value ? new Date(e.target.value).toISOString() : undefined })}
+              disabled={locked || !workflow}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {t.workflow.orderHints[order]} {t.workflow.expiresAtHint}
+        </p>
+
+        {signers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t.workflow.empty}</p>
+        ) : (
+          <ol className="space-y-2">
+            {signers.map((signer, index) => {
+              const state = states.get(signer.id) ?? 'waiting';
+              return (
+                <li key={signer.id} className="flex items-center gap-2 rounded-md border p-2 text-sm">
+                  <span className="w-5 text-center text-muted-foreground">{index + 1}</span>
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate font-medium">{signer.name}</p>
+                    <p className="font-mono text-xs text-muted-foreground">
+                      {formatCPF(signer.cpf)} · {signer.required ? t.workflow.required : t.workflow.optional}
+                    </p>
+                  </div>
+                  <Badge variant={STATE_VARIANTS[state]} className="shrink-0 text-xs">
+                    {t.workflow.states[state]}
+                  </Badge>
+                  {!locked && (
+                    <>
+                      {order === 'sequential' && (
+                        <>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => moveSigner(index, -1)}
+                            disabled={index === 0}
+                            aria-label={t.workflow.moveUp(signer.name)}
+                          >
+                            <ArrowUp className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => moveSigner(index, 1)}
+                            disabled={index === signers.length - 1}
+                            aria-label={t.workflow.moveDown(signer.name)}
+                          >
+                            <ArrowDown className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => update({ signers: signers.filter((other) => other.id !== signer.id) })}
+                        aria-label={t.workflow.remove(signer.name)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        )}
+
+        {locked ? (
+          signatureLog && <p className="text-xs text-muted-foreground">{t.workflow.locked}</p>
+        ) : (
+          <form onSubmit={handleSubmit(handleAdd)} className="space-y-3 rounded-lg border p-3">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="expected-name">{t.workflow.name}</Label>
+                <Input
+                  id="expected-name"
+                  placeholder={t.signerForm.namePlaceholder}
+                  {...register('name')}
+                  className={cn(errors.name && 'border-destructive')}
+                />
+                {errors.name && <p className="text-sm text-destructive">{errors.name.message}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="expected-cpf">{t.workflow.cpf}</Label>
+                <Input
+                  id="expected-cpf"
+                  placeholder="000.000.000-00"
+                  {...register('cpf', {
+                    onChange: (e) => {
+                      e.target.value = e.target.value.replace(/[^\d.-]/g, '');
+                    },
+                  })}
+                  maxLength={14}
+                  className={cn(errors.cpf && 'border-destructive')}
+                />
+                {errors.cpf && <p className="text-sm text-destructive">{errors.cpf.message}</p>}
+              </div>
+            </div>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <input type="checkbox" {...register('required')} className="h-4 w-4 accent-primary" />
+                {t.workflow.required}
+              </label>
+              <Button type="submit" size="sm" variant="outline">
+                <UserPlus className="h-4 w-4" />
+                {t.workflow.add}
+              </Button>
+            </div>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
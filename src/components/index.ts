@@ -1,5 +1,11 @@
 export { PDFUpload } from './PDFUpload';
 export { PDFPreview } from './PDFPreview';
 export { SignerForm } from './SignerForm';
+export { SignaturePad } from './SignaturePad';
 export { SignatureLog } from './SignatureLog';
 export { ActionBar } from './ActionBar';
+export { DocumentVerifier } from './DocumentVerifier';
+export { EnvelopeDashboard } from './EnvelopeDashboard';
+export { DocumentMatchPrompt } from './DocumentMatchPrompt';
+export { ProtocolSettings } from './ProtocolSettings';
+export { WorkflowEditor } from './WorkflowEditor';
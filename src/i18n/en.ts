@@ -0,0 +1,769 @@
+import type {
+  ChainBreak,
+  ChainBreakReason,
+  ChainBreakSubject,
+  SignerDocumentType,
+  SignerRole,
+  WorkflowStatus,
+} from '@/types';
+import type { Messages } from './pt-BR';
+
+const plural = (count: number, one: string, other: string) => (count === 1 ? one : other);
+
+// Where a hash chain broke: name of the record and what is wrong with it
+const CHAIN_BREAKS: Record<ChainBreakSubject, { label: string; reasons: Record<ChainBreakReason, string> }> = {
+  signature: {
+    label: 'Signature',
+    reasons: {
+      'missing-link': 'signature not linked to the previous one',
+      'link-mismatch': 'link does not match the previous signature (removal or reordering)',
+      'hash-mismatch': 'hash does not match the recorded data (signature altered)',
+    },
+  },
+  refusal: {
+    label: 'Refusal',
+    reasons: {
+      'missing-link': 'refusal not linked to the chain',
+      'link-mismatch': 'link does not match any signature of the chain',
+      'hash-mismatch': 'hash does not match the recorded data (refusal altered)',
+    },
+  },
+  'audit-event': {
+    label: 'Event',
+    reasons: {
+      'missing-link': 'event not linked to the previous ones',
+      'link-mismatch': 'link does not match any previous event (removal or reordering)',
+      'hash-mismatch': 'hash does not match the recorded data (event altered)',
+    },
+  },
+};
+
+const chainBreak = ({ subject, position, reason }: ChainBreak) =>
+  `${CHAIN_BREAKS[subject].label} #${position}: ${CHAIN_BREAKS[subject].reasons[reason]}`;
+
+export const en: Messages = {
+  app: {
+    title: 'PDF Electronic Signature',
+    subtitle: 'MVP - 100% Frontend Application',
+    footer: 'MVP - PDF Electronic Signature | No backend | Device ID replaces the real IP',
+    language: 'Language',
+    nav: {
+      envelopes: 'Envelopes',
+      sign: 'Sign',
+      verify: 'Verify document',
+      settings: 'Settings',
+    },
+  },
+
+  toasts: {
+    saveErrorTitle: 'Error saving',
+    saveErrorDescription: 'The envelope could not be saved.',
+    logMigratedTitle: 'Signature log migrated',
+    logMigratedDescription: (fileName) => `The log of "${fileName}" was moved to the envelope storage.`,
+    storageUnavailableTitle: 'Storage unavailable',
+    storageUnavailableDescription: 'The saved envelopes could not be opened. Signatures will be kept in memory only.',
+    documentRecognizedTitle: 'Document recognized',
+    documentRecognizedDescription: (count) =>
+      `This document already has ${count} ${plural(count, 'recorded signature', 'recorded signatures')}. You can add more signatures.`,
+    invalidPdfTitle: 'Invalid PDF',
+    invalidPdfDescription: 'The selected file is not a valid PDF or is corrupted.',
+    fileErrorTitle: 'Error processing file',
+    fileErrorDescription: 'An error occurred while processing the PDF file.',
+    errorTitle: 'Error',
+    uploadBeforeSigning: 'Upload a PDF before signing.',
+    invalidCertificateTitle: 'Invalid certificate',
+    invalidCertificateDescription: 'The certificate could not be opened.',
+    timestampUnavailableTitle: 'Timestamp unavailable',
+    timestampUnavailableDescription: 'The signature was recorded with the device time.',
+    signedTitle: 'Signature applied!',
+    signedDescription: (name, hash) => `Document signed by ${name}. Hash: ${hash}...`,
+    signErrorTitle: 'Error signing',
+    signErrorDescription: 'An error occurred while applying the signature to the PDF.',
+    downloadStartedTitle: 'Download started',
+    downloadWithoutPades: 'The PDF was generated without a PAdES signature: the certificate is not loaded in this session.',
+    downloadWithPades: (commonName) => `The PDF digitally signed by ${commonName} is being downloaded.`,
+    downloadWithProtocol: 'The signed PDF with the protocol is being downloaded.',
+    downloadWithPadesOthersInProtocol: (commonName) =>
+      `The PDF digitally signed by ${commonName} is being downloaded. The other certificates are only listed in the protocol.`,
+    downloadErrorTitle: 'Error downloading',
+    downloadErrorDescription: 'An error occurred while downloading the signed PDF.',
+    logsImportedTitle: 'Logs imported',
+    logsImportedDescription: (imported, updated, skipped) =>
+      `${imported} new, ${updated} updated, ${skipped} already present.`,
+    importRejectedTitle: 'Import rejected',
+    importRejectedDescription: 'The file could not be imported.',
+    envelopeNotFoundTitle: 'Envelope not found',
+    envelopeNotFoundDescription: 'The envelope may have been deleted in another tab.',
+    uploadPdfTitle: 'Upload the PDF',
+    uploadPdfDescription: (fileName) => `Upload the PDF "${fileName}" to continue signing.`,
+    openErrorTitle: 'Error opening',
+    openErrorDescription: 'The envelope could not be opened.',
+    pdfUnavailableTitle: 'PDF unavailable',
+    pdfUnavailableDescription: 'Open the envelope and upload the original PDF before finalizing.',
+    finalizeErrorTitle: 'Error finalizing',
+    finalizeErrorDescription: 'An error occurred while generating the signed PDF.',
+    envelopeDeletedTitle: 'Envelope deleted',
+    envelopeDeletedDescription: 'The document and the signature log were removed from this browser.',
+    deleteErrorTitle: 'Error deleting',
+    deleteErrorDescription: 'The envelope could not be deleted.',
+    workflowIncompleteTitle: 'Signing workflow incomplete',
+    workflowIncompleteDescription: (status) =>
+      `The final PDF is only generated once the workflow is completed (current status: ${status}).`,
+    signerRefusedTitle: 'Signer refused',
+    refusalRecordedTitle: 'Refusal recorded',
+    refusalRecordedDescription: (name) =>
+      `The refusal of ${name} was recorded in the log. The envelope can no longer be finalized.`,
+    refusalErrorTitle: 'Error recording refusal',
+    refusalErrorDescription: 'An error occurred while recording the refusal. Please try again.',
+    refusalDownloadedTitle: 'Refusal record downloaded',
+    refusalDownloadedDescription: 'The PDF carries the protocol with the refusals, but the envelope was not finalized.',
+    readingRequiredTitle: 'Reading required',
+    readingRequiredDescription: (viewed: number, pageCount: number) =>
+      `View every page of the document before signing (${viewed} of ${pageCount}).`,
+    templateSavedTitle: 'Template saved',
+    templateSavedDescription: 'The next finalized PDFs will use the new protocol template.',
+    templateInvalidTitle: 'Invalid template',
+    templateInvalidDescription: 'The template could not be saved.',
+    templateResetTitle: 'Template restored',
+    templateResetDescription: 'The protocol is back to the default template.',
+    documentRemovedTitle: 'Document removed',
+    documentRemovedDescription: 'The document and the signature log were cleared.',
+    removeErrorTitle: 'Error removing',
+    removeErrorDescription: 'The envelope was closed, but it could not be removed from the local storage.',
+  },
+
+  common: {
+    documentTypes: { cpf: 'CPF', cnpj: 'CNPJ', passport: 'Passport', rne: 'RNE/CRNM', rg: 'RG' },
+    roles: {
+      party: 'Party',
+      witness: 'Witness',
+      approver: 'Approver',
+      intervening: 'Intervening party',
+      'legal-representative': 'Legal representative',
+      issuer: 'Issuer',
+    },
+    workflowStatus: {
+      pending: 'Pending',
+      'partially-signed': 'Partially signed',
+      completed: 'Completed',
+      expired: 'Expired',
+      refused: 'Refused',
+    },
+    copy: 'Copy',
+    copied: 'Copied',
+    cancel: 'Cancel',
+    notChained: 'not chained',
+  },
+
+  upload: {
+    title: 'PDF Document',
+    selectPdf: 'Please select a PDF file.',
+    tooLarge: 'The PDF file must be at most 50MB.',
+    notPdf: 'The file does not look like a valid PDF.',
+    processError: 'Error processing the PDF file.',
+    uploadLabel: 'Upload PDF',
+    dropHere: 'Drop the file here',
+    dragOrClick: 'Drag a PDF or click to select',
+    maxSize: 'Up to 50MB',
+    hasSignatures: 'PDF with signatures',
+    removeFile: 'Remove file',
+  },
+
+  preview: {
+    title: 'PDF Preview',
+    empty: 'Upload a PDF to preview it',
+    loadError: 'Error loading the PDF preview.',
+    placeStamp: 'Place stamp',
+    removeStamp: 'Remove stamp',
+    zoomOut: 'Zoom out',
+    zoomIn: 'Zoom in',
+    stampLabel: 'Signature stamp: drag it or use the arrow keys to place it',
+    yourSignature: 'Your signature',
+    dragHint: 'Drag the stamp to the desired spot. It will be drawn at this position when the finalized PDF is downloaded.',
+    stampOnPage: (page) => `The stamp is on page ${page}. Click this page to move it here.`,
+    previousPage: 'Previous page',
+    nextPage: 'Next page',
+    pageOf: (page, total) => `Page ${page} of ${total}`,
+  },
+
+  signerForm: {
+    title: 'Signer Details',
+    description: 'Fill in the details to sign the document',
+    name: 'Full Name *',
+    namePlaceholder: 'Enter the full name',
+    nameGlyphsMissing: (characters) => `The protocol fonts do not have these characters: ${characters}`,
+    documentType: 'Document type',
+    documentTypes: {
+      cpf: 'CPF (individual)',
+      cnpj: 'CNPJ (legal entity)',
+      passport: 'Passport (foreigner)',
+      rne: 'RNE/CRNM (resident foreigner)',
+      rg: 'RG (Brazilian identity card)',
+    },
+    documentNumber: {
+      cpf: 'CPF *',
+      cnpj: 'CNPJ *',
+      passport: 'Passport number *',
+      rne: 'RNE/CRNM number *',
+      rg: 'RG number *',
+    },
+    country: 'Issuing country *',
+    selectCountry: 'Select the country',
+    state: 'Issuing state *',
+    selectState: 'Select the state',
+    cnpjHint: 'The CNPJ may contain letters (new alphanumeric format).',
+    rneHint: 'A letter, 6 digits and the check digit (e.g. V123456-7).',
+    role: 'Signer role *',
+    roleHint: 'Signatures are grouped by role on the protocol page.',
+    onTurn: 'Turn to sign',
+    onTurnHint: 'Select a signer to fill in the name and CPF.',
+    workflowClosed: (status) => `Nobody can sign now: workflow ${status.toLowerCase()}.`,
+    turnErrors: {
+      refused: 'The envelope was refused and no longer accepts signatures',
+      expired: 'The signing workflow deadline has passed',
+      'not-expected': 'This CPF is not among the expected signers',
+      'already-signed': 'This signer has already signed',
+      'out-of-turn': "It is not this signer's turn yet",
+      'name-mismatch': 'The name does not match the expected signer',
+    },
+    handwritten: 'Handwritten signature (optional)',
+    handwritingError: 'The drawn signature could not be read.',
+    useInitials: 'Initial every page',
+    initialsFromName: 'Generate from the name',
+    initialsDrawn: 'Draw',
+    initials: 'Initials',
+    initialsPad: 'Area to draw the initials',
+    initialsRequired: 'Draw the initials or choose to generate them from the name',
+    initialsError: 'The drawn initials could not be read.',
+    initialsHint: 'The initials are printed at the bottom of every page of the original document when the PDF is finalized.',
+    useCertificate: 'Sign with a digital certificate (PAdES)',
+    certificate: 'PKCS#12 certificate (.p12/.pfx) *',
+    certificatePassword: 'Certificate password',
+    certificateRequired: 'Select the certificate file (.p12 or .pfx)',
+    certificateHint: 'The certificate stays in memory only and is used to digitally sign the final PDF.',
+    signing: 'Signing...',
+    sign: 'Sign Document',
+    refuse: 'Decline to sign',
+    refusalReason: 'Reason for declining *',
+    refusalReasonPlaceholder: 'Explain why you will not sign the document',
+    confirmRefusal: 'Confirm refusal',
+    refusing: 'Recording refusal...',
+    refusalHint: 'The refusal is recorded with a hash in the log, with the name and document above, and prevents the envelope from being finalized.',
+    uploadFirst: 'Upload a PDF to enable signing',
+    readingRequired: (viewed: number, pageCount: number) =>
+      `View every page of the document to enable signing (${viewed} of ${pageCount})`,
+  },
+
+  workflow: {
+    title: 'Signing Workflow',
+    description: 'Define who must sign the envelope and in which order',
+    order: 'Order',
+    orders: { sequential: 'Sequential', parallel: 'Parallel' },
+    orderHints: {
+      sequential: 'Each signer signs in turn, in list order; optional signers may be skipped.',
+      parallel: 'Signers may sign in any order.',
+    },
+    expiresAt: 'Deadline',
+    expiresAtHint: 'If the required signatures are not made by the deadline, the workflow expires.',
+    name: 'Name',
+    cpf: 'CPF',
+    required: 'Required',
+    optional: 'Optional',
+    add: 'Add',
+    remove: (name) => `Remove ${name}`,
+    moveUp: (name) => `Move ${name} up`,
+    moveDown: (name) => `Move ${name} down`,
+    empty: 'Without a workflow, anyone can sign the envelope.',
+    locked: 'The workflow cannot be changed after the first signature.',
+    duplicateCpf: 'This CPF is already in the workflow',
+    states: {
+      signed: 'Signed',
+      'on-turn': 'On turn',
+      waiting: 'Waiting',
+      skipped: 'Skipped',
+      refused: 'Refused',
+    },
+  },
+
+  signaturePad: {
+    label: 'Area to draw the signature',
+    drawn: 'Signature drawn',
+    hint: 'Draw with the mouse, your finger or a pen',
+    undo: 'Undo',
+    clear: 'Clear',
+  },
+
+  signatureLog: {
+    title: 'Signature Log',
+    count: (count) =>
+      count === 0 ? 'No signatures recorded' : `${count} ${plural(count, 'signature recorded', 'signatures recorded')}`,
+    empty: 'Sign the document to see the log here',
+    refusals: (count) => `${count} ${plural(count, 'refusal recorded', 'refusals recorded')}`,
+    refused: 'Refused',
+    reason: 'Reason',
+    reading: 'Reading',
+    readingSummary: (viewed: number, pageCount: number, seconds: string) =>
+      `${viewed} of ${pageCount} ${plural(pageCount, 'page', 'pages')} in ${seconds} s`,
+    chainValid: (length) => `Signature chain intact (${length} ${plural(length, 'link', 'links')})`,
+    hashesNotRecomputed: ' - hashes not recomputed without the PDF',
+    chainBroken: 'Chain broken.',
+    signed: 'Signed',
+    date: 'Date',
+    handwrittenAlt: (name) => `Handwritten signature of ${name}`,
+    copyDeviceId: 'Copy Device ID',
+    deviceKey: 'Device key',
+    validSignature: 'Valid signature',
+    invalidSignature: 'Invalid signature',
+    copyPublicKey: 'Copy public key (JWK)',
+    timestamp: 'Timestamp',
+    validTimestamp: 'Valid timestamp',
+    invalidTimestamp: 'Invalid timestamp',
+    untrustedTimestamp: 'Valid timestamp, untrusted TSA',
+    localTimestamp: 'Local TSA timestamp (development)',
+    certificate: 'Certificate',
+    serial: (serialNumber) => `(serial ${serialNumber})`,
+    copyHash: 'Copy full hash',
+    previousHash: 'Previous hash',
+  },
+
+  actionBar: {
+    author: 'Envelope author',
+    authorPlaceholder: 'Name of who created the envelope',
+    requireFullReading: 'Require reading every page before signing',
+    requireFullReadingHint: 'Each signer must view every page on the preview to sign.',
+    offlineTitle: 'MVP - Offline Mode:',
+    offlineDescription: 'The Device ID replaces the real IP in this MVP. In production, the IP will be obtained by a backend.',
+    downloading: 'Downloading...',
+    download: 'Download Signed PDF',
+    clearAll: 'Clear All',
+    protocolLanguage: 'Protocol language:',
+    protocolLanguageHint: 'In another language, the protocol is also printed in Portuguese.',
+    workflowIncomplete: 'The signed PDF can only be downloaded once the signing workflow is completed.',
+    refused: 'The envelope was refused and cannot be finalized.',
+    downloadRefusal: 'Download refusal record',
+    exportLog: 'Export log:',
+    saved: 'The PDF and the signature log are saved in this browser.',
+    storage: (usage, quota, percent) => `Storage: ${usage} of ${quota} (${percent})`,
+    notPersisted: ' - the browser may free it when running out of space',
+    warning: 'Warning:',
+    notSaved:
+      'The PDF could not be saved in this browser. Download it before reloading the page, or you will have to upload it again.',
+  },
+
+  matchPrompt: {
+    title: 'Known document',
+    description: (fileName, envelopeName, createdAt, count) =>
+      `The content of "${fileName}" is identical to the envelope "${envelopeName}", created on ${createdAt} with ${count} ${plural(count, 'signature', 'signatures')}. Do you want to continue with the existing log?`,
+    useExisting: 'Use existing log',
+    createNew: 'Create new envelope',
+  },
+
+  dashboard: {
+    title: 'Envelopes',
+    count: (count) =>
+      count === 0
+        ? 'No envelopes saved in this browser'
+        : `${count} ${plural(count, 'envelope', 'envelopes')} saved in this browser`,
+    status: {
+      draft: 'Awaiting signatures',
+      signed: 'Signed',
+      finalized: 'Finalized',
+      refused: 'Refused',
+    },
+    workflow: 'Signing workflow',
+    exportJson: 'Export JSON',
+    exportCsv: 'Export CSV',
+    importLogs: 'Import logs',
+    newEnvelope: 'New envelope',
+    search: 'Search',
+    searchPlaceholder: 'File, signer or document ID',
+    signerCpf: 'Signer CPF/CNPJ',
+    signerDocumentPlaceholder: 'With or without punctuation',
+    createdFrom: 'Created from',
+    createdTo: 'Created until',
+    clearFilters: 'Clear filters',
+    loading: 'Loading envelopes...',
+    empty: 'Create an envelope by uploading a PDF to sign',
+    noMatches: 'No envelopes match the filters',
+    open: 'Open',
+    created: 'Created',
+    updated: 'Updated',
+    signatures: 'Signatures',
+    lastSigner: 'Last signer',
+    pdfMissing: 'PDF not stored: reopen it and upload the original file to continue.',
+    openAction: 'Open',
+    finalize: 'Finalize and download',
+    confirmDelete: 'Confirm deletion',
+    delete: 'Delete',
+  },
+
+  verifier: {
+    title: 'Verify Document',
+    description: 'Upload a finalized PDF to check its signature protocol',
+    signedPdf: 'Signed PDF *',
+    originalPdf: 'Original PDF (optional)',
+    originalHint: 'With the original PDF it is also possible to confirm that the content was not changed.',
+    verifying: 'Verifying...',
+    verify: 'Verify Document',
+    error: 'Error verifying the document.',
+    status: {
+      valid: {
+        title: 'Authentic document',
+        description: 'Every protocol check passed.',
+      },
+      partial: {
+        title: 'Intact document, with caveats',
+        description: 'No check failed, but some could not be confirmed (items in yellow).',
+      },
+      tampered: {
+        title: 'Tampered document',
+        description: 'The protocol does not match the content of the document.',
+      },
+      unknown: {
+        title: 'Unknown document',
+        description: 'No signature protocol was found in this PDF.',
+      },
+    },
+    envelope: 'Envelope',
+    manifest: 'Embedded manifest',
+    manifestSummary: (version, count) => `version ${version}, ${count} ${plural(count, 'signature', 'signatures')}`,
+    manifestMissing: 'not found',
+    signers: (count) => `Signers (${count})`,
+  },
+
+  checks: {
+    unreadablePdf: 'The PDF could not be read. The file may be corrupted or protected.',
+    protocol: 'Protocol page found',
+    protocolMissing: 'The PDF does not contain a recognizable signature protocol.',
+    totvsHash: 'HASH SICFAR matches the SHA256',
+    expected: (value) => `Expected ${value}`,
+    pageHeaders: 'Hash header present on every page',
+    pagesWithWrongHash: (pages) => `Mismatching pages: ${pages}`,
+    pageNumbering: 'Consistent page numbering',
+    pagesWithWrongNumber: (pages) => `Pages with mismatching numbers: ${pages}`,
+    signatureCount: 'Complete signer list',
+    signatureCountMismatch: (declared, found) => `Declared ${declared}, found ${found}`,
+    manifest: 'Embedded manifest matches the protocol',
+    manifestHashMismatch: 'The SHA256 of the manifest differs from the one printed on the protocol.',
+    manifestCountMismatch: (manifest, protocol) =>
+      `The manifest contains ${manifest} ${plural(manifest, 'signature', 'signatures')}, the protocol ${protocol}.`,
+    manifestSignerMismatch: (index) => `Signer #${index} differs between the manifest and the protocol.`,
+    manifestUnreadable: 'Unreadable manifest.',
+    chainRecomputed: 'Signature chain intact (hashes recomputed)',
+    chain: 'Signature chain intact',
+    deviceSignatures: 'Valid device signatures',
+    invalidDeviceSignatures: (list) => `Invalid signatures: ${list}`,
+    timestamps: (count, total) => `Valid timestamps (${count} of ${total})`,
+    invalidTimestamps: (list) => `Invalid timestamps: ${list}`,
+    untrustedTimestamps: (list) => `Timestamps from TSAs outside the trust list: ${list}`,
+    localTimestamps: (list) => `Timestamps from the local development TSA: ${list}`,
+    pades: 'Valid PAdES digital signature covering the whole file',
+    padesSigner: (commonName) => `Certificate: ${commonName}`,
+    originalHash: 'SHA256 matches the original PDF',
+    originalHashMismatch: (hash) => `SHA256 of the original: ${hash}`,
+    originalHashSkipped: 'Document content not checked',
+    originalHashSkippedDetails:
+      'Without the original PDF, the signature hashes are not recomputed. Provide the original PDF to confirm the content.',
+  },
+
+  settings: {
+    title: 'Protocol Template',
+    description: 'Customize the branding and content of the protocol page of finalized PDFs',
+    organizationName: 'Organization name',
+    organizationPlaceholder: 'Printed below the title',
+    logo: 'Logo (PNG or JPG)',
+    logoAlt: 'Organization logo',
+    logoType: 'The logo must be a PNG or JPG image',
+    logoSize: 'The logo must be at most 512 KB',
+    remove: 'Remove',
+    colors: 'Colors',
+    palette: {
+      title: 'Title',
+      section: 'Subtitles',
+      text: 'Text',
+      muted: 'Secondary text',
+    },
+    texts: 'Texts',
+    labels: {
+      title: 'Protocol title',
+      hashLabel: 'Hash label',
+      documentSection: 'Document section',
+      signaturesSection: 'Signatures section',
+      authenticitySection: 'Authenticity section',
+      auditSection: 'Audit trail section',
+      disclaimerSection: 'Disclaimer section',
+      footer: 'Footer note',
+    },
+    labelsHint:
+      'Leave a text blank to use the default in the protocol language. The title and the hash label are recorded in the PDF manifest so the verifier recognizes them.',
+    fontSizes: {
+      title: 'Title',
+      section: 'Subtitles',
+      normal: 'Text',
+      small: 'Small text',
+    },
+    sections: 'Sections and order',
+    sectionNames: {
+      document: 'Document',
+      signatures: 'Signatures',
+      authenticity: 'Authenticity (hash)',
+      audit: 'Audit trail',
+      qrcode: 'Verification QR code',
+      details: 'Footer and file details',
+      disclaimer: 'Disclaimer',
+    },
+    showSection: (name) => `Show ${name}`,
+    requiredSection: '(required for verification)',
+    moveUp: (name) => `Move ${name} up`,
+    moveDown: (name) => `Move ${name} down`,
+    disclaimer: 'Disclaimer',
+    disclaimerPlaceholder: 'Text printed in the disclaimer section',
+    disclaimerHidden: 'Enable the Disclaimer section to print this text on the protocol.',
+    reset: 'Restore default',
+    save: 'Save template',
+  },
+
+  validation: {
+    refusalReasonMin: 'Enter the reason for declining (at least 5 characters)',
+    refusalReasonMax: 'Reason must be at most 500 characters',
+    nameMin: 'Name must have at least 5 characters',
+    nameMax: 'Name must have at most 100 characters',
+    nameScriptUnsupported: 'Name must use the Latin, Greek, Cyrillic, Chinese, Japanese or Korean scripts',
+    cpfLength: 'CPF must have 11 digits',
+    cpfInvalid: 'Invalid CPF',
+    cnpjLength: 'CNPJ must have 14 characters',
+    cnpjInvalid: 'Invalid CNPJ',
+    passportInvalid: 'Passport must have 6 to 9 letters or digits',
+    rneInvalid: 'RNE/CRNM must have a letter, 6 digits and the check digit',
+    rgInvalid: 'RG must have 5 to 14 digits (the last one may be X)',
+    countryRequired: 'Select the country that issued the passport',
+    stateRequired: 'Select the state that issued the RG',
+    // Stored and imported data
+    required: 'Required field missing',
+    hashInvalid: 'Invalid SHA-256 hash',
+    localeInvalid: 'Invalid language',
+    documentTypeInvalid: 'Invalid document type',
+    roleInvalid: 'Invalid signer role',
+    keyCoordinateInvalid: 'Invalid device key coordinate',
+    serialNumberInvalid: 'Invalid serial number',
+    dateInvalid: 'Invalid date',
+    base64Invalid: 'Invalid Base64 content',
+    timestampPolicyInvalid: 'Invalid timestamp policy',
+    pageInvalid: 'Invalid page number',
+    sizeInvalid: 'Invalid size',
+    durationInvalid: 'Invalid reading time',
+    readingPageOutOfRange: 'Read page outside the document',
+    readingPageRepeated: 'Read page repeated',
+    initialsEmpty: 'Empty initials',
+    storedDocumentInvalid: 'Document number invalid for the given type',
+    documentIssuerInvalid: 'Invalid document issuer',
+    documentIssuerMismatch: 'Document issuer missing or not applicable to the type',
+    refusalReasonMissing: 'Reason for declining missing',
+    signingOrderInvalid: 'Invalid signing order',
+    workflowEmpty: 'Signing workflow without signers',
+    workflowRepeatedCpf: 'CPF repeated in the signing workflow',
+    auditEventTypeInvalid: 'Invalid audit event type',
+    authorMax: 'Author must be at most 100 characters',
+    exportFormatUnknown: 'Unknown export format',
+    exportVersionUnsupported: 'Unsupported export version',
+    noLogs: 'The file contains no logs',
+    // Protocol template
+    colorInvalid: 'Invalid color (use #rrggbb)',
+    logoInvalid: 'Invalid logo',
+    textMax: (field, max) => `${field}: at most ${max} characters`,
+    fontSizeInvalid: (field) => `Invalid "${field}" size`,
+    fontSizeRange: (field, min, max) => `"${field}" size must be between ${min} and ${max}`,
+    sectionRepeated: 'Section repeated in the protocol',
+    sectionsRequired: 'The Document, Signatures and Authenticity sections are required',
+  },
+
+  errors: {
+    chainBreak,
+    schemaIssue: (path, message) => `${path || 'root'} - ${message}`,
+    indexedDbUnavailable: 'IndexedDB is not available in this browser.',
+    databaseBlocked: 'The local database is blocked by another tab.',
+    transactionAborted: 'Transaction aborted.',
+    storageFull: 'The envelope could not be saved: the local storage is full.',
+    storageFailed: 'The envelope could not be saved to the local storage.',
+    importDiverges: (fileName) =>
+      `The imported log of "${fileName}" diverges from the signatures already saved in this browser.`,
+    jsonMalformed: 'The JSON file is malformed.',
+    exportInvalid: (issue) => `Invalid export file: ${issue}`,
+    csvEmpty: 'The CSV file is empty.',
+    csvUnclosedQuote: 'Invalid CSV: unclosed quotes.',
+    csvMissingColumns: (columns) => `Invalid CSV: missing columns (${columns}).`,
+    csvColumnCount: (line, expected, found) => `Record ${line}: expected ${expected} columns, found ${found}.`,
+    csvInvalidJson: (line, column) => `Record ${line}: the "${column}" column does not contain valid JSON.`,
+    csvSignatureOrder: (line, documentId) => `Record ${line}: signature out of order in document ${documentId}.`,
+    csvInvalidLog: (index, issue) => `Invalid CSV in document #${index}: ${issue}`,
+    noLogs: 'The file contains no logs.',
+    duplicateDocument: (documentId) => `Document ${documentId} appears more than once in the file.`,
+    importedChainBroken: (fileName, detail) => `Document "${fileName}": inconsistent hash chain. ${detail}`,
+    importedAuditTrailBroken: (fileName, detail) => `Document "${fileName}": inconsistent audit trail. ${detail}`,
+    importedDeviceSignature: (fileName, index) =>
+      `Document "${fileName}": device signature #${index} does not match the recorded hash.`,
+    importedRefusalDeviceSignature: (fileName, index) =>
+      `Document "${fileName}": the device signature of refusal #${index} does not match the recorded hash.`,
+    pdfUnreadable: 'The PDF could not be loaded. The file may be corrupted or protected.',
+    manifestCorrupted: 'The signature manifest of the PDF is corrupted.',
+    manifestInvalid: (issue) => `Invalid signature manifest: ${issue}`,
+    fontsUnavailable: 'The protocol fonts could not be loaded.',
+    handwritingFailed: 'The image of the handwritten signature could not be generated.',
+    templateInvalid: 'Invalid protocol template.',
+    templateSaveFailed: 'The template could not be saved. The logo may be too large.',
+    certificateUnreadable: 'The certificate could not be opened. Check the file and the password.',
+    certificateWithoutKey: 'The certificate does not contain an RSA private key.',
+    certificateNotFound: 'The certificate matching the private key was not found.',
+    certificateExpired: 'The certificate is outside its validity period.',
+    signaturePlaceholderMissing: 'The space reserved for the digital signature could not be found.',
+    documentTooLarge: 'The document is too large for the digital signature.',
+    signatureTooLarge: 'The digital signature exceeds the space reserved in the PDF.',
+    timestampNotSignedData: 'The timestamp is not a SignedData.',
+    timestampRefused: (authority) => `The time-stamping authority "${authority}" refused the request.`,
+    timestampHttpError: (status) => `The time-stamping authority responded with HTTP ${status}.`,
+    timestampNonceMismatch: 'The timestamp does not match the request (nonce mismatch).',
+    timestampInvalid: (detail) => `Invalid timestamp: ${detail}`,
+    timestampReason: (reason) =>
+      ({
+        'not-tst-info': 'content is not a TSTInfo',
+        'imprint-mismatch': 'the timestamp does not match the signature hash',
+        'time-mismatch': 'recorded time differs from the timestamp',
+        'missing-signed-attributes': 'signed attributes missing',
+        'unsupported-digest': 'unsupported digest algorithm',
+        'digest-mismatch': 'TSTInfo digest does not match',
+        'missing-certificate': 'TSA certificate not included in the timestamp',
+        'missing-time-stamping-usage': 'TSA certificate without the id-kp-timeStamping extended key usage',
+        'invalid-signature': 'invalid TSA signature',
+        unreadable: 'unreadable timestamp structure',
+      })[reason],
+    padesReason: (reason) =>
+      ({
+        'missing-signed-attributes': 'signed attributes missing',
+        'unsupported-digest': 'unsupported digest algorithm',
+        'digest-mismatch': 'the file was changed after it was signed',
+        'missing-certificate': 'signer certificate not included in the signature',
+        'invalid-signature': 'invalid cryptographic signature',
+        'partial-coverage': 'content was appended after the signature',
+        unreadable: 'unreadable signature structure',
+      })[reason],
+  },
+
+  protocol: {
+    title: 'Signature Protocol',
+    hashLabel: 'HASH SICFAR',
+    documentSection: 'Document',
+    signaturesSection: 'Signatures',
+    authenticitySection: 'Authenticity',
+    auditSection: 'Audit Trail',
+    disclaimerSection: 'Disclaimer',
+    footer: 'This document was signed electronically.',
+    continuation: 'continued',
+    continued: 'continued on the next page',
+    envelopeName: 'Envelope name',
+    author: 'Author',
+    localSystem: 'Local System',
+    status: 'Status',
+    workflowStatus: (status: WorkflowStatus) =>
+      ({
+        pending: 'Pending',
+        'partially-signed': 'Partially signed',
+        completed: 'Completed',
+        expired: 'Expired',
+        refused: 'Refused',
+      })[status],
+    noSignatures: 'No signatures recorded.',
+    noAuditEvents: 'No events recorded.',
+    auditNote:
+      'Events recorded by the browsers the envelope was used in. Each event is chained by hash to the previous one, apart from the signature chain.',
+    auditEvent: (type, { fileName, page, pageCount, name, pagesViewed }) => {
+      const viewed = pagesViewed !== undefined && pageCount ? ` (${pagesViewed} of ${pageCount} pages viewed)` : '';
+      return {
+        uploaded: `Document uploaded: ${fileName}`,
+        reuploaded: `Document uploaded again: ${fileName}`,
+        opened: 'Envelope opened',
+        'page-viewed': `Page ${page} of ${pageCount} viewed`,
+        signed: `Signed by ${name}${viewed}`,
+        refused: `Signature refused by ${name}${viewed}`,
+        downloaded: `PDF downloaded: ${fileName}`,
+        closed: 'Envelope closed',
+        cleared: `Envelope deleted from this browser: ${fileName}`,
+      }[type];
+    },
+    name: 'Name',
+    documentType: (type: SignerDocumentType) =>
+      ({ cpf: 'CPF', cnpj: 'CNPJ', passport: 'Passport', rne: 'RNE/CRNM', rg: 'RG' })[type],
+    date: 'Date',
+    trustedTimestamp: 'Timestamp (TSA)',
+    authority: 'Authority',
+    timestampSerial: 'Timestamp serial',
+    timestampTrust: (trust) =>
+      trust
+        ? {
+            trusted: 'Timestamp verified: TSA in the trust list',
+            untrusted: 'Timestamp verified, but the TSA is not in the trust list',
+            local: 'Timestamp from the local development TSA: the time is not trusted',
+          }[trust]
+        : 'Invalid timestamp',
+    signedElectronically: 'Signed electronically',
+    reading: 'Reading',
+    readingSummary: (viewed: number, pageCount: number, seconds: string) =>
+      `${viewed} of ${pageCount} ${plural(pageCount, 'page', 'pages')} viewed before signing, in ${seconds} s`,
+    readingPage: (page: number, seconds: string) => `p. ${page}: ${seconds} s`,
+    refusalsHeading: 'Refusals',
+    refusedBy: 'Refused by',
+    refusedAt: 'Refusal date',
+    refusalReason: 'Reason',
+    refusalHash: 'Refusal Hash',
+    roleGroup: (role: SignerRole | null) =>
+      role
+        ? {
+            party: 'Parties',
+            witness: 'Witnesses',
+            approver: 'Approvers',
+            intervening: 'Intervening parties',
+            'legal-representative': 'Legal representatives',
+            issuer: 'Issuers',
+          }[role]
+        : 'Other signers',
+    signedAs: (role: SignerRole) =>
+      `Electronically signed as ${
+        {
+          party: 'party',
+          witness: 'witness',
+          approver: 'approver',
+          intervening: 'intervening party',
+          'legal-representative': 'legal representative',
+          issuer: 'issuer',
+        }[role]
+      }`,
+    authenticationType: 'Authentication type',
+    certificateAuthentication: 'Digital certificate (PKCS#12), which signs this file in PAdES',
+    certificateNotApplied: 'not used in the PAdES signature of this file',
+    padesSigner: (commonName, serialNumber) => `PAdES digital signature of the file: ${commonName} (serial ${serialNumber})`,
+    noPadesSignature: 'The file has no PAdES digital signature; the certificates provided are only listed in this protocol.',
+    deviceAuthentication: 'Using the unique device identifier',
+    certificate: 'Certificate',
+    serial: 'Serial',
+    deviceKey: 'Device key (ECDSA P-256, JWK)',
+    deviceSignature: 'Device signature',
+    signatureHash: 'Signature hash',
+    previousHash: 'Previous hash',
+    notChained: 'not chained',
+    signatureCount: 'Total signatures',
+    verifyInstructions: 'To verify the authenticity of the document, use the hash below:',
+    chainIntact: (length) => `Signature chain: intact (${length} ${plural(length, 'link', 'links')})`,
+    chainBroken: (failure) => `Signature chain: broken - ${chainBreak(failure)}`,
+    auditTrailIntact: (length) => `Audit trail chain: intact (${length} ${plural(length, 'event', 'events')})`,
+    auditTrailBroken: (failure) => `Audit trail chain: broken - ${chainBreak(failure)}`,
+    scanQRCode: 'Scan the QR code to check the document:',
+    generatedAt: 'Generated on',
+    originalFile: 'Original file',
+    size: 'Size',
+    page: 'Page',
+    pageOf: 'of',
+    stampSignedBy: 'Electronically signed by',
+    initials: 'Initials',
+    digitallySignedBy: 'Digitally signed by',
+    signatureReason: 'Digital signature of the document',
+  },
+};
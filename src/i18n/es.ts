@@ -0,0 +1,771 @@
+import type {
+  ChainBreak,
+  ChainBreakReason,
+  ChainBreakSubject,
+  SignerDocumentType,
+  SignerRole,
+  WorkflowStatus,
+} from '@/types';
+import type { Messages } from './pt-BR';
+
+const plural = (count: number, one: string, other: string) => (count === 1 ? one : other);
+
+// Where a hash chain broke: name of the record and what is wrong with it
+const CHAIN_BREAKS: Record<ChainBreakSubject, { label: string; reasons: Record<ChainBreakReason, string> }> = {
+  signature: {
+    label: 'Firma',
+    reasons: {
+      'missing-link': 'firma sin vínculo con la anterior',
+      'link-mismatch': 'el vínculo no corresponde a la firma anterior (eliminación o reordenación)',
+      'hash-mismatch': 'el hash no corresponde a los datos registrados (firma alterada)',
+    },
+  },
+  refusal: {
+    label: 'Rechazo',
+    reasons: {
+      'missing-link': 'rechazo sin vínculo con la cadena',
+      'link-mismatch': 'el vínculo no corresponde a ninguna firma de la cadena',
+      'hash-mismatch': 'el hash no corresponde a los datos registrados (rechazo alterado)',
+    },
+  },
+  'audit-event': {
+    label: 'Evento',
+    reasons: {
+      'missing-link': 'evento sin vínculo con los anteriores',
+      'link-mismatch': 'el vínculo no corresponde a ningún evento anterior (eliminación o reordenación)',
+      'hash-mismatch': 'el hash no corresponde a los datos registrados (evento alterado)',
+    },
+  },
+};
+
+const chainBreak = ({ subject, position, reason }: ChainBreak) =>
+  `${CHAIN_BREAKS[subject].label} #${position}: ${CHAIN_BREAKS[subject].reasons[reason]}`;
+
+export const es: Messages = {
+  app: {
+    title: 'Firma Electrónica de PDF',
+    subtitle: 'MVP - Aplicación 100% Frontend',
+    footer: 'MVP - Firma Electrónica de PDF | Sin backend | El Device ID sustituye a la IP real',
+    language: 'Idioma',
+    nav: {
+      envelopes: 'Sobres',
+      sign: 'Firmar',
+      verify: 'Verificar documento',
+      settings: 'Configuración',
+    },
+  },
+
+  toasts: {
+    saveErrorTitle: 'Error al guardar',
+    saveErrorDescription: 'No se pudo guardar el sobre.',
+    logMigratedTitle: 'Registro de firmas migrado',
+    logMigratedDescription: (fileName) => `El registro de "${fileName}" se trasladó al almacenamiento de sobres.`,
+    storageUnavailableTitle: 'Almacenamiento no disponible',
+    storageUnavailableDescription: 'No se pudieron abrir los sobres guardados. Las firmas quedarán solo en memoria.',
+    documentRecognizedTitle: 'Documento reconocido',
+    documentRecognizedDescription: (count) =>
+      `Este documento ya tiene ${count} ${plural(count, 'firma registrada', 'firmas registradas')}. Puede agregar más firmas.`,
+    invalidPdfTitle: 'PDF no válido',
+    invalidPdfDescription: 'El archivo seleccionado no es un PDF válido o está dañado.',
+    fileErrorTitle: 'Error al procesar el archivo',
+    fileErrorDescription: 'Ocurrió un error al procesar el archivo PDF.',
+    errorTitle: 'Error',
+    uploadBeforeSigning: 'Cargue un PDF antes de firmar.',
+    invalidCertificateTitle: 'Certificado no válido',
+    invalidCertificateDescription: 'No se pudo abrir el certificado.',
+    timestampUnavailableTitle: 'Sello de tiempo no disponible',
+    timestampUnavailableDescription: 'La firma se registró con la hora del dispositivo.',
+    signedTitle: '¡Firma aplicada!',
+    signedDescription: (name, hash) => `Documento firmado por ${name}. Hash: ${hash}...`,
+    signErrorTitle: 'Error al firmar',
+    signErrorDescription: 'Ocurrió un error al aplicar la firma en el PDF.',
+    downloadStartedTitle: 'Descarga iniciada',
+    downloadWithoutPades: 'El PDF se generó sin firma PAdES: el certificado no está cargado en esta sesión.',
+    downloadWithPades: (commonName) => `Se está descargando el PDF firmado digitalmente por ${commonName}.`,
+    downloadWithProtocol: 'Se está descargando el PDF firmado con el protocolo.',
+    downloadWithPadesOthersInProtocol: (commonName) =>
+      `Se está descargando el PDF firmado digitalmente por ${commonName}. Los demás certificados solo constan en el protocolo.`,
+    downloadErrorTitle: 'Error al descargar',
+    downloadErrorDescription: 'Ocurrió un error al descargar el PDF firmado.',
+    logsImportedTitle: 'Registros importados',
+    logsImportedDescription: (imported, updated, skipped) =>
+      `${imported} nuevo(s), ${updated} actualizado(s), ${skipped} ya existente(s).`,
+    importRejectedTitle: 'Importación rechazada',
+    importRejectedDescription: 'No se pudo importar el archivo.',
+    envelopeNotFoundTitle: 'Sobre no encontrado',
+    envelopeNotFoundDescription: 'Es posible que el sobre se haya eliminado en otra pestaña.',
+    uploadPdfTitle: 'Cargue el PDF',
+    uploadPdfDescription: (fileName) => `Cargue el PDF "${fileName}" para seguir firmando.`,
+    openErrorTitle: 'Error al abrir',
+    openErrorDescription: 'No se pudo abrir el sobre.',
+    pdfUnavailableTitle: 'PDF no disponible',
+    pdfUnavailableDescription: 'Abra el sobre y cargue el PDF original antes de finalizar.',
+    finalizeErrorTitle: 'Error al finalizar',
+    finalizeErrorDescription: 'Ocurrió un error al generar el PDF firmado.',
+    envelopeDeletedTitle: 'Sobre eliminado',
+    envelopeDeletedDescription: 'El documento y el registro de firmas se eliminaron de este navegador.',
+    deleteErrorTitle: 'Error al eliminar',
+    deleteErrorDescription: 'No se pudo eliminar el sobre.',
+    workflowIncompleteTitle: 'Flujo de firma incompleto',
+    workflowIncompleteDescription: (status) =>
+      `El PDF final solo se genera con el flujo completado (estado actual: ${status}).`,
+    signerRefusedTitle: 'Firmante rechazado',
+    refusalRecordedTitle: 'Rechazo registrado',
+    refusalRecordedDescription: (name) =>
+      `El rechazo de ${name} quedó registrado. El sobre ya no puede finalizarse.`,
+    refusalErrorTitle: 'Error al registrar el rechazo',
+    refusalErrorDescription: 'Ocurrió un error al registrar el rechazo. Inténtelo de nuevo.',
+    refusalDownloadedTitle: 'Registro del rechazo descargado',
+    refusalDownloadedDescription: 'El PDF incluye el protocolo con los rechazos, pero el sobre no fue finalizado.',
+    readingRequiredTitle: 'Lectura obligatoria',
+    readingRequiredDescription: (viewed: number, pageCount: number) =>
+      `Visualice todas las páginas del documento antes de firmar (${viewed} de ${pageCount}).`,
+    templateSavedTitle: 'Plantilla guardada',
+    templateSavedDescription: 'Los próximos PDF finalizados usarán la nueva plantilla del protocolo.',
+    templateInvalidTitle: 'Plantilla no válida',
+    templateInvalidDescription: 'No se pudo guardar la plantilla.',
+    templateResetTitle: 'Plantilla restaurada',
+    templateResetDescription: 'El protocolo volvió a la plantilla predeterminada.',
+    documentRemovedTitle: 'Documento eliminado',
+    documentRemovedDescription: 'Se borraron el documento y el registro de firmas.',
+    removeErrorTitle: 'Error al eliminar',
+    removeErrorDescription: 'El sobre se cerró, pero no se pudo eliminar del almacenamiento local.',
+  },
+
+  common: {
+    documentTypes: { cpf: 'CPF', cnpj: 'CNPJ', passport: 'Pasaporte', rne: 'RNE/CRNM', rg: 'RG' },
+    roles: {
+      party: 'Parte',
+      witness: 'Testigo',
+      approver: 'Aprobador',
+      intervening: 'Interviniente',
+      'legal-representative': 'Representante legal',
+      issuer: 'Emisor',
+    },
+    workflowStatus: {
+      pending: 'Pendiente',
+      'partially-signed': 'Parcialmente firmado',
+      completed: 'Completado',
+      expired: 'Vencido',
+      refused: 'Rechazado',
+    },
+    copy: 'Copiar',
+    copied: 'Copiado',
+    cancel: 'Cancelar',
+    notChained: 'no encadenada',
+  },
+
+  upload: {
+    title: 'Documento PDF',
+    selectPdf: 'Seleccione un archivo PDF.',
+    tooLarge: 'El archivo PDF debe tener como máximo 50MB.',
+    notPdf: 'El archivo no parece ser un PDF válido.',
+    processError: 'Error al procesar el archivo PDF.',
+    uploadLabel: 'Cargar PDF',
+    dropHere: 'Suelte el archivo aquí',
+    dragOrClick: 'Arrastre un PDF o haga clic para seleccionarlo',
+    maxSize: 'Máximo de 50MB',
+    hasSignatures: 'PDF con firmas',
+    removeFile: 'Quitar archivo',
+  },
+
+  preview: {
+    title: 'Vista previa del PDF',
+    empty: 'Cargue un PDF para verlo',
+    loadError: 'Error al cargar la vista previa del PDF.',
+    placeStamp: 'Colocar sello',
+    removeStamp: 'Quitar sello',
+    zoomOut: 'Alejar',
+    zoomIn: 'Acercar',
+    stampLabel: 'Sello de la firma: arrástrelo o use las flechas para colocarlo',
+    yourSignature: 'Su firma',
+    dragHint: 'Arrastre el sello hasta el lugar deseado. Se dibujará en esta posición al descargar el PDF finalizado.',
+    stampOnPage: (page) => `El sello está en la página ${page}. Haga clic en esta página para moverlo aquí.`,
+    previousPage: 'Página anterior',
+    nextPage: 'Página siguiente',
+    pageOf: (page, total) => `Página ${page} de ${total}`,
+  },
+
+  signerForm: {
+    title: 'Datos del Firmante',
+    description: 'Complete los datos para firmar el documento',
+    name: 'Nombre Completo *',
+    namePlaceholder: 'Escriba el nombre completo',
+    nameGlyphsMissing: (characters) => `Las fuentes del protocolo no tienen estos caracteres: ${characters}`,
+    documentType: 'Tipo de documento',
+    documentTypes: {
+      cpf: 'CPF (persona física)',
+      cnpj: 'CNPJ (persona jurídica)',
+      passport: 'Pasaporte (extranjero)',
+      rne: 'RNE/CRNM (extranjero residente)',
+      rg: 'RG (cédula de identidad brasileña)',
+    },
+    documentNumber: {
+      cpf: 'CPF *',
+      cnpj: 'CNPJ *',
+      passport: 'Número de pasaporte *',
+      rne: 'Número de RNE/CRNM *',
+      rg: 'Número de RG *',
+    },
+    country: 'País emisor *',
+    selectCountry: 'Seleccione el país',
+    state: 'Estado emisor *',
+    selectState: 'Seleccione el estado',
+    cnpjHint: 'El CNPJ puede contener letras (nuevo formato alfanumérico).',
+    rneHint: 'Una letra, 6 dígitos y el dígito verificador (ej.: V123456-7).',
+    role: 'Rol del firmante *',
+    roleHint: 'Las firmas se agrupan por rol en la página de protocolo.',
+    onTurn: 'Turno de firmar',
+    onTurnHint: 'Seleccione un firmante para completar el nombre y el CPF.',
+    workflowClosed: (status) => `Nadie puede firmar ahora: flujo ${status.toLowerCase()}.`,
+    turnErrors: {
+      refused: 'El sobre fue rechazado y ya no acepta firmas',
+      expired: 'El plazo del flujo de firma terminó',
+      'not-expected': 'Este CPF no está entre los firmantes esperados',
+      'already-signed': 'Este firmante ya firmó',
+      'out-of-turn': 'Todavía no es el turno de este firmante',
+      'name-mismatch': 'El nombre no coincide con el del firmante esperado',
+    },
+    handwritten: 'Firma manuscrita (opcional)',
+    handwritingError: 'No se pudo leer la firma dibujada.',
+    useInitials: 'Rubricar todas las páginas',
+    initialsFromName: 'Generar a partir del nombre',
+    initialsDrawn: 'Dibujar',
+    initials: 'Rúbrica',
+    initialsPad: 'Área para dibujar la rúbrica',
+    initialsRequired: 'Dibuje la rúbrica o elija generarla a partir del nombre',
+    initialsError: 'No se pudo leer la rúbrica dibujada.',
+    initialsHint: 'La rúbrica se imprime al pie de cada página del documento original al finalizar el PDF.',
+    useCertificate: 'Firmar con certificado digital (PAdES)',
+    certificate: 'Certificado PKCS#12 (.p12/.pfx) *',
+    certificatePassword: 'Contraseña del certificado',
+    certificateRequired: 'Seleccione el archivo del certificado (.p12 o .pfx)',
+    certificateHint: 'El certificado permanece solo en memoria y se usa para firmar digitalmente el PDF final.',
+    signing: 'Firmando...',
+    sign: 'Firmar Documento',
+    refuse: 'Rechazar firma',
+    refusalReason: 'Motivo del rechazo *',
+    refusalReasonPlaceholder: 'Explique por qué no firmará el documento',
+    confirmRefusal: 'Confirmar rechazo',
+    refusing: 'Registrando rechazo...',
+    refusalHint: 'El rechazo se registra con hash en el registro, con el nombre y el documento de arriba, e impide finalizar el sobre.',
+    uploadFirst: 'Cargue un PDF para habilitar la firma',
+    readingRequired: (viewed: number, pageCount: number) =>
+      `Visualice todas las páginas del documento para habilitar la firma (${viewed} de ${pageCount})`,
+  },
+
+  workflow: {
+    title: 'Flujo de Firma',
+    description: 'Defina quién debe firmar el sobre y en qué orden',
+    order: 'Orden',
+    orders: { sequential: 'Secuencial', parallel: 'Paralelo' },
+    orderHints: {
+      sequential: 'Cada firmante firma en su turno, en el orden de la lista; los opcionales pueden omitirse.',
+      parallel: 'Los firmantes pueden firmar en cualquier orden.',
+    },
+    expiresAt: 'Plazo',
+    expiresAtHint: 'Si las firmas obligatorias no se realizan antes del plazo, el flujo vence.',
+    name: 'Nombre',
+    cpf: 'CPF',
+    required: 'Obligatorio',
+    optional: 'Opcional',
+    add: 'Agregar',
+    remove: (name) => `Quitar ${name}`,
+    moveUp: (name) => `Subir ${name}`,
+    moveDown: (name) => `Bajar ${name}`,
+    empty: 'Sin flujo, cualquier persona puede firmar el sobre.',
+    locked: 'El flujo no puede cambiarse después de la primera firma.',
+    duplicateCpf: 'Este CPF ya está en el flujo',
+    states: {
+      signed: 'Firmó',
+      'on-turn': 'En turno',
+      waiting: 'En espera',
+      skipped: 'Omitido',
+      refused: 'Rechazó',
+    },
+  },
+
+  signaturePad: {
+    label: 'Área para dibujar la firma',
+    drawn: 'Firma dibujada',
+    hint: 'Dibuje con el ratón, el dedo o el lápiz',
+    undo: 'Deshacer',
+    clear: 'Borrar',
+  },
+
+  signatureLog: {
+    title: 'Registro de Firmas',
+    count: (count) =>
+      count === 0 ? 'Ninguna firma registrada' : `${count} ${plural(count, 'firma registrada', 'firmas registradas')}`,
+    empty: 'Firme el documento para ver el registro aquí',
+    refusals: (count) => `${count} ${plural(count, 'rechazo registrado', 'rechazos registrados')}`,
+    refused: 'Rechazó',
+    reason: 'Motivo',
+    reading: 'Lectura',
+    readingSummary: (viewed: number, pageCount: number, seconds: string) =>
+      `${viewed} de ${pageCount} ${plural(pageCount, 'página', 'páginas')} en ${seconds} s`,
+    chainValid: (length) => `Cadena de firmas íntegra (${length} ${plural(length, 'eslabón', 'eslabones')})`,
+    hashesNotRecomputed: ' - hashes no recalculados sin el PDF',
+    chainBroken: 'Cadena rota.',
+    signed: 'Firmado',
+    date: 'Fecha',
+    handwrittenAlt: (name) => `Firma manuscrita de ${name}`,
+    copyDeviceId: 'Copiar Device ID',
+    deviceKey: 'Clave del dispositivo',
+    validSignature: 'Firma válida',
+    invalidSignature: 'Firma no válida',
+    copyPublicKey: 'Copiar clave pública (JWK)',
+    timestamp: 'Sello de tiempo',
+    validTimestamp: 'Sello válido',
+    invalidTimestamp: 'Sello no válido',
+    untrustedTimestamp: 'Sello válido, TSA no confiable',
+    localTimestamp: 'Sello de la TSA local (desarrollo)',
+    certificate: 'Certificado',
+    serial: (serialNumber) => `(serie ${serialNumber})`,
+    copyHash: 'Copiar hash completo',
+    previousHash: 'Hash anterior',
+  },
+
+  actionBar: {
+    author: 'Autor del sobre',
+    authorPlaceholder: 'Nombre de quien creó el sobre',
+    requireFullReading: 'Exigir la lectura de todas las páginas antes de firmar',
+    requireFullReadingHint: 'Cada firmante debe visualizar todas las páginas en la vista previa para firmar.',
+    offlineTitle: 'MVP - Modo sin conexión:',
+    offlineDescription: 'El Device ID sustituye a la IP real en este MVP. En producción, la IP se obtendrá mediante un backend.',
+    downloading: 'Descargando...',
+    download: 'Descargar PDF Firmado',
+    clearAll: 'Borrar Todo',
+    protocolLanguage: 'Idioma del protocolo:',
+    protocolLanguageHint: 'En otro idioma, el protocolo también se imprime en portugués.',
+    workflowIncomplete: 'El PDF firmado solo puede descargarse cuando el flujo de firma esté completado.',
+    refused: 'El sobre fue rechazado y no puede finalizarse.',
+    downloadRefusal: 'Descargar registro del rechazo',
+    exportLog: 'Exportar registro:',
+    saved: 'El PDF y el registro de firmas están guardados en este navegador.',
+    storage: (usage, quota, percent) => `Almacenamiento: ${usage} de ${quota} (${percent})`,
+    notPersisted: ' - el navegador puede liberarlo si falta espacio',
+    warning: 'Atención:',
+    notSaved:
+      'No se pudo guardar el PDF en este navegador. Descárguelo antes de recargar la página o tendrá que cargarlo de nuevo.',
+  },
+
+  matchPrompt: {
+    title: 'Documento ya conocido',
+    description: (fileName, envelopeName, createdAt, count) =>
+      `El contenido de "${fileName}" es idéntico al del sobre "${envelopeName}", creado el ${createdAt} con ${count} ${plural(count, 'firma', 'firmas')}. ¿Desea continuar con el registro existente?`,
+    useExisting: 'Usar registro existente',
+    createNew: 'Crear nuevo sobre',
+  },
+
+  dashboard: {
+    title: 'Sobres',
+    count: (count) =>
+      count === 0
+        ? 'Ningún sobre guardado en este navegador'
+        : `${count} ${plural(count, 'sobre guardado', 'sobres guardados')} en este navegador`,
+    status: {
+      draft: 'Esperando firmas',
+      signed: 'Firmado',
+      finalized: 'Finalizado',
+      refused: 'Rechazado',
+    },
+    workflow: 'Flujo de firma',
+    exportJson: 'Exportar JSON',
+    exportCsv: 'Exportar CSV',
+    importLogs: 'Importar registros',
+    newEnvelope: 'Nuevo sobre',
+    search: 'Buscar',
+    searchPlaceholder: 'Archivo, firmante o ID del documento',
+    signerCpf: 'CPF/CNPJ del firmante',
+    signerDocumentPlaceholder: 'Con o sin puntuación',
+    createdFrom: 'Creado desde',
+    createdTo: 'Creado hasta',
+    clearFilters: 'Borrar filtros',
+    loading: 'Cargando sobres...',
+    empty: 'Cree un sobre cargando un PDF para firmar',
+    noMatches: 'Ningún sobre coincide con los filtros',
+    open: 'Abierto',
+    created: 'Creado',
+    updated: 'Actualizado',
+    signatures: 'Firmas',
+    lastSigner: 'Último firmante',
+    pdfMissing: 'PDF no almacenado: vuelva a abrirlo y cargue el archivo original para continuar.',
+    openAction: 'Abrir',
+    finalize: 'Finalizar y descargar',
+    confirmDelete: 'Confirmar eliminación',
+    delete: 'Eliminar',
+  },
+
+  verifier: {
+    title: 'Verificar Documento',
+    description: 'Cargue un PDF finalizado para comprobar el protocolo de firmas',
+    signedPdf: 'PDF firmado *',
+    originalPdf: 'PDF original (opcional)',
+    originalHint: 'Con el PDF original también es posible confirmar que el contenido no se modificó.',
+    verifying: 'Verificando...',
+    verify: 'Verificar Documento',
+    error: 'Error al verificar el documento.',
+    status: {
+      valid: {
+        title: 'Documento auténtico',
+        description: 'Se aprobaron todas las comprobaciones del protocolo.',
+      },
+      partial: {
+        title: 'Documento íntegro, con salvedades',
+        description: 'Ninguna comprobación falló, pero algunas no se pudieron confirmar (elementos en amarillo).',
+      },
+      tampered: {
+        title: 'Documento adulterado',
+        description: 'El protocolo no coincide con el contenido del documento.',
+      },
+      unknown: {
+        title: 'Documento desconocido',
+        description: 'No se encontró un protocolo de firmas en este PDF.',
+      },
+    },
+    envelope: 'Sobre',
+    manifest: 'Manifiesto incrustado',
+    manifestSummary: (version, count) => `versión ${version}, ${count} ${plural(count, 'firma', 'firmas')}`,
+    manifestMissing: 'no encontrado',
+    signers: (count) => `Firmantes (${count})`,
+  },
+
+  checks: {
+    unreadablePdf: 'No se pudo leer el PDF. El archivo puede estar dañado o protegido.',
+    protocol: 'Página de protocolo encontrada',
+    protocolMissing: 'El PDF no contiene un protocolo de firmas reconocible.',
+    totvsHash: 'HASH SICFAR corresponde al SHA256',
+    expected: (value) => `Se esperaba ${value}`,
+    pageHeaders: 'Encabezado de hash presente en todas las páginas',
+    pagesWithWrongHash: (pages) => `Páginas divergentes: ${pages}`,
+    pageNumbering: 'Numeración de páginas coherente',
+    pagesWithWrongNumber: (pages) => `Páginas con numeración divergente: ${pages}`,
+    signatureCount: 'Lista de firmantes completa',
+    signatureCountMismatch: (declared, found) => `Declaradas ${declared}, encontradas ${found}`,
+    manifest: 'El manifiesto incrustado coincide con el protocolo',
+    manifestHashMismatch: 'El SHA256 del manifiesto difiere del impreso en el protocolo.',
+    manifestCountMismatch: (manifest, protocol) =>
+      `El manifiesto contiene ${manifest} ${plural(manifest, 'firma', 'firmas')}, el protocolo ${protocol}.`,
+    manifestSignerMismatch: (index) => `El firmante #${index} difiere entre el manifiesto y el protocolo.`,
+    manifestUnreadable: 'Manifiesto ilegible.',
+    chainRecomputed: 'Cadena de firmas íntegra (hashes recalculados)',
+    chain: 'Cadena de firmas íntegra',
+    deviceSignatures: 'Firmas de los dispositivos válidas',
+    invalidDeviceSignatures: (list) => `Firmas no válidas: ${list}`,
+    timestamps: (count, total) => `Sellos de tiempo válidos (${count} de ${total})`,
+    invalidTimestamps: (list) => `Sellos no válidos: ${list}`,
+    untrustedTimestamps: (list) => `Sellos de TSA fuera de la lista de confianza: ${list}`,
+    localTimestamps: (list) => `Sellos de la TSA local de desarrollo: ${list}`,
+    pades: 'Firma digital PAdES válida y que cubre todo el archivo',
+    padesSigner: (commonName) => `Certificado: ${commonName}`,
+    originalHash: 'El SHA256 coincide con el PDF original',
+    originalHashMismatch: (hash) => `SHA256 del original: ${hash}`,
+    originalHashSkipped: 'Contenido del documento no comprobado',
+    originalHashSkippedDetails:
+      'Sin el PDF original, los hashes de las firmas no se recalculan. Proporcione el PDF original para confirmar el contenido.',
+  },
+
+  settings: {
+    title: 'Plantilla del Protocolo',
+    description: 'Personalice la identidad visual y el contenido de la página de protocolo de los PDF finalizados',
+    organizationName: 'Nombre de la organización',
+    organizationPlaceholder: 'Impreso debajo del título',
+    logo: 'Logotipo (PNG o JPG)',
+    logoAlt: 'Logotipo de la organización',
+    logoType: 'El logotipo debe ser una imagen PNG o JPG',
+    logoSize: 'El logotipo debe tener como máximo 512 KB',
+    remove: 'Quitar',
+    colors: 'Colores',
+    palette: {
+      title: 'Título',
+      section: 'Subtítulos',
+      text: 'Texto',
+      muted: 'Texto secundario',
+    },
+    texts: 'Textos',
+    labels: {
+      title: 'Título del protocolo',
+      hashLabel: 'Etiqueta del hash',
+      documentSection: 'Sección del documento',
+      signaturesSection: 'Sección de firmas',
+      authenticitySection: 'Sección de autenticidad',
+      auditSection: 'Sección del registro de auditoría',
+      disclaimerSection: 'Sección del aviso legal',
+      footer: 'Nota al pie',
+    },
+    labelsHint:
+      'Deje un texto en blanco para usar el predeterminado en el idioma del protocolo. El título y la etiqueta del hash quedan registrados en el manifiesto del PDF para que el verificador los reconozca.',
+    fontSizes: {
+      title: 'Título',
+      section: 'Subtítulos',
+      normal: 'Texto',
+      small: 'Texto pequeño',
+    },
+    sections: 'Secciones y orden',
+    sectionNames: {
+      document: 'Documento',
+      signatures: 'Firmas',
+      authenticity: 'Autenticidad (hash)',
+      audit: 'Registro de auditoría',
+      qrcode: 'Código QR de verificación',
+      details: 'Pie y datos del archivo',
+      disclaimer: 'Aviso legal',
+    },
+    showSection: (name) => `Mostrar ${name}`,
+    requiredSection: '(obligatoria para la verificación)',
+    moveUp: (name) => `Subir ${name}`,
+    moveDown: (name) => `Bajar ${name}`,
+    disclaimer: 'Aviso legal',
+    disclaimerPlaceholder: 'Texto impreso en la sección de aviso legal',
+    disclaimerHidden: 'Active la sección Aviso legal para imprimir este texto en el protocolo.',
+    reset: 'Restaurar predeterminado',
+    save: 'Guardar plantilla',
+  },
+
+  validation: {
+    refusalReasonMin: 'Indique el motivo del rechazo (mínimo de 5 caracteres)',
+    refusalReasonMax: 'El motivo debe tener como máximo 500 caracteres',
+    nameMin: 'El nombre debe tener al menos 5 caracteres',
+    nameMax: 'El nombre debe tener como máximo 100 caracteres',
+    nameScriptUnsupported: 'El nombre debe usar los alfabetos latino, griego, cirílico, chino, japonés o coreano',
+    cpfLength: 'El CPF debe tener 11 dígitos',
+    cpfInvalid: 'CPF no válido',
+    cnpjLength: 'El CNPJ debe tener 14 caracteres',
+    cnpjInvalid: 'CNPJ no válido',
+    passportInvalid: 'El pasaporte debe tener de 6 a 9 letras o dígitos',
+    rneInvalid: 'El RNE/CRNM debe tener una letra, 6 dígitos y el dígito verificador',
+    rgInvalid: 'El RG debe tener de 5 a 14 dígitos (el último puede ser X)',
+    countryRequired: 'Seleccione el país emisor del pasaporte',
+    stateRequired: 'Seleccione el estado emisor del RG',
+    // Stored and imported data
+    required: 'Falta un campo obligatorio',
+    hashInvalid: 'Hash SHA-256 no válido',
+    localeInvalid: 'Idioma no válido',
+    documentTypeInvalid: 'Tipo de documento no válido',
+    roleInvalid: 'Rol del firmante no válido',
+    keyCoordinateInvalid: 'Coordenada de la clave del dispositivo no válida',
+    serialNumberInvalid: 'Número de serie no válido',
+    dateInvalid: 'Fecha no válida',
+    base64Invalid: 'Contenido Base64 no válido',
+    timestampPolicyInvalid: 'Política del sello de tiempo no válida',
+    pageInvalid: 'Número de página no válido',
+    sizeInvalid: 'Dimensión no válida',
+    durationInvalid: 'Tiempo de lectura no válido',
+    readingPageOutOfRange: 'Página leída fuera del documento',
+    readingPageRepeated: 'Página leída repetida',
+    initialsEmpty: 'Rúbrica vacía',
+    storedDocumentInvalid: 'Número de documento no válido para el tipo indicado',
+    documentIssuerInvalid: 'Emisor del documento no válido',
+    documentIssuerMismatch: 'Emisor del documento ausente o no aplicable al tipo',
+    refusalReasonMissing: 'Falta el motivo del rechazo',
+    signingOrderInvalid: 'Orden de firma no válido',
+    workflowEmpty: 'Flujo de firma sin firmantes',
+    workflowRepeatedCpf: 'CPF repetido en el flujo de firma',
+    auditEventTypeInvalid: 'Tipo de evento de auditoría no válido',
+    authorMax: 'El autor debe tener como máximo 100 caracteres',
+    exportFormatUnknown: 'Formato de exportación desconocido',
+    exportVersionUnsupported: 'Versión de exportación no admitida',
+    noLogs: 'El archivo no contiene registros',
+    // Protocol template
+    colorInvalid: 'Color no válido (use #rrggbb)',
+    logoInvalid: 'Logotipo no válido',
+    textMax: (field, max) => `${field}: como máximo ${max} caracteres`,
+    fontSizeInvalid: (field) => `Tamaño de "${field}" no válido`,
+    fontSizeRange: (field, min, max) => `El tamaño de "${field}" debe estar entre ${min} y ${max}`,
+    sectionRepeated: 'Sección repetida en el protocolo',
+    sectionsRequired: 'Las secciones Documento, Firmas y Autenticidad son obligatorias',
+  },
+
+  errors: {
+    chainBreak,
+    schemaIssue: (path, message) => `${path || 'raíz'} - ${message}`,
+    indexedDbUnavailable: 'IndexedDB no está disponible en este navegador.',
+    databaseBlocked: 'La base de datos local está bloqueada por otra pestaña.',
+    transactionAborted: 'Transacción cancelada.',
+    storageFull: 'No se pudo guardar el sobre: el almacenamiento local está lleno.',
+    storageFailed: 'No se pudo guardar el sobre en el almacenamiento local.',
+    importDiverges: (fileName) =>
+      `El registro importado de "${fileName}" difiere de las firmas ya guardadas en este navegador.`,
+    jsonMalformed: 'El archivo JSON está mal formado.',
+    exportInvalid: (issue) => `Archivo de exportación no válido: ${issue}`,
+    csvEmpty: 'El archivo CSV está vacío.',
+    csvUnclosedQuote: 'CSV no válido: comillas sin cerrar.',
+    csvMissingColumns: (columns) => `CSV no válido: faltan columnas (${columns}).`,
+    csvColumnCount: (line, expected, found) => `Registro ${line}: se esperaban ${expected} columnas, hay ${found}.`,
+    csvInvalidJson: (line, column) => `Registro ${line}: la columna "${column}" no contiene JSON válido.`,
+    csvSignatureOrder: (line, documentId) => `Registro ${line}: firma fuera de orden en el documento ${documentId}.`,
+    csvInvalidLog: (index, issue) => `CSV no válido en el documento #${index}: ${issue}`,
+    noLogs: 'El archivo no contiene registros.',
+    duplicateDocument: (documentId) => `El documento ${documentId} aparece más de una vez en el archivo.`,
+    importedChainBroken: (fileName, detail) => `Documento "${fileName}": cadena de hashes incoherente. ${detail}`,
+    importedAuditTrailBroken: (fileName, detail) => `Documento "${fileName}": auditoría incoherente. ${detail}`,
+    importedDeviceSignature: (fileName, index) =>
+      `Documento "${fileName}": la firma del dispositivo #${index} no corresponde al hash registrado.`,
+    importedRefusalDeviceSignature: (fileName, index) =>
+      `Documento "${fileName}": la firma del dispositivo del rechazo #${index} no corresponde al hash registrado.`,
+    pdfUnreadable: 'No se pudo cargar el PDF. El archivo puede estar dañado o protegido.',
+    manifestCorrupted: 'El manifiesto de firmas del PDF está dañado.',
+    manifestInvalid: (issue) => `Manifiesto de firmas no válido: ${issue}`,
+    fontsUnavailable: 'No se pudieron cargar las fuentes del protocolo.',
+    handwritingFailed: 'No se pudo generar la imagen de la firma manuscrita.',
+    templateInvalid: 'Plantilla de protocolo no válida.',
+    templateSaveFailed: 'No se pudo guardar la plantilla. El logotipo puede ser demasiado grande.',
+    certificateUnreadable: 'No se pudo abrir el certificado. Verifique el archivo y la contraseña.',
+    certificateWithoutKey: 'El certificado no contiene una clave privada RSA.',
+    certificateNotFound: 'No se encontró el certificado correspondiente a la clave privada.',
+    certificateExpired: 'El certificado está fuera de su período de validez.',
+    signaturePlaceholderMissing: 'No se encontró el espacio reservado para la firma digital.',
+    documentTooLarge: 'El documento es demasiado grande para la firma digital.',
+    signatureTooLarge: 'La firma digital excede el espacio reservado en el PDF.',
+    timestampNotSignedData: 'El sello de tiempo no es un SignedData.',
+    timestampRefused: (authority) => `La autoridad de sellado de tiempo "${authority}" rechazó la solicitud.`,
+    timestampHttpError: (status) => `La autoridad de sellado de tiempo respondió con HTTP ${status}.`,
+    timestampNonceMismatch: 'El sello de tiempo no corresponde a la solicitud (nonce distinto).',
+    timestampInvalid: (detail) => `Sello de tiempo no válido: ${detail}`,
+    timestampReason: (reason) =>
+      ({
+        'not-tst-info': 'el contenido no es un TSTInfo',
+        'imprint-mismatch': 'el sello no corresponde al hash de la firma',
+        'time-mismatch': 'la hora registrada difiere del sello',
+        'missing-signed-attributes': 'faltan los atributos firmados',
+        'unsupported-digest': 'algoritmo de resumen no admitido',
+        'digest-mismatch': 'el resumen del TSTInfo no coincide',
+        'missing-certificate': 'certificado de la TSA no incluido en el sello',
+        'missing-time-stamping-usage': 'certificado de la TSA sin el uso extendido id-kp-timeStamping',
+        'invalid-signature': 'firma de la TSA no válida',
+        unreadable: 'estructura del sello de tiempo ilegible',
+      })[reason],
+    padesReason: (reason) =>
+      ({
+        'missing-signed-attributes': 'faltan los atributos firmados',
+        'unsupported-digest': 'algoritmo de resumen no admitido',
+        'digest-mismatch': 'el archivo se modificó después de firmado',
+        'missing-certificate': 'certificado del firmante no incluido en la firma',
+        'invalid-signature': 'firma criptográfica no válida',
+        'partial-coverage': 'hay contenido añadido después de la firma',
+        unreadable: 'estructura de la firma ilegible',
+      })[reason],
+  },
+
+  protocol: {
+    title: 'Protocolo de Firmas',
+    hashLabel: 'HASH SICFAR',
+    documentSection: 'Documento',
+    signaturesSection: 'Firmas',
+    authenticitySection: 'Autenticidad',
+    auditSection: 'Registro de Auditoría',
+    disclaimerSection: 'Aviso Legal',
+    footer: 'Este documento fue firmado electrónicamente.',
+    continuation: 'continuación',
+    continued: 'continúa en la página siguiente',
+    envelopeName: 'Nombre del sobre',
+    author: 'Autor',
+    localSystem: 'Sistema Local',
+    status: 'Estado',
+    workflowStatus: (status: WorkflowStatus) =>
+      ({
+        pending: 'Pendiente',
+        'partially-signed': 'Parcialmente firmado',
+        completed: 'Completado',
+        expired: 'Vencido',
+        refused: 'Rechazado',
+      })[status],
+    noSignatures: 'Ninguna firma registrada.',
+    noAuditEvents: 'No hay eventos registrados.',
+    auditNote:
+      'Eventos registrados por los navegadores en los que se usó el sobre. Cada evento se encadena por hash al anterior, aparte de la cadena de las firmas.',
+    auditEvent: (type, { fileName, page, pageCount, name, pagesViewed }) => {
+      const viewed = pagesViewed !== undefined && pageCount ? ` (${pagesViewed} de ${pageCount} páginas vistas)` : '';
+      return {
+        uploaded: `Documento cargado: ${fileName}`,
+        reuploaded: `Documento cargado de nuevo: ${fileName}`,
+        opened: 'Sobre abierto',
+        'page-viewed': `Página ${page} de ${pageCount} vista`,
+        signed: `Firmado por ${name}${viewed}`,
+        refused: `Firma rechazada por ${name}${viewed}`,
+        downloaded: `PDF descargado: ${fileName}`,
+        closed: 'Sobre cerrado',
+        cleared: `Sobre eliminado de este navegador: ${fileName}`,
+      }[type];
+    },
+    name: 'Nombre',
+    documentType: (type: SignerDocumentType) =>
+      ({ cpf: 'CPF', cnpj: 'CNPJ', passport: 'Pasaporte', rne: 'RNE/CRNM', rg: 'RG' })[type],
+    date: 'Fecha',
+    trustedTimestamp: 'Sello de Tiempo (TSA)',
+    authority: 'Autoridad',
+    timestampSerial: 'Serie del Sello',
+    timestampTrust: (trust) =>
+      trust
+        ? {
+            trusted: 'Sello verificado: TSA en la lista de confianza',
+            untrusted: 'Sello verificado, pero la TSA no está en la lista de confianza',
+            local: 'Sello de la TSA local de desarrollo: la hora no es confiable',
+          }[trust]
+        : 'Sello no válido',
+    signedElectronically: 'Firmado electrónicamente',
+    reading: 'Lectura',
+    readingSummary: (viewed: number, pageCount: number, seconds: string) =>
+      `${viewed} de ${pageCount} ${plural(pageCount, 'página visualizada', 'páginas visualizadas')} antes de firmar, en ${seconds} s`,
+    readingPage: (page: number, seconds: string) => `p. ${page}: ${seconds} s`,
+    refusalsHeading: 'Rechazos',
+    refusedBy: 'Rechazado por',
+    refusedAt: 'Fecha del rechazo',
+    refusalReason: 'Motivo',
+    refusalHash: 'Hash del Rechazo',
+    roleGroup: (role: SignerRole | null) =>
+      role
+        ? {
+            party: 'Partes',
+            witness: 'Testigos',
+            approver: 'Aprobadores',
+            intervening: 'Intervinientes',
+            'legal-representative': 'Representantes legales',
+            issuer: 'Emisores',
+          }[role]
+        : 'Otros firmantes',
+    signedAs: (role: SignerRole) =>
+      `Firmado electrónicamente como ${
+        {
+          party: 'parte',
+          witness: 'testigo',
+          approver: 'aprobador',
+          intervening: 'interviniente',
+          'legal-representative': 'representante legal',
+          issuer: 'emisor',
+        }[role]
+      }`,
+    authenticationType: 'Tipo de Autenticación',
+    certificateAuthentication: 'Certificado digital (PKCS#12), que firma este archivo en PAdES',
+    certificateNotApplied: 'no usado en la firma PAdES de este archivo',
+    padesSigner: (commonName, serialNumber) => `Firma digital PAdES del archivo: ${commonName} (serie ${serialNumber})`,
+    noPadesSignature: 'El archivo no tiene firma digital PAdES; los certificados informados solo constan en este protocolo.',
+    deviceAuthentication: 'Mediante el identificador único del dispositivo',
+    certificate: 'Certificado',
+    serial: 'Serie',
+    deviceKey: 'Clave del Dispositivo (ECDSA P-256, JWK)',
+    deviceSignature: 'Firma del Dispositivo',
+    signatureHash: 'Hash de la Firma',
+    previousHash: 'Hash Anterior',
+    notChained: 'no encadenada',
+    signatureCount: 'Total de firmas',
+    verifyInstructions: 'Para verificar la autenticidad del documento, utilice el hash siguiente:',
+    chainIntact: (length) => `Encadenamiento de las firmas: íntegro (${length} ${plural(length, 'eslabón', 'eslabones')})`,
+    chainBroken: (failure) =>
+      `Encadenamiento de las firmas: roto - ${chainBreak(failure)}`,
+    auditTrailIntact: (length) => `Encadenamiento de la auditoría: íntegro (${length} ${plural(length, 'evento', 'eventos')})`,
+    auditTrailBroken: (failure) =>
+      `Encadenamiento de la auditoría: roto - ${chainBreak(failure)}`,
+    scanQRCode: 'Escanee el código QR para comprobar el documento:',
+    generatedAt: 'Generado el',
+    originalFile: 'Archivo original',
+    size: 'Tamaño',
+    page: 'Página',
+    pageOf: 'de',
+    stampSignedBy: 'Firmado electrónicamente por',
+    initials: 'Rúbricas',
+    digitallySignedBy: 'Firmado digitalmente por',
+    signatureReason: 'Firma digital del documento',
+  },
+};
@@ -0,0 +1,157 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import type { Locale } from '@/types';
+import { ptBR, type Messages } from './pt-BR';
+import { en } from './en';
+import { es } from './es';
+
+export type { Messages };
+
+export const LOCALES: readonly Locale[] = ['pt-BR', 'en', 'es'];
+
+export const DEFAULT_LOCALE: Locale = 'pt-BR';
+
+/** Name of each language written in the language itself, for the language switchers */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  'pt-BR': 'Português (Brasil)',
+  en: 'English',
+  es: 'Español',
+};
+
+const CATALOGS: Record<Locale, Messages> = { 'pt-BR': ptBR, en, es };
+
+const LOCALE_STORAGE_KEY = 'pdf_signature_locale';
+
+let currentLocale: Locale | null = null;
+const listeners = new Set<() => void>();
+
+/**
+ * Checks if a value is one of the supported locales
+ * @param value - Value to check
+ * @returns true if supported
+ */
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (LOCALES as readonly string[]).includes(value);
+}
+
+/**
+ * Picks the initial interface language: the saved choice, then the browser languages
+ * @returns Detected locale, or pt-BR when none is supported
+ */
+function detectLocale(): Locale {
+  const saved = localStorage.getItem(LOCALE_STORAGE_KEY);
+  if (isLocale(saved)) return saved;
+
+  for (const language of navigator.languages ?? []) {
+    const match = LOCALES.find((locale) => locale.split('-')[0] === language.split('-')[0]);
+    if (match) return match;
+  }
+  return DEFAULT_LOCALE;
+}
+
+/**
+ * Gets the current interface language
+ * @returns Current locale
+ */
+export function getLocale(): Locale {
+  currentLocale ??= detectLocale();
+  return currentLocale;
+}
+
+/**
+ * Changes and saves the interface language
+ * @param locale - New locale
+ */
+export function setLocale(locale: Locale): void {
+  currentLocale = locale;
+  localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+  document.documentElement.lang = locale;
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Registers a listener for language changes
+ * @param listener - Called after every change
+ * @returns Function that removes the listener
+ */
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Gets the message catalog of a language
+ * @param locale - Catalog language (defaults to the interface language)
+ * @returns Message catalog
+ */
+export function getMessages(locale: Locale = getLocale()): Messages {
+  return CATALOGS[locale];
+}
+
+/**
+ * Gets the texts of the protocol pages. Other languages are printed together with
+ * pt-BR ("Name / Nome"), so the protocol stays readable for both parties.
+ * @param locale - Protocol language
+ * @returns Protocol texts, bilingual unless the language is pt-BR
+ */
+export function getProtocolMessages(locale: Locale): Messages['protocol'] {
+  const primary = CATALOGS[locale].protocol;
+  if (locale === DEFAULT_LOCALE) return primary;
+
+  const secondary: Record<string, unknown> = CATALOGS[DEFAULT_LOCALE].protocol;
+  const join = (first: string, second: string) => (first === second ? first : `${first} / ${second}`);
+
+  return Object.fromEntries(
+    Object.entries(primary).map(([key, value]) => {
+      if (typeof value === 'string') return [key, join(value, secondary[key] as string)];
+      const format = value as (...args: unknown[]) => string;
+      const other = secondary[key] as (...args: unknown[]) => string;
+      return [key, (...args: unknown[]) => join(format(...args), other(...args))];
+    })
+  ) as Messages['protocol'];
+}
+
+/**
+ * Formats a date and time in the conventions of a language
+ * @param value - Date, timestamp or ISO string
+ * @param locale - Formatting language
+ * @param options - Intl formatting options
+ * @returns Formatted date
+ */
+export function formatDateTime(
+  value: Date | string | number,
+  locale: Locale,
+  options?: Intl.DateTimeFormatOptions
+): string {
+  return new Date(value).toLocaleString(locale, options);
+}
+
+/**
+ * Formats a number in the conventions of a language
+ * @param value - Number
+ * @param locale - Formatting language
+ * @param options - Intl formatting options
+ * @returns Formatted number
+ */
+export function formatNumber(value: number, locale: Locale, options?: Intl.NumberFormatOptions): string {
+  return value.toLocaleString(locale, options);
+}
+
+/**
+ * Interface language, messages and formatters; re-renders the component when the language changes
+ * @returns Current locale, its messages, the language setter and locale-aware formatters
+ */
+export function useI18n() {
+  const locale = useSyncExternalStore(subscribe, getLocale);
+
+  return useMemo(
+    () => ({
+      locale,
+      t: CATALOGS[locale],
+      setLocale,
+      formatDate: (value: Date | string | number, options?: Intl.DateTimeFormatOptions) =>
+        formatDateTime(value, locale, options),
+      formatNumber: (value: number, options?: Intl.NumberFormatOptions) => formatNumber(value, locale, options),
+    }),
+    [locale]
+  );
+}
@@ -0,0 +1,792 @@
+import type {
+  AuditEventDetails,
+  AuditEventType,
+  ChainBreak,
+  ChainBreakReason,
+  ChainBreakSubject,
+  EnvelopeStatus,
+  ExpectedSignerState,
+  ProtocolSectionId,
+  SignerDocumentType,
+  SignerRole,
+  SignerTurnError,
+  SigningOrder,
+  PAdESInvalidReason,
+  TimestampInvalidReason,
+  TimestampTrust,
+  VerificationStatus,
+  WorkflowStatus,
+} from '@/types';
+
+const plural = (count: number, one: string, other: string) => (count === 1 ? one : other);
+
+// Where a hash chain broke: name of the record and what is wrong with it
+const CHAIN_BREAKS: Record<ChainBreakSubject, { label: string; reasons: Record<ChainBreakReason, string> }> = {
+  signature: {
+    label: 'Assinatura',
+    reasons: {
+      'missing-link': 'assinatura sem vínculo com a anterior',
+      'link-mismatch': 'vínculo não corresponde à assinatura anterior (remoção ou reordenação)',
+      'hash-mismatch': 'hash não corresponde aos dados registrados (assinatura alterada)',
+    },
+  },
+  refusal: {
+    label: 'Recusa',
+    reasons: {
+      'missing-link': 'recusa sem vínculo com a cadeia',
+      'link-mismatch': 'vínculo não corresponde a nenhuma assinatura da cadeia',
+      'hash-mismatch': 'hash não corresponde aos dados registrados (recusa alterada)',
+    },
+  },
+  'audit-event': {
+    label: 'Evento',
+    reasons: {
+      'missing-link': 'evento sem vínculo com os anteriores',
+      'link-mismatch': 'vínculo não corresponde a nenhum evento anterior (remoção ou reordenação)',
+      'hash-mismatch': 'hash não corresponde aos dados registrados (evento alterado)',
+    },
+  },
+};
+
+const chainBreak = ({ subject, position, reason }: ChainBreak) =>
+  `${CHAIN_BREAKS[subject].label} #${position}: ${CHAIN_BREAKS[subject].reasons[reason]}`;
+
+export const ptBR = {
+  app: {
+    title: 'Assinatura Eletrônica de PDF',
+    subtitle: 'MVP - Aplicação 100% Frontend',
+    footer: 'MVP - Assinatura Eletrônica de PDF | Sem backend | Device ID substitui IP real',
+    language: 'Idioma',
+    nav: {
+      envelopes: 'Envelopes',
+      sign: 'Assinar',
+      verify: 'Verificar documento',
+      settings: 'Configurações',
+    },
+  },
+
+  toasts: {
+    saveErrorTitle: 'Erro ao salvar',
+    saveErrorDescription: 'Não foi possível salvar o envelope.',
+    logMigratedTitle: 'Log de assinaturas migrado',
+    logMigratedDescription: (fileName: string) =>
+      `O log de "${fileName}" foi movido para o armazenamento de envelopes.`,
+    storageUnavailableTitle: 'Armazenamento indisponível',
+    storageUnavailableDescription: 'Não foi possível abrir os envelopes salvos. As assinaturas ficarão apenas em memória.',
+    documentRecognizedTitle: 'Documento reconhecido',
+    documentRecognizedDescription: (count: number) =>
+      `Este documento já possui ${count} ${plural(count, 'assinatura registrada', 'assinaturas registradas')}. Você pode adicionar mais assinaturas.`,
+    invalidPdfTitle: 'PDF inválido',
+    invalidPdfDescription: 'O arquivo selecionado não é um PDF válido ou está corrompido.',
+    fileErrorTitle: 'Erro ao processar arquivo',
+    fileErrorDescription: 'Ocorreu um erro ao processar o arquivo PDF.',
+    errorTitle: 'Erro',
+    uploadBeforeSigning: 'Carregue um PDF antes de assinar.',
+    invalidCertificateTitle: 'Certificado inválido',
+    invalidCertificateDescription: 'Não foi possível abrir o certificado.',
+    timestampUnavailableTitle: 'Carimbo de tempo indisponível',
+    timestampUnavailableDescription: 'A assinatura foi registrada com o horário do dispositivo.',
+    signedTitle: 'Assinatura aplicada!',
+    signedDescription: (name: string, hash: string) => `Documento assinado por ${name}. Hash: ${hash}...`,
+    signErrorTitle: 'Erro ao assinar',
+    signErrorDescription: 'Ocorreu um erro ao aplicar a assinatura no PDF.',
+    downloadStartedTitle: 'Download iniciado',
+    downloadWithoutPades: 'O PDF foi gerado sem assinatura PAdES: o certificado não está carregado nesta sessão.',
+    downloadWithPades: (commonName: string) => `O PDF assinado digitalmente por ${commonName} está sendo baixado.`,
+    downloadWithProtocol: 'O PDF assinado com protocolo está sendo baixado.',
+    downloadWithPadesOthersInProtocol: (commonName: string) =>
+      `O PDF assinado digitalmente por ${commonName} está sendo baixado. Os demais certificados constam só no protocolo.`,
+    downloadErrorTitle: 'Erro ao baixar',
+    downloadErrorDescription: 'Ocorreu um erro ao baixar o PDF assinado.',
+    logsImportedTitle: 'Logs importados',
+    logsImportedDescription: (imported: number, updated: number, skipped: number) =>
+      `${imported} novo(s), ${updated} atualizado(s), ${skipped} já existente(s).`,
+    importRejectedTitle: 'Importação rejeitada',
+    importRejectedDescription: 'Não foi possível importar o arquivo.',
+    envelopeNotFoundTitle: 'Envelope não encontrado',
+    envelopeNotFoundDescription: 'O envelope pode ter sido excluído em outra aba.',
+    uploadPdfTitle: 'Envie o PDF',
+    uploadPdfDescription: (fileName: string) => `Faça upload do PDF "${fileName}" para continuar assinando.`,
+    openErrorTitle: 'Erro ao abrir',
+    openErrorDescription: 'Não foi possível abrir o envelope.',
+    pdfUnavailableTitle: 'PDF indisponível',
+    pdfUnavailableDescription: 'Abra o envelope e envie o PDF original antes de finalizar.',
+    finalizeErrorTitle: 'Erro ao finalizar',
+    finalizeErrorDescription: 'Ocorreu um erro ao gerar o PDF assinado.',
+    envelopeDeletedTitle: 'Envelope excluído',
+    envelopeDeletedDescription: 'O documento e o log de assinaturas foram removidos deste navegador.',
+    deleteErrorTitle: 'Erro ao excluir',
+    deleteErrorDescription: 'Não foi possível excluir o envelope.',
+    workflowIncompleteTitle: 'Fluxo de assinatura incompleto',
+    workflowIncompleteDescription: (status: string) =>
+      `O PDF final só é gerado com o fluxo concluído (status atual: ${status}).`,
+    signerRefusedTitle: 'Assinante recusado',
+    refusalRecordedTitle: 'Recusa registrada',
+    refusalRecordedDescription: (name: string) =>
+      `A recusa de ${name} foi registrada no log. O envelope não pode mais ser finalizado.`,
+    refusalErrorTitle: 'Erro ao registrar recusa',
+    refusalErrorDescription: 'Ocorreu um erro ao registrar a recusa. Tente novamente.',
+    refusalDownloadedTitle: 'Registro da recusa baixado',
+    refusalDownloadedDescription: 'O PDF traz o protocolo com as recusas, mas o envelope não foi finalizado.',
+    readingRequiredTitle: 'Leitura obrigatória',
+    readingRequiredDescription: (viewed: number, pageCount: number) =>
+      `Visualize todas as páginas do documento antes de assinar (${viewed} de ${pageCount}).`,
+    templateSavedTitle: 'Modelo salvo',
+    templateSavedDescription: 'Os próximos PDFs finalizados usarão o novo modelo de protocolo.',
+    templateInvalidTitle: 'Modelo inválido',
+    templateInvalidDescription: 'Não foi possível salvar o modelo.',
+    templateResetTitle: 'Modelo restaurado',
+    templateResetDescription: 'O protocolo voltou ao modelo padrão.',
+    documentRemovedTitle: 'Documento removido',
+    documentRemovedDescription: 'O documento e o log de assinaturas foram limpos.',
+    removeErrorTitle: 'Erro ao remover',
+    removeErrorDescription: 'O envelope foi fechado, mas não pôde ser removido do armazenamento local.',
+  },
+
+  common: {
+    documentTypes: { cpf: 'CPF', cnpj: 'CNPJ', passport: 'Passaporte', rne: 'RNE/CRNM', rg: 'RG' },
+    roles: {
+      party: 'Parte',
+      witness: 'Testemunha',
+      approver: 'Aprovador',
+      intervening: 'Interveniente',
+      'legal-representative': 'Representante legal',
+      issuer: 'Emitente',
+    },
+    workflowStatus: {
+      pending: 'Pendente',
+      'partially-signed': 'Parcialmente assinado',
+      completed: 'Concluído',
+      expired: 'Expirado',
+      refused: 'Recusado',
+    } satisfies Record<WorkflowStatus, string>,
+    copy: 'Copiar',
+    copied: 'Copiado',
+    cancel: 'Cancelar',
+    notChained: 'não encadeada',
+  },
+
+  upload: {
+    title: 'Documento PDF',
+    selectPdf: 'Por favor, selecione um arquivo PDF.',
+    tooLarge: 'O arquivo PDF deve ter no máximo 50MB.',
+    notPdf: 'O arquivo não parece ser um PDF válido.',
+    processError: 'Erro ao processar o arquivo PDF.',
+    uploadLabel: 'Enviar PDF',
+    dropHere: 'Solte o arquivo aqui',
+    dragOrClick: 'Arraste um PDF ou clique para selecionar',
+    maxSize: 'Máximo de 50MB',
+    hasSignatures: 'PDF com assinaturas',
+    removeFile: 'Remover arquivo',
+  },
+
+  preview: {
+    title: 'Visualização do PDF',
+    empty: 'Carregue um PDF para visualizar',
+    loadError: 'Erro ao carregar o PDF para visualização.',
+    placeStamp: 'Posicionar carimbo',
+    removeStamp: 'Remover carimbo',
+    zoomOut: 'Diminuir zoom',
+    zoomIn: 'Aumentar zoom',
+    stampLabel: 'Carimbo da assinatura: arraste ou use as setas para posicionar',
+    yourSignature: 'Sua assinatura',
+    dragHint: 'Arraste o carimbo até o local desejado. Ele será desenhado nesta posição ao baixar o PDF finalizado.',
+    stampOnPage: (page: number) => `O carimbo está na página ${page}. Clique nesta página para movê-lo para cá.`,
+    previousPage: 'Página anterior',
+    nextPage: 'Próxima página',
+    pageOf: (page: number, total: number) => `Página ${page} de ${total}`,
+  },
+
+  signerForm: {
+    title: 'Dados do Assinante',
+    description: 'Preencha os dados para assinar o documento',
+    name: 'Nome Completo *',
+    namePlaceholder: 'Digite o nome completo',
+    nameGlyphsMissing: (characters: string) => `As fontes do protocolo não têm estes caracteres: ${characters}`,
+    documentType: 'Tipo de documento',
+    documentTypes: {
+      cpf: 'CPF (pessoa física)',
+      cnpj: 'CNPJ (pessoa jurídica)',
+      passport: 'Passaporte (estrangeiro)',
+      rne: 'RNE/CRNM (estrangeiro residente)',
+      rg: 'RG (carteira de identidade)',
+    },
+    documentNumber: {
+      cpf: 'CPF *',
+      cnpj: 'CNPJ *',
+      passport: 'Número do passaporte *',
+      rne: 'Número do RNE/CRNM *',
+      rg: 'Número do RG *',
+    },
+    country: 'País emissor *',
+    selectCountry: 'Selecione o país',
+    state: 'Estado emissor *',
+    selectState: 'Selecione o estado',
+    cnpjHint: 'O CNPJ pode conter letras (novo formato alfanumérico).',
+    rneHint: 'Letra, 6 dígitos e o dígito verificador (ex.: V123456-7).',
+    role: 'Papel do assinante *',
+    roleHint: 'As assinaturas são agrupadas por papel na página de protocolo.',
+    onTurn: 'Vez de assinar',
+    onTurnHint: 'Selecione um assinante para preencher o nome e o CPF.',
+    workflowClosed: (status: string) => `Ninguém pode assinar agora: fluxo ${status.toLowerCase()}.`,
+    turnErrors: {
+      refused: 'O envelope foi recusado e não aceita mais assinaturas',
+      expired: 'O prazo do fluxo de assinatura terminou',
+      'not-expected': 'Este CPF não está entre os assinantes esperados',
+      'already-signed': 'Este assinante já assinou',
+      'out-of-turn': 'Ainda não é a vez deste assinante',
+      'name-mismatch': 'O nome não confere com o do assinante esperado',
+    } satisfies Record<SignerTurnError, string>,
+    handwritten: 'Assinatura manuscrita (opcional)',
+    handwritingError: 'Não foi possível ler a assinatura desenhada.',
+    useInitials: 'Rubricar todas as páginas',
+    initialsFromName: 'Gerar pelo nome',
+    initialsDrawn: 'Desenhar',
+    initials: 'Rubrica',
+    initialsPad: 'Área para desenhar a rubrica',
+    initialsRequired: 'Desenhe a rubrica ou escolha gerá-la pelo nome',
+    initialsError: 'Não foi possível ler a rubrica desenhada.',
+    initialsHint: 'A rubrica é impressa no rodapé de cada página do documento original ao finalizar o PDF.',
+    useCertificate: 'Assinar com certificado digital (PAdES)',
+    certificate: 'Certificado PKCS#12 (.p12/.pfx) *',
+    certificatePassword: 'Senha do certificado',
+    certificateRequired: 'Selecione o arquivo do certificado (.p12 ou .pfx)',
+    certificateHint: 'O certificado fica apenas em memória e é usado para assinar digitalmente o PDF final.',
+    signing: 'Assinando...',
+    sign: 'Assinar Documento',
+    refuse: 'Recusar assinatura',
+    refusalReason: 'Motivo da recusa *',
+    refusalReasonPlaceholder: 'Explique por que não vai assinar o documento',
+    confirmRefusal: 'Confirmar recusa',
+    refusing: 'Registrando recusa...',
+    refusalHint: 'A recusa é registrada com hash no log, com o nome e o documento acima, e impede a finalização do envelope.',
+    uploadFirst: 'Carregue um PDF para habilitar a assinatura',
+    readingRequired: (viewed: number, pageCount: number) =>
+      `Visualize todas as páginas do documento para habilitar a assinatura (${viewed} de ${pageCount})`,
+  },
+
+  workflow: {
+    title: 'Fluxo de Assinatura',
+    description: 'Defina quem deve assinar o envelope e em que ordem',
+    order: 'Ordem',
+    orders: { sequential: 'Sequencial', parallel: 'Paralela' } satisfies Record<SigningOrder, string>,
+    orderHints: {
+      sequential: 'Cada assinante assina na sua vez, na ordem da lista; os opcionais podem ser pulados.',
+      parallel: 'Os assinantes podem assinar em qualquer ordem.',
+    },
+    expiresAt: 'Prazo',
+    expiresAtHint: 'Se as assinaturas obrigatórias não forem feitas até o prazo, o fluxo expira.',
+    name: 'Nome',
+    cpf: 'CPF',
+    required: 'Obrigatório',
+    optional: 'Opcional',
+    add: 'Adicionar',
+    remove: (name: string) => `Remover ${name}`,
+    moveUp: (name: string) => `Mover ${name} para cima`,
+    moveDown: (name: string) => `Mover ${name} para baixo`,
+    empty: 'Sem fluxo, qualquer pessoa pode assinar o envelope.',
+    locked: 'O fluxo não pode ser alterado depois da primeira assinatura.',
+    duplicateCpf: 'Este CPF já está no fluxo',
+    states: {
+      signed: 'Assinou',
+      'on-turn': 'Na vez',
+      waiting: 'Aguardando',
+      skipped: 'Pulado',
+      refused: 'Recusou',
+    } satisfies Record<ExpectedSignerState, string>,
+  },
+
+  signaturePad: {
+    label: 'Área para desenhar a assinatura',
+    drawn: 'Assinatura desenhada',
+    hint: 'Desenhe com o mouse, o dedo ou a caneta',
+    undo: 'Desfazer',
+    clear: 'Limpar',
+  },
+
+  signatureLog: {
+    title: 'Registro de Assinaturas',
+    count: (count: number) =>
+      count === 0 ? 'Nenhuma assinatura registrada' : `${count} ${plural(count, 'assinatura registrada', 'assinaturas registradas')}`,
+    empty: 'Assine o documento para ver o registro aqui',
+    refusals: (count: number) => `${count} ${plural(count, 'recusa registrada', 'recusas registradas')}`,
+    refused: 'Recusou',
+    reason: 'Motivo',
+    reading: 'Leitura',
+    readingSummary: (viewed: number, pageCount: number, seconds: string) =>
+      `${viewed} de ${pageCount} ${plural(pageCount, 'página', 'páginas')} em ${seconds} s`,
+    chainValid: (length: number) => `Cadeia de assinaturas íntegra (${length} ${plural(length, 'elo', 'elos')})`,
+    hashesNotRecomputed: ' - hashes não recalculados sem o PDF',
+    chainBroken: 'Cadeia quebrada.',
+    signed: 'Assinado',
+    date: 'Data',
+    handwrittenAlt: (name: string) => `Assinatura manuscrita de ${name}`,
+    copyDeviceId: 'Copiar Device ID',
+    deviceKey: 'Chave do dispositivo',
+    validSignature: 'Assinatura válida',
+    invalidSignature: 'Assinatura inválida',
+    copyPublicKey: 'Copiar chave pública (JWK)',
+    timestamp: 'Carimbo de tempo',
+    validTimestamp: 'Carimbo válido',
+    invalidTimestamp: 'Carimbo inválido',
+    untrustedTimestamp: 'Carimbo válido, TSA não confiável',
+    localTimestamp: 'Carimbo da TSA local (desenvolvimento)',
+    certificate: 'Certificado',
+    serial: (serialNumber: string) => `(série ${serialNumber})`,
+    copyHash: 'Copiar Hash completo',
+    previousHash: 'Hash anterior',
+  },
+
+  actionBar: {
+    author: 'Autor do envelope',
+    authorPlaceholder: 'Nome de quem criou o envelope',
+    requireFullReading: 'Exigir leitura de todas as páginas antes de assinar',
+    requireFullReadingHint: 'Cada assinante precisa visualizar todas as páginas na pré-visualização para assinar.',
+    offlineTitle: 'MVP - Modo Offline:',
+    offlineDescription: 'O Device ID substitui o IP real neste MVP. Em produção, o IP será obtido via backend.',
+    downloading: 'Baixando...',
+    download: 'Baixar PDF Assinado',
+    clearAll: 'Limpar Tudo',
+    protocolLanguage: 'Idioma do protocolo:',
+    protocolLanguageHint: 'Em outro idioma, o protocolo é impresso também em português.',
+    workflowIncomplete: 'O PDF assinado só pode ser baixado quando o fluxo de assinatura estiver concluído.',
+    refused: 'O envelope foi recusado e não pode ser finalizado.',
+    downloadRefusal: 'Baixar registro da recusa',
+    exportLog: 'Exportar log:',
+    saved: 'O PDF e o log de assinaturas estão salvos neste navegador.',
+    storage: (usage: string, quota: string, percent: string) => `Armazenamento: ${usage} de ${quota} (${percent})`,
+    notPersisted: ' - pode ser liberado pelo navegador se faltar espaço',
+    warning: 'Atenção:',
+    notSaved:
+      'Não foi possível salvar o PDF neste navegador. Ao recarregar a página, faça o download antes ou precisará fazer upload novamente.',
+  },
+
+  matchPrompt: {
+    title: 'Documento já conhecido',
+    description: (fileName: string, envelopeName: string, createdAt: string, count: number) =>
+      `O conteúdo de "${fileName}" é idêntico ao do envelope "${envelopeName}", criado em ${createdAt} com ${count} ${plural(count, 'assinatura', 'assinaturas')}. Deseja continuar com o log existente?`,
+    useExisting: 'Usar log existente',
+    createNew: 'Criar novo envelope',
+  },
+
+  dashboard: {
+    title: 'Envelopes',
+    count: (count: number) =>
+      count === 0
+        ? 'Nenhum envelope salvo neste navegador'
+        : `${count} ${plural(count, 'envelope salvo', 'envelopes salvos')} neste navegador`,
+    status: {
+      draft: 'Aguardando assinaturas',
+      signed: 'Assinado',
+      finalized: 'Finalizado',
+      refused: 'Recusado',
+    } satisfies Record<EnvelopeStatus, string>,
+    workflow: 'Fluxo de assinatura',
+    exportJson: 'Exportar JSON',
+    exportCsv: 'Exportar CSV',
+    importLogs: 'Importar logs',
+    newEnvelope: 'Novo envelope',
+    search: 'Buscar',
+    searchPlaceholder: 'Arquivo, assinante ou ID do documento',
+    signerCpf: 'CPF/CNPJ do assinante',
+    signerDocumentPlaceholder: 'Com ou sem pontuação',
+    createdFrom: 'Criado de',
+    createdTo: 'Criado até',
+    clearFilters: 'Limpar filtros',
+    loading: 'Carregando envelopes...',
+    empty: 'Crie um envelope enviando um PDF para assinar',
+    noMatches: 'Nenhum envelope corresponde aos filtros',
+    open: 'Aberto',
+    created: 'Criado',
+    updated: 'Atualizado',
+    signatures: 'Assinaturas',
+    lastSigner: 'Último assinante',
+    pdfMissing: 'PDF não armazenado: reabra e envie o arquivo original para continuar.',
+    openAction: 'Abrir',
+    finalize: 'Finalizar e baixar',
+    confirmDelete: 'Confirmar exclusão',
+    delete: 'Excluir',
+  },
+
+  verifier: {
+    title: 'Verificar Documento',
+    description: 'Envie um PDF finalizado para conferir o protocolo de assinaturas',
+    signedPdf: 'PDF assinado *',
+    originalPdf: 'PDF original (opcional)',
+    originalHint: 'Com o PDF original também é possível confirmar que o conteúdo não foi alterado.',
+    verifying: 'Verificando...',
+    verify: 'Verificar Documento',
+    error: 'Erro ao verificar o documento.',
+    status: {
+      valid: {
+        title: 'Documento autêntico',
+        description: 'Todas as verificações do protocolo foram aprovadas.',
+      },
+      partial: {
+        title: 'Documento íntegro, com ressalvas',
+        description: 'Nenhuma verificação falhou, mas algumas não puderam ser confirmadas (itens em amarelo).',
+      },
+      tampered: {
+        title: 'Documento adulterado',
+        description: 'O protocolo não confere com o conteúdo do documento.',
+      },
+      unknown: {
+        title: 'Documento desconhecido',
+        description: 'Não foi encontrado um protocolo de assinaturas neste PDF.',
+      },
+    } satisfies Record<VerificationStatus, { title: string; description: string }>,
+    envelope: 'Envelope',
+    manifest: 'Manifesto embutido',
+    manifestSummary: (version: number, count: number) =>
+      `versão ${version}, ${count} ${plural(count, 'assinatura', 'assinaturas')}`,
+    manifestMissing: 'não encontrado',
+    signers: (count: number) => `Assinantes (${count})`,
+  },
+
+  // Labels and details of the checks run by verifyFinalizedPDF
+  checks: {
+    unreadablePdf: 'Não foi possível ler o PDF. O arquivo pode estar corrompido ou protegido.',
+    protocol: 'Página de protocolo encontrada',
+    protocolMissing: 'O PDF não contém um protocolo de assinaturas reconhecível.',
+    totvsHash: 'HASH SICFAR corresponde ao SHA256',
+    expected: (value: string) => `Esperado ${value}`,
+    pageHeaders: 'Cabeçalho de hash presente em todas as páginas',
+    pagesWithWrongHash: (pages: string) => `Páginas divergentes: ${pages}`,
+    pageNumbering: 'Numeração de páginas consistente',
+    pagesWithWrongNumber: (pages: string) => `Páginas com numeração divergente: ${pages}`,
+    signatureCount: 'Lista de assinantes completa',
+    signatureCountMismatch: (declared: string, found: number) => `Declaradas ${declared}, encontradas ${found}`,
+    manifest: 'Manifesto embutido confere com o protocolo',
+    manifestHashMismatch: 'O SHA256 do manifesto difere do impresso no protocolo.',
+    manifestCountMismatch: (manifest: number, protocol: number) =>
+      `O manifesto contém ${manifest} ${plural(manifest, 'assinatura', 'assinaturas')}, o protocolo ${protocol}.`,
+    manifestSignerMismatch: (index: number) => `Assinante #${index} difere entre manifesto e protocolo.`,
+    manifestUnreadable: 'Manifesto ilegível.',
+    chainRecomputed: 'Cadeia de assinaturas íntegra (hashes recalculados)',
+    chain: 'Cadeia de assinaturas íntegra',
+    deviceSignatures: 'Assinaturas dos dispositivos válidas',
+    invalidDeviceSignatures: (list: string) => `Assinaturas inválidas: ${list}`,
+    timestamps: (count: number, total: number) => `Carimbos de tempo válidos (${count} de ${total})`,
+    invalidTimestamps: (list: string) => `Carimbos inválidos: ${list}`,
+    untrustedTimestamps: (list: string) => `Carimbos de TSA fora da lista de confiança: ${list}`,
+    localTimestamps: (list: string) => `Carimbos da TSA local de desenvolvimento: ${list}`,
+    pades: 'Assinatura digital PAdES válida e cobrindo todo o arquivo',
+    padesSigner: (commonName: string) => `Certificado: ${commonName}`,
+    originalHash: 'SHA256 confere com o PDF original',
+    originalHashMismatch: (hash: string) => `SHA256 do original: ${hash}`,
+    originalHashSkipped: 'Conteúdo do documento não conferido',
+    originalHashSkippedDetails:
+      'Sem o PDF original, os hashes das assinaturas não são recalculados. Informe o PDF original para confirmar o conteúdo.',
+  },
+
+  settings: {
+    title: 'Modelo do Protocolo',
+    description: 'Personalize a identidade visual e o conteúdo da página de protocolo dos PDFs finalizados',
+    organizationName: 'Nome da organização',
+    organizationPlaceholder: 'Impresso abaixo do título',
+    logo: 'Logotipo (PNG ou JPG)',
+    logoAlt: 'Logotipo da organização',
+    logoType: 'O logotipo deve ser uma imagem PNG ou JPG',
+    logoSize: 'O logotipo deve ter no máximo 512 KB',
+    remove: 'Remover',
+    colors: 'Cores',
+    palette: {
+      title: 'Título',
+      section: 'Subtítulos',
+      text: 'Texto',
+      muted: 'Texto secundário',
+    },
+    texts: 'Textos',
+    labels: {
+      title: 'Título do protocolo',
+      hashLabel: 'Rótulo do hash',
+      documentSection: 'Seção do documento',
+      signaturesSection: 'Seção de assinaturas',
+      authenticitySection: 'Seção de autenticidade',
+      auditSection: 'Seção da trilha de auditoria',
+      disclaimerSection: 'Seção do aviso legal',
+      footer: 'Nota do rodapé',
+    },
+    labelsHint:
+      'Deixe um texto em branco para usar o padrão no idioma do protocolo. O título e o rótulo do hash ficam registrados no manifesto do PDF para que o verificador os reconheça.',
+    fontSizes: {
+      title: 'Título',
+      section: 'Subtítulos',
+      normal: 'Texto',
+      small: 'Texto pequeno',
+    },
+    sections: 'Seções e ordem',
+    sectionNames: {
+      document: 'Documento',
+      signatures: 'Assinaturas',
+      authenticity: 'Autenticidade (hash)',
+      audit: 'Trilha de auditoria',
+      qrcode: 'QR code de verificação',
+      details: 'Rodapé e dados do arquivo',
+      disclaimer: 'Aviso legal',
+    } satisfies Record<ProtocolSectionId, string>,
+    showSection: (name: string) => `Exibir ${name}`,
+    requiredSection: '(obrigatória para a verificação)',
+    moveUp: (name: string) => `Mover ${name} para cima`,
+    moveDown: (name: string) => `Mover ${name} para baixo`,
+    disclaimer: 'Aviso legal',
+    disclaimerPlaceholder: 'Texto impresso na seção de aviso legal',
+    disclaimerHidden: 'Ative a seção Aviso legal para imprimir este texto no protocolo.',
+    reset: 'Restaurar padrão',
+    save: 'Salvar modelo',
+  },
+
+  validation: {
+    refusalReasonMin: 'Informe o motivo da recusa (mínimo de 5 caracteres)',
+    refusalReasonMax: 'Motivo deve ter no máximo 500 caracteres',
+    nameMin: 'Nome deve ter no mínimo 5 caracteres',
+    nameMax: 'Nome deve ter no máximo 100 caracteres',
+    nameScriptUnsupported: 'Nome deve usar os alfabetos latino, grego, cirílico, chinês, japonês ou coreano',
+    cpfLength: 'CPF deve ter 11 dígitos',
+    cpfInvalid: 'CPF inválido',
+    cnpjLength: 'CNPJ deve ter 14 caracteres',
+    cnpjInvalid: 'CNPJ inválido',
+    passportInvalid: 'Passaporte deve ter de 6 a 9 letras ou dígitos',
+    rneInvalid: 'RNE/CRNM deve ter uma letra, 6 dígitos e o dígito verificador',
+    rgInvalid: 'RG deve ter de 5 a 14 dígitos (o último pode ser X)',
+    countryRequired: 'Selecione o país emissor do passaporte',
+    stateRequired: 'Selecione o estado emissor do RG',
+    // Stored and imported data
+    required: 'Campo obrigatório ausente',
+    hashInvalid: 'Hash SHA-256 inválido',
+    localeInvalid: 'Idioma inválido',
+    documentTypeInvalid: 'Tipo de documento inválido',
+    roleInvalid: 'Papel do assinante inválido',
+    keyCoordinateInvalid: 'Coordenada da chave do dispositivo inválida',
+    serialNumberInvalid: 'Número de série inválido',
+    dateInvalid: 'Data inválida',
+    base64Invalid: 'Conteúdo Base64 inválido',
+    timestampPolicyInvalid: 'Política do carimbo de tempo inválida',
+    pageInvalid: 'Número de página inválido',
+    sizeInvalid: 'Dimensão inválida',
+    durationInvalid: 'Tempo de leitura inválido',
+    readingPageOutOfRange: 'Página lida fora do documento',
+    readingPageRepeated: 'Página lida repetida',
+    initialsEmpty: 'Rubrica vazia',
+    storedDocumentInvalid: 'Número do documento inválido para o tipo informado',
+    documentIssuerInvalid: 'Emissor do documento inválido',
+    documentIssuerMismatch: 'Emissor do documento ausente ou não se aplica ao tipo',
+    refusalReasonMissing: 'Motivo da recusa ausente',
+    signingOrderInvalid: 'Ordem de assinatura inválida',
+    workflowEmpty: 'Fluxo de assinatura sem assinantes',
+    workflowRepeatedCpf: 'CPF repetido no fluxo de assinatura',
+    auditEventTypeInvalid: 'Tipo de evento de auditoria inválido',
+    authorMax: 'Autor deve ter no máximo 100 caracteres',
+    exportFormatUnknown: 'Formato de exportação desconhecido',
+    exportVersionUnsupported: 'Versão de exportação não suportada',
+    noLogs: 'O arquivo não contém logs',
+    // Protocol template
+    colorInvalid: 'Cor inválida (use #rrggbb)',
+    logoInvalid: 'Logotipo inválido',
+    textMax: (field: string, max: number) => `${field}: no máximo ${max} caracteres`,
+    fontSizeInvalid: (field: string) => `Tamanho de "${field}" inválido`,
+    fontSizeRange: (field: string, min: number, max: number) => `Tamanho de "${field}" deve ficar entre ${min} e ${max}`,
+    sectionRepeated: 'Seção repetida no protocolo',
+    sectionsRequired: 'As seções Documento, Assinaturas e Autenticidade são obrigatórias',
+  },
+
+  // Errors raised while storing, importing, signing and reading documents
+  errors: {
+    chainBreak,
+    schemaIssue: (path: string, message: string) => `${path || 'raiz'} - ${message}`,
+    indexedDbUnavailable: 'IndexedDB não está disponível neste navegador.',
+    databaseBlocked: 'O banco de dados local está bloqueado por outra aba.',
+    transactionAborted: 'Transação cancelada.',
+    storageFull: 'Não foi possível salvar o envelope: o armazenamento local está cheio.',
+    storageFailed: 'Não foi possível salvar o envelope no armazenamento local.',
+    importDiverges: (fileName: string) =>
+      `O log importado de "${fileName}" diverge das assinaturas já salvas neste navegador.`,
+    jsonMalformed: 'O arquivo JSON está malformado.',
+    exportInvalid: (issue: string) => `Arquivo de exportação inválido: ${issue}`,
+    csvEmpty: 'O arquivo CSV está vazio.',
+    csvUnclosedQuote: 'CSV inválido: aspas não foram fechadas.',
+    csvMissingColumns: (columns: string) => `CSV inválido: colunas ausentes (${columns}).`,
+    csvColumnCount: (line: number, expected: number, found: number) =>
+      `Registro ${line}: esperadas ${expected} colunas, encontradas ${found}.`,
+    csvInvalidJson: (line: number, column: string) => `Registro ${line}: a coluna "${column}" não contém JSON válido.`,
+    csvSignatureOrder: (line: number, documentId: string) =>
+      `Registro ${line}: assinatura fora de ordem no documento ${documentId}.`,
+    csvInvalidLog: (index: number, issue: string) => `CSV inválido no documento #${index}: ${issue}`,
+    noLogs: 'O arquivo não contém logs.',
+    duplicateDocument: (documentId: string) => `O documento ${documentId} aparece mais de uma vez no arquivo.`,
+    importedChainBroken: (fileName: string, detail: string) =>
+      `Documento "${fileName}": cadeia de hashes inconsistente. ${detail}`,
+    importedAuditTrailBroken: (fileName: string, detail: string) =>
+      `Documento "${fileName}": trilha de auditoria inconsistente. ${detail}`,
+    importedDeviceSignature: (fileName: string, index: number) =>
+      `Documento "${fileName}": a assinatura do dispositivo #${index} não corresponde ao hash registrado.`,
+    importedRefusalDeviceSignature: (fileName: string, index: number) =>
+      `Documento "${fileName}": a assinatura do dispositivo da recusa #${index} não corresponde ao hash registrado.`,
+    pdfUnreadable: 'Não foi possível carregar o PDF. O arquivo pode estar corrompido ou protegido.',
+    manifestCorrupted: 'O manifesto de assinaturas do PDF está corrompido.',
+    manifestInvalid: (issue: string) => `Manifesto de assinaturas inválido: ${issue}`,
+    fontsUnavailable: 'Não foi possível carregar as fontes do protocolo.',
+    handwritingFailed: 'Não foi possível gerar a imagem da assinatura manuscrita.',
+    templateInvalid: 'Modelo de protocolo inválido.',
+    templateSaveFailed: 'Não foi possível salvar o modelo. O logotipo pode ser grande demais.',
+    certificateUnreadable: 'Não foi possível abrir o certificado. Verifique o arquivo e a senha.',
+    certificateWithoutKey: 'O certificado não contém uma chave privada RSA.',
+    certificateNotFound: 'O certificado correspondente à chave privada não foi encontrado.',
+    certificateExpired: 'O certificado está fora do período de validade.',
+    signaturePlaceholderMissing: 'Não foi possível localizar o espaço reservado para a assinatura digital.',
+    documentTooLarge: 'O documento é grande demais para a assinatura digital.',
+    signatureTooLarge: 'A assinatura digital excede o espaço reservado no PDF.',
+    timestampNotSignedData: 'O carimbo de tempo não é um SignedData.',
+    timestampRefused: (authority: string) =>
+      `A autoridade de carimbo de tempo "${authority}" recusou a solicitação.`,
+    timestampHttpError: (status: number) => `A autoridade de carimbo de tempo respondeu com HTTP ${status}.`,
+    timestampNonceMismatch: 'O carimbo de tempo não corresponde à solicitação (nonce divergente).',
+    timestampInvalid: (detail: string) => `Carimbo de tempo inválido: ${detail}`,
+    timestampReason: (reason: TimestampInvalidReason) =>
+      ({
+        'not-tst-info': 'conteúdo não é um TSTInfo',
+        'imprint-mismatch': 'o carimbo não corresponde ao hash da assinatura',
+        'time-mismatch': 'horário registrado difere do carimbo',
+        'missing-signed-attributes': 'atributos assinados ausentes',
+        'unsupported-digest': 'algoritmo de resumo não suportado',
+        'digest-mismatch': 'resumo do TSTInfo não confere',
+        'missing-certificate': 'certificado da TSA não incluído no carimbo',
+        'missing-time-stamping-usage': 'certificado da TSA sem o uso estendido id-kp-timeStamping',
+        'invalid-signature': 'assinatura da TSA inválida',
+        unreadable: 'estrutura do carimbo de tempo ilegível',
+      })[reason],
+    padesReason: (reason: PAdESInvalidReason) =>
+      ({
+        'missing-signed-attributes': 'atributos assinados ausentes',
+        'unsupported-digest': 'algoritmo de resumo não suportado',
+        'digest-mismatch': 'o arquivo foi alterado depois de assinado',
+        'missing-certificate': 'certificado do assinante não incluído na assinatura',
+        'invalid-signature': 'assinatura criptográfica inválida',
+        'partial-coverage': 'há conteúdo acrescentado depois da assinatura',
+        unreadable: 'estrutura da assinatura ilegível',
+      })[reason],
+  },
+
+  // Texts printed on the finalized PDF
+  protocol: {
+    title: 'Protocolo de Assinaturas',
+    hashLabel: 'HASH SICFAR',
+    documentSection: 'Documento',
+    signaturesSection: 'Assinaturas',
+    authenticitySection: 'Autenticidade',
+    auditSection: 'Trilha de Auditoria',
+    disclaimerSection: 'Aviso Legal',
+    footer: 'Este documento foi assinado eletronicamente.',
+    continuation: 'continuação',
+    continued: 'continua na próxima página',
+    envelopeName: 'Nome do envelope',
+    author: 'Autor',
+    localSystem: 'Sistema Local',
+    status: 'Status',
+    workflowStatus: (status: WorkflowStatus) =>
+      ({
+        pending: 'Pendente',
+        'partially-signed': 'Parcialmente assinado',
+        completed: 'Concluído',
+        expired: 'Expirado',
+        refused: 'Recusado',
+      })[status],
+    noSignatures: 'Nenhuma assinatura registrada.',
+    noAuditEvents: 'Nenhum evento registrado.',
+    auditNote:
+      'Eventos registrados pelos navegadores em que o envelope foi usado. Cada evento é encadeado por hash ao anterior, à parte da cadeia das assinaturas.',
+    auditEvent: (type: AuditEventType, { fileName, page, pageCount, name, pagesViewed }: AuditEventDetails) => {
+      const viewed = pagesViewed !== undefined && pageCount ? ` (${pagesViewed} de ${pageCount} páginas visualizadas)` : '';
+      return {
+        uploaded: `Documento enviado: ${fileName}`,
+        reuploaded: `Documento enviado novamente: ${fileName}`,
+        opened: 'Envelope aberto',
+        'page-viewed': `Página ${page} de ${pageCount} visualizada`,
+        signed: `Assinado por ${name}${viewed}`,
+        refused: `Assinatura recusada por ${name}${viewed}`,
+        downloaded: `PDF baixado: ${fileName}`,
+        closed: 'Envelope fechado',
+        cleared: `Envelope apagado deste navegador: ${fileName}`,
+      }[type];
+    },
+    name: 'Nome',
+    documentType: (type: SignerDocumentType) =>
+      ({ cpf: 'CPF', cnpj: 'CNPJ', passport: 'Passaporte', rne: 'RNE/CRNM', rg: 'RG' })[type],
+    date: 'Data',
+    trustedTimestamp: 'Carimbo de Tempo (TSA)',
+    authority: 'Autoridade',
+    timestampSerial: 'Série do Carimbo',
+    timestampTrust: (trust: TimestampTrust | null) =>
+      trust
+        ? {
+            trusted: 'Carimbo verificado: TSA na lista de confiança',
+            untrusted: 'Carimbo verificado, mas a TSA não está na lista de confiança',
+            local: 'Carimbo da TSA local de desenvolvimento: o horário não é confiável',
+          }[trust]
+        : 'Carimbo inválido',
+    signedElectronically: 'Assinado eletronicamente',
+    reading: 'Leitura',
+    readingSummary: (viewed: number, pageCount: number, seconds: string) =>
+      `${viewed} de ${pageCount} ${plural(pageCount, 'página visualizada', 'páginas visualizadas')} antes de assinar, em ${seconds} s`,
+    readingPage: (page: number, seconds: string) => `p. ${page}: ${seconds} s`,
+    refusalsHeading: 'Recusas',
+    refusedBy: 'Recusado por',
+    refusedAt: 'Data da recusa',
+    refusalReason: 'Motivo',
+    refusalHash: 'Hash da Recusa',
+    roleGroup: (role: SignerRole | null) =>
+      role
+        ? {
+            party: 'Partes',
+            witness: 'Testemunhas',
+            approver: 'Aprovadores',
+            intervening: 'Intervenientes',
+            'legal-representative': 'Representantes legais',
+            issuer: 'Emitentes',
+          }[role]
+        : 'Outros assinantes',
+    signedAs: (role: SignerRole) =>
+      `Assinado eletronicamente como ${
+        {
+          party: 'parte',
+          witness: 'testemunha',
+          approver: 'aprovador',
+          intervening: 'interveniente',
+          'legal-representative': 'representante legal',
+          issuer: 'emitente',
+        }[role]
+      }`,
+    authenticationType: 'Tipo de Autenticação',
+    certificateAuthentication: 'Certificado digital (PKCS#12), que assina este arquivo em PAdES',
+    certificateNotApplied: 'não usado na assinatura PAdES deste arquivo',
+    padesSigner: (commonName: string, serialNumber: string) =>
+      `Assinatura digital PAdES do arquivo: ${commonName} (série ${serialNumber})`,
+    noPadesSignature: 'O arquivo não tem assinatura digital PAdES; os certificados informados constam só neste protocolo.',
+    deviceAuthentication: 'Utilizando identificador único do dispositivo',
+    certificate: 'Certificado',
+    serial: 'Série',
+    deviceKey: 'Chave do Dispositivo (ECDSA P-256, JWK)',
+    deviceSignature: 'Assinatura do Dispositivo',
+    signatureHash: 'Hash da Assinatura',
+    previousHash: 'Hash Anterior',
+    notChained: 'não encadeada',
+    signatureCount: 'Total de assinaturas',
+    verifyInstructions: 'Para verificar a autenticidade do documento, utilize o hash abaixo:',
+    chainIntact: (length: number) => `Encadeamento das assinaturas: íntegro (${length} ${plural(length, 'elo', 'elos')})`,
+    chainBroken: (failure: ChainBreak) => `Encadeamento das assinaturas: quebrado - ${chainBreak(failure)}`,
+    auditTrailIntact: (length: number) => `Encadeamento da trilha: íntegro (${length} ${plural(length, 'evento', 'eventos')})`,
+    auditTrailBroken: (failure: ChainBreak) => `Encadeamento da trilha: quebrado - ${chainBreak(failure)}`,
+    scanQRCode: 'Escaneie o QR code para conferir o documento:',
+    generatedAt: 'Gerado em',
+    originalFile: 'Arquivo original',
+    size: 'Tamanho',
+    page: 'Página',
+    pageOf: 'de',
+    stampSignedBy: 'Assinado eletronicamente por',
+    initials: 'Rubricas',
+    digitallySignedBy: 'Assinado digitalmente por',
+    signatureReason: 'Assinatura digital do documento',
+  },
+};
+
+export type Messages = typeof ptBR;
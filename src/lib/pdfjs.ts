@@ -0,0 +1,6 @@
+import { pdfjs } from 'react-pdf';
+
+// Configure PDF.js worker once for both the preview and the text extraction
+pdfjs.GlobalWorkerOptions.workerSrc = `//unpkg.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
+
+export { pdfjs };
@@ -0,0 +1,15 @@
+import { z } from 'zod';
+import { signatureLogSchema } from './log';
+import { validationError } from './messages';
+
+export const SIGNATURE_LOG_EXPORT_FORMAT = 'assinatura-eletronica/signature-log-export';
+export const SIGNATURE_LOG_EXPORT_VERSION = 1;
+
+export const signatureLogExportSchema = z.object({
+  format: z.literal(SIGNATURE_LOG_EXPORT_FORMAT, validationError('exportFormatUnknown')),
+  version: z.literal(SIGNATURE_LOG_EXPORT_VERSION, validationError('exportVersionUnsupported')),
+  exportedAt: z.iso.datetime(validationError('dateInvalid')),
+  logs: z.array(signatureLogSchema).min(1, validationError('noLogs')),
+});
+
+export type SignatureLogExportSchemaType = z.infer<typeof signatureLogExportSchema>;
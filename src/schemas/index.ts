@@ -1 +1,5 @@
 export * from './signer';
+export * from './log';
+export * from './manifest';
+export * from './export';
+export * from './template';
@@ -0,0 +1,215 @@
+import { z } from 'zod';
+import { validationError } from './messages';
+
+const sha256HexSchema = z.string().regex(/^[0-9a-f]{64}$/, validationError('hashInvalid'));
+
+export const localeSchema = z.enum(['pt-BR', 'en', 'es'], validationError('localeInvalid'));
+
+export const signerDocumentTypeSchema = z.enum(
+  ['cpf', 'cnpj', 'passport', 'rne', 'rg'],
+  validationError('documentTypeInvalid')
+);
+
+export const signerRoleSchema = z.enum(
+  ['party', 'witness', 'approver', 'intervening', 'legal-representative', 'issuer'],
+  validationError('roleInvalid')
+);
+
+// Stored document number of each type; signatures without a type are CPF
+const STORED_DOCUMENT_PATTERNS: Record<z.infer<typeof signerDocumentTypeSchema>, RegExp> = {
+  cpf: /^\d{11}$/,
+  cnpj: /^[0-9A-Z]{12}\d{2}$/,
+  passport: /^[0-9A-Z]{6,9}$/,
+  rne: /^[A-Z]\d{6}[0-9A-Z]$/,
+  rg: /^\d{4,13}[0-9X]$/,
+};
+
+export const pdfMetadataSchema = z.object({
+  fileName: z.string().min(1, validationError('required')),
+  fileSize: z.number().int().nonnegative(),
+  lastModified: z.number(),
+  contentHash: sha256HexSchema.optional(),
+});
+
+export const devicePublicKeySchema = z.object({
+  kty: z.literal('EC'),
+  crv: z.literal('P-256'),
+  x: z.string().regex(/^[A-Za-z0-9_-]{43}$/, validationError('keyCoordinateInvalid')),
+  y: z.string().regex(/^[A-Za-z0-9_-]{43}$/, validationError('keyCoordinateInvalid')),
+});
+
+export const certificateInfoSchema = z.object({
+  subject: z.string(),
+  commonName: z.string(),
+  issuer: z.string(),
+  serialNumber: z.string().regex(/^[0-9A-F]+$/, validationError('serialNumberInvalid')),
+  validFrom: z.iso.datetime(),
+  validTo: z.iso.datetime(),
+  fingerprint: sha256HexSchema.optional(),
+});
+
+export const timestampTokenSchema = z.object({
+  authority: z.string().min(1),
+  genTime: z.iso.datetime(validationError('dateInvalid')),
+  serialNumber: z.string().regex(/^[0-9A-F]+$/, validationError('serialNumberInvalid')),
+  policy: z.string().regex(/^\d+(\.\d+)+$/, validationError('timestampPolicyInvalid')),
+  token: z.base64(validationError('base64Invalid')),
+});
+
+export const signaturePlacementSchema = z.object({
+  pageIndex: z.number().int().nonnegative(validationError('pageInvalid')),
+  x: z.number(),
+  y: z.number(),
+  width: z.number().positive(validationError('sizeInvalid')),
+  height: z.number().positive(validationError('sizeInvalid')),
+});
+
+export const handwrittenSignatureSchema = z.object({
+  image: z.base64(validationError('base64Invalid')),
+  strokes: z.array(
+    z.array(
+      z.object({
+        x: z.number(),
+        y: z.number(),
+        pressure: z.number().min(0).max(1),
+      })
+    )
+  ),
+  width: z.number().positive(validationError('sizeInvalid')),
+  height: z.number().positive(validationError('sizeInvalid')),
+});
+
+export const signerInitialsSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('text'), text: z.string().min(1, validationError('initialsEmpty')) }),
+  z.object({ kind: z.literal('drawn'), drawing: handwrittenSignatureSchema }),
+]);
+
+export const readingEvidenceSchema = z
+  .object({
+    pageCount: z.number().int().positive(validationError('pageInvalid')),
+    pages: z.array(
+      z.object({
+        page: z.number().int().positive(validationError('pageInvalid')),
+        durationMs: z.number().int().nonnegative(validationError('durationInvalid')),
+      })
+    ),
+  })
+  .refine((reading) => reading.pages.every((page) => page.page <= reading.pageCount), {
+    ...validationError('readingPageOutOfRange'),
+    path: ['pages'],
+  })
+  .refine((reading) => new Set(reading.pages.map((page) => page.page)).size === reading.pages.length, {
+    ...validationError('readingPageRepeated'),
+    path: ['pages'],
+  });
+
+// Refinements shared by signatures and refusals on the stored document
+type StoredDocument = { cpf: string; documentType?: z.infer<typeof signerDocumentTypeSchema>; documentIssuer?: string };
+
+const hasValidStoredDocument = (record: StoredDocument) =>
+  STORED_DOCUMENT_PATTERNS[record.documentType ?? 'cpf'].test(record.cpf);
+
+// Passports name the issuing country and RGs the issuing state
+const hasIssuerWhenRequired = (record: StoredDocument) =>
+  (record.documentType === 'passport' || record.documentType === 'rg') === !!record.documentIssuer;
+
+export const signatureDataSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1, validationError('required')),
+  cpf: z.string().min(1, validationError('required')),
+  documentType: signerDocumentTypeSchema.optional(),
+  documentIssuer: z.string().regex(/^[A-Z]{2}$/, validationError('documentIssuerInvalid')).optional(),
+  role: signerRoleSchema.optional(),
+  deviceId: z.string().min(1),
+  timestamp: z.iso.datetime(validationError('dateInvalid')),
+  hash: sha256HexSchema,
+  previousHash: sha256HexSchema.optional(),
+  devicePublicKey: devicePublicKeySchema.optional(),
+  deviceSignature: z.base64(validationError('base64Invalid')).optional(),
+  certificate: certificateInfoSchema.optional(),
+  timestampToken: timestampTokenSchema.optional(),
+  placement: signaturePlacementSchema.optional(),
+  handwritten: handwrittenSignatureSchema.optional(),
+  initials: signerInitialsSchema.optional(),
+  reading: readingEvidenceSchema.optional(),
+})
+  .refine(hasValidStoredDocument, { ...validationError('storedDocumentInvalid'), path: ['cpf'] })
+  .refine(hasIssuerWhenRequired, { ...validationError('documentIssuerMismatch'), path: ['documentIssuer'] });
+
+export const signatureRefusalSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1, validationError('required')),
+  cpf: z.string().min(1, validationError('required')),
+  documentType: signerDocumentTypeSchema.optional(),
+  documentIssuer: z.string().regex(/^[A-Z]{2}$/, validationError('documentIssuerInvalid')).optional(),
+  role: signerRoleSchema.optional(),
+  reason: z.string().trim().min(1, validationError('refusalReasonMissing')).max(500, validationError('refusalReasonMax')),
+  deviceId: z.string().min(1),
+  timestamp: z.iso.datetime(validationError('dateInvalid')),
+  hash: sha256HexSchema,
+  previousHash: sha256HexSchema,
+  devicePublicKey: devicePublicKeySchema.optional(),
+  deviceSignature: z.base64(validationError('base64Invalid')).optional(),
+})
+  .refine(hasValidStoredDocument, { ...validationError('storedDocumentInvalid'), path: ['cpf'] })
+  .refine(hasIssuerWhenRequired, { ...validationError('documentIssuerMismatch'), path: ['documentIssuer'] });
+
+export const expectedSignerSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1, validationError('required')),
+  cpf: z.string().regex(/^\d{11}$/, validationError('cpfInvalid')),
+  required: z.boolean(),
+});
+
+export const signingWorkflowSchema = z.object({
+  order: z.enum(['sequential', 'parallel'], validationError('signingOrderInvalid')),
+  signers: z
+    .array(expectedSignerSchema)
+    .min(1, validationError('workflowEmpty'))
+    .refine((signers) => new Set(signers.map((signer) => signer.cpf)).size === signers.length, {
+      ...validationError('workflowRepeatedCpf'),
+    }),
+  expiresAt: z.iso.datetime(validationError('dateInvalid')).optional(),
+});
+
+export const auditEventTypeSchema = z.enum(
+  ['uploaded', 'reuploaded', 'opened', 'page-viewed', 'signed', 'refused', 'downloaded', 'closed', 'cleared'],
+  validationError('auditEventTypeInvalid')
+);
+
+export const auditEventSchema = z.object({
+  id: z.string().min(1),
+  type: auditEventTypeSchema,
+  timestamp: z.iso.datetime(validationError('dateInvalid')),
+  deviceId: z.string().min(1, validationError('required')),
+  details: z
+    .object({
+      fileName: z.string().min(1).optional(),
+      page: z.number().int().positive().optional(),
+      pageCount: z.number().int().positive().optional(),
+      name: z.string().min(1).optional(),
+      pagesViewed: z.number().int().nonnegative().optional(),
+    })
+    .optional(),
+  hash: sha256HexSchema.optional(),
+  previousHash: sha256HexSchema.optional(),
+});
+
+export const signatureLogSchema = z.object({
+  documentId: z.string().min(1, validationError('required')),
+  pdfMetadata: pdfMetadataSchema,
+  signatures: z.array(signatureDataSchema),
+  genesisHash: sha256HexSchema.optional(),
+  author: z.string().trim().min(1, validationError('required')).max(100, validationError('authorMax')).optional(),
+  protocolLocale: localeSchema.optional(),
+  workflow: signingWorkflowSchema.optional(),
+  refusals: z.array(signatureRefusalSchema).optional(),
+  auditTrail: z.array(auditEventSchema).optional(),
+  requireFullReading: z.boolean().optional(),
+  createdAt: z.iso.datetime(validationError('dateInvalid')),
+  updatedAt: z.iso.datetime(validationError('dateInvalid')),
+  finalizedAt: z.iso.datetime(validationError('dateInvalid')).optional(),
+});
+
+export type SignatureDataSchemaType = z.infer<typeof signatureDataSchema>;
+export type SignatureLogSchemaType = z.infer<typeof signatureLogSchema>;
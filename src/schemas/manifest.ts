@@ -0,0 +1,28 @@
+import { z } from 'zod';
+import { auditEventSchema, localeSchema, pdfMetadataSchema, signatureDataSchema, signatureRefusalSchema } from './log';
+import { validationError } from './messages';
+
+export const SIGNATURE_MANIFEST_FORMAT = 'assinatura-eletronica/signature-manifest';
+export const SIGNATURE_MANIFEST_VERSION = 1;
+
+export const signatureManifestSchema = z.object({
+  format: z.literal(SIGNATURE_MANIFEST_FORMAT),
+  version: z.literal(SIGNATURE_MANIFEST_VERSION),
+  hashAlgorithm: z.literal('SHA-256'),
+  documentId: z.string().min(1),
+  documentHash: z.string().regex(/^[0-9a-f]{64}$/, validationError('hashInvalid')),
+  pdfMetadata: pdfMetadataSchema,
+  signatures: z.array(signatureDataSchema),
+  genesisHash: z.string().regex(/^[0-9a-f]{64}$/, validationError('hashInvalid')).optional(),
+  author: z.string().min(1).optional(),
+  refusals: z.array(signatureRefusalSchema).optional(),
+  auditTrail: z.array(auditEventSchema).optional(),
+  protocol: z
+    .object({ title: z.string().min(1), hashLabel: z.string().min(1), locale: localeSchema.optional() })
+    .optional(),
+  createdAt: z.iso.datetime(),
+  updatedAt: z.iso.datetime(),
+  generatedAt: z.iso.datetime(),
+});
+
+export type SignatureManifestSchemaType = z.infer<typeof signatureManifestSchema>;
@@ -0,0 +1,16 @@
+import { getMessages, type Messages } from '@/i18n';
+
+type ValidationMessages = Messages['validation'];
+
+/** Validation messages that take no parameters */
+export type ValidationMessage = {
+  [K in keyof ValidationMessages]: ValidationMessages[K] extends string ? K : never;
+}[keyof ValidationMessages];
+
+/**
+ * Error option of a schema check. The message is resolved on each validation,
+ * so it follows the interface language.
+ * @param key - Validation message
+ * @returns zod error option
+ */
+export const validationError = (key: ValidationMessage) => ({ error: () => getMessages().validation[key] });
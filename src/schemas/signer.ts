@@ -1,16 +1,92 @@
 import { z } from 'zod';
-import { validateCPF } from '@/utils';
+import type { SignerDocumentType } from '@/types';
+import {
+  BRAZILIAN_STATES,
+  COUNTRY_CODES,
+  hasSupportedNameScript,
+  normalizeSignerDocument,
+  validateSignerDocument,
+} from '@/utils';
+import { getMessages } from '@/i18n';
+import { signerRoleSchema } from './log';
+import type { ValidationMessage } from './messages';
+
+// Validation messages of each document type: wrong length (CPF and CNPJ) and invalid number
+const DOCUMENT_MESSAGES: Record<SignerDocumentType, { length?: ValidationMessage; invalid: ValidationMessage }> = {
+  cpf: { length: 'cpfLength', invalid: 'cpfInvalid' },
+  cnpj: { length: 'cnpjLength', invalid: 'cnpjInvalid' },
+  passport: { invalid: 'passportInvalid' },
+  rne: { invalid: 'rneInvalid' },
+  rg: { invalid: 'rgInvalid' },
+};
+
+const DOCUMENT_LENGTHS: Partial<Record<SignerDocumentType, number>> = { cpf: 11, cnpj: 14 };
+
+/**
+ * Builds the schema of a document number
+ * @param type - Document type
+ * @returns String schema with the validation of the type
+ */
+const documentNumberSchema = (type: SignerDocumentType) =>
+  z.string().superRefine((value, ctx) => {
+    const messages = getMessages().validation;
+    const { length, invalid } = DOCUMENT_MESSAGES[type];
+    const expectedLength = DOCUMENT_LENGTHS[type];
+
+    if (length && normalizeSignerDocument(value, type).length !== expectedLength) {
+      ctx.addIssue({ code: 'custom', message: messages[length] });
+    } else if (!validateSignerDocument(value, type)) {
+      ctx.addIssue({ code: 'custom', message: messages[invalid] });
+    }
+  });
+
+// Messages are resolved on each validation so they follow the interface language
+export const signerIdentitySchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('cpf'), number: documentNumberSchema('cpf') }),
+  z.object({ type: z.literal('cnpj'), number: documentNumberSchema('cnpj') }),
+  z.object({
+    type: z.literal('passport'),
+    number: documentNumberSchema('passport'),
+    country: z
+      .string()
+      .refine((val) => COUNTRY_CODES.includes(val), { error: () => getMessages().validation.countryRequired }),
+  }),
+  z.object({ type: z.literal('rne'), number: documentNumberSchema('rne') }),
+  z.object({
+    type: z.literal('rg'),
+    number: documentNumberSchema('rg'),
+    state: z
+      .string()
+      .refine((val) => BRAZILIAN_STATES.includes(val), { error: () => getMessages().validation.stateRequired }),
+  }),
+]);
+
+const signerNameSchema = z
+  .string()
+  .min(5, { error: () => getMessages().validation.nameMin })
+  .max(100, { error: () => getMessages().validation.nameMax })
+  .refine((val) => val.trim().length >= 5, { error: () => getMessages().validation.nameMin })
+  .refine(hasSupportedNameScript, { error: () => getMessages().validation.nameScriptUnsupported });
 
 export const signerFormSchema = z.object({
-  name: z
-    .string()
-    .min(5, 'Nome deve ter no mínimo 5 caracteres')
-    .max(100, 'Nome deve ter no máximo 100 caracteres')
-    .refine((val) => val.trim().length >= 5, 'Nome deve ter no mínimo 5 caracteres'),
-  cpf: z
-    .string()
-    .min(11, 'CPF deve ter 11 dígitos')
-    .refine((val) => validateCPF(val), 'CPF inválido'),
+  name: signerNameSchema,
+  identity: signerIdentitySchema,
+  role: signerRoleSchema,
+});
+
+// Expected signers of a workflow are identified by name and CPF
+export const expectedSignerFormSchema = z.object({
+  name: signerNameSchema,
+  cpf: documentNumberSchema('cpf'),
+  required: z.boolean(),
 });
 
+// Reason given by a signer who declines to sign, recorded in the refusal hash
+export const refusalReasonSchema = z
+  .string()
+  .trim()
+  .min(5, { error: () => getMessages().validation.refusalReasonMin })
+  .max(500, { error: () => getMessages().validation.refusalReasonMax });
+
 export type SignerFormSchemaType = z.infer<typeof signerFormSchema>;
+export type ExpectedSignerFormSchemaType = z.infer<typeof expectedSignerFormSchema>;
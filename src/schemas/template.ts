@@ -0,0 +1,79 @@
+import { z } from 'zod';
+import type { ProtocolSectionId } from '@/types';
+import { getMessages, type Messages } from '@/i18n';
+import { validationError } from './messages';
+
+/** Sections that carry the data read back by the document verifier */
+export const REQUIRED_PROTOCOL_SECTIONS: readonly ProtocolSectionId[] = ['document', 'signatures', 'authenticity'];
+
+const hexColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, validationError('colorInvalid'));
+
+// Messages that name a field use its label on the settings screen
+const tooLong = (field: (messages: Messages) => string, max: number) => ({
+  error: () => getMessages().validation.textMax(field(getMessages()), max),
+});
+
+// An empty label falls back to the text of the protocol language
+const labelSchema = (label: keyof Messages['settings']['labels'], max: number = 80) =>
+  z.string().trim().max(max, tooLong((messages) => messages.settings.labels[label], max));
+
+const fontSizeSchema = (size: keyof Messages['settings']['fontSizes'], min: number, max: number) => {
+  const name = () => getMessages().settings.fontSizes[size];
+  const outOfRange = { error: () => getMessages().validation.fontSizeRange(name(), min, max) };
+  return z
+    .number({ error: () => getMessages().validation.fontSizeInvalid(name()) })
+    .min(min, outOfRange)
+    .max(max, outOfRange);
+};
+
+export const protocolSectionIdSchema = z.enum([
+  'document',
+  'signatures',
+  'authenticity',
+  'audit',
+  'qrcode',
+  'details',
+  'disclaimer',
+]);
+
+export const protocolTemplateSchema = z.object({
+  organizationName: z.string().trim().max(120, tooLong((messages) => messages.settings.organizationName, 120)),
+  logo: z
+    .object({
+      data: z.base64(validationError('logoInvalid')),
+      mimeType: z.enum(['image/png', 'image/jpeg'], { error: () => getMessages().settings.logoType }),
+    })
+    .nullable(),
+  palette: z.object({
+    title: hexColorSchema,
+    section: hexColorSchema,
+    text: hexColorSchema,
+    muted: hexColorSchema,
+  }),
+  labels: z.object({
+    title: labelSchema('title'),
+    hashLabel: labelSchema('hashLabel'),
+    documentSection: labelSchema('documentSection'),
+    signaturesSection: labelSchema('signaturesSection'),
+    authenticitySection: labelSchema('authenticitySection'),
+    auditSection: labelSchema('auditSection'),
+    disclaimerSection: labelSchema('disclaimerSection'),
+    footer: labelSchema('footer', 200),
+  }),
+  fontSizes: z.object({
+    title: fontSizeSchema('title', 12, 24),
+    section: fontSizeSchema('section', 10, 16),
+    normal: fontSizeSchema('normal', 7, 12),
+    small: fontSizeSchema('small', 6, 10),
+  }),
+  sections: z
+    .array(protocolSectionIdSchema)
+    .refine((sections) => new Set(sections).size === sections.length, validationError('sectionRepeated'))
+    .refine(
+      (sections) => REQUIRED_PROTOCOL_SECTIONS.every((section) => sections.includes(section)),
+      validationError('sectionsRequired')
+    ),
+  disclaimer: z.string().max(2000, tooLong((messages) => messages.settings.disclaimer, 2000)),
+});
+
+export type ProtocolTemplateSchemaType = z.infer<typeof protocolTemplateSchema>;
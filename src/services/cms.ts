@@ -0,0 +1,373 @@
+import forge from 'node-forge';
+import type { CMSSignatureFailure } from '@/types';
+
+const { asn1 } = forge;
+
+// Object identifiers used when building CMS structures
+export const CMS_OIDS = {
+  DATA: forge.pki.oids.data,
+  SIGNED_DATA: forge.pki.oids.signedData,
+  CONTENT_TYPE: forge.pki.oids.contentType,
+  MESSAGE_DIGEST: forge.pki.oids.messageDigest,
+  SIGNING_CERTIFICATE_V2: '1.2.840.113549.1.9.16.2.47',
+  SHA256: forge.pki.oids.sha256,
+  RSA_ENCRYPTION: forge.pki.oids.rsaEncryption,
+} as const;
+
+// Digest algorithms accepted when verifying a SignerInfo
+const DIGEST_ALGORITHMS: Record<string, () => forge.md.MessageDigest> = {
+  [forge.pki.oids.sha1]: () => forge.md.sha1.create(),
+  [forge.pki.oids.sha256]: () => forge.md.sha256.create(),
+  [forge.pki.oids.sha384]: () => forge.md.sha384.create(),
+  [forge.pki.oids.sha512]: () => forge.md.sha512.create(),
+};
+
+// ESS signing-certificate attribute of older signatures (RFC 2634), hashed with SHA-1
+const SIGNING_CERTIFICATE_OID = '1.2.840.113549.1.9.16.2.12';
+
+export interface CMSSignerCredentials {
+  privateKey: forge.pki.rsa.PrivateKey;
+  certificate: forge.pki.Certificate;
+  chain: forge.pki.Certificate[];
+}
+
+export interface CMSSignOptions {
+  /** Raw bytes (binary string) being signed */
+  content: string;
+  /** Whether the content is embedded in the structure (false for detached signatures) */
+  encapsulate: boolean;
+  /** eContentType OID (defaults to id-data) */
+  contentType?: string;
+  /** Adds the ESS signing-certificate-v2 attribute required by PAdES */
+  includeSigningCertificate?: boolean;
+}
+
+/**
+ * Creates an ASN.1 AlgorithmIdentifier with NULL parameters
+ * @param oid - Algorithm OID
+ * @returns AlgorithmIdentifier node
+ */
+export function algorithmIdentifier(oid: string): forge.asn1.Asn1 {
+  return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OID, false, asn1.oidToDer(oid).getBytes()),
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.NULL, false, ''),
+  ]);
+}
+
+/**
+ * Creates a CMS Attribute (type plus a single value)
+ * @param oid - Attribute type OID
+ * @param value - Attribute value
+ * @returns Attribute node
+ */
+function attribute(oid: string, value: forge.asn1.Asn1): forge.asn1.Asn1 {
+  return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OID, false, asn1.oidToDer(oid).getBytes()),
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SET, true, [value]),
+  ]);
+}
+
+/**
+ * Computes the SHA-256 digest of a binary string
+ * @param data - Binary string
+ * @returns Digest as binary string
+ */
+export function sha256Bytes(data: string): string {
+  const md = forge.md.sha256.create();
+  md.update(data);
+  return md.digest().getBytes();
+}
+
+/**
+ * Builds the IssuerAndSerialNumber that identifies a certificate
+ * @param certificate - Signer certificate
+ * @returns IssuerAndSerialNumber node
+ */
+function issuerAndSerialNumber(certificate: forge.pki.Certificate): forge.asn1.Asn1 {
+  return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+    forge.pki.distinguishedNameToAsn1(certificate.issuer),
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.INTEGER, false, forge.util.hexToBytes(certificate.serialNumber)),
+  ]);
+}
+
+/**
+ * Builds the ESS signing-certificate-v2 attribute value (RFC 5035)
+ * @param certificate - Signer certificate
+ * @returns SigningCertificateV2 node
+ */
+function signingCertificateV2(certificate: forge.pki.Certificate): forge.asn1.Asn1 {
+  return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+      // ESSCertIDv2 with the default hash algorithm (SHA-256) omitted
+      asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+        asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OCTETSTRING, false, sha256Bytes(certificateDer(certificate))),
+      ]),
+    ]),
+  ]);
+}
+
+/**
+ * Creates a CMS SignedData (RFC 5652) signed with RSA/SHA-256
+ * @param credentials - Signer key, certificate and chain
+ * @param options - Content and signing options
+ * @returns DER-encoded ContentInfo as binary string
+ */
+export function createSignedData(credentials: CMSSignerCredentials, options: CMSSignOptions): string {
+  const { privateKey, certificate, chain } = credentials;
+  const contentType = options.contentType ?? CMS_OIDS.DATA;
+
+  const signedAttributes = [
+    attribute(
+      CMS_OIDS.CONTENT_TYPE,
+      asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OID, false, asn1.oidToDer(contentType).getBytes())
+    ),
+    attribute(
+      CMS_OIDS.MESSAGE_DIGEST,
+      asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OCTETSTRING, false, sha256Bytes(options.content))
+    ),
+  ];
+
+  if (options.includeSigningCertificate) {
+    signedAttributes.push(attribute(CMS_OIDS.SIGNING_CERTIFICATE_V2, signingCertificateV2(certificate)));
+  }
+
+  // DER requires the members of a SET OF to be sorted by their encoding
+  signedAttributes.sort((a, b) => {
+    const derA = asn1.toDer(a).getBytes();
+    const derB = asn1.toDer(b).getBytes();
+    return derA < derB ? -1 : derA > derB ? 1 : 0;
+  });
+
+  // The signature covers the DER encoding of the attributes as a SET
+  const signedAttributesDer = asn1
+    .toDer(asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SET, true, signedAttributes))
+    .getBytes();
+  const md = forge.md.sha256.create();
+  md.update(signedAttributesDer);
+  const signature = privateKey.sign(md);
+
+  const signerInfo = asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.INTEGER, false, asn1.integerToDer(1).getBytes()),
+    issuerAndSerialNumber(certificate),
+    algorithmIdentifier(CMS_OIDS.SHA256),
+    asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, true, signedAttributes),
+    algorithmIdentifier(CMS_OIDS.RSA_ENCRYPTION),
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OCTETSTRING, false, signature),
+  ]);
+
+  const encapsulatedContent = [
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OID, false, asn1.oidToDer(contentType).getBytes()),
+  ];
+  if (options.encapsulate) {
+    encapsulatedContent.push(
+      asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, true, [
+        asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OCTETSTRING, false, options.content),
+      ])
+    );
+  }
+
+  const certificates = [certificate, ...chain].map((cert) => forge.pki.certificateToAsn1(cert));
+
+  const signedData = asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+    // Version 3 is required when the content type is not id-data
+    asn1.create(
+      asn1.Class.UNIVERSAL,
+      asn1.Type.INTEGER,
+      false,
+      asn1.integerToDer(contentType === CMS_OIDS.DATA ? 1 : 3).getBytes()
+    ),
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SET, true, [algorithmIdentifier(CMS_OIDS.SHA256)]),
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, encapsulatedContent),
+    asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, true, certificates),
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SET, true, [signerInfo]),
+  ]);
+
+  const contentInfo = asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OID, false, asn1.oidToDer(CMS_OIDS.SIGNED_DATA).getBytes()),
+    asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, true, [signedData]),
+  ]);
+
+  return asn1.toDer(contentInfo).getBytes();
+}
+
+/**
+ * Encodes a certificate as DER, to compare certificates by content
+ */
+export function certificateDer(certificate: forge.pki.Certificate): string {
+  return asn1.toDer(forge.pki.certificateToAsn1(certificate)).getBytes();
+}
+
+/**
+ * Reads the contents of an OCTET STRING, primitive or constructed
+ * @param node - OCTET STRING node
+ * @returns Contents as binary string
+ */
+function octetStringBytes(node: forge.asn1.Asn1): string {
+  if (typeof node.value === 'string') return node.value;
+  return node.value.map((child) => octetStringBytes(child)).join('');
+}
+
+/**
+ * Splits a CMS SignedData into its parts
+ * @param der - DER-encoded ContentInfo as binary string
+ * @returns eContent type and bytes (null in detached signatures), certificates and
+ *   signer info, or null if the ContentInfo is not a SignedData
+ */
+export function parseSignedData(der: string) {
+  const contentInfo = asn1.fromDer(der);
+  const [contentType, content] = contentInfo.value as forge.asn1.Asn1[];
+  if (asn1.derToOid(contentType.value as string) !== CMS_OIDS.SIGNED_DATA) {
+    return null;
+  }
+
+  const signedData = (content.value as forge.asn1.Asn1[])[0].value as forge.asn1.Asn1[];
+  const encapsulated = signedData[2].value as forge.asn1.Asn1[];
+  const eContentType = asn1.derToOid(encapsulated[0].value as string);
+  const eContent = encapsulated[1] ? octetStringBytes((encapsulated[1].value as forge.asn1.Asn1[])[0]) : null;
+
+  const certificatesNode = signedData.find(
+    (node) => node.tagClass === asn1.Class.CONTEXT_SPECIFIC && node.type === 0
+  );
+  const certificates = ((certificatesNode?.value as forge.asn1.Asn1[] | undefined) ?? []).flatMap((node) => {
+    try {
+      return [forge.pki.certificateFromAsn1(node)];
+    } catch {
+      // Non-RSA certificates are not supported by node-forge
+      return [];
+    }
+  });
+
+  const signerInfos = signedData[signedData.length - 1].value as forge.asn1.Asn1[];
+
+  return { eContentType, eContent, certificates, signerInfo: signerInfos[0].value as forge.asn1.Asn1[] };
+}
+
+/**
+ * Reads the certificate hash pinned by the ESS signing-certificate attribute
+ * (ESSCertIDv2, or ESSCertID in older signatures). The first entry is the signer's.
+ * @param signedAttributes - Signed attributes of the SignerInfo
+ * @returns Hash algorithm and certificate hash, or null without the attribute
+ */
+function readSigningCertificateHash(
+  signedAttributes: forge.asn1.Asn1[]
+): { createDigest: () => forge.md.MessageDigest; hash: string } | null {
+  for (const attr of signedAttributes) {
+    const [oidNode, values] = attr.value as forge.asn1.Asn1[];
+    const oid = asn1.derToOid(oidNode.value as string);
+    if (oid !== CMS_OIDS.SIGNING_CERTIFICATE_V2 && oid !== SIGNING_CERTIFICATE_OID) continue;
+
+    // SigningCertificate(V2): SEQUENCE { certs SEQUENCE OF ESSCertID(v2), policies OPTIONAL }
+    const signingCertificate = (values.value as forge.asn1.Asn1[])[0];
+    const certs = (signingCertificate.value as forge.asn1.Asn1[])[0];
+    const certId = (certs.value as forge.asn1.Asn1[])[0].value as forge.asn1.Asn1[];
+
+    if (oid === SIGNING_CERTIFICATE_OID) {
+      return { createDigest: DIGEST_ALGORITHMS[forge.pki.oids.sha1], hash: certId[0].value as string };
+    }
+    // ESSCertIDv2: hashAlgorithm (SHA-256 when omitted), certHash, issuerSerial OPTIONAL
+    const hasAlgorithm = certId[0].type === asn1.Type.SEQUENCE;
+    const hashOid = hasAlgorithm
+      ? asn1.derToOid((certId[0].value as forge.asn1.Asn1[])[0].value as string)
+      : CMS_OIDS.SHA256;
+    const createDigest = DIGEST_ALGORITHMS[hashOid];
+    if (!createDigest) return null;
+    return { createDigest, hash: certId[hasAlgorithm ? 1 : 0].value as string };
+  }
+  return null;
+}
+
+/**
+ * Finds the certificate that signed a SignerInfo: the one named by the signer identifier
+ * (issuer name and serial number, or subject key identifier) and, when the SignerInfo
+ * has the signing-certificate attribute, whose hash matches it
+ * @param sid - SignerIdentifier of the SignerInfo
+ * @param signedAttributes - Signed attributes of the SignerInfo
+ * @param certificates - Certificates included in the SignedData
+ * @returns Signer certificate, or null if none matches
+ */
+function findSignerCertificate(
+  sid: forge.asn1.Asn1,
+  signedAttributes: forge.asn1.Asn1[],
+  certificates: forge.pki.Certificate[]
+): forge.pki.Certificate | null {
+  let matchesSid: (certificate: forge.pki.Certificate) => boolean;
+  if (sid.tagClass === asn1.Class.CONTEXT_SPECIFIC) {
+    // [0] SubjectKeyIdentifier
+    const keyIdentifier = forge.util.bytesToHex(sid.value as string);
+    matchesSid = (certificate) => {
+      const extension = certificate.getExtension('subjectKeyIdentifier') as { subjectKeyIdentifier?: string } | null;
+      return extension?.subjectKeyIdentifier === keyIdentifier;
+    };
+  } else {
+    // IssuerAndSerialNumber; node-forge keeps the SHA-1 of each certificate's issuer name
+    const [issuer, serial] = sid.value as forge.asn1.Asn1[];
+    const issuerHash = forge.md.sha1.create().update(asn1.toDer(issuer).getBytes()).digest().toHex();
+    const serialHex = forge.util.bytesToHex(serial.value as string).toUpperCase();
+    matchesSid = (certificate) =>
+      certificate.issuer.hash === issuerHash && certificate.serialNumber.toUpperCase() === serialHex;
+  }
+
+  const pinned = readSigningCertificateHash(signedAttributes);
+  const matchesHash = (certificate: forge.pki.Certificate) =>
+    !pinned || pinned.createDigest().update(certificateDer(certificate)).digest().getBytes() === pinned.hash;
+
+  return certificates.find((certificate) => matchesSid(certificate) && matchesHash(certificate)) ?? null;
+}
+
+/**
+ * Verifies a SignerInfo: the messageDigest attribute must match the content and the
+ * signer certificate must have signed the attributes
+ * @param signerInfo - Fields of the SignerInfo
+ * @param content - Signed content as binary string (eContent, or the detached content)
+ * @param certificates - Certificates included in the SignedData
+ * @returns Signer certificate, or why the signature is not valid
+ */
+export function verifySignerInfo(
+  signerInfo: forge.asn1.Asn1[],
+  content: string,
+  certificates: forge.pki.Certificate[]
+): { certificate: forge.pki.Certificate; failure: null } | { certificate: null; failure: CMSSignatureFailure } {
+  const fail = (failure: CMSSignatureFailure) => ({ certificate: null, failure });
+
+  // SignerInfo: version, sid, digestAlgorithm, [0] signedAttrs, signatureAlgorithm, signature
+  const [, sid, digestAlgorithm, signedAttrs, , signature] = signerInfo;
+  if (signedAttrs.tagClass !== asn1.Class.CONTEXT_SPECIFIC || signedAttrs.type !== 0) {
+    return fail('missing-signed-attributes');
+  }
+  const attributes = signedAttrs.value as forge.asn1.Asn1[];
+
+  const digestOid = asn1.derToOid((digestAlgorithm.value as forge.asn1.Asn1[])[0].value as string);
+  const createDigest = DIGEST_ALGORITHMS[digestOid];
+  if (!createDigest) {
+    return fail('unsupported-digest');
+  }
+
+  // The messageDigest attribute must match the content
+  const contentDigest = createDigest();
+  contentDigest.update(content);
+  const messageDigest = attributes.find(
+    (attr) => asn1.derToOid((attr.value as forge.asn1.Asn1[])[0].value as string) === CMS_OIDS.MESSAGE_DIGEST
+  );
+  const messageDigestValue = messageDigest
+    ? ((messageDigest.value as forge.asn1.Asn1[])[1].value as forge.asn1.Asn1[])[0].value
+    : null;
+  if (messageDigestValue !== contentDigest.digest().getBytes()) {
+    return fail('digest-mismatch');
+  }
+
+  const certificate = findSignerCertificate(sid, attributes, certificates);
+  if (!certificate) {
+    return fail('missing-certificate');
+  }
+
+  // The signature covers the DER encoding of the attributes as a SET
+  const attributesSet = asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SET, true, attributes);
+  const attributesDigest = createDigest();
+  attributesDigest.update(asn1.toDer(attributesSet).getBytes());
+  const publicKey = certificate.publicKey as forge.pki.rsa.PublicKey;
+  if (!publicKey.verify(attributesDigest.digest().getBytes(), signature.value as string)) {
+    return fail('invalid-signature');
+  }
+
+  return { certificate, failure: null };
+}
@@ -0,0 +1,179 @@
+import fontkit from '@pdf-lib/fontkit';
+import type { Color, PDFDocument, PDFFont, PDFPage } from 'pdf-lib';
+import { getMessages } from '@/i18n';
+import notoSansRegularUrl from '@/assets/fonts/NotoSans-Regular.ttf?url';
+import notoSansBoldUrl from '@/assets/fonts/NotoSans-Bold.ttf?url';
+import notoSansSCUrl from '@/assets/fonts/NotoSansSC-Regular.ttf?url';
+import notoSansKRUrl from '@/assets/fonts/NotoSansKR-Regular.ttf?url';
+import notoEmojiUrl from '@/assets/fonts/NotoEmoji-Regular.ttf?url';
+
+/**
+ * A chain of fonts drawn as one: each character uses the first font that has
+ * a glyph for it
+ */
+export interface FontStack {
+  /** First font of the stack, for places that accept a single font */
+  primary: PDFFont;
+  widthOfTextAtSize(text: string, size: number): number;
+  drawText(page: PDFPage, text: string, options: { x: number; y: number; size: number; color: Color }): void;
+}
+
+export interface UnicodeFonts {
+  normal: FontStack;
+  bold: FontStack;
+}
+
+interface FallbackFont {
+  url: string;
+  /** Characters that require this font; it is only loaded when the text contains them */
+  pattern: RegExp;
+}
+
+interface CoveredFont {
+  font: PDFFont;
+  hasGlyph: (codePoint: number) => boolean;
+}
+
+// Noto Sans covers Latin, Greek, Cyrillic and Vietnamese; the fallbacks are large
+// and only fetched when needed. The Korean font only has Hangul: ideograms always
+// come from the Chinese font, which is loaded whenever the text contains one.
+const FALLBACK_FONTS: FallbackFont[] = [
+  { url: notoSansSCUrl, pattern: /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Bopomofo}]/u },
+  { url: notoSansKRUrl, pattern: /\p{Script=Hangul}/u },
+  { url: notoEmojiUrl, pattern: /\p{Extended_Pictographic}/u },
+];
+
+// Font files are fetched once per session
+const fontBytesCache = new Map<string, Promise<Uint8Array>>();
+
+const graphemeSegmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+
+/**
+ * Fetches a bundled font file
+ * @param url - Font asset URL
+ * @returns Font bytes
+ */
+function loadFontBytes(url: string): Promise<Uint8Array> {
+  let bytes = fontBytesCache.get(url);
+  if (!bytes) {
+    bytes = fetch(url)
+      .then((response) => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.arrayBuffer();
+      })
+      .then((buffer) => new Uint8Array(buffer))
+      .catch((error) => {
+        fontBytesCache.delete(url);
+        console.error('Error loading font:', error);
+        throw new Error(getMessages().errors.fontsUnavailable);
+      });
+    fontBytesCache.set(url, bytes);
+  }
+  return bytes;
+}
+
+/**
+ * Embeds a font subset into the document and keeps its character map for lookups
+ * @param pdfDoc - PDF document
+ * @param bytes - TrueType font bytes
+ * @returns Embedded font and glyph coverage check
+ */
+async function embedCoveredFont(pdfDoc: PDFDocument, bytes: Uint8Array): Promise<CoveredFont> {
+  const font = await pdfDoc.embedFont(bytes, { subset: true });
+  const metrics = fontkit.create(bytes);
+  return { font, hasGlyph: (codePoint) => metrics.hasGlyphForCodePoint(codePoint) };
+}
+
+/**
+ * Creates a font stack from fonts in priority order
+ * @param fonts - Fonts, the first one being the primary font
+ * @returns Font stack
+ */
+function createFontStack(fonts: CoveredFont[]): FontStack {
+  // Splits text into runs drawn with the same font. Whole grapheme clusters
+  // (emoji sequences, combining marks) stay in the font of their base character.
+  const splitRuns = (text: string) => {
+    const runs: { text: string; font: PDFFont }[] = [];
+    let covered: CoveredFont | null = null;
+    for (const { segment } of graphemeSegmenter.segment(text)) {
+      const codePoint = segment.codePointAt(0) ?? 0;
+      // Spaces stay in the current run instead of splitting it
+      if (!covered || !/^\s$/.test(segment) || !covered.hasGlyph(codePoint)) {
+        covered = fonts.find((candidate) => candidate.hasGlyph(codePoint)) ?? fonts[0];
+      }
+
+      const last = runs[runs.length - 1];
+      if (last && last.font === covered.font) {
+        last.text += segment;
+      } else {
+        runs.push({ text: segment, font: covered.font });
+      }
+    }
+    return runs;
+  };
+
+  return {
+    primary: fonts[0].font,
+
+    widthOfTextAtSize(text, size) {
+      return splitRuns(text).reduce((width, run) => width + run.font.widthOfTextAtSize(run.text, size), 0);
+    },
+
+    drawText(page, text, { x, y, size, color }) {
+      let offset = x;
+      for (const run of splitRuns(text)) {
+        page.drawText(run.text, { x: offset, y, size, font: run.font, color });
+        offset += run.font.widthOfTextAtSize(run.text, size);
+      }
+    },
+  };
+}
+
+/**
+ * Lists the characters of a text that none of the bundled fonts has, such as
+ * rare ideograms left out of the CJK subset. They would be drawn blank.
+ * @param text - Text that will be drawn
+ * @returns Missing characters, without repetition
+ */
+export async function findMissingGlyphs(text: string): Promise<string[]> {
+  const urls = [notoSansRegularUrl, ...FALLBACK_FONTS.filter(({ pattern }) => pattern.test(text)).map(({ url }) => url)];
+  const fonts = (await Promise.all(urls.map(loadFontBytes))).map((bytes) => fontkit.create(bytes));
+
+  const missing = new Set<string>();
+  for (const { segment } of graphemeSegmenter.segment(text)) {
+    const codePoint = segment.codePointAt(0) ?? 0;
+    if (!/^\s$/.test(segment) && !fonts.some((font) => font.hasGlyphForCodePoint(codePoint))) {
+      missing.add(segment);
+    }
+  }
+  return [...missing];
+}
+
+/**
+ * Embeds the bundled Unicode fonts. Fallback fonts (CJK, Hangul, emoji) are
+ * embedded only when the given text needs them; all fonts are subset.
+ * @param pdfDoc - PDF document
+ * @param sampleText - Every variable text that will be drawn (names, file names...)
+ * @returns Regular and bold font stacks
+ */
+export async function embedUnicodeFonts(pdfDoc: PDFDocument, sampleText: string): Promise<UnicodeFonts> {
+  pdfDoc.registerFontkit(fontkit);
+
+  const fallbackUrls = FALLBACK_FONTS.filter(({ pattern }) => pattern.test(sampleText)).map(({ url }) => url);
+  const [regularBytes, boldBytes, ...fallbackBytes] = await Promise.all(
+    [notoSansRegularUrl, notoSansBoldUrl, ...fallbackUrls].map(loadFontBytes)
+  );
+
+  const regular = await embedCoveredFont(pdfDoc, regularBytes);
+  const bold = await embedCoveredFont(pdfDoc, boldBytes);
+  const fallbacks: CoveredFont[] = [];
+  for (const bytes of fallbackBytes) {
+    fallbacks.push(await embedCoveredFont(pdfDoc, bytes));
+  }
+
+  // Fallbacks have no bold weight; bold text falls back to the regular glyphs
+  return {
+    normal: createFontStack([regular, ...fallbacks]),
+    bold: createFontStack([bold, ...fallbacks]),
+  };
+}
@@ -1 +1,7 @@
 export * from './pdf';
+export * from './layout';
+export * from './fonts';
+export * from './qrcode';
+export * from './verification';
+export * from './pades';
+export * from './timestamp';
@@ -0,0 +1,274 @@
+import { rgb, type PDFDocument, type PDFPage } from 'pdf-lib';
+import type { FontStack } from './fonts';
+
+export type RGBColor = [number, number, number];
+
+export interface TextStyle {
+  size?: number;
+  fontType?: 'normal' | 'bold';
+  color?: RGBColor;
+  indent?: number;
+}
+
+/** A line of text queued for keepTogether */
+export type LayoutLine = [text: string, style?: TextStyle];
+
+/** Block drawn at the right of a keepTogether block, top-aligned with its first line */
+export interface LayoutAside {
+  width: number;
+  height: number;
+  draw: (page: PDFPage, x: number, y: number) => void;
+}
+
+export interface PageLayoutOptions {
+  /** Page size of every page created by the layout */
+  pageSize: [number, number];
+  /** Index at which the first page is inserted; continuation pages follow it */
+  insertAt: number;
+  margin: number;
+  lineHeight: number;
+  fonts: { normal: FontStack; bold: FontStack };
+  defaultSize: number;
+  defaultColor: RGBColor;
+  /** Title repeated at the top of continuation pages */
+  continuationTitle: string;
+  /** Suffix added to section headers repeated on continuation pages */
+  continuationSuffix: string;
+  /** Marker printed at the bottom of every page that continues on the next */
+  continuedMarker: string;
+  /** Size and color of section headers */
+  sectionStyle: TextStyle;
+}
+
+export interface PageLayout {
+  /** Page currently being drawn */
+  readonly page: PDFPage;
+  /** Every page created so far, in document order */
+  readonly pages: PDFPage[];
+  text(text: string, style?: TextStyle): void;
+  /** Draws lines on the same page when they fit on an empty page; text wraps around the aside */
+  keepTogether(lines: LayoutLine[], aside?: LayoutAside): void;
+  section(title: string): void;
+  endSection(): void;
+  rule(): void;
+  space(amount: number): void;
+  /** Moves to a new page unless the given height fits on the current one */
+  ensureSpace(height: number): void;
+  /** Draws a bordered box with a single line of text */
+  box(text: string, style?: TextStyle): void;
+  /** Reserves a block of the given height and lets the caller draw in it */
+  figure(height: number, draw: (page: PDFPage, x: number, y: number) => void): void;
+  /** Prints the "continues" markers; call once after all content */
+  finish(): void;
+}
+
+// Space (in PDF units) reserved under the content area for the "continues" marker
+const FOOTER_RESERVE = 20;
+
+// Number of lines a section header must be followed by on the same page
+const SECTION_KEEP_LINES = 3;
+
+// Horizontal space between text and an aside block
+const ASIDE_GAP = 10;
+
+/**
+ * Breaks text into lines no wider than maxWidth.
+ * Words wider than a line (hashes, base64) are split by characters.
+ * @param text - Text to wrap
+ * @param font - Font used to measure
+ * @param size - Font size
+ * @param maxWidth - Available width
+ * @returns Wrapped lines (at least one)
+ */
+export function wrapText(text: string, font: FontStack, size: number, maxWidth: number): string[] {
+  const fits = (value: string) => font.widthOfTextAtSize(value, size) <= maxWidth;
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of text.split(' ')) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (fits(candidate)) {
+      current = candidate;
+      continue;
+    }
+
+    if (current) lines.push(current);
+
+    let rest = word;
+    while (rest.length > 1 && !fits(rest)) {
+      let cut = rest.length - 1;
+      while (cut > 1 && !fits(rest.slice(0, cut))) cut--;
+      lines.push(rest.slice(0, cut));
+      rest = rest.slice(cut);
+    }
+    current = rest;
+  }
+
+  lines.push(current);
+  return lines;
+}
+
+/**
+ * Creates a flowing layout that inserts pages as content overflows.
+ * Pages are inserted consecutively from options.insertAt, so continuation
+ * pages stay next to the first one.
+ * @param pdfDoc - PDF document
+ * @param options - Page geometry, fonts and continuation labels
+ * @returns Layout used to draw the content
+ */
+export function createPageLayout(pdfDoc: PDFDocument, options: PageLayoutOptions): PageLayout {
+  const [pageWidth, pageHeight] = options.pageSize;
+  const { margin, lineHeight, fonts } = options;
+  const maxWidth = pageWidth - margin * 2;
+  const bottom = margin + FOOTER_RESERVE;
+
+  const pages: PDFPage[] = [];
+  let page: PDFPage;
+  let y = 0;
+  let currentSection: string | null = null;
+
+  const resolve = (style: TextStyle = {}) => ({
+    size: style.size ?? options.defaultSize,
+    font: style.fontType === 'bold' ? fonts.bold : fonts.normal,
+    color: style.color ?? options.defaultColor,
+    indent: style.indent ?? 0,
+  });
+
+  const drawLines = (text: string, style: TextStyle = {}, breakPages = true, reserved = 0) => {
+    const { size, font, color, indent } = resolve(style);
+    for (const line of wrapText(text, font, size, maxWidth - indent - reserved)) {
+      if (breakPages && y < bottom) addPage();
+      font.drawText(page, line, { x: margin + indent, y, size, color: rgb(...color) });
+      y -= lineHeight;
+    }
+  };
+
+  const drawRule = () => {
+    page.drawLine({
+      start: { x: margin, y },
+      end: { x: pageWidth - margin, y },
+      thickness: 0.5,
+      color: rgb(0.8, 0.8, 0.8),
+    });
+    y -= 10;
+  };
+
+  const measure = (text: string, style: TextStyle = {}, reserved = 0) => {
+    const { size, font, indent } = resolve(style);
+    return wrapText(text, font, size, maxWidth - indent - reserved).length * lineHeight;
+  };
+
+  function addPage() {
+    page = pdfDoc.insertPage(options.insertAt + pages.length, [pageWidth, pageHeight]);
+    pages.push(page);
+    y = pageHeight - margin;
+
+    if (pages.length > 1) {
+      drawLines(options.continuationTitle, { ...options.sectionStyle, fontType: 'bold' }, false);
+      y -= 5;
+      drawRule();
+      y -= 5;
+      if (currentSection) {
+        drawLines(`${currentSection}${options.continuationSuffix}`, { ...options.sectionStyle, fontType: 'bold' }, false);
+        y -= 5;
+      }
+    }
+  }
+
+  const ensureSpace = (height: number) => {
+    if (y - height < bottom - lineHeight) addPage();
+  };
+
+  addPage();
+
+  return {
+    get page() {
+      return page;
+    },
+    get pages() {
+      return pages;
+    },
+
+    text(text, style) {
+      drawLines(text, style);
+    },
+
+    keepTogether(lines, aside) {
+      const reserved = aside ? aside.width + ASIDE_GAP : 0;
+      const textHeight = lines.reduce((total, [text, style]) => total + measure(text, style, reserved), 0);
+      const height = Math.max(textHeight, aside?.height ?? 0);
+      const available = pageHeight - margin - bottom;
+      // Blocks taller than a page simply flow
+      if (height <= available) ensureSpace(height);
+
+      // The aside stays on the page where the block starts
+      const startPage = page;
+      let asideBottom = y;
+      if (aside) {
+        asideBottom = y + options.defaultSize - aside.height;
+        aside.draw(page, pageWidth - margin - aside.width, asideBottom);
+      }
+
+      for (const [text, style] of lines) drawLines(text, style, true, reserved);
+      if (aside && page === startPage) y = Math.min(y, asideBottom - lineHeight);
+    },
+
+    section(title) {
+      currentSection = null;
+      ensureSpace(measure(title, options.sectionStyle) + 5 + lineHeight * SECTION_KEEP_LINES);
+      drawLines(title, { ...options.sectionStyle, fontType: 'bold' });
+      y -= 5;
+      currentSection = title;
+    },
+
+    endSection() {
+      currentSection = null;
+    },
+
+    rule() {
+      drawRule();
+    },
+
+    space(amount) {
+      y -= amount;
+    },
+
+    ensureSpace,
+
+    box(text, style) {
+      const { size, font, color } = resolve(style);
+      const boxHeight = 30;
+      ensureSpace(boxHeight + 10);
+      const boxY = y - 25;
+      page.drawRectangle({
+        x: margin + 10,
+        y: boxY,
+        width: maxWidth - 20,
+        height: boxHeight,
+        borderColor: rgb(0.6, 0.6, 0.6),
+        borderWidth: 1,
+        color: rgb(0.97, 0.97, 0.97),
+      });
+      font.drawText(page, text, { x: margin + 20, y: boxY + 10, size, color: rgb(...color) });
+      y = boxY - 20;
+    },
+
+    figure(height, draw) {
+      ensureSpace(height + lineHeight);
+      const bottom = y - height + lineHeight;
+      draw(page, margin, bottom);
+      y = bottom - lineHeight;
+    },
+
+    finish() {
+      pages.slice(0, -1).forEach((continued) => {
+        fonts.normal.drawText(continued, options.continuedMarker, {
+          x: margin,
+          y: margin,
+          size: options.defaultSize,
+          color: rgb(0.5, 0.5, 0.5),
+        });
+      });
+    },
+  };
+}
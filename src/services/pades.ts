@@ -0,0 +1,364 @@
+import forge from 'node-forge';
+import {
+  PDFDocument,
+  PDFFont,
+  PDFName,
+  PDFNumber,
+  PDFString,
+  PDFHexString,
+  StandardFonts,
+  pushGraphicsState,
+  popGraphicsState,
+  setFillingRgbColor,
+  setStrokingRgbColor,
+  setLineWidth,
+  rectangle,
+  fillAndStroke,
+  beginText,
+  endText,
+  setFontAndSize,
+  moveText,
+  showText,
+} from 'pdf-lib';
+import type { CertificateInfo, Locale, PAdESInvalidReason, PAdESVerification } from '@/types';
+import { DEFAULT_LOCALE, formatDateTime, getMessages } from '@/i18n';
+import { createSignedData, parseSignedData, sha256Bytes, verifySignerInfo, type CMSSignerCredentials } from './cms';
+
+// Bytes reserved for the DER-encoded CMS signature inside /Contents
+const SIGNATURE_MAX_LENGTH = 16384;
+
+// Placeholder replaced by the real ByteRange once the PDF is serialized
+const BYTE_RANGE_PLACEHOLDER = '**********';
+
+// Name of the signature field; the file receives a single PAdES signature
+const SIGNATURE_FIELD_NAME = 'Signature1';
+
+// Visible signature widget configuration
+const WIDGET_CONFIG = {
+  WIDTH: 260,
+  HEIGHT: 42,
+  MARGIN: 10,
+  FONT_SIZE: 7,
+  LINE_HEIGHT: 9,
+};
+
+export interface PKCS12Credentials extends CMSSignerCredentials {
+  info: CertificateInfo;
+}
+
+export interface PAdESSignatureOptions {
+  /** Index of the page that receives the visible widget */
+  pageIndex: number;
+  /** Signature reason stored in the /Sig dictionary (defaults to the text of the widget language) */
+  reason?: string;
+  /** Language of the widget text (defaults to pt-BR) */
+  locale?: Locale;
+  /** Signing date (defaults to now) */
+  signingDate?: Date;
+  /** Font of the widget text (defaults to Helvetica, which only covers WinAnsi) */
+  font?: PDFFont;
+}
+
+/**
+ * Converts a forge distinguished name to a readable string
+ * @param name - Certificate subject or issuer
+ * @returns Distinguished name like "CN=..., O=..., C=BR"
+ */
+function formatDistinguishedName(name: forge.pki.Certificate['subject']): string {
+  return name.attributes
+    .map((attr) => `${attr.shortName ?? attr.name ?? attr.type}=${attr.value}`)
+    .join(', ');
+}
+
+/**
+ * Extracts the displayable information of a certificate
+ * @param certificate - X.509 certificate
+ * @returns Certificate subject, issuer, serial, validity and fingerprint
+ */
+export function getCertificateInfo(certificate: forge.pki.Certificate): CertificateInfo {
+  const commonName = certificate.subject.getField('CN');
+  const der = forge.asn1.toDer(forge.pki.certificateToAsn1(certificate)).getBytes();
+
+  return {
+    subject: formatDistinguishedName(certificate.subject),
+    commonName: commonName ? String(commonName.value) : formatDistinguishedName(certificate.subject),
+    issuer: formatDistinguishedName(certificate.issuer),
+    serialNumber: certificate.serialNumber.toUpperCase(),
+    validFrom: certificate.validity.notBefore.toISOString(),
+    validTo: certificate.validity.notAfter.toISOString(),
+    fingerprint: forge.util.bytesToHex(sha256Bytes(der)),
+  };
+}
+
+/**
+ * Loads the private key and certificate chain from a PKCS#12 (.p12/.pfx) file
+ * @param p12Bytes - PKCS#12 file bytes
+ * @param password - PKCS#12 password
+ * @returns Credentials ready to sign
+ */
+export function loadPKCS12Credentials(p12Bytes: Uint8Array, password: string): PKCS12Credentials {
+  let p12: forge.pkcs12.Pkcs12Pfx;
+  try {
+    const p12Asn1 = forge.asn1.fromDer(forge.util.binary.raw.encode(p12Bytes));
+    p12 = forge.pkcs12.pkcs12FromAsn1(p12Asn1, false, password);
+  } catch (error) {
+    console.error('Error reading PKCS#12 file:', error);
+    throw new Error(getMessages().errors.certificateUnreadable);
+  }
+
+  const keyBags = [
+    ...(p12.getBags({ bagType: forge.pki.oids.pkcs8ShroudedKeyBag })[forge.pki.oids.pkcs8ShroudedKeyBag] ?? []),
+    ...(p12.getBags({ bagType: forge.pki.oids.keyBag })[forge.pki.oids.keyBag] ?? []),
+  ];
+  const privateKey = keyBags.find((bag) => bag.key)?.key as forge.pki.rsa.PrivateKey | undefined;
+  if (!privateKey || !('n' in privateKey)) {
+    throw new Error(getMessages().errors.certificateWithoutKey);
+  }
+
+  const certificates = (p12.getBags({ bagType: forge.pki.oids.certBag })[forge.pki.oids.certBag] ?? [])
+    .map((bag) => bag.cert)
+    .filter((cert): cert is forge.pki.Certificate => !!cert);
+
+  // The signer certificate is the one whose public key matches the private key
+  const certificate = certificates.find((cert) => {
+    const publicKey = cert.publicKey as forge.pki.rsa.PublicKey;
+    return publicKey.n && publicKey.n.equals(privateKey.n);
+  });
+  if (!certificate) {
+    throw new Error(getMessages().errors.certificateNotFound);
+  }
+
+  const now = new Date();
+  if (now < certificate.validity.notBefore || now > certificate.validity.notAfter) {
+    throw new Error(getMessages().errors.certificateExpired);
+  }
+
+  return {
+    privateKey,
+    certificate,
+    chain: certificates.filter((cert) => cert !== certificate),
+    info: getCertificateInfo(certificate),
+  };
+}
+
+/**
+ * Adds the /Sig dictionary, signature field and visible widget to the document.
+ * The ByteRange and Contents are placeholders filled by signPDFPlaceholder.
+ * @param pdfDoc - PDF document
+ * @param credentials - Signer credentials
+ * @param options - Widget placement and signature details
+ */
+export async function addSignaturePlaceholder(
+  pdfDoc: PDFDocument,
+  credentials: PKCS12Credentials,
+  options: PAdESSignatureOptions
+): Promise<void> {
+  const { context } = pdfDoc;
+  const page = pdfDoc.getPage(options.pageIndex);
+  const signingDate = options.signingDate ?? new Date();
+  const font = options.font ?? (await pdfDoc.embedFont(StandardFonts.Helvetica));
+  const locale = options.locale ?? DEFAULT_LOCALE;
+  const t = getMessages(locale).protocol;
+
+  const signatureDict = context.obj({
+    Type: 'Sig',
+    Filter: 'Adobe.PPKLite',
+    SubFilter: 'ETSI.CAdES.detached',
+    ByteRange: [
+      0,
+      PDFName.of(BYTE_RANGE_PLACEHOLDER),
+      PDFName.of(BYTE_RANGE_PLACEHOLDER),
+      PDFName.of(BYTE_RANGE_PLACEHOLDER),
+    ],
+    Contents: PDFHexString.of('0'.repeat(SIGNATURE_MAX_LENGTH * 2)),
+    Name: PDFHexString.fromText(credentials.info.commonName),
+    Reason: PDFHexString.fromText(options.reason ?? t.signatureReason),
+    M: PDFString.fromDate(signingDate),
+  });
+  const signatureRef = context.register(signatureDict);
+
+  // Visible appearance: box with the signer data
+  const lines = [
+    `${t.digitallySignedBy}:`,
+    credentials.info.commonName,
+    `${t.certificate}: ${credentials.info.serialNumber}`,
+    `${t.date}: ${formatDateTime(signingDate, locale)}`,
+  ];
+  const appearance = context.formXObject(
+    [
+      pushGraphicsState(),
+      setFillingRgbColor(0.96, 0.98, 1),
+      setStrokingRgbColor(0.2, 0.4, 0.6),
+      setLineWidth(0.8),
+      rectangle(0.5, 0.5, WIDGET_CONFIG.WIDTH - 1, WIDGET_CONFIG.HEIGHT - 1),
+      fillAndStroke(),
+      setFillingRgbColor(0.1, 0.2, 0.3),
+      beginText(),
+      setFontAndSize('F1', WIDGET_CONFIG.FONT_SIZE),
+      moveText(6, WIDGET_CONFIG.HEIGHT - 10),
+      ...lines.flatMap((line, index) => [
+        ...(index > 0 ? [moveText(0, -WIDGET_CONFIG.LINE_HEIGHT)] : []),
+        showText(font.encodeText(line)),
+      ]),
+      endText(),
+      popGraphicsState(),
+    ],
+    {
+      BBox: [0, 0, WIDGET_CONFIG.WIDTH, WIDGET_CONFIG.HEIGHT],
+      Resources: { Font: { F1: font.ref } },
+    }
+  );
+  const appearanceRef = context.register(appearance);
+
+  const { width } = page.getSize();
+  const x = width - WIDGET_CONFIG.WIDTH - WIDGET_CONFIG.MARGIN * 3;
+  const y = WIDGET_CONFIG.MARGIN;
+
+  const widgetDict = context.obj({
+    Type: 'Annot',
+    Subtype: 'Widget',
+    FT: 'Sig',
+    Rect: [x, y, x + WIDGET_CONFIG.WIDTH, y + WIDGET_CONFIG.HEIGHT],
+    V: signatureRef,
+    T: PDFString.of(SIGNATURE_FIELD_NAME),
+    F: 4,
+    P: page.ref,
+    AP: { N: appearanceRef },
+  });
+  const widgetRef = context.register(widgetDict);
+  page.node.addAnnot(widgetRef);
+
+  const form = pdfDoc.getForm();
+  form.acroForm.addField(widgetRef);
+  // SignaturesExist | AppendOnly
+  form.acroForm.dict.set(PDFName.of('SigFlags'), PDFNumber.of(3));
+}
+
+/**
+ * Finds a byte sequence inside a buffer
+ * @param bytes - Buffer to search
+ * @param pattern - ASCII pattern
+ * @param fromIndex - Start position
+ * @returns Index of the first match or -1
+ */
+function indexOfAscii(bytes: Uint8Array, pattern: string, fromIndex: number = 0): number {
+  const first = pattern.charCodeAt(0);
+  for (let i = fromIndex; i <= bytes.length - pattern.length; i++) {
+    if (bytes[i] !== first) continue;
+    let match = true;
+    for (let j = 1; j < pattern.length; j++) {
+      if (bytes[i + j] !== pattern.charCodeAt(j)) {
+        match = false;
+        break;
+      }
+    }
+    if (match) return i;
+  }
+  return -1;
+}
+
+/**
+ * Computes the ByteRange and writes the CMS signature into the placeholder
+ * created by addSignaturePlaceholder
+ * @param pdfBytes - PDF bytes saved without object streams
+ * @param credentials - Signer credentials
+ * @returns Signed PDF bytes
+ */
+export function signPDFPlaceholder(pdfBytes: Uint8Array, credentials: PKCS12Credentials): Uint8Array {
+  const signed = new Uint8Array(pdfBytes);
+
+  const placeholderIndex = indexOfAscii(signed, `/${BYTE_RANGE_PLACEHOLDER}`);
+  const byteRangeStart = signed.lastIndexOf('['.charCodeAt(0), placeholderIndex);
+  const byteRangeEnd = indexOfAscii(signed, ']', placeholderIndex);
+  const contentsStart = indexOfAscii(signed, `<${'0'.repeat(32)}`, byteRangeEnd);
+  if (placeholderIndex < 0 || byteRangeStart < 0 || byteRangeEnd < 0 || contentsStart < 0) {
+    throw new Error(getMessages().errors.signaturePlaceholderMissing);
+  }
+  const contentsEnd = contentsStart + SIGNATURE_MAX_LENGTH * 2 + 2;
+
+  // Replace the placeholder, keeping the same length
+  const byteRange = [0, contentsStart, contentsEnd, signed.length - contentsEnd];
+  const placeholderLength = byteRangeEnd - byteRangeStart + 1;
+  const byteRangeText = `[${byteRange.join(' ')}]`.padEnd(placeholderLength, ' ');
+  if (byteRangeText.length > placeholderLength) {
+    throw new Error(getMessages().errors.documentTooLarge);
+  }
+  signed.set(new TextEncoder().encode(byteRangeText), byteRangeStart);
+
+  // Sign everything except the /Contents value
+  const signedContent = new Uint8Array(contentsStart + (signed.length - contentsEnd));
+  signedContent.set(signed.subarray(0, contentsStart), 0);
+  signedContent.set(signed.subarray(contentsEnd), contentsStart);
+
+  const signature = createSignedData(credentials, {
+    content: forge.util.binary.raw.encode(signedContent),
+    encapsulate: false,
+    includeSigningCertificate: true,
+  });
+
+  const signatureHex = forge.util.bytesToHex(signature);
+  if (signatureHex.length > SIGNATURE_MAX_LENGTH * 2) {
+    throw new Error(getMessages().errors.signatureTooLarge);
+  }
+  signed.set(new TextEncoder().encode(signatureHex), contentsStart + 1);
+
+  return signed;
+}
+
+/**
+ * Reads the total length of a DER structure from its header; /Contents is padded
+ * with zeros after the signature
+ * @param der - DER bytes as binary string
+ * @returns Length of the structure, header included
+ */
+function derLength(der: string): number {
+  const lengthByte = der.charCodeAt(1);
+  if (lengthByte < 0x80) return 2 + lengthByte;
+  const count = lengthByte & 0x7f;
+  let length = 0;
+  for (let i = 0; i < count; i++) {
+    length = length * 256 + der.charCodeAt(2 + i);
+  }
+  return 2 + count + length;
+}
+
+/**
+ * Verifies the PAdES signature of a PDF: the CMS signature must be valid and its
+ * ByteRange must cover every byte of the file except /Contents, so nothing was
+ * changed or appended after signing. The certificate is not checked against
+ * trusted authorities.
+ * @param pdfBytes - PDF bytes
+ * @returns Verification result, or null if the PDF has no signature
+ */
+export function verifyPAdESSignature(pdfBytes: Uint8Array): PAdESVerification | null {
+  const text = forge.util.binary.raw.encode(pdfBytes);
+  const byteRanges = [...text.matchAll(/\/ByteRange\s*\[\s*(\d+)\s+(\d+)\s+(\d+)\s+(\d+)\s*\]/g)];
+  if (byteRanges.length === 0) return null;
+
+  const invalid = (reason: PAdESInvalidReason): PAdESVerification => ({ valid: false, certificate: null, reason });
+
+  // The last signature is the one that covers the final file
+  const [start, contentsStart, contentsEnd, tailLength] = byteRanges[byteRanges.length - 1].slice(1).map(Number);
+  const contents = text.slice(contentsStart, contentsEnd).match(/^<([0-9A-Fa-f]+)>$/);
+  if (start !== 0 || !contents || contentsEnd + tailLength > pdfBytes.length) {
+    return invalid('unreadable');
+  }
+
+  try {
+    const der = forge.util.hexToBytes(contents[1]);
+    const signedData = parseSignedData(der.slice(0, derLength(der)));
+    if (!signedData) return invalid('unreadable');
+
+    const signedContent = text.slice(0, contentsStart) + text.slice(contentsEnd, contentsEnd + tailLength);
+    const { certificate, failure } = verifySignerInfo(signedData.signerInfo, signedContent, signedData.certificates);
+    if (!certificate) return invalid(failure);
+
+    if (contentsEnd + tailLength !== pdfBytes.length) {
+      return invalid('partial-coverage');
+    }
+    return { valid: true, certificate: getCertificateInfo(certificate), reason: null };
+  } catch (error) {
+    console.error('Error verifying PAdES signature:', error);
+    return invalid('unreadable');
+  }
+}
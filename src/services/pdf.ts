@@ -1,23 +1,126 @@
-import { PDFDocument, rgb, StandardFonts, PageSizes } from 'pdf-lib';
-import type { SignatureData, SignatureLog } from '@/types';
-import { formatCPF, abbreviateHash } from '@/utils';
+import {
+  PDFDocument,
+  PDFArray,
+  PDFPage,
+  PDFDict,
+  PDFName,
+  PDFRawStream,
+  PDFString,
+  PDFHexString,
+  rgb,
+  PageSizes,
+  decodePDFRawStream,
+  pushGraphicsState,
+  popGraphicsState,
+  concatTransformationMatrix,
+} from 'pdf-lib';
+import type {
+  CertificateInfo,
+  ChainVerification,
+  HandwrittenSignature,
+  Locale,
+  ProtocolLabels,
+  ProtocolLogo,
+  ProtocolSectionId,
+  ProtocolTemplate,
+  SignatureData,
+  SignatureLog,
+  SignatureManifest,
+  SignaturePlacement,
+  TimestampVerification,
+} from '@/types';
+import {
+  formatSignerDocument,
+  groupSignaturesByRole,
+  getWorkflowStatus,
+  abbreviateHash,
+  verifySignatureChain,
+  verifyAuditTrail,
+  getPublicKeyThumbprint,
+  normalizeRotation,
+  base64ToBytes,
+  hexToRGB,
+  getTotalReadingTime,
+  DEFAULT_PROTOCOL_TEMPLATE,
+  type PageRotation,
+} from '@/utils';
+import { DEFAULT_LOCALE, formatDateTime, formatNumber, getMessages, getProtocolMessages, type Messages } from '@/i18n';
+import { signatureManifestSchema, SIGNATURE_MANIFEST_FORMAT, SIGNATURE_MANIFEST_VERSION } from '@/schemas/manifest';
+import { addSignaturePlaceholder, signPDFPlaceholder, type PKCS12Credentials } from './pades';
+import { createPageLayout, type LayoutAside, type LayoutLine, type TextStyle } from './layout';
+import { embedUnicodeFonts, type FontStack, type UnicodeFonts } from './fonts';
+import {
+  createPageVerificationPayload,
+  createVerificationPayload,
+  drawQRCode,
+  getVerificationUrlTemplate,
+} from './qrcode';
+import { verifyTimestampToken } from './timestamp';
 
-// Protocol page configuration
+export interface FinalizeOptions {
+  /** When provided, the finalized PDF receives a PAdES signature with this certificate */
+  pades?: PKCS12Credentials;
+  /** URL encoded in the verification QR codes (defaults to VITE_VERIFICATION_URL_TEMPLATE) */
+  verificationUrlTemplate?: string;
+  /** Branding, labels and sections of the protocol (defaults to DEFAULT_PROTOCOL_TEMPLATE) */
+  template?: ProtocolTemplate;
+}
+
+type ProtocolMessages = Messages['protocol'];
+
+// Protocol page configuration; font sizes, colors and labels come from the protocol template
 const PROTOCOL_CONFIG = {
   MARGIN: 50,
   LINE_HEIGHT: 14,
   SECTION_SPACING: 20,
-  TITLE_FONT_SIZE: 16,
-  SUBTITLE_FONT_SIZE: 12,
-  NORMAL_FONT_SIZE: 9,
-  SMALL_FONT_SIZE: 8,
+  QR_SIZE: 100,
+  // Box for the organization logo, at the right of the title
+  LOGO_MAX_WIDTH: 150,
+  LOGO_MAX_HEIGHT: 40,
+  // Box for the handwritten signature, at the right of each signer
+  HANDWRITING_WIDTH: 120,
+  HANDWRITING_HEIGHT: 45,
+  // Pages listed per line in the reading evidence of a signer
+  READING_PAGES_PER_LINE: 6,
 };
 
+// File name of the JSON manifest attached to finalized PDFs
+const MANIFEST_FILE_NAME = 'signature-manifest.json';
+
 // Header configuration for hash on all pages
+// Strip added above the content of every page, as displayed, so the header covers nothing
 const HEADER_CONFIG = {
-  MARGIN_TOP: 15,
+  STRIP_HEIGHT: 56,
   FONT_SIZE: 7,
-  BG_HEIGHT: 18,
+  PADDING: 4,
+  // QR code at the left end of the strip, filling its height
+  QR_SIZE: 48,
+};
+
+// Footer strip with the signers' initials on every original page
+const INITIALS_CONFIG = {
+  STRIP_HEIGHT: 24,
+  PADDING: 10,
+  GAP: 8,
+  LABEL_SIZE: 7,
+  TEXT_SIZE: 10,
+  IMAGE_WIDTH: 40,
+};
+
+// Signing dates printed on the protocol and on the stamps
+const DATE_FORMAT: Intl.DateTimeFormatOptions = {
+  day: '2-digit',
+  month: '2-digit',
+  year: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit',
+};
+
+// Visual signature stamp configuration
+const STAMP_CONFIG = {
+  PADDING: 4,
+  FONT_SIZE: 8,
 };
 
 /**
@@ -33,7 +136,7 @@ export async function loadPDF(pdfBytes: Uint8Array): Promise<PDFDocument> {
     return pdfDoc;
   } catch (error) {
     console.error('Error loading PDF:', error);
-    throw new Error('Não foi possível carregar o PDF. O arquivo pode estar corrompido ou protegido.');
+    throw new Error(getMessages().errors.pdfUnreadable);
   }
 }
 
@@ -65,7 +168,7 @@ function formatHashTotvs(hash: string): string {
  * @param hash - SHA256 hash
  * @returns Formatted SICFAR hash (first 20 bytes)
  */
-function generateTotvsHash(hash: string): string {
+export function generateTotvsHash(hash: string): string {
   const bytes = hash.substring(0, 40); // First 20 bytes (40 hex chars)
   return formatHashTotvs(bytes);
 }
@@ -119,252 +222,654 @@ function detectOriginalPageSize(pdfDoc: PDFDocument): [number, number] {
 }
 
 /**
- * Draws the hash header on all pages
+ * Grows a page box by a strip along its top or bottom edge as displayed
+ * @param box - Page box in user space of the unrotated page
+ * @param size - Height of the strip as displayed
+ * @param rotation - Clockwise page rotation
+ * @param edge - Displayed edge that receives the strip
+ * @returns Grown box and the added strip, both in user space
+ */
+function growPageBox(
+  box: Pick<SignaturePlacement, 'x' | 'y' | 'width' | 'height'>,
+  size: number,
+  rotation: PageRotation,
+  edge: 'top' | 'bottom'
+): Record<'box' | 'strip', Pick<SignaturePlacement, 'x' | 'y' | 'width' | 'height'>> {
+  const { x, y, width, height } = box;
+  // The bottom edge as displayed is the top edge of the page turned upside down
+  switch (edge === 'top' ? rotation : normalizeRotation(rotation + 180)) {
+    case 90:
+      return { box: { x: x - size, y, width: width + size, height }, strip: { x: x - size, y, width: size, height } };
+    case 180:
+      return { box: { x, y: y - size, width, height: height + size }, strip: { x, y: y - size, width, height: size } };
+    case 270:
+      return { box: { x, y, width: width + size, height }, strip: { x: x + width, y, width: size, height } };
+    default:
+      return { box: { x, y, width, height: height + size }, strip: { x, y: y + height, width, height: size } };
+  }
+}
+
+/**
+ * Adds a strip along the top or bottom edge of a page as displayed. The strip goes
+ * outside the visible (crop) area, which grows to show it, so nothing is drawn over
+ * the page content; the media box grows to hold it.
+ * @param page - PDF page
+ * @param size - Height of the strip as displayed
+ * @param edge - Displayed edge that receives the strip
+ * @returns Strip rectangle in user space of the unrotated page
+ */
+function addPageStrip(
+  page: PDFPage,
+  size: number,
+  edge: 'top' | 'bottom'
+): Pick<SignaturePlacement, 'x' | 'y' | 'width' | 'height'> {
+  const { box, strip } = growPageBox(page.getCropBox(), size, normalizeRotation(page.getRotation().angle), edge);
+  const media = page.getMediaBox();
+  const left = Math.min(media.x, box.x);
+  const bottom = Math.min(media.y, box.y);
+  const right = Math.max(media.x + media.width, box.x + box.width);
+  const top = Math.max(media.y + media.height, box.y + box.height);
+  page.setMediaBox(left, bottom, right - left, top - bottom);
+  page.setCropBox(box.x, box.y, box.width, box.height);
+  return strip;
+}
+
+/**
+ * Adds a header strip above the content of every page with the verification QR code,
+ * the SICFAR hash and the page number. The page grows by the strip instead of the
+ * header being drawn over the page content.
  * @param pdfDoc - PDF document
  * @param documentHash - Hash to display
  * @param font - Font to use
+ * @param qrPayload - Text of the page QR code
+ * @param messages - Texts in the protocol language
  */
 async function drawHashHeaderOnAllPages(
   pdfDoc: PDFDocument,
   documentHash: string,
-  font: Awaited<ReturnType<PDFDocument['embedFont']>>
+  font: FontStack,
+  qrPayload: string,
+  messages: ProtocolMessages
 ): Promise<void> {
   const pages = pdfDoc.getPages();
   const totvsHash = generateTotvsHash(documentHash);
+  const { STRIP_HEIGHT, FONT_SIZE, PADDING, QR_SIZE } = HEADER_CONFIG;
 
   for (let i = 0; i < pages.length; i++) {
     const page = pages[i];
-    const { width, height } = page.getSize();
+    const strip = addPageStrip(page, STRIP_HEIGHT, 'top');
+    const { matrix, width, height } = getUprightTransform(strip, normalizeRotation(page.getRotation().angle));
+    page.pushOperators(pushGraphicsState(), concatTransformationMatrix(...matrix));
 
-    // Draw background bar
-    page.drawRectangle({
-      x: 0,
-      y: height - HEADER_CONFIG.BG_HEIGHT,
-      width,
-      height: HEADER_CONFIG.BG_HEIGHT,
-      color: rgb(0.95, 0.95, 0.95),
-    });
+    page.drawRectangle({ x: 0, y: 0, width, height, color: rgb(0.95, 0.95, 0.95) });
+
+    // Verification QR code
+    drawQRCode(page, qrPayload, { x: PADDING, y: (height - QR_SIZE) / 2, size: QR_SIZE });
 
-    // Draw hash text centered
+    // Hash text centered
+    const textY = (height - FONT_SIZE) / 2;
     const hashText = `HASH: ${totvsHash}`;
-    const textWidth = font.widthOfTextAtSize(hashText, HEADER_CONFIG.FONT_SIZE);
-    const textX = (width - textWidth) / 2;
-
-    page.drawText(hashText, {
-      x: textX,
-      y: height - HEADER_CONFIG.MARGIN_TOP,
-      size: HEADER_CONFIG.FONT_SIZE,
-      font,
+    const textWidth = font.widthOfTextAtSize(hashText, FONT_SIZE);
+    font.drawText(page, hashText, {
+      x: (width - textWidth) / 2,
+      y: textY,
+      size: FONT_SIZE,
       color: rgb(0.3, 0.3, 0.3),
     });
 
-    // Draw page number on the right
-    const pageText = `Página ${i + 1} de ${pages.length}`;
-    const pageTextWidth = font.widthOfTextAtSize(pageText, HEADER_CONFIG.FONT_SIZE);
-    page.drawText(pageText, {
+    // Page number on the right
+    const pageText = `${messages.page} ${i + 1} ${messages.pageOf} ${pages.length}`;
+    const pageTextWidth = font.widthOfTextAtSize(pageText, FONT_SIZE);
+    font.drawText(page, pageText, {
       x: width - pageTextWidth - 10,
-      y: height - HEADER_CONFIG.MARGIN_TOP,
-      size: HEADER_CONFIG.FONT_SIZE,
-      font,
+      y: textY,
+      size: FONT_SIZE,
       color: rgb(0.5, 0.5, 0.5),
     });
+
+    page.pushOperators(popGraphicsState());
   }
 }
 
 /**
- * Creates the protocol/manifest page with all signature information
+ * Embeds a handwritten signature and prepares it to be drawn beside the signer
+ * @param pdfDoc - PDF document
+ * @param handwritten - Drawn signature
+ * @returns Layout block with the image over a signature line
+ */
+async function createHandwritingAside(pdfDoc: PDFDocument, handwritten: HandwrittenSignature): Promise<LayoutAside> {
+  const image = await pdfDoc.embedPng(base64ToBytes(handwritten.image));
+  const width = PROTOCOL_CONFIG.HANDWRITING_WIDTH;
+  const height = PROTOCOL_CONFIG.HANDWRITING_HEIGHT;
+  const fitted = image.scaleToFit(width, height);
+
+  return {
+    width,
+    height,
+    draw: (page, x, y) => {
+      page.drawImage(image, {
+        x: x + (width - fitted.width) / 2,
+        y: y + (height - fitted.height) / 2,
+        width: fitted.width,
+        height: fitted.height,
+      });
+      page.drawLine({
+        start: { x, y },
+        end: { x: x + width, y },
+        thickness: 0.5,
+        color: rgb(0.6, 0.6, 0.6),
+      });
+    },
+  };
+}
+
+/**
+ * Embeds the organization logo and prepares it to be drawn beside the protocol title
+ * @param pdfDoc - PDF document
+ * @param logo - Logo image
+ * @returns Layout block with the logo scaled to the logo box
+ */
+async function createLogoAside(pdfDoc: PDFDocument, logo: ProtocolLogo): Promise<LayoutAside> {
+  const bytes = base64ToBytes(logo.data);
+  const image = logo.mimeType === 'image/png' ? await pdfDoc.embedPng(bytes) : await pdfDoc.embedJpg(bytes);
+  const { width, height } = image.scaleToFit(PROTOCOL_CONFIG.LOGO_MAX_WIDTH, PROTOCOL_CONFIG.LOGO_MAX_HEIGHT);
+
+  return {
+    width,
+    height,
+    draw: (page, x, y) => page.drawImage(image, { x, y, width, height }),
+  };
+}
+
+/**
+ * Checks whether a signer certificate is the one of the PAdES signature
+ * @param certificate - Certificate recorded with a signature
+ * @param padesCertificate - Certificate of the PAdES signature, if any
+ * @returns true if both are the same certificate
+ */
+function isSameCertificate(certificate: CertificateInfo, padesCertificate: CertificateInfo | null): boolean {
+  if (!padesCertificate) return false;
+  if (certificate.fingerprint && padesCertificate.fingerprint) {
+    return certificate.fingerprint === padesCertificate.fingerprint;
+  }
+  return certificate.serialNumber === padesCertificate.serialNumber && certificate.issuer === padesCertificate.issuer;
+}
+
+/**
+ * Creates the protocol/manifest pages with all signature information.
+ * The first protocol page becomes page 0 and continuation pages follow it.
  * @param pdfDoc - PDF document
  * @param signatureLog - Signature log with all data
  * @param documentHash - Document hash (SHA256)
+ * @param chainStatus - Result of the signature chain verification
+ * @param timestampStatus - Verification of each timestamp token, by signature hash
+ * @param padesCertificate - Certificate of the PAdES signature added to the file, if any
+ * @param fonts - Embedded Unicode fonts
+ * @param qrPayload - Text of the verification QR code
+ * @param template - Branding, labels and sections of the protocol, with the blank labels resolved
+ * @param locale - Protocol language, used for dates and numbers
+ * @param t - Texts of the protocol pages
  */
-async function createProtocolPage(
+async function createProtocolPages(
   pdfDoc: PDFDocument,
   signatureLog: SignatureLog,
-  documentHash: string
+  documentHash: string,
+  chainStatus: ChainVerification,
+  timestampStatus: Map<string, TimestampVerification>,
+  padesCertificate: CertificateInfo | null,
+  fonts: UnicodeFonts,
+  qrPayload: string,
+  template: ProtocolTemplate,
+  locale: Locale,
+  t: ProtocolMessages
 ): Promise<void> {
-  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
-  const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
-  
-  // Create new page at the beginning
-  const [pageWidth, pageHeight] = detectOriginalPageSize(pdfDoc);
-  const protocolPage = pdfDoc.insertPage(0, [pageWidth, pageHeight]);
-  
-  const margin = PROTOCOL_CONFIG.MARGIN;
-  let y = pageHeight - margin;
-  const maxWidth = pageWidth - margin * 2;
+  const { labels, fontSizes, palette } = template;
+  const lineHeight = Math.max(PROTOCOL_CONFIG.LINE_HEIGHT, fontSizes.normal * 1.5);
 
-  const totvsHash = generateTotvsHash(documentHash);
+  const layout = createPageLayout(pdfDoc, {
+    pageSize: detectOriginalPageSize(pdfDoc),
+    insertAt: 0,
+    margin: PROTOCOL_CONFIG.MARGIN,
+    lineHeight,
+    fonts,
+    defaultSize: fontSizes.normal,
+    defaultColor: hexToRGB(palette.text),
+    continuationTitle: `${labels.title} (${t.continuation})`,
+    continuationSuffix: ` (${t.continuation})`,
+    continuedMarker: t.continued,
+    sectionStyle: { size: fontSizes.section, color: hexToRGB(palette.section) },
+  });
 
-  // Helper function to draw a horizontal line
-  const drawLine = () => {
-    protocolPage.drawLine({
-      start: { x: margin, y },
-      end: { x: pageWidth - margin, y },
-      thickness: 0.5,
-      color: rgb(0.8, 0.8, 0.8),
-    });
-    y -= 10;
-  };
+  const small = fontSizes.small;
+  const muted = hexToRGB(palette.muted);
+  const totvsHash = generateTotvsHash(documentHash);
 
-  // Helper function to draw text and return new Y position
-  const drawText = (
-    text: string,
-    options: {
-      size?: number;
-      fontType?: 'normal' | 'bold';
-      color?: [number, number, number];
-      indent?: number;
-    } = {}
-  ) => {
-    const { size = PROTOCOL_CONFIG.NORMAL_FONT_SIZE, fontType = 'normal', color = [0.2, 0.2, 0.2], indent = 0 } = options;
-    const usedFont = fontType === 'bold' ? boldFont : font;
-    
-    protocolPage.drawText(text, {
-      x: margin + indent,
-      y,
-      size,
-      font: usedFont,
-      color: rgb(color[0], color[1], color[2]),
-    });
-    y -= PROTOCOL_CONFIG.LINE_HEIGHT;
+  const endSection = () => {
+    layout.endSection();
+    layout.space(PROTOCOL_CONFIG.SECTION_SPACING);
+    layout.rule();
+    layout.space(10);
   };
 
   // ============ HEADER ============
-  // Title
-  drawText('Protocolo de Assinaturas', { size: PROTOCOL_CONFIG.TITLE_FONT_SIZE, fontType: 'bold', color: [0.1, 0.3, 0.5] });
-  y -= 5;
-  drawLine();
-  y -= 10;
-
-  // ============ DOCUMENT SECTION ============
-  drawText('Documento', { size: PROTOCOL_CONFIG.SUBTITLE_FONT_SIZE, fontType: 'bold', color: [0.2, 0.4, 0.6] });
-  y -= 5;
-
-  // Document name (envelope name)
-  const envelopeName = signatureLog.pdfMetadata.fileName.replace(/\.pdf$/i, '');
-  drawText(`Nome do envelope: ${envelopeName}`, { indent: 10 });
-
-  // Author (first signer or generic)
-  const author = signatureLog.signatures.length > 0 
-    ? `${signatureLog.signatures[0].name}`
-    : 'Sistema Local';
-  drawText(`Autor: ${author}`, { indent: 10 });
-
-  // Status
-  const status = signatureLog.signatures.length > 0 ? 'Finalizado' : 'Pendente';
-  drawText(`Status: ${status}`, { indent: 10 });
-
-  // HASH SICFAR
-  drawText(`HASH SICFAR: ${totvsHash}`, { indent: 10, size: PROTOCOL_CONFIG.SMALL_FONT_SIZE });
-
-  // SHA256
-  drawText(`SHA256: ${documentHash}`, { indent: 10, size: PROTOCOL_CONFIG.SMALL_FONT_SIZE });
-
-  y -= PROTOCOL_CONFIG.SECTION_SPACING;
-  drawLine();
-  y -= 10;
-
-  // ============ SIGNATURES SECTION ============
-  drawText('Assinaturas', { size: PROTOCOL_CONFIG.SUBTITLE_FONT_SIZE, fontType: 'bold', color: [0.2, 0.4, 0.6] });
-  y -= 5;
-
-  if (signatureLog.signatures.length === 0) {
-    drawText('Nenhuma assinatura registrada.', { indent: 10, color: [0.5, 0.5, 0.5] });
-  } else {
-    for (const signature of signatureLog.signatures) {
-      // Check if we need a new page
-      if (y < margin + 150) {
-        // Create new page and continue
-        pdfDoc.insertPage(pdfDoc.getPageIndices().length, [pageWidth, pageHeight]);
-        y = pageHeight - margin;
-        // Note: for simplicity, we continue drawing on the first protocol page
-        // A full implementation would track and draw on the new page
+  const titleLines: LayoutLine[] = [[labels.title, { size: fontSizes.title, fontType: 'bold', color: hexToRGB(palette.title) }]];
+  if (template.organizationName) {
+    titleLines.push([template.organizationName, { size: fontSizes.section, color: muted }]);
+  }
+  // Titles larger than the line height need room above the next line
+  layout.keepTogether(titleLines, template.logo ? await createLogoAside(pdfDoc, template.logo) : undefined);
+  layout.space(5 + Math.max(0, fontSizes.title - lineHeight));
+  layout.rule();
+  layout.space(10);
+
+  const renderers: Record<ProtocolSectionId, () => Promise<void> | void> = {
+    // ============ DOCUMENT SECTION ============
+    document: () => {
+      layout.section(labels.documentSection);
+
+      // Document name (envelope name)
+      const envelopeName = signatureLog.pdfMetadata.fileName.replace(/\.pdf$/i, '');
+      layout.text(`${t.envelopeName}: ${envelopeName}`, { indent: 10 });
+
+      // Author informed for the envelope; logs without one show the local system
+      layout.text(`${t.author}: ${signatureLog.author ?? t.localSystem}`, { indent: 10 });
+
+      // Status of the signing workflow
+      layout.text(`${t.status}: ${t.workflowStatus(getWorkflowStatus(signatureLog))}`, { indent: 10 });
+
+      layout.text(`${labels.hashLabel}: ${totvsHash}`, { indent: 10, size: small });
+      layout.text(`SHA256: ${documentHash}`, { indent: 10, size: small });
+
+      endSection();
+    },
+
+    // ============ SIGNATURES SECTION ============
+    signatures: async () => {
+      layout.section(labels.signaturesSection);
+
+      if (signatureLog.signatures.length === 0) {
+        layout.text(t.noSignatures, { indent: 10, color: muted });
+      } else {
+        for (const group of groupSignaturesByRole(signatureLog.signatures)) {
+          for (const [index, signature] of group.signatures.entries()) {
+            // Each signature block is kept on a single page, the first one with the role heading
+            const lines: LayoutLine[] = [];
+            if (index === 0) {
+              lines.push([t.roleGroup(group.role), { fontType: 'bold', color: hexToRGB(palette.section) }]);
+            }
+
+            // Name and identity document (type, number and issuer)
+            const documentType = t.documentType(signature.documentType ?? 'cpf');
+            const signerDocument = formatSignerDocument(signature.cpf, signature.documentType, signature.documentIssuer);
+            lines.push([`${t.name}: ${signature.name} - ${documentType}: ${signerDocument}`, { indent: 10, fontType: 'bold' }]);
+
+            // Date
+            const formattedDate = formatDateTime(signature.timestamp, locale, DATE_FORMAT);
+            lines.push([`${t.date}: ${formattedDate}`, { indent: 10 }]);
+
+            // Trusted time issued by the TSA (RFC 3161)
+            if (signature.timestampToken) {
+              const tsaDate = formatDateTime(signature.timestampToken.genTime, locale, { ...DATE_FORMAT, timeZone: 'UTC' });
+              lines.push([`${t.trustedTimestamp}: ${tsaDate} UTC - ${t.authority}: ${signature.timestampToken.authority}`, { indent: 10, size: small }]);
+              lines.push([`${t.timestampSerial}: ${signature.timestampToken.serialNumber}`, { indent: 20, size: small, color: muted }]);
+              const verification = timestampStatus.get(signature.hash);
+              const trust = verification?.valid ? verification.trust : null;
+              const trustColor: [number, number, number] = trust === 'trusted' ? [0.1, 0.5, 0.2] : [0.7, 0.1, 0.1];
+              lines.push([t.timestampTrust(trust), { indent: 20, size: small, color: trustColor }]);
+            }
+
+            // Status
+            const status = signature.role ? t.signedAs(signature.role) : t.signedElectronically;
+            lines.push([`${t.status}: ${status}`, { indent: 10, color: [0.1, 0.5, 0.2] }]);
+
+            // Type of authentication: a certificate only counts when the PAdES signature of this file used it
+            const { certificate } = signature;
+            if (certificate && isSameCertificate(certificate, padesCertificate)) {
+              lines.push([`${t.authenticationType}: ${t.certificateAuthentication}`, { indent: 10, size: small }]);
+              lines.push([`${t.certificate}: ${certificate.commonName} - ${t.serial}: ${certificate.serialNumber}`, { indent: 10, size: small }]);
+            } else {
+              lines.push([`${t.authenticationType}: ${t.deviceAuthentication}`, { indent: 10, size: small }]);
+              if (certificate) {
+                lines.push([`${t.certificate}: ${certificate.commonName} - ${t.serial}: ${certificate.serialNumber} (${t.certificateNotApplied})`, { indent: 10, size: small, color: muted }]);
+              }
+            }
+
+            // Pages viewed on the preview before signing, with the time on each
+            if (signature.reading) {
+              const { reading } = signature;
+              const seconds = (ms: number) => formatNumber(ms / 1000, locale, { maximumFractionDigits: 1 });
+              const summary = t.readingSummary(reading.pages.length, reading.pageCount, seconds(getTotalReadingTime(reading)));
+              lines.push([`${t.reading}: ${summary}`, { indent: 10, size: small }]);
+              const pages = reading.pages.map((page) => t.readingPage(page.page, seconds(page.durationMs)));
+              for (let i = 0; i < pages.length; i += PROTOCOL_CONFIG.READING_PAGES_PER_LINE) {
+                const chunk = pages.slice(i, i + PROTOCOL_CONFIG.READING_PAGES_PER_LINE);
+                lines.push([chunk.join(' · '), { indent: 20, size: small, color: muted }]);
+              }
+            }
+
+            // Device ID
+            lines.push([`Device ID: ${signature.deviceId}`, { indent: 10, size: small }]);
+
+            // Device key (ECDSA P-256) and the signature of the hash
+            if (signature.devicePublicKey && signature.deviceSignature) {
+              const thumbprint = await getPublicKeyThumbprint(signature.devicePublicKey);
+              lines.push([`${t.deviceKey}: ${thumbprint}`, { indent: 10, size: small }]);
+              lines.push([`x: ${signature.devicePublicKey.x}`, { indent: 20, size: small, color: muted }]);
+              lines.push([`y: ${signature.devicePublicKey.y}`, { indent: 20, size: small, color: muted }]);
+              lines.push([`${t.deviceSignature}:`, { indent: 10, size: small }]);
+              lines.push([signature.deviceSignature, { indent: 20, size: small, color: muted }]);
+            }
+
+            // Individual signature hash
+            lines.push([`${t.signatureHash}: ${abbreviateHash(signature.hash, 16)}`, { indent: 10, size: small, color: muted }]);
+
+            // Link to the previous signature in the chain
+            lines.push([`${t.previousHash}: ${signature.previousHash ? abbreviateHash(signature.previousHash, 16) : t.notChained}`, { indent: 10, size: small, color: muted }]);
+
+            // Drawn signature next to the signer data
+            layout.keepTogether(lines, signature.handwritten && (await createHandwritingAside(pdfDoc, signature.handwritten)));
+            layout.space(10); // Space between signatures
+          }
+        }
+      }
+
+      // Refusals to sign, apart from the signatures so they are not read back as signers
+      const refusals = signatureLog.refusals ?? [];
+      for (const [index, refusal] of refusals.entries()) {
+        const lines: LayoutLine[] = [];
+        if (index === 0) {
+          lines.push([t.refusalsHeading, { fontType: 'bold', color: [0.7, 0.1, 0.1] }]);
+        }
+
+        const documentType = t.documentType(refusal.documentType ?? 'cpf');
+        const refuserDocument = formatSignerDocument(refusal.cpf, refusal.documentType, refusal.documentIssuer);
+        lines.push([`${t.refusedBy}: ${refusal.name} - ${documentType}: ${refuserDocument}`, { indent: 10, fontType: 'bold' }]);
+        lines.push([`${t.refusedAt}: ${formatDateTime(refusal.timestamp, locale, DATE_FORMAT)}`, { indent: 10 }]);
+        lines.push([`${t.refusalReason}: ${refusal.reason}`, { indent: 10, color: [0.7, 0.1, 0.1] }]);
+        lines.push([`Device ID: ${refusal.deviceId}`, { indent: 10, size: small }]);
+        if (refusal.devicePublicKey && refusal.deviceSignature) {
+          const thumbprint = await getPublicKeyThumbprint(refusal.devicePublicKey);
+          lines.push([`${t.deviceKey}: ${thumbprint}`, { indent: 10, size: small }]);
+        }
+        lines.push([`${t.refusalHash}: ${abbreviateHash(refusal.hash, 16)}`, { indent: 10, size: small, color: muted }]);
+        lines.push([`${t.previousHash}: ${abbreviateHash(refusal.previousHash, 16)}`, { indent: 10, size: small, color: muted }]);
+
+        layout.keepTogether(lines);
+        layout.space(10);
+      }
+
+      // Read back by the verifier to detect removed signers
+      layout.text(`${t.signatureCount}: ${signatureLog.signatures.length}`, { indent: 10, size: small, color: muted });
+
+      endSection();
+    },
+
+    // ============ AUTHENTICITY SECTION ============
+    authenticity: () => {
+      layout.section(labels.authenticitySection);
+
+      layout.keepTogether([[t.verifyInstructions, { indent: 10, size: small }]]);
+      layout.space(5);
+      layout.box(`${labels.hashLabel}: ${totvsHash}`, { size: small, fontType: 'bold' });
+
+      // Signature chain status
+      if (signatureLog.signatures.length > 0 || signatureLog.refusals?.length) {
+        if (chainStatus.valid) {
+          layout.text(t.chainIntact(chainStatus.length), { size: small, color: [0.1, 0.5, 0.2] });
+        } else if (chainStatus.failure) {
+          layout.text(t.chainBroken(chainStatus.failure), { size: small, color: [0.7, 0.1, 0.1] });
+        }
+        layout.space(5);
+      }
+
+      // Which certificate, if any, signs the file itself
+      if (padesCertificate) {
+        layout.text(t.padesSigner(padesCertificate.commonName, padesCertificate.serialNumber), { size: small });
+        layout.space(5);
+      } else if (signatureLog.signatures.some((signature) => signature.certificate)) {
+        layout.text(t.noPadesSignature, { size: small, color: muted });
+        layout.space(5);
+      }
+
+      endSection();
+    },
+
+    // ============ AUDIT TRAIL SECTION ============
+    audit: () => {
+      layout.section(labels.auditSection);
+
+      const events = signatureLog.auditTrail ?? [];
+      if (events.length === 0) {
+        layout.text(t.noAuditEvents, { indent: 10, color: muted });
+      }
+      for (const event of events) {
+        const description = t.auditEvent(event.type, event.details ?? {});
+        layout.keepTogether([
+          [`${formatDateTime(event.timestamp, locale, DATE_FORMAT)} - ${description}`, { indent: 10, size: small }],
+          [`Device ID: ${event.deviceId}`, { indent: 20, size: small, color: muted }],
+        ]);
       }
 
-      // Name and CPF
-      drawText(`Nome: ${signature.name} - CPF/CNPJ: ${formatCPF(signature.cpf)}`, { indent: 10, fontType: 'bold' });
-
-      // Date
-      const signDate = new Date(signature.timestamp);
-      const formattedDate = signDate.toLocaleString('pt-BR', {
-        day: '2-digit',
-        month: '2-digit',
-        year: 'numeric',
-        hour: '2-digit',
-        minute: '2-digit',
-        second: '2-digit',
+      // Hash links between events; trails recorded before chaining have none to check
+      if (events.some((event) => event.hash)) {
+        const trailStatus = verifyAuditTrail(events);
+        layout.space(5);
+        if (trailStatus.valid) {
+          layout.text(t.auditTrailIntact(trailStatus.length), { indent: 10, size: small, color: [0.1, 0.5, 0.2] });
+        } else if (trailStatus.failure) {
+          layout.text(t.auditTrailBroken(trailStatus.failure), { indent: 10, size: small, color: [0.7, 0.1, 0.1] });
+        }
+      }
+
+      layout.space(5);
+      layout.text(t.auditNote, { indent: 10, size: small, color: muted });
+
+      endSection();
+    },
+
+    // QR code with the same identifiers, for paper copies
+    qrcode: () => {
+      layout.ensureSpace(lineHeight * 2 + PROTOCOL_CONFIG.QR_SIZE);
+      layout.text(t.scanQRCode, { indent: 10, size: small });
+      layout.figure(PROTOCOL_CONFIG.QR_SIZE, (page, x, y) => {
+        drawQRCode(page, qrPayload, { x: x + 10, y, size: PROTOCOL_CONFIG.QR_SIZE });
       });
-      drawText(`Data: ${formattedDate}`, { indent: 10 });
+      layout.space(10);
+    },
+
+    // Footer note and document information
+    details: () => {
+      const mutedStyle: TextStyle = { size: small, color: muted };
+      layout.keepTogether([
+        [labels.footer, mutedStyle],
+        [`${t.generatedAt}: ${formatDateTime(new Date(), locale)}`, mutedStyle],
+      ]);
+
+      layout.space(20);
+      layout.keepTogether([
+        [`${t.originalFile}: ${signatureLog.pdfMetadata.fileName}`, mutedStyle],
+        [`${t.size}: ${formatNumber(signatureLog.pdfMetadata.fileSize / 1024, locale, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} KB`, mutedStyle],
+      ]);
+      layout.space(10);
+    },
 
-      // Status
-      drawText(`Status: Assinado eletronicamente`, { indent: 10, color: [0.1, 0.5, 0.2] });
+    // Custom legal text, one paragraph per line break
+    disclaimer: () => {
+      if (!template.disclaimer.trim()) return;
+      layout.section(labels.disclaimerSection);
+      for (const paragraph of template.disclaimer.split(/\r?\n/)) {
+        if (paragraph.trim()) layout.text(paragraph.trim(), { indent: 10, size: small });
+        else layout.space(lineHeight / 2);
+      }
+      endSection();
+    },
+  };
+
+  for (const section of template.sections) {
+    await renderers[section]();
+  }
 
-      // Type of authentication
-      drawText(`Tipo de Autenticação: Utilizando identificador único do dispositivo`, { indent: 10, size: PROTOCOL_CONFIG.SMALL_FONT_SIZE });
+  layout.finish();
+}
+
+/**
+ * Fills the labels left blank in the template with the texts of the protocol language
+ * @param labels - Template labels
+ * @param t - Texts of the protocol pages
+ * @returns Labels printed on the protocol
+ */
+function resolveProtocolLabels(labels: ProtocolLabels, t: ProtocolMessages): ProtocolLabels {
+  return {
+    title: labels.title || t.title,
+    hashLabel: labels.hashLabel || t.hashLabel,
+    documentSection: labels.documentSection || t.documentSection,
+    signaturesSection: labels.signaturesSection || t.signaturesSection,
+    authenticitySection: labels.authenticitySection || t.authenticitySection,
+    auditSection: labels.auditSection || t.auditSection,
+    disclaimerSection: labels.disclaimerSection || t.disclaimerSection,
+    footer: labels.footer || t.footer,
+  };
+}
+
+/**
+ * Builds the machine-readable manifest for a signature log
+ * @param signatureLog - Complete signature log
+ * @param documentHash - Document hash (SHA256)
+ * @param protocol - Language and labels read back by the verifier, recorded when not the pt-BR defaults
+ * @returns Signature manifest
+ */
+export function createSignatureManifest(
+  signatureLog: SignatureLog,
+  documentHash: string,
+  protocol?: SignatureManifest['protocol']
+): SignatureManifest {
+  const { title, hashLabel } = getMessages(DEFAULT_LOCALE).protocol;
+  const customProtocol =
+    protocol &&
+    (protocol.title !== title ||
+      protocol.hashLabel !== hashLabel ||
+      (protocol.locale ?? DEFAULT_LOCALE) !== DEFAULT_LOCALE);
+
+  return {
+    format: SIGNATURE_MANIFEST_FORMAT,
+    version: SIGNATURE_MANIFEST_VERSION,
+    hashAlgorithm: 'SHA-256',
+    documentId: signatureLog.documentId,
+    documentHash,
+    pdfMetadata: signatureLog.pdfMetadata,
+    signatures: signatureLog.signatures,
+    genesisHash: signatureLog.genesisHash,
+    ...(signatureLog.author && { author: signatureLog.author }),
+    ...(signatureLog.refusals?.length && { refusals: signatureLog.refusals }),
+    ...(signatureLog.auditTrail?.length && { auditTrail: signatureLog.auditTrail }),
+    ...(customProtocol && { protocol }),
+    createdAt: signatureLog.createdAt,
+    updatedAt: signatureLog.updatedAt,
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Attaches the signature manifest to the PDF as an embedded JSON file
+ * @param pdfDoc - PDF document
+ * @param manifest - Signature manifest
+ */
+async function embedSignatureManifest(
+  pdfDoc: PDFDocument,
+  manifest: SignatureManifest
+): Promise<void> {
+  const manifestBytes = new TextEncoder().encode(JSON.stringify(manifest, null, 2));
+  const generatedAt = new Date(manifest.generatedAt);
 
-      // Device ID
-      drawText(`Device ID: ${signature.deviceId}`, { indent: 10, size: PROTOCOL_CONFIG.SMALL_FONT_SIZE });
+  await pdfDoc.attach(manifestBytes, MANIFEST_FILE_NAME, {
+    mimeType: 'application/json',
+    description: 'Manifesto de assinaturas eletrônicas',
+    creationDate: generatedAt,
+    modificationDate: generatedAt,
+  });
+}
 
-      // Individual signature hash
-      drawText(`Hash da Assinatura: ${abbreviateHash(signature.hash, 16)}`, { indent: 10, size: PROTOCOL_CONFIG.SMALL_FONT_SIZE, color: [0.4, 0.4, 0.4] });
+/**
+ * Walks an EmbeddedFiles name tree looking for a file specification
+ * @param node - Name tree node
+ * @param fileName - Name of the embedded file
+ * @returns File specification dictionary or null if not found
+ */
+function findEmbeddedFileSpec(node: PDFDict, fileName: string): PDFDict | null {
+  const names = node.lookupMaybe(PDFName.of('Names'), PDFArray);
+  if (names) {
+    for (let i = 0; i + 1 < names.size(); i += 2) {
+      const key = names.lookup(i);
+      if (
+        (key instanceof PDFString || key instanceof PDFHexString) &&
+        key.decodeText() === fileName
+      ) {
+        return names.lookupMaybe(i + 1, PDFDict) ?? null;
+      }
+    }
+  }
 
-      y -= 10; // Space between signatures
+  const kids = node.lookupMaybe(PDFName.of('Kids'), PDFArray);
+  if (kids) {
+    for (let i = 0; i < kids.size(); i++) {
+      const kid = kids.lookupMaybe(i, PDFDict);
+      const found = kid ? findEmbeddedFileSpec(kid, fileName) : null;
+      if (found) return found;
     }
   }
 
-  y -= PROTOCOL_CONFIG.SECTION_SPACING;
-  drawLine();
-  y -= 10;
-
-  // ============ AUTHENTICITY SECTION ============
-  drawText('Autenticidade', { size: PROTOCOL_CONFIG.SUBTITLE_FONT_SIZE, fontType: 'bold', color: [0.2, 0.4, 0.6] });
-  y -= 5;
-
-  drawText('Para verificar a autenticidade do documento, utilize o hash abaixo:', { indent: 10, size: PROTOCOL_CONFIG.SMALL_FONT_SIZE });
-  y -= 5;
-
-  // Draw hash in a box
-  const boxY = y - 25;
-  protocolPage.drawRectangle({
-    x: margin + 10,
-    y: boxY,
-    width: maxWidth - 20,
-    height: 30,
-    borderColor: rgb(0.6, 0.6, 0.6),
-    borderWidth: 1,
-    color: rgb(0.97, 0.97, 0.97),
-  });
+  return null;
+}
 
-  protocolPage.drawText(`HASH SICFAR: ${totvsHash}`, {
-    x: margin + 20,
-    y: boxY + 10,
-    size: PROTOCOL_CONFIG.SMALL_FONT_SIZE,
-    font: boldFont,
-    color: rgb(0.2, 0.2, 0.2),
-  });
+/**
+ * Extracts and validates the signature manifest embedded by finalizePDFWithProtocol
+ * @param pdfBytes - Finalized PDF bytes
+ * @returns Signature manifest or null if the PDF has no manifest
+ */
+export async function extractSignatureManifest(
+  pdfBytes: Uint8Array
+): Promise<SignatureManifest | null> {
+  const pdfDoc = await loadPDF(pdfBytes);
+
+  const names = pdfDoc.catalog.lookupMaybe(PDFName.of('Names'), PDFDict);
+  const embeddedFiles = names?.lookupMaybe(PDFName.of('EmbeddedFiles'), PDFDict);
+  if (!embeddedFiles) return null;
+
+  const fileSpec = findEmbeddedFileSpec(embeddedFiles, MANIFEST_FILE_NAME);
+  const stream = fileSpec?.lookupMaybe(PDFName.of('EF'), PDFDict)?.lookup(PDFName.of('F'));
+  if (!(stream instanceof PDFRawStream)) return null;
 
-  y = boxY - 20;
+  let data: unknown;
+  try {
+    const manifestBytes = decodePDFRawStream(stream).decode();
+    data = JSON.parse(new TextDecoder().decode(manifestBytes));
+  } catch (error) {
+    console.error('Error reading signature manifest:', error);
+    throw new Error(getMessages().errors.manifestCorrupted);
+  }
 
-  // Footer note
-  drawText('Este documento foi assinado eletronicamente.', { size: PROTOCOL_CONFIG.SMALL_FONT_SIZE, color: [0.5, 0.5, 0.5] });
-  drawText(`Gerado em: ${new Date().toLocaleString('pt-BR')}`, { size: PROTOCOL_CONFIG.SMALL_FONT_SIZE, color: [0.5, 0.5, 0.5] });
+  const result = signatureManifestSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const { errors } = getMessages();
+    throw new Error(errors.manifestInvalid(errors.schemaIssue(issue.path.join('.'), issue.message)));
+  }
 
-  // Document information
-  y -= 20;
-  drawText(`Arquivo original: ${signatureLog.pdfMetadata.fileName}`, { size: PROTOCOL_CONFIG.SMALL_FONT_SIZE, color: [0.5, 0.5, 0.5] });
-  drawText(`Tamanho: ${(signatureLog.pdfMetadata.fileSize / 1024).toFixed(2)} KB`, { size: PROTOCOL_CONFIG.SMALL_FONT_SIZE, color: [0.5, 0.5, 0.5] });
-  drawText(`Total de assinaturas: ${signatureLog.signatures.length}`, { size: PROTOCOL_CONFIG.SMALL_FONT_SIZE, color: [0.5, 0.5, 0.5] });
+  return result.data;
 }
 
 /**
- * Finalizes a PDF with protocol page and hash headers on all pages
+ * Finalizes a PDF with visual signature stamps, initials, protocol page, hash headers on all pages and
+ * an embedded signature manifest, optionally signed with a PAdES signature
  * @param pdfBytes - Original PDF bytes
  * @param signatureLog - Complete signature log
+ * @param options - Finalization options (PAdES certificate)
  * @returns New PDF bytes with protocol page and headers
  */
 export async function finalizePDFWithProtocol(
   pdfBytes: Uint8Array,
-  signatureLog: SignatureLog
+  signatureLog: SignatureLog,
+  options: FinalizeOptions = {}
 ): Promise<Uint8Array> {
   const pdfDoc = await loadPDF(pdfBytes);
   
@@ -373,14 +878,73 @@ export async function finalizePDFWithProtocol(
   const hashArray = Array.from(new Uint8Array(hashBuffer));
   const documentHash = hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
 
-  // Embed fonts
-  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  // Protocol pages in another language also carry the pt-BR texts; stamps and headers use the language alone
+  const locale = signatureLog.protocolLocale ?? DEFAULT_LOCALE;
+  const messages = getMessages(locale).protocol;
+  const protocolMessages = getProtocolMessages(locale);
+  const baseTemplate = options.template ?? DEFAULT_PROTOCOL_TEMPLATE;
+  const template = { ...baseTemplate, labels: resolveProtocolLabels(baseTemplate.labels, protocolMessages) };
+
+  // Embed fonts able to draw every name and file name in the log, and the template and protocol texts
+  const { organizationName, labels, disclaimer } = template;
+  const fonts = await embedUnicodeFonts(
+    pdfDoc,
+    JSON.stringify([signatureLog, organizationName, labels, disclaimer, protocolMessages])
+  );
+
+  // Verify the signature chain against the document bytes
+  const chainStatus = await verifySignatureChain(signatureLog, pdfBytes);
+
+  // Timestamps are printed with their trust level, so local or unknown TSAs are not taken as trusted time
+  const timestampStatus = new Map<string, TimestampVerification>();
+  for (const { hash, timestampToken } of signatureLog.signatures) {
+    if (timestampToken) timestampStatus.set(hash, await verifyTimestampToken(timestampToken, hash));
+  }
 
-  // Create protocol page as first page
-  await createProtocolPage(pdfDoc, signatureLog, documentHash);
+  // Visual stamps and initials go on the original pages, before the protocol shifts their indexes
+  drawSignatureStamps(pdfDoc, signatureLog.signatures, fonts, locale);
+  await drawInitialsOnAllPages(pdfDoc, signatureLog.signatures, fonts, messages);
+
+  // Verification data encoded in the QR codes: the full identifiers on the protocol, a short form on every page
+  const verificationFields = {
+    documentId: signatureLog.documentId,
+    sha256: documentHash,
+    hashSicfar: generateTotvsHash(documentHash),
+  };
+  const verificationUrlTemplate = options.verificationUrlTemplate ?? getVerificationUrlTemplate();
+  const qrPayload = createVerificationPayload(verificationFields, verificationUrlTemplate);
+
+  // Create protocol pages at the beginning of the document
+  await createProtocolPages(
+    pdfDoc,
+    signatureLog,
+    documentHash,
+    chainStatus,
+    timestampStatus,
+    options.pades?.info ?? null,
+    fonts,
+    qrPayload,
+    template,
+    locale,
+    protocolMessages
+  );
 
   // Add hash header to all pages (including the new protocol page)
-  await drawHashHeaderOnAllPages(pdfDoc, documentHash, font);
+  const pageQrPayload = createPageVerificationPayload(verificationFields, verificationUrlTemplate);
+  await drawHashHeaderOnAllPages(pdfDoc, documentHash, fonts.normal, pageQrPayload, messages);
+
+  // Embed the machine-readable manifest with the full signature log
+  await embedSignatureManifest(
+    pdfDoc,
+    createSignatureManifest(signatureLog, documentHash, { title: labels.title, hashLabel: labels.hashLabel, locale })
+  );
+
+  // PAdES: reserve the /Sig field on the protocol page, then sign the serialized bytes
+  if (options.pades) {
+    await addSignaturePlaceholder(pdfDoc, options.pades, { pageIndex: 0, font: fonts.normal.primary, locale });
+    const placeholderBytes = await pdfDoc.save({ useObjectStreams: false });
+    return signPDFPlaceholder(new Uint8Array(placeholderBytes), options.pades);
+  }
 
   // Save and return the modified PDF
   const modifiedPdfBytes = await pdfDoc.save();
@@ -388,22 +952,168 @@ export async function finalizePDFWithProtocol(
 }
 
 /**
- * Applies a signature stamp to a PDF document
- * Note: The visual stamp has been removed. Signature data is now only shown
- * in the protocol page that is generated when downloading the finalized PDF.
- * @param pdfBytes - Original PDF bytes
- * @param signature - Signature data to apply
- * @param existingSignatures - Number of existing signatures
- * @returns New PDF bytes (unchanged, stamp removed)
+ * Builds the transformation from a box as displayed to PDF user space.
+ * Content drawn through it stays upright as the page is displayed, whatever its /Rotate.
+ * @param placement - Box rectangle in user space of the unrotated page
+ * @param rotation - Clockwise page rotation
+ * @returns Matrix and size of the box as displayed
  */
-export async function applySignatureStamp(
-  pdfBytes: Uint8Array,
-  _signature: SignatureData,
-  _existingSignatures: number = 0
-): Promise<Uint8Array> {
-  // Simply return the original PDF bytes without adding any visual stamp
-  // The signature information will be shown in the protocol page when downloading
-  return pdfBytes;
+function getUprightTransform(
+  placement: Pick<SignaturePlacement, 'x' | 'y' | 'width' | 'height'>,
+  rotation: PageRotation
+): { matrix: [number, number, number, number, number, number]; width: number; height: number } {
+  const { x, y, width, height } = placement;
+  switch (rotation) {
+    case 90:
+      return { matrix: [0, 1, -1, 0, x + width, y], width: height, height: width };
+    case 180:
+      return { matrix: [-1, 0, 0, -1, x + width, y + height], width, height };
+    case 270:
+      return { matrix: [0, -1, 1, 0, x, y + height], width: height, height: width };
+    default:
+      return { matrix: [1, 0, 0, 1, x, y], width, height };
+  }
+}
+
+/**
+ * Draws the visual stamp of each signature that has a placement on the page
+ * chosen by the signer: name, CPF/CNPJ, date and abbreviated signature hash
+ * @param pdfDoc - PDF document (before the protocol pages are inserted)
+ * @param signatures - Signatures of the log
+ * @param fonts - Embedded Unicode fonts
+ * @param locale - Protocol language
+ */
+function drawSignatureStamps(
+  pdfDoc: PDFDocument,
+  signatures: SignatureData[],
+  fonts: UnicodeFonts,
+  locale: Locale
+): void {
+  const t = getMessages(locale).protocol;
+  const pages = pdfDoc.getPages();
+
+  for (const signature of signatures) {
+    const { placement } = signature;
+    // Placements pointing outside the document (imported logs) are ignored
+    if (!placement || placement.pageIndex >= pages.length) continue;
+
+    const page = pages[placement.pageIndex];
+    const { matrix, width, height } = getUprightTransform(placement, normalizeRotation(page.getRotation().angle));
+
+    const formattedDate = formatDateTime(signature.timestamp, locale, { ...DATE_FORMAT, second: undefined });
+    const lines: [string, FontStack][] = [
+      [t.stampSignedBy, fonts.normal],
+      [signature.name, fonts.bold],
+      [
+        `${t.documentType(signature.documentType ?? 'cpf')}: ` +
+          formatSignerDocument(signature.cpf, signature.documentType, signature.documentIssuer),
+        fonts.normal,
+      ],
+      [`${t.date}: ${formattedDate}`, fonts.normal],
+      [`Hash: ${abbreviateHash(signature.hash, 8)}`, fonts.normal],
+    ];
+
+    page.pushOperators(pushGraphicsState(), concatTransformationMatrix(...matrix));
+
+    page.drawRectangle({
+      x: 0,
+      y: 0,
+      width,
+      height,
+      color: rgb(0.95, 0.97, 1),
+      borderColor: rgb(0.2, 0.4, 0.7),
+      borderWidth: 1,
+      opacity: 0.9,
+    });
+
+    // Lines share the box height; long names shrink to fit the width
+    const lineHeight = (height - STAMP_CONFIG.PADDING * 2) / lines.length;
+    lines.forEach(([text, font], index) => {
+      const maxWidth = width - STAMP_CONFIG.PADDING * 2;
+      const fullSize = Math.min(STAMP_CONFIG.FONT_SIZE, lineHeight * 0.8);
+      const size = Math.min(fullSize, (fullSize * maxWidth) / Math.max(font.widthOfTextAtSize(text, fullSize), 1));
+      font.drawText(page, text, {
+        x: STAMP_CONFIG.PADDING,
+        y: height - STAMP_CONFIG.PADDING - lineHeight * (index + 1) + (lineHeight - size) / 2,
+        size,
+        color: index === 1 ? rgb(0.1, 0.2, 0.4) : rgb(0.3, 0.3, 0.3),
+      });
+    });
+
+    page.pushOperators(popGraphicsState());
+  }
+}
+
+/**
+ * Draws the initials (rubricas) of every signer in a footer strip added below the
+ * content of each page
+ * @param pdfDoc - PDF document (before the protocol pages are inserted)
+ * @param signatures - Signatures of the log
+ * @param fonts - Embedded Unicode fonts
+ * @param messages - Texts in the protocol language
+ */
+async function drawInitialsOnAllPages(
+  pdfDoc: PDFDocument,
+  signatures: SignatureData[],
+  fonts: UnicodeFonts,
+  messages: ProtocolMessages
+): Promise<void> {
+  const allInitials = signatures.flatMap((signature) => (signature.initials ? [signature.initials] : []));
+  if (allInitials.length === 0) return;
+
+  // Drawn initials are embedded once and reused on every page
+  const items = await Promise.all(
+    allInitials.map(async (initials) =>
+      initials.kind === 'text'
+        ? {
+            kind: 'text' as const,
+            text: initials.text,
+            width: fonts.bold.widthOfTextAtSize(initials.text, INITIALS_CONFIG.TEXT_SIZE),
+          }
+        : {
+            kind: 'drawn' as const,
+            image: await pdfDoc.embedPng(base64ToBytes(initials.drawing.image)),
+            width: INITIALS_CONFIG.IMAGE_WIDTH,
+          }
+    )
+  );
+
+  const label = `${messages.initials}:`;
+  const labelWidth = fonts.normal.widthOfTextAtSize(label, INITIALS_CONFIG.LABEL_SIZE);
+  const itemsWidth = items.reduce((total, item) => total + item.width, 0) + INITIALS_CONFIG.GAP * (items.length - 1);
+
+  for (const page of pdfDoc.getPages()) {
+    const strip = addPageStrip(page, INITIALS_CONFIG.STRIP_HEIGHT, 'bottom');
+    const { matrix, width, height } = getUprightTransform(strip, normalizeRotation(page.getRotation().angle));
+
+    // Many signers on a narrow page: every item shrinks by the same factor
+    const start = INITIALS_CONFIG.PADDING + labelWidth + INITIALS_CONFIG.GAP;
+    const factor = Math.min(1, (width - start - INITIALS_CONFIG.PADDING) / itemsWidth);
+
+    page.pushOperators(pushGraphicsState(), concatTransformationMatrix(...matrix));
+
+    page.drawRectangle({ x: 0, y: 0, width, height, color: rgb(0.95, 0.95, 0.95) });
+    fonts.normal.drawText(page, label, {
+      x: INITIALS_CONFIG.PADDING,
+      y: (height - INITIALS_CONFIG.LABEL_SIZE) / 2,
+      size: INITIALS_CONFIG.LABEL_SIZE,
+      color: rgb(0.5, 0.5, 0.5),
+    });
+
+    let x = start;
+    for (const item of items) {
+      if (item.kind === 'text') {
+        const size = INITIALS_CONFIG.TEXT_SIZE * factor;
+        fonts.bold.drawText(page, item.text, { x, y: (height - size) / 2, size, color: rgb(0.1, 0.2, 0.4) });
+      } else {
+        const fitted = item.image.scaleToFit(INITIALS_CONFIG.IMAGE_WIDTH * factor, (height - 4) * factor);
+        page.drawImage(item.image, { x, y: (height - fitted.height) / 2, width: fitted.width, height: fitted.height });
+      }
+      x += (item.width + INITIALS_CONFIG.GAP) * factor;
+    }
+
+    page.pushOperators(popGraphicsState());
+  }
 }
 
 /**
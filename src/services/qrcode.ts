@@ -0,0 +1,88 @@
+import QRCode from 'qrcode';
+import { rgb, type PDFPage } from 'pdf-lib';
+
+export interface VerificationPayloadFields {
+  documentId: string;
+  /** Document hash (SHA256, hex) */
+  sha256: string;
+  /** HASH SICFAR (dashed form of the SHA256 prefix) */
+  hashSicfar: string;
+}
+
+// Modules of blank margin around the symbol (the spec recommends 4, 2 is enough on a white page)
+const QUIET_ZONE = 2;
+
+// Hex digits of the SHA256 kept in the page QR codes (64 bits)
+const PAGE_HASH_LENGTH = 16;
+
+/**
+ * Returns the verification URL template: VITE_VERIFICATION_URL_TEMPLATE when set
+ * @returns Template with {documentId}, {sha256} and {hashSicfar} placeholders, or null
+ */
+export function getVerificationUrlTemplate(): string | null {
+  return import.meta.env.VITE_VERIFICATION_URL_TEMPLATE || null;
+}
+
+/**
+ * Builds the text encoded in the verification QR codes.
+ * With a URL template the placeholders are replaced by the URL-encoded values;
+ * without one the fields are encoded as uppercase text, which fits the compact
+ * alphanumeric QR mode (UUIDs and hex hashes are case-insensitive).
+ * @param fields - Document identifiers
+ * @param urlTemplate - Optional verification URL template
+ * @returns QR code payload
+ */
+export function createVerificationPayload(fields: VerificationPayloadFields, urlTemplate?: string | null): string {
+  if (urlTemplate) {
+    return urlTemplate
+      .replace(/\{documentId\}/g, encodeURIComponent(fields.documentId))
+      .replace(/\{sha256\}/g, encodeURIComponent(fields.sha256))
+      .replace(/\{hashSicfar\}/g, encodeURIComponent(fields.hashSicfar));
+  }
+
+  return `DOC:${fields.documentId} SHA256:${fields.sha256} SICFAR:${fields.hashSicfar}`.toUpperCase();
+}
+
+/**
+ * Builds the shorter text encoded in the QR code of every page: the verification URL
+ * when there is a template, otherwise the document ID and the start of the SHA256,
+ * which keep the symbol small enough to be drawn with large modules in the page header
+ * @param fields - Document identifiers
+ * @param urlTemplate - Optional verification URL template
+ * @returns QR code payload
+ */
+export function createPageVerificationPayload(fields: VerificationPayloadFields, urlTemplate?: string | null): string {
+  if (urlTemplate) return createVerificationPayload(fields, urlTemplate);
+  return `DOC:${fields.documentId} SHA256:${fields.sha256.slice(0, PAGE_HASH_LENGTH)}`.toUpperCase();
+}
+
+/**
+ * Draws a QR code as vector modules on a white square
+ * @param page - Target page
+ * @param text - Encoded text
+ * @param options - Bottom-left corner and side length (quiet zone included), in PDF units
+ */
+export function drawQRCode(page: PDFPage, text: string, options: { x: number; y: number; size: number }): void {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel: 'L' });
+  const count = modules.size + QUIET_ZONE * 2;
+  const scale = options.size / count;
+
+  // One path with a rectangle per horizontal run of dark modules
+  let path = '';
+  for (let row = 0; row < modules.size; row++) {
+    let col = 0;
+    while (col < modules.size) {
+      if (!modules.get(row, col)) {
+        col++;
+        continue;
+      }
+      const start = col;
+      while (col < modules.size && modules.get(row, col)) col++;
+      path += `M${start + QUIET_ZONE} ${row + QUIET_ZONE}h${col - start}v1h${start - col}z`;
+    }
+  }
+
+  page.drawRectangle({ x: options.x, y: options.y, width: options.size, height: options.size, color: rgb(1, 1, 1) });
+  // SVG paths grow downwards from the given origin, so start at the top-left corner
+  page.drawSvgPath(path, { x: options.x, y: options.y + options.size, scale, color: rgb(0, 0, 0) });
+}
@@ -0,0 +1,151 @@
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import forge from 'node-forge';
+import { getMessages } from '@/i18n';
+import { createSignedData } from './cms';
+import {
+  createLocalTimestampAuthority,
+  requestTimestamp,
+  setTrustedTimestampCertificates,
+  verifyTimestampToken,
+  type TimestampAuthority,
+} from './timestamp';
+
+const asn1 = forge.asn1;
+const HASH = 'ab'.repeat(32);
+const TST_INFO_OID = '1.2.840.113549.1.9.16.1.4';
+const TSA_POLICY = '1.2.3.4';
+
+interface TestCertificate {
+  certificate: forge.pki.Certificate;
+  privateKey: forge.pki.rsa.PrivateKey;
+}
+
+/**
+ * Creates an RSA certificate valid from yesterday to tomorrow
+ */
+function createCertificate(
+  commonName: string,
+  extensions: object[],
+  issuer?: TestCertificate
+): TestCertificate {
+  const keys = forge.pki.rsa.generateKeyPair(1024);
+  const certificate = forge.pki.createCertificate();
+  certificate.publicKey = keys.publicKey;
+  certificate.serialNumber = forge.util.bytesToHex(forge.random.getBytesSync(8)).replace(/^[89a-f]/, '1');
+  certificate.validity.notBefore = new Date(Date.now() - 86_400_000);
+  certificate.validity.notAfter = new Date(Date.now() + 86_400_000);
+  certificate.setSubject([{ name: 'commonName', value: commonName }]);
+  certificate.setIssuer(issuer ? issuer.certificate.subject.attributes : [{ name: 'commonName', value: commonName }]);
+  certificate.setExtensions(extensions);
+  certificate.sign(issuer?.privateKey ?? keys.privateKey, forge.md.sha256.create());
+  return { certificate, privateKey: keys.privateKey };
+}
+
+/**
+ * TSA signing with a certificate issued by a CA, like a real one
+ */
+function createIssuedTimestampAuthority(tsa: TestCertificate, ca: TestCertificate): TimestampAuthority {
+  return {
+    name: 'TSA de teste',
+    async send(requestBytes) {
+      const request = asn1.fromDer(forge.util.binary.raw.encode(requestBytes));
+      const [, imprint, nonce] = request.value as forge.asn1.Asn1[];
+
+      const tstInfo = asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+        asn1.create(asn1.Class.UNIVERSAL, asn1.Type.INTEGER, false, asn1.integerToDer(1).getBytes()),
+        asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OID, false, asn1.oidToDer(TSA_POLICY).getBytes()),
+        imprint,
+        asn1.create(asn1.Class.UNIVERSAL, asn1.Type.INTEGER, false, asn1.integerToDer(42).getBytes()),
+        asn1.create(asn1.Class.UNIVERSAL, asn1.Type.GENERALIZEDTIME, false, asn1.dateToGeneralizedTime(new Date())),
+        nonce,
+      ]);
+      const token = createSignedData(
+        { privateKey: tsa.privateKey, certificate: tsa.certificate, chain: [ca.certificate] },
+        {
+          content: asn1.toDer(tstInfo).getBytes(),
+          encapsulate: true,
+          contentType: TST_INFO_OID,
+          includeSigningCertificate: true,
+        }
+      );
+
+      const response = asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+        asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+          asn1.create(asn1.Class.UNIVERSAL, asn1.Type.INTEGER, false, asn1.integerToDer(0).getBytes()),
+        ]),
+        asn1.fromDer(token),
+      ]);
+      return new Uint8Array(forge.util.binary.raw.decode(asn1.toDer(response).getBytes()));
+    },
+  };
+}
+
+describe('timestamp trust', () => {
+  let ca: TestCertificate;
+  let otherCa: TestCertificate;
+  let tsa: TestCertificate;
+
+  beforeAll(() => {
+    ca = createCertificate('Raiz de Teste', [{ name: 'basicConstraints', cA: true }]);
+    otherCa = createCertificate('Outra Raiz', [{ name: 'basicConstraints', cA: true }]);
+    tsa = createCertificate('TSA de Teste', [{ name: 'extKeyUsage', critical: true, timeStamping: true }], ca);
+  });
+
+  afterEach(() => {
+    setTrustedTimestampCertificates('');
+  });
+
+  it('flags tokens of the local TSA', async () => {
+    const token = await requestTimestamp(createLocalTimestampAuthority(), HASH);
+
+    const verification = await verifyTimestampToken(token, HASH);
+    expect(verification.valid).toBe(true);
+    expect(verification.trust).toBe('local');
+  });
+
+  it('does not trust a TSA without configured certificates', async () => {
+    const token = await requestTimestamp(createIssuedTimestampAuthority(tsa, ca), HASH);
+
+    const verification = await verifyTimestampToken(token, HASH);
+    expect(verification).toMatchObject({ valid: true, signer: 'TSA de Teste', trust: 'untrusted' });
+  });
+
+  it('trusts a TSA issued by a configured CA', async () => {
+    const token = await requestTimestamp(createIssuedTimestampAuthority(tsa, ca), HASH);
+    setTrustedTimestampCertificates(forge.pki.certificateToPem(ca.certificate));
+
+    expect((await verifyTimestampToken(token, HASH)).trust).toBe('trusted');
+  });
+
+  it('trusts a configured TSA certificate', async () => {
+    const token = await requestTimestamp(createIssuedTimestampAuthority(tsa, ca), HASH);
+    setTrustedTimestampCertificates(forge.pki.certificateToPem(tsa.certificate));
+
+    expect((await verifyTimestampToken(token, HASH)).trust).toBe('trusted');
+  });
+
+  it('does not trust a TSA issued by another CA', async () => {
+    const token = await requestTimestamp(createIssuedTimestampAuthority(tsa, ca), HASH);
+    setTrustedTimestampCertificates(forge.pki.certificateToPem(otherCa.certificate));
+
+    expect((await verifyTimestampToken(token, HASH)).trust).toBe('untrusted');
+  });
+
+  it('rejects a token for another hash', async () => {
+    const token = await requestTimestamp(createIssuedTimestampAuthority(tsa, ca), HASH);
+
+    expect(await verifyTimestampToken(token, 'cd'.repeat(32))).toMatchObject({
+      valid: false,
+      trust: null,
+      reason: 'imprint-mismatch',
+    });
+  });
+
+  it('rejects a TSA certificate not meant for time-stamping', async () => {
+    const signer = createCertificate('Sem Carimbo', [], ca);
+
+    await expect(requestTimestamp(createIssuedTimestampAuthority(signer, ca), HASH)).rejects.toThrow(
+      getMessages().errors.timestampReason('missing-time-stamping-usage')
+    );
+  });
+});
@@ -0,0 +1,475 @@
+import forge from 'node-forge';
+import type { TimestampInvalidReason, TimestampToken, TimestampTrust, TimestampVerification } from '@/types';
+import { getMessages } from '@/i18n';
+import { bytesToBase64, base64ToBytes } from '@/utils';
+import {
+  createSignedData,
+  algorithmIdentifier,
+  certificateDer,
+  parseSignedData,
+  verifySignerInfo,
+  CMS_OIDS,
+  type CMSSignerCredentials,
+} from './cms';
+
+const { asn1 } = forge;
+
+// id-ct-TSTInfo (RFC 3161)
+const TST_INFO_OID = '1.2.840.113549.1.9.16.1.4';
+
+// Policy used by the local stand-in TSA (private arc, development only)
+const LOCAL_TSA_POLICY = '1.3.6.1.4.1.99999.1.1';
+
+// PKIStatus values that carry a token
+const GRANTED_STATUSES = [0, 1];
+
+/**
+ * Transport to a time-stamping authority: receives a DER TimeStampReq and
+ * returns the DER TimeStampResp
+ */
+export interface TimestampAuthority {
+  name: string;
+  send(request: Uint8Array): Promise<Uint8Array>;
+}
+
+/** TSA certificates (or CAs issuing them) whose tokens are trusted; read from VITE_TSA_TRUSTED_CERTS */
+let trustedCertificates: forge.pki.Certificate[] | null = null;
+
+interface ParsedTSTInfo {
+  policy: string;
+  hashAlgorithm: string;
+  hashedMessage: string;
+  serialNumber: string;
+  genTime: Date;
+  nonce: string | null;
+}
+
+/**
+ * Converts bytes to a forge binary string
+ */
+function toBinary(bytes: Uint8Array): string {
+  return forge.util.binary.raw.encode(bytes);
+}
+
+/**
+ * Converts a forge binary string to bytes
+ */
+function fromBinary(binary: string): Uint8Array {
+  return new Uint8Array(forge.util.binary.raw.decode(binary));
+}
+
+/**
+ * Builds a MessageImprint for a SHA-256 hash
+ * @param hashHex - Hex-encoded SHA-256 hash
+ * @returns MessageImprint node
+ */
+function messageImprint(hashHex: string): forge.asn1.Asn1 {
+  return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+    algorithmIdentifier(CMS_OIDS.SHA256),
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OCTETSTRING, false, forge.util.hexToBytes(hashHex)),
+  ]);
+}
+
+/**
+ * Creates a DER TimeStampReq (RFC 3161) for a SHA-256 hash
+ * @param hashHex - Hex-encoded SHA-256 hash
+ * @param nonce - Random nonce as binary string
+ * @returns DER-encoded request
+ */
+function createTimestampRequest(hashHex: string, nonce: string): Uint8Array {
+  const request = asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.INTEGER, false, asn1.integerToDer(1).getBytes()),
+    messageImprint(hashHex),
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.INTEGER, false, nonce),
+    // certReq: ask the TSA to include its certificate in the token
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.BOOLEAN, false, String.fromCharCode(0xff)),
+  ]);
+  return fromBinary(asn1.toDer(request).getBytes());
+}
+
+/**
+ * Parses a DER TSTInfo structure
+ * @param der - TSTInfo DER as binary string
+ * @returns Parsed TSTInfo fields
+ */
+function parseTSTInfo(der: string): ParsedTSTInfo {
+  const tstInfo = asn1.fromDer(der);
+  const fields = tstInfo.value as forge.asn1.Asn1[];
+  const imprint = fields[2].value as forge.asn1.Asn1[];
+  const imprintAlgorithm = imprint[0].value as forge.asn1.Asn1[];
+
+  // Optional fields after genTime: accuracy, ordering, nonce, tsa, extensions
+  const nonceNode = fields
+    .slice(5)
+    .find((field) => field.tagClass === asn1.Class.UNIVERSAL && field.type === asn1.Type.INTEGER);
+
+  return {
+    policy: asn1.derToOid(fields[1].value as string),
+    hashAlgorithm: asn1.derToOid(imprintAlgorithm[0].value as string),
+    hashedMessage: imprint[1].value as string,
+    serialNumber: forge.util.bytesToHex(fields[3].value as string).toUpperCase(),
+    genTime: asn1.generalizedTimeToDate(fields[4].value as string),
+    nonce: nonceNode ? (nonceNode.value as string) : null,
+  };
+}
+
+/**
+ * Splits a TimeStampToken (CMS SignedData) into its parts
+ * @param tokenDer - Token DER as binary string
+ * @returns eContent type and bytes, certificates and signer info
+ */
+function parseTimestampToken(tokenDer: string) {
+  const signedData = parseSignedData(tokenDer);
+  if (!signedData || signedData.eContent === null) {
+    throw new Error(getMessages().errors.timestampNotSignedData);
+  }
+  return { ...signedData, eContent: signedData.eContent };
+}
+
+/**
+ * Parses the certificates of a PEM bundle, skipping unreadable ones
+ * @param pem - One or more PEM certificates
+ * @returns Parsed certificates
+ */
+function parseCertificateBundle(pem: string): forge.pki.Certificate[] {
+  const blocks = pem.replace(/\\n/g, '\n').match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g) ?? [];
+  return blocks.flatMap((block) => {
+    try {
+      return [forge.pki.certificateFromPem(block)];
+    } catch (error) {
+      console.error('Invalid trusted TSA certificate:', error);
+      return [];
+    }
+  });
+}
+
+/**
+ * Returns the configured trusted TSA certificates
+ * @returns Certificates from VITE_TSA_TRUSTED_CERTS or setTrustedTimestampCertificates
+ */
+function getTrustedTimestampCertificates(): forge.pki.Certificate[] {
+  trustedCertificates ??= parseCertificateBundle(import.meta.env.VITE_TSA_TRUSTED_CERTS ?? '');
+  return trustedCertificates;
+}
+
+/**
+ * Replaces the trusted TSA certificates (e.g. loaded from the organization settings)
+ * @param pem - One or more PEM certificates of TSAs or of the CAs issuing them
+ */
+export function setTrustedTimestampCertificates(pem: string): void {
+  trustedCertificates = parseCertificateBundle(pem);
+}
+
+/**
+ * Checks that a CA certificate issued and signed another certificate
+ * @param child - Issued certificate
+ * @param parent - Candidate issuer
+ * @returns true if the issuer name matches, the parent is a CA and the signature verifies
+ */
+function isIssuedBy(child: forge.pki.Certificate, parent: forge.pki.Certificate): boolean {
+  const basicConstraints = parent.getExtension('basicConstraints') as { cA?: boolean } | null;
+  if (!child.isIssuer(parent) || !basicConstraints?.cA) return false;
+  try {
+    return parent.verify(child);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Decides how far a validly signed token can be relied on. Tokens of the local
+ * stand-in TSA are recognized by its policy; the others are trusted only when the
+ * TSA certificate is, or chains to, a configured certificate valid at the time of
+ * the stamp. The chain is walked by hand because node-forge rejects the critical
+ * extended key usage that RFC 3161 requires on TSA certificates.
+ * @param policy - TSA policy of the token
+ * @param certificate - Certificate that signed the token
+ * @param certificates - Other certificates included in the token
+ * @param genTime - Time of the stamp
+ * @returns Trust level of the token
+ */
+function getTimestampTrust(
+  policy: string,
+  certificate: forge.pki.Certificate,
+  certificates: forge.pki.Certificate[],
+  genTime: Date
+): TimestampTrust {
+  if (policy === LOCAL_TSA_POLICY) return 'local';
+
+  const trusted = getTrustedTimestampCertificates();
+  const trustedDer = new Set(trusted.map(certificateDer));
+  const isValidAt = ({ validity }: forge.pki.Certificate) =>
+    validity.notBefore <= genTime && genTime <= validity.notAfter;
+
+  // Walk up the issuers, leaf first, until a trusted certificate is reached
+  const visited = new Set([certificate]);
+  for (let current = certificate; isValidAt(current); ) {
+    if (trustedDer.has(certificateDer(current))) return 'trusted';
+    const issuer = [...trusted, ...certificates].find(
+      (candidate) => !visited.has(candidate) && isIssuedBy(current, candidate)
+    );
+    if (!issuer) break;
+    visited.add(issuer);
+    current = issuer;
+  }
+  return 'untrusted';
+}
+
+/**
+ * Requests a trusted timestamp for a signature hash
+ * @param authority - Time-stamping authority transport
+ * @param hashHex - Hex-encoded SHA-256 hash
+ * @returns Timestamp token with the TSA time
+ */
+export async function requestTimestamp(
+  authority: TimestampAuthority,
+  hashHex: string
+): Promise<TimestampToken> {
+  const nonce = String.fromCharCode(0x01) + forge.random.getBytesSync(8);
+  const responseBytes = await authority.send(createTimestampRequest(hashHex, nonce));
+
+  let tokenDer: string;
+  try {
+    const response = asn1.fromDer(toBinary(responseBytes));
+    const [statusInfo, token] = response.value as forge.asn1.Asn1[];
+    const status = asn1.derToInteger((statusInfo.value as forge.asn1.Asn1[])[0].value as string);
+    if (!GRANTED_STATUSES.includes(status) || !token) {
+      throw new Error(`status ${status}`);
+    }
+    tokenDer = asn1.toDer(token).getBytes();
+  } catch (error) {
+    console.error('Invalid TSA response:', error);
+    throw new Error(getMessages().errors.timestampRefused(authority.name));
+  }
+
+  const { eContent } = parseTimestampToken(tokenDer);
+  const tstInfo = parseTSTInfo(eContent);
+  if (tstInfo.nonce !== null && tstInfo.nonce !== nonce) {
+    throw new Error(getMessages().errors.timestampNonceMismatch);
+  }
+
+  const token: TimestampToken = {
+    authority: authority.name,
+    genTime: tstInfo.genTime.toISOString(),
+    serialNumber: tstInfo.serialNumber,
+    policy: tstInfo.policy,
+    token: bytesToBase64(fromBinary(tokenDer)),
+  };
+
+  const verification = await verifyTimestampToken(token, hashHex);
+  if (!verification.valid) {
+    const { errors } = getMessages();
+    throw new Error(errors.timestampInvalid(errors.timestampReason(verification.reason ?? 'unreadable')));
+  }
+
+  return token;
+}
+
+/**
+ * Validates a TimeStampToken: message imprint, content digest, TSA signature and the
+ * time-stamping purpose of the TSA certificate. A valid token is also rated against
+ * the trusted TSA certificates, and tokens of the local TSA are flagged as such.
+ * @param token - Stored timestamp token
+ * @param hashHex - Hex-encoded SHA-256 hash that was timestamped
+ * @returns Verification result with the TSA time, signer and trust level
+ */
+export async function verifyTimestampToken(
+  token: TimestampToken,
+  hashHex: string
+): Promise<TimestampVerification> {
+  const invalid = (reason: TimestampInvalidReason): TimestampVerification => ({
+    valid: false,
+    genTime: null,
+    signer: null,
+    trust: null,
+    reason,
+  });
+
+  try {
+    const { eContentType, eContent, certificates, signerInfo } = parseTimestampToken(
+      toBinary(base64ToBytes(token.token))
+    );
+    if (eContentType !== TST_INFO_OID) {
+      return invalid('not-tst-info');
+    }
+
+    const tstInfo = parseTSTInfo(eContent);
+    if (tstInfo.hashAlgorithm !== CMS_OIDS.SHA256 || tstInfo.hashedMessage !== forge.util.hexToBytes(hashHex)) {
+      return invalid('imprint-mismatch');
+    }
+    if (tstInfo.genTime.toISOString() !== token.genTime) {
+      return invalid('time-mismatch');
+    }
+
+    const { certificate, failure } = verifySignerInfo(signerInfo, eContent, certificates);
+    if (!certificate) {
+      return invalid(failure);
+    }
+
+    // RFC 3161: the TSA certificate must be meant for time-stamping
+    const extKeyUsage = certificate.getExtension('extKeyUsage') as { timeStamping?: boolean } | null;
+    if (!extKeyUsage?.timeStamping) {
+      return invalid('missing-time-stamping-usage');
+    }
+
+    const commonName = certificate.subject.getField('CN');
+    return {
+      valid: true,
+      genTime: tstInfo.genTime.toISOString(),
+      signer: commonName ? String(commonName.value) : token.authority,
+      trust: getTimestampTrust(tstInfo.policy, certificate, certificates, tstInfo.genTime),
+      reason: null,
+    };
+  } catch (error) {
+    console.error('Error verifying timestamp token:', error);
+    return invalid('unreadable');
+  }
+}
+
+/**
+ * TSA reached over HTTP (application/timestamp-query)
+ * @param url - TSA endpoint
+ * @param name - Display name
+ * @returns Time-stamping authority transport
+ */
+export function createHttpTimestampAuthority(url: string, name: string = url): TimestampAuthority {
+  return {
+    name,
+    async send(request) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/timestamp-query' },
+        body: request as Uint8Array<ArrayBuffer>,
+      });
+      if (!response.ok) {
+        throw new Error(getMessages().errors.timestampHttpError(response.status));
+      }
+      return new Uint8Array(await response.arrayBuffer());
+    },
+  };
+}
+
+/**
+ * Generates the key and self-signed certificate of the local stand-in TSA.
+ * The RSA key is generated with WebCrypto (fast) and handed to node-forge.
+ * @returns Credentials used to sign tokens
+ */
+async function createLocalTSACredentials(): Promise<CMSSignerCredentials> {
+  const keyPair = await crypto.subtle.generateKey(
+    {
+      name: 'RSASSA-PKCS1-v1_5',
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([1, 0, 1]),
+      hash: 'SHA-256',
+    },
+    true,
+    ['sign', 'verify']
+  );
+  const pkcs8 = new Uint8Array(await crypto.subtle.exportKey('pkcs8', keyPair.privateKey));
+  const privateKey = forge.pki.privateKeyFromAsn1(asn1.fromDer(toBinary(pkcs8))) as forge.pki.rsa.PrivateKey;
+
+  const certificate = forge.pki.createCertificate();
+  certificate.publicKey = forge.pki.rsa.setPublicKey(privateKey.n, privateKey.e);
+  certificate.serialNumber = `01${forge.util.bytesToHex(forge.random.getBytesSync(8))}`;
+  certificate.validity.notBefore = new Date(Date.now() - 60 * 1000);
+  certificate.validity.notAfter = new Date(Date.now() + 365 * 24 * 60 * 60 * 1000);
+  const attributes = [
+    { name: 'commonName', value: 'TSA Local de Desenvolvimento' },
+    { name: 'organizationName', value: 'Assinatura Eletronica MVP' },
+  ];
+  certificate.setSubject(attributes);
+  certificate.setIssuer(attributes);
+  certificate.setExtensions([
+    { name: 'basicConstraints', cA: false },
+    // id-kp-timeStamping, critical as required by RFC 3161
+    { name: 'extKeyUsage', critical: true, timeStamping: true },
+  ]);
+  certificate.sign(privateKey, forge.md.sha256.create());
+
+  return { privateKey, certificate, chain: [] };
+}
+
+/**
+ * Local stand-in TSA that issues real RFC 3161 tokens signed by a throwaway
+ * self-signed certificate, so development and tests need no network.
+ * Its tokens prove the format, not a trusted time source.
+ * @returns Time-stamping authority transport
+ */
+export function createLocalTimestampAuthority(): TimestampAuthority {
+  let credentials: Promise<CMSSignerCredentials> | null = null;
+
+  return {
+    name: 'TSA local (desenvolvimento)',
+    async send(requestBytes) {
+      credentials ??= createLocalTSACredentials();
+      const signer = await credentials;
+
+      const request = asn1.fromDer(toBinary(requestBytes));
+      const [, imprint, ...optional] = request.value as forge.asn1.Asn1[];
+      const nonce = optional.find(
+        (field) => field.tagClass === asn1.Class.UNIVERSAL && field.type === asn1.Type.INTEGER
+      );
+
+      const tstInfo = asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+        asn1.create(asn1.Class.UNIVERSAL, asn1.Type.INTEGER, false, asn1.integerToDer(1).getBytes()),
+        asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OID, false, asn1.oidToDer(LOCAL_TSA_POLICY).getBytes()),
+        imprint,
+        asn1.create(
+          asn1.Class.UNIVERSAL,
+          asn1.Type.INTEGER,
+          false,
+          String.fromCharCode(0x01) + forge.random.getBytesSync(15)
+        ),
+        asn1.create(
+          asn1.Class.UNIVERSAL,
+          asn1.Type.GENERALIZEDTIME,
+          false,
+          asn1.dateToGeneralizedTime(new Date())
+        ),
+        ...(nonce ? [nonce] : []),
+      ]);
+
+      const token = createSignedData(signer, {
+        content: asn1.toDer(tstInfo).getBytes(),
+        encapsulate: true,
+        contentType: TST_INFO_OID,
+        includeSigningCertificate: true,
+      });
+
+      const response = asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+        asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+          asn1.create(asn1.Class.UNIVERSAL, asn1.Type.INTEGER, false, asn1.integerToDer(0).getBytes()),
+        ]),
+        asn1.fromDer(token),
+      ]);
+      return fromBinary(asn1.toDer(response).getBytes());
+    },
+  };
+}
+
+let defaultAuthority: TimestampAuthority | null = null;
+
+/**
+ * Returns the configured TSA: VITE_TSA_URL when set, otherwise the local stand-in in
+ * development builds or when VITE_TSA_LOCAL=true
+ * @returns Time-stamping authority transport, or null when signatures go without timestamps
+ */
+export function getTimestampAuthority(): TimestampAuthority | null {
+  if (!defaultAuthority) {
+    const url = import.meta.env.VITE_TSA_URL;
+    if (url) {
+      defaultAuthority = createHttpTimestampAuthority(url);
+    } else if (import.meta.env.DEV || import.meta.env.VITE_TSA_LOCAL === 'true') {
+      defaultAuthority = createLocalTimestampAuthority();
+    }
+  }
+  return defaultAuthority;
+}
+
+/**
+ * Replaces the TSA used by getTimestampAuthority (e.g. a custom transport)
+ * @param authority - Time-stamping authority transport
+ */
+export function setTimestampAuthority(authority: TimestampAuthority): void {
+  defaultAuthority = authority;
+}
@@ -0,0 +1,586 @@
+import { pdfjs } from '@/lib/pdfjs';
+import type {
+  Locale,
+  ProtocolData,
+  ProtocolSigner,
+  SignatureManifest,
+  VerificationCheck,
+  VerificationResult,
+  VerificationStatus,
+} from '@/types';
+import {
+  SIGNER_DOCUMENT_TYPES,
+  generateSHA256,
+  orderSignaturesByRole,
+  verifySignatureChain,
+  verifyDeviceSignature,
+} from '@/utils';
+import { DEFAULT_LOCALE, LOCALES, getMessages, getProtocolMessages } from '@/i18n';
+import { generateTotvsHash, extractSignatureManifest } from './pdf';
+import { verifyTimestampToken } from './timestamp';
+import { verifyPAdESSignature } from './pades';
+
+// Tolerance (in PDF units) when grouping text items into lines
+const LINE_TOLERANCE = 2;
+
+// Text items closer than this (in PDF units) belong to the same word; text drawn
+// with several fonts (e.g. Latin and CJK) is split into adjacent items
+const WORD_GAP = 1;
+
+// Skin tone modifiers and emoji variation selectors are not drawn by the monochrome
+// emoji font, so they are absent from the printed protocol
+const UNPRINTED_CHARS = /[\p{Emoji_Modifier}\uFE0E\uFE0F]/gu;
+
+// Maximum number of lines a wrapped field may span
+const MAX_WRAPPED_LINES = 4;
+
+// Short document hash, as printed after the hash label ("HASH SICFAR")
+const TOTVS_HASH_SOURCE = '((?:[0-9A-F]{2}-){19}[0-9A-F]{2})';
+
+/**
+ * Converts printed text to a pattern source
+ * @param text - Literal text
+ * @returns Escaped pattern where any run of spaces matches the extracted text
+ */
+function toSource(text: string): string {
+  return text.replace(UNPRINTED_CHARS, '').trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+}
+
+/**
+ * Builds a pattern source matching the text in any language
+ * @param texts - Text in each language
+ * @returns Non-capturing alternation
+ */
+function anyOf(texts: string[]): string {
+  return `(?:${[...new Set(texts.map(toSource))].join('|')})`;
+}
+
+// Patterns matching the text written by finalizePDFWithProtocol in every language
+const PROTOCOL_PATTERNS = {
+  SHA256: /SHA256:\s*([0-9a-fA-F]{64})/,
+  HEADER_HASH: new RegExp(`HASH:\\s*${TOTVS_HASH_SOURCE}`),
+  // Page headers are printed in the protocol language alone
+  HEADER_PAGE: new RegExp(
+    `${anyOf(LOCALES.map((locale) => getMessages(locale).protocol.page))}\\s+(\\d+)\\s+` +
+      `${anyOf(LOCALES.map((locale) => getMessages(locale).protocol.pageOf))}\\s+(\\d+)`
+  ),
+};
+
+// Patterns that depend on the language and the template labels of the protocol
+interface LabelPatterns {
+  TITLE: RegExp;
+  TOTVS_HASH: RegExp;
+  ENVELOPE_NAME: RegExp;
+  AUTHOR: RegExp;
+  SIGNER: RegExp;
+  SIGNER_START: RegExp;
+  SIGN_DATE: RegExp;
+  SIGNATURE_HASH: RegExp;
+  SIGNATURE_COUNT: RegExp;
+}
+
+/**
+ * Builds the label patterns for the language and labels the protocol was printed with
+ * @param locale - Protocol language
+ * @param labels - Custom title and hash label recorded in the manifest
+ * @returns Patterns for the protocol texts
+ */
+function getLabelPatterns(locale: Locale, labels?: { title: string; hashLabel: string }): LabelPatterns {
+  const t = getProtocolMessages(locale);
+  const name = toSource(t.name);
+  // Document type, or "CPF/CNPJ" in protocols printed before the other identity documents
+  const documentType = anyOf(['CPF/CNPJ', ...SIGNER_DOCUMENT_TYPES.map((type) => t.documentType(type))]);
+
+  return {
+    TITLE: new RegExp(toSource(labels?.title ?? t.title)),
+    TOTVS_HASH: new RegExp(`${toSource(labels?.hashLabel ?? t.hashLabel)}:\\s*${TOTVS_HASH_SOURCE}`),
+    ENVELOPE_NAME: new RegExp(`${toSource(t.envelopeName)}:\\s*(.+)$`),
+    AUTHOR: new RegExp(`^${toSource(t.author)}:`),
+    // Document number, followed by the issuer in parentheses
+    SIGNER: new RegExp(`${name}:\\s*(.+?)\\s+-\\s+${documentType}:\\s*(\\S+(?:\\s+\\([A-Z]{2}\\))?)`),
+    SIGNER_START: new RegExp(`^${name}:`),
+    SIGN_DATE: new RegExp(`^${toSource(t.date)}:\\s*(.+)$`),
+    SIGNATURE_HASH: new RegExp(`${toSource(t.signatureHash)}:\\s*(\\S+)`),
+    SIGNATURE_COUNT: new RegExp(`${toSource(t.signatureCount)}:\\s*(\\d+)`),
+  };
+}
+
+/**
+ * Extracts the text of every page, grouped into visual lines (top to bottom)
+ * @param pdfBytes - PDF file bytes
+ * @returns Array with the lines of each page
+ */
+async function extractPageLines(pdfBytes: Uint8Array): Promise<string[][]> {
+  // PDF.js transfers the buffer to the worker, so work on a copy
+  const loadingTask = pdfjs.getDocument({ data: new Uint8Array(pdfBytes) });
+  const pdf = await loadingTask.promise;
+
+  try {
+    const pages: string[][] = [];
+
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const lines: { y: number; parts: { x: number; width: number; text: string }[] }[] = [];
+
+      for (const item of content.items) {
+        if (!('str' in item) || item.str.trim() === '') continue;
+
+        const x = item.transform[4] as number;
+        const y = item.transform[5] as number;
+        const part = { x, width: item.width, text: item.str };
+        const line = lines.find((l) => Math.abs(l.y - y) <= LINE_TOLERANCE);
+
+        if (line) {
+          line.parts.push(part);
+        } else {
+          lines.push({ y, parts: [part] });
+        }
+      }
+
+      pages.push(
+        lines
+          .sort((a, b) => b.y - a.y)
+          .map((line) =>
+            line.parts
+              .sort((a, b) => a.x - b.x)
+              .map((part, index, parts) => {
+                const previous = parts[index - 1];
+                const isSameWord = previous && part.x - (previous.x + previous.width) < WORD_GAP;
+                return index > 0 && !isSameWord ? ` ${part.text}` : part.text;
+              })
+              .join('')
+              .replace(/\s+/g, ' ')
+              .trim()
+          )
+      );
+    }
+
+    return pages;
+  } finally {
+    await loadingTask.destroy();
+  }
+}
+
+/**
+ * Joins lines that the protocol layout wrapped (long envelope or signer names)
+ * back into a single line
+ * @param lines - Text lines of the protocol pages
+ * @param patterns - Patterns for the protocol labels
+ * @returns Lines with each field on a single line
+ */
+function joinWrappedLines(lines: string[], patterns: LabelPatterns): string[] {
+  const joined: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    let line = lines[i];
+
+    // The envelope name is always followed by the author line
+    if (patterns.ENVELOPE_NAME.test(line)) {
+      const start = i;
+      while (i + 1 < lines.length && !patterns.AUTHOR.test(lines[i + 1]) && i - start + 1 < MAX_WRAPPED_LINES) {
+        line = `${line} ${lines[++i]}`;
+      }
+    } else if (patterns.SIGNER_START.test(line)) {
+      let end = i;
+      let candidate = line;
+      while (!patterns.SIGNER.test(candidate) && end + 1 < lines.length && end - i + 1 < MAX_WRAPPED_LINES) {
+        candidate = `${candidate} ${lines[++end]}`;
+      }
+      if (patterns.SIGNER.test(candidate)) {
+        line = candidate;
+        i = end;
+      }
+    }
+
+    joined.push(line);
+  }
+
+  return joined;
+}
+
+/**
+ * Collects the lines of every protocol page. The protocol starts at the first
+ * page with its title and continues on the following pages that repeat it.
+ * @param pages - Lines of each page
+ * @param patterns - Patterns for the protocol labels
+ * @returns Lines of all protocol pages or null if there is no protocol
+ */
+function collectProtocolLines(pages: string[][], patterns: LabelPatterns): string[] | null {
+  const isProtocolPage = (lines: string[]) => lines.some((line) => patterns.TITLE.test(line));
+  const index = pages.findIndex(isProtocolPage);
+  if (index < 0) return null;
+
+  const lines: string[] = [];
+  for (let i = index; i < pages.length && isProtocolPage(pages[i]); i++) {
+    lines.push(...pages[i]);
+  }
+  return joinWrappedLines(lines, patterns);
+}
+
+/**
+ * Parses the protocol page lines into structured data
+ * @param lines - Text lines of the protocol pages
+ * @param patterns - Patterns for the protocol labels
+ * @returns Protocol data or null if the required hashes are missing
+ */
+function parseProtocolLines(lines: string[], patterns: LabelPatterns): ProtocolData | null {
+  let documentHash: string | null = null;
+  let totvsHash: string | null = null;
+  let envelopeName: string | null = null;
+  let declaredSignatureCount: number | null = null;
+  const signers: ProtocolSigner[] = [];
+
+  for (const line of lines) {
+    const sha256Match = line.match(PROTOCOL_PATTERNS.SHA256);
+    if (sha256Match && !documentHash) {
+      documentHash = sha256Match[1].toLowerCase();
+      continue;
+    }
+
+    const totvsMatch = line.match(patterns.TOTVS_HASH);
+    if (totvsMatch && !totvsHash) {
+      totvsHash = totvsMatch[1];
+      continue;
+    }
+
+    const envelopeMatch = line.match(patterns.ENVELOPE_NAME);
+    if (envelopeMatch) {
+      envelopeName = envelopeMatch[1].trim();
+      continue;
+    }
+
+    const signerMatch = line.match(patterns.SIGNER);
+    if (signerMatch) {
+      signers.push({ name: signerMatch[1].trim(), document: signerMatch[2], signedAt: '', hash: '' });
+      continue;
+    }
+
+    const current = signers[signers.length - 1];
+    const dateMatch = line.match(patterns.SIGN_DATE);
+    if (dateMatch && current && !current.signedAt) {
+      current.signedAt = dateMatch[1].trim();
+      continue;
+    }
+
+    const hashMatch = line.match(patterns.SIGNATURE_HASH);
+    if (hashMatch && current && !current.hash) {
+      current.hash = hashMatch[1];
+      continue;
+    }
+
+    const countMatch = line.match(patterns.SIGNATURE_COUNT);
+    if (countMatch) {
+      declaredSignatureCount = parseInt(countMatch[1], 10);
+    }
+  }
+
+  if (!documentHash || !totvsHash) return null;
+
+  return { documentHash, totvsHash, envelopeName, signers, declaredSignatureCount };
+}
+
+/**
+ * Finds and parses the protocol pages. The manifest records the language and labels
+ * they were printed with; without it, every language is tried.
+ * @param pages - Lines of each page
+ * @param manifest - Embedded manifest, if readable
+ * @returns Protocol data or null if no protocol page was found
+ */
+function readProtocol(pages: string[][], manifest: SignatureManifest | null): ProtocolData | null {
+  const candidates = manifest
+    ? [getLabelPatterns(manifest.protocol?.locale ?? DEFAULT_LOCALE, manifest.protocol)]
+    : // Bilingual protocols also contain the pt-BR texts, so pt-BR is tried last
+      [...LOCALES.filter((locale) => locale !== DEFAULT_LOCALE), DEFAULT_LOCALE].map((locale) =>
+        getLabelPatterns(locale)
+      );
+
+  for (const patterns of candidates) {
+    const protocolLines = collectProtocolLines(pages, patterns);
+    const protocol = protocolLines && parseProtocolLines(protocolLines, patterns);
+    if (protocol) return protocol;
+  }
+  return null;
+}
+
+/**
+ * Reads the protocol data written by finalizePDFWithProtocol back from a PDF
+ * @param pdfBytes - Finalized PDF bytes
+ * @returns Protocol data or null if no protocol page was found
+ */
+export async function extractProtocolData(pdfBytes: Uint8Array): Promise<ProtocolData | null> {
+  const pages = await extractPageLines(pdfBytes);
+  // An unreadable manifest is treated as absent
+  const manifest = await extractSignatureManifest(pdfBytes).catch(() => null);
+  return readProtocol(pages, manifest);
+}
+
+/**
+ * Compares the embedded manifest with the printed protocol
+ * @param manifest - Embedded signature manifest
+ * @param protocol - Protocol data extracted from the page text
+ * @returns Failure description or null if both agree
+ */
+function compareManifestWithProtocol(manifest: SignatureManifest, protocol: ProtocolData): string | null {
+  const t = getMessages().checks;
+
+  if (manifest.documentHash !== protocol.documentHash) {
+    return t.manifestHashMismatch;
+  }
+
+  if (manifest.signatures.length !== protocol.signers.length) {
+    return t.manifestCountMismatch(manifest.signatures.length, protocol.signers.length);
+  }
+
+  // The protocol lists the signatures grouped by role
+  const printed = (text: string) => text.replace(UNPRINTED_CHARS, '');
+  const mismatch = orderSignaturesByRole(manifest.signatures).findIndex(
+    (signature, index) => printed(signature.name) !== printed(protocol.signers[index].name)
+  );
+  if (mismatch >= 0) {
+    return t.manifestSignerMismatch(mismatch + 1);
+  }
+
+  return null;
+}
+
+/**
+ * Derives the overall status from the individual checks
+ * @param protocol - Extracted protocol data
+ * @param checks - Executed checks
+ * @returns Verification status
+ */
+function resolveStatus(protocol: ProtocolData | null, checks: VerificationCheck[]): VerificationStatus {
+  if (!protocol) return 'unknown';
+  if (!checks.every((check) => check.passed)) return 'tampered';
+  return checks.some((check) => check.warning) ? 'partial' : 'valid';
+}
+
+/**
+ * Verifies the authenticity of a PDF produced by finalizePDFWithProtocol
+ * @param pdfBytes - Finalized PDF bytes
+ * @param originalPdfBytes - Optional original PDF, used to confirm the document content
+ * @returns Verification result with every executed check
+ */
+export async function verifyFinalizedPDF(
+  pdfBytes: Uint8Array,
+  originalPdfBytes?: Uint8Array | null
+): Promise<VerificationResult> {
+  const { checks: t, errors } = getMessages();
+
+  let pages: string[][];
+  try {
+    pages = await extractPageLines(pdfBytes);
+  } catch (error) {
+    console.error('Error reading PDF for verification:', error);
+    throw new Error(t.unreadablePdf);
+  }
+
+  // The embedded manifest also records the language and labels the protocol was printed with
+  let manifest: SignatureManifest | null = null;
+  let manifestError: unknown = null;
+  try {
+    manifest = await extractSignatureManifest(pdfBytes);
+  } catch (error) {
+    manifestError = error;
+  }
+
+  const verifiedAt = new Date().toISOString();
+  const protocol = readProtocol(pages, manifest);
+
+  if (!protocol) {
+    return {
+      status: 'unknown',
+      protocol: null,
+      manifest: null,
+      checks: [
+        {
+          id: 'protocol',
+          label: t.protocol,
+          passed: false,
+          details: t.protocolMissing,
+        },
+      ],
+      pageCount: pages.length,
+      verifiedAt,
+    };
+  }
+
+  const checks: VerificationCheck[] = [
+    { id: 'protocol', label: t.protocol, passed: true },
+  ];
+
+  // HASH SICFAR must be derived from the SHA256 printed on the protocol
+  const expectedTotvsHash = generateTotvsHash(protocol.documentHash);
+  checks.push({
+    id: 'totvs-hash',
+    label: t.totvsHash,
+    passed: expectedTotvsHash === protocol.totvsHash,
+    details: expectedTotvsHash === protocol.totvsHash ? undefined : t.expected(expectedTotvsHash),
+  });
+
+  // Every page must carry the same hash header
+  const pagesWithWrongHash: number[] = [];
+  const pagesWithWrongNumber: number[] = [];
+  pages.forEach((lines, index) => {
+    const headerHash = lines.map((line) => line.match(PROTOCOL_PATTERNS.HEADER_HASH)).find(Boolean);
+    if (!headerHash || headerHash[1] !== protocol.totvsHash) {
+      pagesWithWrongHash.push(index + 1);
+    }
+
+    const headerPage = lines.map((line) => line.match(PROTOCOL_PATTERNS.HEADER_PAGE)).find(Boolean);
+    if (
+      !headerPage ||
+      parseInt(headerPage[1], 10) !== index + 1 ||
+      parseInt(headerPage[2], 10) !== pages.length
+    ) {
+      pagesWithWrongNumber.push(index + 1);
+    }
+  });
+
+  checks.push({
+    id: 'page-headers',
+    label: t.pageHeaders,
+    passed: pagesWithWrongHash.length === 0,
+    details: pagesWithWrongHash.length > 0 ? t.pagesWithWrongHash(pagesWithWrongHash.join(', ')) : undefined,
+  });
+
+  checks.push({
+    id: 'page-numbering',
+    label: t.pageNumbering,
+    passed: pagesWithWrongNumber.length === 0,
+    details: pagesWithWrongNumber.length > 0 ? t.pagesWithWrongNumber(pagesWithWrongNumber.join(', ')) : undefined,
+  });
+
+  // The declared total must match the listed signers
+  const signatureCountMatches = protocol.declaredSignatureCount === protocol.signers.length;
+  checks.push({
+    id: 'signature-count',
+    label: t.signatureCount,
+    passed: signatureCountMatches,
+    details: signatureCountMatches
+      ? undefined
+      : t.signatureCountMismatch(String(protocol.declaredSignatureCount ?? '?'), protocol.signers.length),
+  });
+
+  // The embedded manifest (when present) must agree with the printed protocol
+  try {
+    if (manifestError) throw manifestError;
+    if (manifest) {
+      const mismatch = compareManifestWithProtocol(manifest, protocol);
+      checks.push({
+        id: 'manifest',
+        label: t.manifest,
+        passed: mismatch === null,
+        details: mismatch ?? undefined,
+      });
+
+      // The chain can only be fully recomputed when the original PDF is available
+      const chain = await verifySignatureChain(manifest, originalPdfBytes);
+      checks.push({
+        id: 'signature-chain',
+        label: chain.hashesRecomputed ? t.chainRecomputed : t.chain,
+        passed: chain.valid,
+        details: chain.failure ? errors.chainBreak(chain.failure) : undefined,
+      });
+
+      // Each hash must be signed by the device key recorded with it; refusals are numbered after the signatures
+      const invalidDeviceSignatures: number[] = [];
+      const signedRecords = [...manifest.signatures, ...(manifest.refusals ?? [])];
+      for (let i = 0; i < signedRecords.length; i++) {
+        const signature = signedRecords[i];
+        if (signature.deviceSignature && !(await verifyDeviceSignature(signature))) {
+          invalidDeviceSignatures.push(i + 1);
+        }
+      }
+      checks.push({
+        id: 'device-signatures',
+        label: t.deviceSignatures,
+        passed: invalidDeviceSignatures.length === 0,
+        details: invalidDeviceSignatures.length > 0
+          ? t.invalidDeviceSignatures(`#${invalidDeviceSignatures.join(', #')}`)
+          : undefined,
+      });
+
+      // Timestamps must cover the signature hash and carry a valid TSA signature;
+      // valid tokens of untrusted or local TSAs pass with a warning
+      const timestamped = manifest.signatures.filter((signature) => signature.timestampToken);
+      if (timestamped.length > 0) {
+        const invalidTimestamps: string[] = [];
+        const untrustedTimestamps: string[] = [];
+        const localTimestamps: string[] = [];
+        for (let i = 0; i < manifest.signatures.length; i++) {
+          const { timestampToken, hash } = manifest.signatures[i];
+          if (!timestampToken) continue;
+          const result = await verifyTimestampToken(timestampToken, hash);
+          if (!result.valid) {
+            invalidTimestamps.push(result.reason ? `#${i + 1} (${errors.timestampReason(result.reason)})` : `#${i + 1}`);
+          }
+          else if (result.trust === 'untrusted') untrustedTimestamps.push(`#${i + 1}`);
+          else if (result.trust === 'local') localTimestamps.push(`#${i + 1}`);
+        }
+        const details = [
+          invalidTimestamps.length > 0 && t.invalidTimestamps(invalidTimestamps.join(', ')),
+          untrustedTimestamps.length > 0 && t.untrustedTimestamps(untrustedTimestamps.join(', ')),
+          localTimestamps.length > 0 && t.localTimestamps(localTimestamps.join(', ')),
+        ].filter(Boolean);
+        checks.push({
+          id: 'timestamps',
+          label: t.timestamps(timestamped.length, manifest.signatures.length),
+          passed: invalidTimestamps.length === 0,
+          warning: untrustedTimestamps.length > 0 || localTimestamps.length > 0,
+          details: details.length > 0 ? details.join(' ') : undefined,
+        });
+      }
+    }
+  } catch (error) {
+    checks.push({
+      id: 'manifest',
+      label: t.manifest,
+      passed: false,
+      details: error instanceof Error ? error.message : t.manifestUnreadable,
+    });
+  }
+
+  // The PAdES signature, when present, must cover the whole file
+  const pades = verifyPAdESSignature(pdfBytes);
+  if (pades) {
+    checks.push({
+      id: 'pades',
+      label: t.pades,
+      passed: pades.valid,
+      details: pades.certificate
+        ? t.padesSigner(pades.certificate.commonName)
+        : errors.padesReason(pades.reason ?? 'unreadable'),
+    });
+  }
+
+  // With the original PDF we can confirm the document content itself; without it
+  // the result is only partial, since the signature hashes cannot be recomputed
+  if (originalPdfBytes) {
+    const originalHash = await generateSHA256(originalPdfBytes);
+    checks.push({
+      id: 'original-hash',
+      label: t.originalHash,
+      passed: originalHash === protocol.documentHash,
+      details: originalHash === protocol.documentHash ? undefined : t.originalHashMismatch(originalHash),
+    });
+  } else {
+    checks.push({
+      id: 'original-hash',
+      label: t.originalHashSkipped,
+      passed: true,
+      warning: true,
+      details: t.originalHashSkippedDetails,
+    });
+  }
+
+  return {
+    status: resolveStatus(protocol, checks),
+    protocol,
+    manifest,
+    checks,
+    pageCount: pages.length,
+    verifiedAt,
+  };
+}
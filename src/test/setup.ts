@@ -0,0 +1,6 @@
+import { vi } from 'vitest';
+
+// Tests run in Node: the i18n module finds no saved language and no browser
+// languages, so messages are in the default language (pt-BR)
+vi.stubGlobal('localStorage', { getItem: () => null, setItem: () => {}, removeItem: () => {} });
+vi.stubGlobal('navigator', { languages: [] });
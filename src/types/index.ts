@@ -1,24 +1,444 @@
+export interface CertificateInfo {
+  subject: string;
+  commonName: string;
+  issuer: string;
+  serialNumber: string;
+  validFrom: string;
+  validTo: string;
+  /** SHA-256 of the DER certificate; absent on signatures made before it was recorded */
+  fingerprint?: string;
+}
+
+export interface DevicePublicKey {
+  kty: 'EC';
+  crv: 'P-256';
+  x: string;
+  y: string;
+}
+
+export interface TimestampToken {
+  authority: string;
+  genTime: string;
+  serialNumber: string;
+  policy: string;
+  token: string;
+}
+
+/**
+ * How far a valid timestamp can be relied on: its TSA chains to a configured trusted
+ * certificate, it does not, or it came from the local development TSA
+ */
+export type TimestampTrust = 'trusted' | 'untrusted' | 'local';
+
+/** Why a CMS signature (of a timestamp token or of the PAdES signature) is not valid */
+export type CMSSignatureFailure =
+  | 'missing-signed-attributes'
+  | 'unsupported-digest'
+  | 'digest-mismatch'
+  | 'missing-certificate'
+  | 'invalid-signature';
+
+export type TimestampInvalidReason =
+  | 'not-tst-info'
+  | 'imprint-mismatch'
+  | 'time-mismatch'
+  | CMSSignatureFailure
+  | 'missing-time-stamping-usage'
+  | 'unreadable';
+
+/**
+ * Why the PAdES signature of a PDF is not valid: its CMS signature fails, or its
+ * ByteRange leaves out bytes other than the signature itself
+ */
+export type PAdESInvalidReason = CMSSignatureFailure | 'partial-coverage' | 'unreadable';
+
+export interface PAdESVerification {
+  valid: boolean;
+  /** Signer certificate, when the signature is valid */
+  certificate: CertificateInfo | null;
+  reason: PAdESInvalidReason | null;
+}
+
+export interface TimestampVerification {
+  valid: boolean;
+  genTime: string | null;
+  signer: string | null;
+  trust: TimestampTrust | null;
+  reason: TimestampInvalidReason | null;
+}
+
+/**
+ * Where the visual stamp of a signature is drawn, in PDF user space of the
+ * unrotated page (origin at the bottom-left, 1 unit = 1/72 inch)
+ */
+export interface SignaturePlacement {
+  /** Zero-based index of the page in the document being signed */
+  pageIndex: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Point of a handwritten stroke, in pixels of the signature pad */
+export interface SignaturePoint {
+  x: number;
+  y: number;
+  /** Pen pressure between 0 and 1 (0.5 for mouse input) */
+  pressure: number;
+}
+
+/** Signature drawn by the signer on the signature pad */
+export interface HandwrittenSignature {
+  /** PNG image of the strokes (base64), covered by the signature hash */
+  image: string;
+  /** Vector strokes, each a list of points */
+  strokes: SignaturePoint[][];
+  /** Size of the pad the strokes were drawn on */
+  width: number;
+  height: number;
+}
+
+/** Initials (rubrica) printed on every page: generated from the name or drawn */
+export type SignerInitials =
+  | { kind: 'text'; text: string }
+  | { kind: 'drawn'; drawing: HandwrittenSignature };
+
+/**
+ * Identity document of a signer: CPF for individuals, CNPJ for legal entities,
+ * passport or RNE/CRNM for foreigners, or RG (Brazilian identity card)
+ */
+export type SignerDocumentType = 'cpf' | 'cnpj' | 'passport' | 'rne' | 'rg';
+
+/** Identity entered in the signer form; passports and RGs also name their issuer */
+export type SignerIdentity =
+  | { type: 'cpf'; number: string }
+  | { type: 'cnpj'; number: string }
+  | { type: 'passport'; number: string; country: string }
+  | { type: 'rne'; number: string }
+  | { type: 'rg'; number: string; state: string };
+
+/**
+ * Capacity in which a signer signs: party, witness, approver, intervening party,
+ * legal representative or issuer of the document
+ */
+export type SignerRole = 'party' | 'witness' | 'approver' | 'intervening' | 'legal-representative' | 'issuer';
+
+/** Data covered by a signature hash, besides the PDF bytes */
+export interface SignatureHashPayload {
+  name: string;
+  cpf: string;
+  /** Type of the document in `cpf`; CPF when absent */
+  documentType?: SignerDocumentType;
+  /** Issuing country (passport) or state (RG) */
+  documentIssuer?: string;
+  role?: SignerRole;
+  deviceId: string;
+  timestamp: string;
+  previousHash: string;
+  /** SHA-256 fingerprint of the signer certificate */
+  certificate?: string;
+  /** Page and rectangle of the visual stamp, like "0:36,700,180,60" */
+  placement?: string;
+  /** PNG bytes of the handwritten signature */
+  handwrittenImage?: Uint8Array;
+  /** Generated initials, or PNG bytes of the drawn ones */
+  initials?: string | Uint8Array;
+  /** Pages viewed before signing, like "3:1=4200,2=1800,3=950" */
+  reading?: string;
+}
+
+/** Data hashed when a signer declines to sign */
+export interface RefusalHashPayload extends Omit<
+  SignatureHashPayload,
+  'certificate' | 'placement' | 'handwrittenImage' | 'initials' | 'reading'
+> {
+  reason: string;
+}
+
+/** Time a signer spent on a page of the preview */
+export interface PageReading {
+  page: number;
+  durationMs: number;
+}
+
+/** Pages viewed by a signer before signing, in the order first viewed */
+export interface ReadingEvidence {
+  pageCount: number;
+  pages: PageReading[];
+}
+
+/** Page being viewed and time accumulated on each page, while a signer reads the document */
+export interface ReadingTracker {
+  pageCount: number;
+  durations: Map<number, number>;
+  viewing: { page: number; since: number } | null;
+}
+
 export interface SignatureData {
   id: string;
   name: string;
+  /** Normalized document number (CPF, CNPJ, passport...), according to `documentType` */
+  cpf: string;
+  /** Absent in signatures made before CNPJ support, which are all CPF */
+  documentType?: SignerDocumentType;
+  /** ISO 3166-1 alpha-2 code of the country that issued the passport, or UF of the RG */
+  documentIssuer?: string;
+  /** Absent in signatures made before roles existed */
+  role?: SignerRole;
+  deviceId: string;
+  timestamp: string;
+  hash: string;
+  previousHash?: string;
+  devicePublicKey?: DevicePublicKey;
+  deviceSignature?: string;
+  certificate?: CertificateInfo;
+  timestampToken?: TimestampToken;
+  /** Visual stamp position chosen on the preview */
+  placement?: SignaturePlacement;
+  /** Signature drawn on the signature pad */
+  handwritten?: HandwrittenSignature;
+  /** Initials drawn on every page of the finalized PDF */
+  initials?: SignerInitials;
+  /** Pages the signer viewed on the preview before signing */
+  reading?: ReadingEvidence;
+}
+
+/** Recorded refusal to sign, with the reason given by the signer */
+export interface SignatureRefusal {
+  id: string;
+  name: string;
+  /** Normalized document number, according to `documentType` */
   cpf: string;
+  documentType?: SignerDocumentType;
+  documentIssuer?: string;
+  role?: SignerRole;
+  reason: string;
   deviceId: string;
   timestamp: string;
   hash: string;
+  /** Hash of the last signature (or the chain genesis) when the refusal was recorded */
+  previousHash: string;
+  devicePublicKey?: DevicePublicKey;
+  deviceSignature?: string;
 }
 
 export interface PDFMetadata {
   fileName: string;
   fileSize: number;
   lastModified: number;
+  /** SHA-256 of the PDF bytes; absent in logs created before content matching */
+  contentHash?: string;
 }
 
+/** Order in which the expected signers of a workflow sign */
+export type SigningOrder = 'sequential' | 'parallel';
+
+/** Signer expected by the workflow of an envelope, identified by CPF */
+export interface ExpectedSigner {
+  id: string;
+  /** Normalized name, as stored in the signatures */
+  name: string;
+  /** CPF digits */
+  cpf: string;
+  /** Optional signers may be skipped without blocking the workflow */
+  required: boolean;
+}
+
+/** Signers expected by an envelope, set up before the first signature */
+export interface SigningWorkflow {
+  order: SigningOrder;
+  signers: ExpectedSigner[];
+  /** Deadline for the required signatures */
+  expiresAt?: string;
+}
+
+export type WorkflowStatus = 'pending' | 'partially-signed' | 'completed' | 'expired' | 'refused';
+
+/** Progress of an expected signer; skipped signers are optional ones passed over in sequential order */
+export type ExpectedSignerState = 'signed' | 'refused' | 'on-turn' | 'waiting' | 'skipped';
+
+/** Why the signer form refuses a signer of a workflow */
+export type SignerTurnError = 'refused' | 'expired' | 'not-expected' | 'already-signed' | 'out-of-turn' | 'name-mismatch';
+
+/** Envelope events recorded in the audit trail */
+export type AuditEventType =
+  | 'uploaded'
+  | 'reuploaded'
+  | 'opened'
+  | 'page-viewed'
+  | 'signed'
+  | 'refused'
+  | 'downloaded'
+  | 'closed'
+  | 'cleared';
+
+/** Data of an audit event; each type fills the fields it is about */
+export interface AuditEventDetails {
+  /** Uploaded or downloaded file */
+  fileName?: string;
+  /** Page viewed in the preview (1-based) */
+  page?: number;
+  pageCount?: number;
+  /** Signer who signed or refused */
+  name?: string;
+  /** Distinct pages viewed in the preview before signing or refusing */
+  pagesViewed?: number;
+}
+
+export interface AuditEvent {
+  id: string;
+  type: AuditEventType;
+  timestamp: string;
+  deviceId: string;
+  details?: AuditEventDetails;
+  /** SHA-256 of the event and of the link below; absent on events recorded before chaining */
+  hash?: string;
+  /** Hash of the event this one was appended after (absent on the first event) */
+  previousHash?: string;
+}
+
+/** Languages of the interface and of the protocol pages */
+export type Locale = 'pt-BR' | 'en' | 'es';
+
 export interface SignatureLog {
   documentId: string;
   pdfMetadata: PDFMetadata;
   signatures: SignatureData[];
+  genesisHash?: string;
+  /** Author of the envelope, printed on the protocol; absent until informed */
+  author?: string;
+  /** Language of the protocol pages; other than pt-BR, they are printed bilingual */
+  protocolLocale?: Locale;
+  /** Expected signers; envelopes without a workflow accept any signer */
+  workflow?: SigningWorkflow;
+  /** Refusals to sign; any of them puts the envelope in the refused state */
+  refusals?: SignatureRefusal[];
+  /** Append-only trail of envelope events, printed on the protocol */
+  auditTrail?: AuditEvent[];
+  /** Signers must view every page of the document before signing */
+  requireFullReading?: boolean;
+  createdAt: string;
+  updatedAt: string;
+  finalizedAt?: string;
+}
+
+export interface SignatureManifest {
+  format: string;
+  version: number;
+  hashAlgorithm: 'SHA-256';
+  documentId: string;
+  documentHash: string;
+  pdfMetadata: PDFMetadata;
+  signatures: SignatureData[];
+  genesisHash?: string;
+  author?: string;
+  refusals?: SignatureRefusal[];
+  auditTrail?: AuditEvent[];
+  /** Language and labels the protocol was printed with; absent means the pt-BR defaults */
+  protocol?: Pick<ProtocolLabels, 'title' | 'hashLabel'> & { locale?: Locale };
   createdAt: string;
   updatedAt: string;
+  generatedAt: string;
+}
+
+/** Blocks of the protocol page, listed in the order they are printed */
+export type ProtocolSectionId =
+  | 'document'
+  | 'signatures'
+  | 'authenticity'
+  | 'audit'
+  | 'qrcode'
+  | 'details'
+  | 'disclaimer';
+
+/** Colors of the protocol page, as #rrggbb */
+export interface ProtocolPalette {
+  title: string;
+  section: string;
+  text: string;
+  muted: string;
+}
+
+/** Texts of the protocol template; blank ones use the texts of the protocol language */
+export interface ProtocolLabels {
+  title: string;
+  /** Label of the short document hash box ("HASH SICFAR") */
+  hashLabel: string;
+  documentSection: string;
+  signaturesSection: string;
+  authenticitySection: string;
+  auditSection: string;
+  disclaimerSection: string;
+  /** Note printed above the generation date */
+  footer: string;
+}
+
+export interface ProtocolFontSizes {
+  title: number;
+  section: number;
+  normal: number;
+  small: number;
+}
+
+export interface ProtocolLogo {
+  /** Image bytes (base64) */
+  data: string;
+  mimeType: 'image/png' | 'image/jpeg';
+}
+
+/** Branding and layout of the protocol pages, editable in the settings screen */
+export interface ProtocolTemplate {
+  organizationName: string;
+  logo: ProtocolLogo | null;
+  palette: ProtocolPalette;
+  labels: ProtocolLabels;
+  fontSizes: ProtocolFontSizes;
+  /** Visible sections in print order */
+  sections: ProtocolSectionId[];
+  /** Legal text printed in the disclaimer section */
+  disclaimer: string;
+}
+
+export interface EnvelopeRecord {
+  id: string;
+  log: SignatureLog;
+  hasPdf: boolean;
+}
+
+export interface Envelope extends EnvelopeRecord {
+  pdfBytes: Uint8Array | null;
+}
+
+export interface SignatureLogExport {
+  format: string;
+  version: number;
+  exportedAt: string;
+  logs: SignatureLog[];
+}
+
+export type LogExportFormat = 'json' | 'csv';
+
+export interface LogImportResult {
+  imported: number;
+  updated: number;
+  skipped: number;
+}
+
+export type EnvelopeStatus = 'draft' | 'signed' | 'finalized' | 'refused';
+
+export interface EnvelopeFilters {
+  query: string;
+  signerCPF: string;
+  /** Inclusive creation date range (YYYY-MM-DD) */
+  createdFrom: string;
+  createdTo: string;
+}
+
+export interface StorageQuota {
+  usage: number;
+  quota: number;
+  persisted: boolean;
 }
 
 export interface AppState {
@@ -26,7 +446,77 @@ export interface AppState {
   currentLog: SignatureLog | null;
 }
 
+export interface CertificateFile {
+  fileName: string;
+  bytes: Uint8Array;
+  password: string;
+}
+
+/** Optional inputs collected by the signer form besides name and identity */
+export interface SignerAttachments {
+  certificate: CertificateFile | null;
+  handwritten: HandwrittenSignature | null;
+  initials: SignerInitials | null;
+}
+
 export interface SignerFormData {
   name: string;
-  cpf: string;
+  identity: SignerIdentity;
+  role: SignerRole;
+}
+
+export type ChainBreakReason = 'missing-link' | 'link-mismatch' | 'hash-mismatch';
+
+export type ChainBreakSubject = 'signature' | 'refusal' | 'audit-event';
+
+/** Record where a hash chain broke and why */
+export interface ChainBreak {
+  subject: ChainBreakSubject;
+  /** Number (1-based) of the record among those of its kind */
+  position: number;
+  reason: ChainBreakReason;
+}
+
+export interface ChainVerification {
+  valid: boolean;
+  length: number;
+  brokenAt: number | null;
+  failure: ChainBreak | null;
+  hashesRecomputed: boolean;
+}
+
+/** `partial`: no check failed, but some passed with a warning (see `VerificationCheck.warning`) */
+export type VerificationStatus = 'valid' | 'partial' | 'tampered' | 'unknown';
+
+export interface ProtocolSigner {
+  name: string;
+  document: string;
+  signedAt: string;
+  hash: string;
+}
+
+export interface ProtocolData {
+  documentHash: string;
+  totvsHash: string;
+  envelopeName: string | null;
+  signers: ProtocolSigner[];
+  declaredSignatureCount: number | null;
+}
+
+export interface VerificationCheck {
+  id: string;
+  label: string;
+  passed: boolean;
+  /** Passed, but relies on something that could not be confirmed */
+  warning?: boolean;
+  details?: string;
+}
+
+export interface VerificationResult {
+  status: VerificationStatus;
+  protocol: ProtocolData | null;
+  manifest: SignatureManifest | null;
+  checks: VerificationCheck[];
+  pageCount: number;
+  verifiedAt: string;
 }
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import type { AuditEvent, SignatureData, SignatureLog } from '@/types';
+import { verifyAuditTrail, verifySignatureChain } from './chain';
+import { generateAuditEventHash, generateChainGenesis, generateSignatureHash } from './hash';
+
+const PDF_BYTES = new TextEncoder().encode('%PDF-1.7 signed document');
+const DOCUMENT_ID = '7a1c1f1e-0000-4000-8000-000000000001';
+
+/**
+ * Builds a log whose signatures are chained from the genesis of PDF_BYTES
+ */
+async function createSignedLog(names: string[]): Promise<SignatureLog> {
+  const genesisHash = await generateChainGenesis(DOCUMENT_ID, PDF_BYTES);
+  const signatures: SignatureData[] = [];
+  let previousHash = genesisHash;
+
+  for (const [index, name] of names.entries()) {
+    const fields = {
+      name,
+      cpf: '52998224725',
+      deviceId: 'device-1',
+      timestamp: new Date(Date.UTC(2025, 0, 1, 12, index)).toISOString(),
+      previousHash,
+    };
+    const hash = await generateSignatureHash(PDF_BYTES, fields);
+    signatures.push({ id: `signature-${index}`, ...fields, hash });
+    previousHash = hash;
+  }
+
+  return {
+    documentId: DOCUMENT_ID,
+    pdfMetadata: { fileName: 'contract.pdf', fileSize: PDF_BYTES.length, lastModified: 0 },
+    signatures,
+    genesisHash,
+    createdAt: '2025-01-01T12:00:00.000Z',
+    updatedAt: '2025-01-01T12:00:00.000Z',
+  };
+}
+
+/**
+ * Builds an audit trail where each event links to the one before it
+ */
+function createAuditTrail(count: number): AuditEvent[] {
+  const trail: AuditEvent[] = [];
+  for (let i = 0; i < count; i++) {
+    const event: Omit<AuditEvent, 'hash'> = {
+      id: `event-${i}`,
+      type: 'page-viewed',
+      timestamp: new Date(Date.UTC(2025, 0, 1, 12, i)).toISOString(),
+      deviceId: 'device-1',
+      details: { page: i + 1 },
+      previousHash: trail[i - 1]?.hash,
+    };
+    trail.push({ ...event, hash: generateAuditEventHash(event) });
+  }
+  return trail;
+}
+
+describe('verifySignatureChain', () => {
+  it('accepts an intact chain and recomputes the hashes with the PDF', async () => {
+    const log = await createSignedLog(['MARIA SOUZA', 'JOSE DA SILVA', 'ANA LIMA']);
+
+    await expect(verifySignatureChain(log, PDF_BYTES)).resolves.toEqual({
+      valid: true,
+      length: 3,
+      brokenAt: null,
+      failure: null,
+      hashesRecomputed: true,
+    });
+  });
+
+  it('only checks the links without the PDF', async () => {
+    const log = await createSignedLog(['MARIA SOUZA', 'JOSE DA SILVA']);
+    const altered = {
+      ...log,
+      signatures: [{ ...log.signatures[0], name: 'OUTRA PESSOA' }, log.signatures[1]],
+    };
+
+    const result = await verifySignatureChain(altered);
+    expect(result.valid).toBe(true);
+    expect(result.hashesRecomputed).toBe(false);
+  });
+
+  it('reports a signature whose data no longer matches its hash', async () => {
+    const log = await createSignedLog(['MARIA SOUZA', 'JOSE DA SILVA']);
+    const altered = {
+      ...log,
+      signatures: [log.signatures[0], { ...log.signatures[1], name: 'OUTRA PESSOA' }],
+    };
+
+    const result = await verifySignatureChain(altered, PDF_BYTES);
+    expect(result.valid).toBe(false);
+    expect(result.brokenAt).toBe(1);
+    expect(result.failure).toEqual({ subject: 'signature', position: 2, reason: 'hash-mismatch' });
+  });
+
+  it('reports a removed signature as a broken link', async () => {
+    const log = await createSignedLog(['MARIA SOUZA', 'JOSE DA SILVA', 'ANA LIMA']);
+    const altered = { ...log, signatures: [log.signatures[0], log.signatures[2]] };
+
+    const result = await verifySignatureChain(altered);
+    expect(result.failure).toEqual({ subject: 'signature', position: 2, reason: 'link-mismatch' });
+  });
+
+  it('reports signatures made on another document', async () => {
+    const log = await createSignedLog(['MARIA SOUZA']);
+    const otherPdf = new TextEncoder().encode('%PDF-1.7 another document');
+
+    const result = await verifySignatureChain(log, otherPdf);
+    expect(result.failure).toEqual({ subject: 'signature', position: 1, reason: 'link-mismatch' });
+  });
+
+  it('reports a signature without a link', async () => {
+    const log = await createSignedLog(['MARIA SOUZA', 'JOSE DA SILVA']);
+    const altered = {
+      ...log,
+      signatures: [log.signatures[0], { ...log.signatures[1], previousHash: undefined }],
+    };
+
+    const result = await verifySignatureChain(altered);
+    expect(result.failure).toEqual({ subject: 'signature', position: 2, reason: 'missing-link' });
+  });
+});
+
+describe('verifyAuditTrail', () => {
+  it('accepts a linked trail', () => {
+    expect(verifyAuditTrail(createAuditTrail(3)).valid).toBe(true);
+  });
+
+  it('reports an altered event', () => {
+    const trail = createAuditTrail(3);
+    trail[1] = { ...trail[1], details: { page: 9 } };
+
+    const result = verifyAuditTrail(trail);
+    expect(result.failure).toEqual({ subject: 'audit-event', position: 2, reason: 'hash-mismatch' });
+  });
+
+  it('reports a removed event', () => {
+    const trail = createAuditTrail(3);
+
+    const result = verifyAuditTrail([trail[0], trail[2]]);
+    expect(result.failure).toEqual({ subject: 'audit-event', position: 2, reason: 'link-mismatch' });
+  });
+});
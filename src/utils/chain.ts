@@ -0,0 +1,158 @@
+import type { AuditEvent, ChainVerification, ChainBreakReason, ChainBreakSubject, SignatureLog } from '@/types';
+import { generateAuditEventHash, generateChainGenesis, generateRefusalHash, generateSignatureHash } from './hash';
+import { base64ToBytes } from './encoding';
+import { getInitialsHashInput } from './initials';
+import { getReadingHashInput } from './reading';
+import { getPlacementHashInput } from './stamp';
+
+/**
+ * Verifies the hash links of an audit trail.
+ * Events recorded before chaining have no hash and are only accepted before the
+ * first hashed one. Every later event must link to an earlier one: usually the
+ * event right before it, or another one when trails from two browsers were merged.
+ * @param trail - Audit events in the order they were stored
+ * @returns Chain verification with the position of the first broken event
+ */
+export function verifyAuditTrail(trail: AuditEvent[]): ChainVerification {
+  const broken = (index: number, reason: ChainBreakReason): ChainVerification => ({
+    valid: false,
+    length: trail.length,
+    brokenAt: index,
+    failure: { subject: 'audit-event', position: index + 1, reason },
+    hashesRecomputed: true,
+  });
+
+  const earlierHashes = new Set<string>();
+  for (let i = 0; i < trail.length; i++) {
+    const event = trail[i];
+    const isFirstHashed = earlierHashes.size === 0;
+
+    if (!event.hash) {
+      if (isFirstHashed) continue;
+      return broken(i, 'missing-link');
+    }
+
+    if (event.previousHash ? !earlierHashes.has(event.previousHash) : !isFirstHashed) {
+      return broken(i, event.previousHash ? 'link-mismatch' : 'missing-link');
+    }
+
+    if (generateAuditEventHash(event) !== event.hash) {
+      return broken(i, 'hash-mismatch');
+    }
+    earlierHashes.add(event.hash);
+  }
+
+  return {
+    valid: true,
+    length: trail.length,
+    brokenAt: null,
+    failure: null,
+    hashesRecomputed: true,
+  };
+}
+
+/**
+ * Verifies the hash chain of a signature log.
+ * Without the PDF bytes only the links between records are checked; with them
+ * the genesis value and every signature hash are recomputed as well. Refusals hang
+ * off the chain: each one must link to the genesis or to a signature, and they are
+ * numbered after the signatures in `brokenAt`.
+ * @param log - Signature log (or manifest) to verify
+ * @param pdfBytes - Optional PDF bytes the signatures were made on
+ * @returns Chain verification with the position of the first break
+ */
+export async function verifySignatureChain(
+  log: Pick<SignatureLog, 'documentId' | 'signatures' | 'genesisHash' | 'refusals'>,
+  pdfBytes?: Uint8Array | null
+): Promise<ChainVerification> {
+  const { signatures } = log;
+  const expectedGenesis = pdfBytes
+    ? await generateChainGenesis(log.documentId, pdfBytes)
+    : log.genesisHash ?? null;
+
+  const broken = (
+    index: number,
+    reason: ChainBreakReason,
+    subject: ChainBreakSubject = 'signature',
+    position: number = index + 1
+  ): ChainVerification => ({
+    valid: false,
+    length: signatures.length,
+    brokenAt: index,
+    failure: { subject, position, reason },
+    hashesRecomputed: !!pdfBytes,
+  });
+
+  for (let i = 0; i < signatures.length; i++) {
+    const signature = signatures[i];
+    const expectedPrevious = i === 0 ? expectedGenesis : signatures[i - 1].hash;
+
+    if (!signature.previousHash) {
+      return broken(i, 'missing-link');
+    }
+
+    if (expectedPrevious !== null && signature.previousHash !== expectedPrevious) {
+      return broken(i, 'link-mismatch');
+    }
+
+    if (pdfBytes) {
+      const recomputed = await generateSignatureHash(pdfBytes, {
+        name: signature.name,
+        cpf: signature.cpf,
+        documentType: signature.documentType,
+        documentIssuer: signature.documentIssuer,
+        role: signature.role,
+        deviceId: signature.deviceId,
+        timestamp: signature.timestamp,
+        previousHash: signature.previousHash,
+        certificate: signature.certificate?.fingerprint,
+        placement: getPlacementHashInput(signature.placement),
+        handwrittenImage: signature.handwritten && base64ToBytes(signature.handwritten.image),
+        initials: getInitialsHashInput(signature.initials),
+        reading: getReadingHashInput(signature.reading),
+      });
+      if (recomputed !== signature.hash) {
+        return broken(i, 'hash-mismatch');
+      }
+    }
+  }
+
+  const refusals = log.refusals ?? [];
+  const genesis = expectedGenesis ?? signatures[0]?.previousHash ?? null;
+  const chainHashes = new Set([...(genesis ? [genesis] : []), ...signatures.map((signature) => signature.hash)]);
+
+  for (let i = 0; i < refusals.length; i++) {
+    const refusal = refusals[i];
+    const brokenRefusal = (reason: ChainBreakReason) => broken(signatures.length + i, reason, 'refusal', i + 1);
+
+    // Without the genesis, a refusal made before any signature cannot be checked
+    if (chainHashes.size > 0 && !chainHashes.has(refusal.previousHash)) {
+      return brokenRefusal('link-mismatch');
+    }
+
+    if (pdfBytes) {
+      const recomputed = await generateRefusalHash(pdfBytes, {
+        name: refusal.name,
+        cpf: refusal.cpf,
+        documentType: refusal.documentType,
+        documentIssuer: refusal.documentIssuer,
+        role: refusal.role,
+        reason: refusal.reason,
+        deviceId: refusal.deviceId,
+        timestamp: refusal.timestamp,
+        previousHash: refusal.previousHash,
+      });
+      if (recomputed !== refusal.hash) {
+        return brokenRefusal('hash-mismatch');
+      }
+    }
+  }
+
+  return {
+    valid: true,
+    length: signatures.length,
+    brokenAt: null,
+    failure: null,
+    hashesRecomputed: !!pdfBytes,
+  };
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { formatCNPJ, normalizeCNPJ, validateCNPJ } from './cnpj';
+
+describe('validateCNPJ', () => {
+  it.each(['11222333000181', '11.222.333/0001-81', '00.000.000/0001-91'])('accepts the numeric CNPJ %s', (cnpj) => {
+    expect(validateCNPJ(cnpj)).toBe(true);
+  });
+
+  it.each(['12ABC34501DE35', '12.ABC.345/01DE-35', '12.abc.345/01de-35'])(
+    'accepts the alphanumeric CNPJ %s',
+    (cnpj) => {
+      expect(validateCNPJ(cnpj)).toBe(true);
+    }
+  );
+
+  it.each([
+    ['a wrong first check digit', '11222333000191'],
+    ['a wrong second check digit', '11222333000182'],
+    ['a wrong alphanumeric check digit', '12ABC34501DE36'],
+    ['a letter in the check digits', '12ABC34501DE3A'],
+    ['too few characters', '1122233300018'],
+    ['too many characters', '112223330001811'],
+    ['repeated digits', '11111111111111'],
+    ['an empty value', ''],
+  ])('rejects %s', (_, cnpj) => {
+    expect(validateCNPJ(cnpj)).toBe(false);
+  });
+});
+
+describe('normalizeCNPJ', () => {
+  it('keeps only digits and uppercase letters', () => {
+    expect(normalizeCNPJ('12.abc.345/01de-35')).toBe('12ABC34501DE35');
+  });
+});
+
+describe('formatCNPJ', () => {
+  it('formats numeric and alphanumeric CNPJs', () => {
+    expect(formatCNPJ('11222333000181')).toBe('11.222.333/0001-81');
+    expect(formatCNPJ('12abc34501de35')).toBe('12.ABC.345/01DE-35');
+  });
+
+  it('leaves values of another length unchanged', () => {
+    expect(formatCNPJ('123')).toBe('123');
+  });
+});
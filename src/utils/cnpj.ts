@@ -0,0 +1,63 @@
+// Weights of the first and second check digits (módulo 11)
+const FIRST_DIGIT_WEIGHTS = [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2];
+const SECOND_DIGIT_WEIGHTS = [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2];
+
+/**
+ * Calculates a CNPJ check digit. Each character is worth its ASCII code minus 48,
+ * so digits keep their value and letters of the alphanumeric CNPJ go from 17 (A) to 42 (Z).
+ * @param base - Characters preceding the check digit
+ * @param weights - Weight of each character
+ * @returns Check digit
+ */
+function calculateCNPJCheckDigit(base: string, weights: number[]): number {
+  const sum = weights.reduce((total, weight, i) => total + (base.charCodeAt(i) - 48) * weight, 0);
+  const remainder = sum % 11;
+  return remainder < 2 ? 0 : 11 - remainder;
+}
+
+/**
+ * Normalizes a CNPJ to only contain digits and uppercase letters
+ * @param cnpj - CNPJ string
+ * @returns CNPJ with only digits and uppercase letters
+ */
+export function normalizeCNPJ(cnpj: string): string {
+  return cnpj.toUpperCase().replace(/[^0-9A-Z]/g, '');
+}
+
+/**
+ * Validates a Brazilian CNPJ (Cadastro Nacional da Pessoa Jurídica), either numeric
+ * or alphanumeric: 12 digits or uppercase letters followed by 2 numeric check digits
+ * @param cnpj - CNPJ string (with or without formatting)
+ * @returns true if CNPJ is valid, false otherwise
+ */
+export function validateCNPJ(cnpj: string): boolean {
+  const cleanCNPJ = normalizeCNPJ(cnpj);
+
+  if (!/^[0-9A-Z]{12}\d{2}$/.test(cleanCNPJ)) {
+    return false;
+  }
+
+  // Check for known invalid patterns (all same digits)
+  if (/^(\d)\1{13}$/.test(cleanCNPJ)) {
+    return false;
+  }
+
+  const firstDigit = calculateCNPJCheckDigit(cleanCNPJ.slice(0, 12), FIRST_DIGIT_WEIGHTS);
+  if (firstDigit !== parseInt(cleanCNPJ.charAt(12))) {
+    return false;
+  }
+
+  const secondDigit = calculateCNPJCheckDigit(cleanCNPJ.slice(0, 13), SECOND_DIGIT_WEIGHTS);
+  return secondDigit === parseInt(cleanCNPJ.charAt(13));
+}
+
+/**
+ * Formats a CNPJ string with the standard format (XX.XXX.XXX/XXXX-XX)
+ * @param cnpj - CNPJ string (normalized or formatted)
+ * @returns Formatted CNPJ string
+ */
+export function formatCNPJ(cnpj: string): string {
+  const clean = normalizeCNPJ(cnpj);
+  if (clean.length !== 14) return cnpj;
+  return clean.replace(/(\w{2})(\w{3})(\w{3})(\w{4})(\w{2})/, '$1.$2.$3/$4-$5');
+}
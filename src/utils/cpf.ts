@@ -74,3 +74,18 @@ export function formatCPF(cpf: string): string {
 export function normalizeName(name: string): string {
   return name.trim().replace(/\s+/g, ' ').toUpperCase();
 }
+
+// Scripts the bundled fonts draw: Noto Sans (Latin, Greek, Cyrillic) and the CJK
+// fallbacks. Right-to-left and complex scripts (Arabic, Hebrew, Thai, Devanagari...)
+// would need shaping, which pdf-lib does not do.
+const UNSUPPORTED_NAME_CHARACTER =
+  /[^\p{Script=Latin}\p{Script=Greek}\p{Script=Cyrillic}\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Bopomofo}\p{Script=Hangul}\p{Script=Common}\p{Script=Inherited}]/u;
+
+/**
+ * Checks that a name only uses scripts the signature protocol can draw
+ * @param name - Name string
+ * @returns True if every character belongs to a supported script
+ */
+export function hasSupportedNameScript(name: string): boolean {
+  return !UNSUPPORTED_NAME_CHARACTER.test(name);
+}
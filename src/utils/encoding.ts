@@ -0,0 +1,37 @@
+/**
+ * Encodes bytes as a base64 string
+ * @param bytes - Bytes to encode
+ * @returns Base64 string
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decodes a base64 (or base64url) string into bytes
+ * @param base64 - Base64 string
+ * @returns Decoded bytes
+ */
+export function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  const normalized = base64.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = normalized.padEnd(Math.ceil(normalized.length / 4) * 4, '=');
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Encodes bytes as an unpadded base64url string
+ * @param bytes - Bytes to encode
+ * @returns Base64url string
+ */
+export function bytesToBase64Url(bytes: Uint8Array): string {
+  return bytesToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
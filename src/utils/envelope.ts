@@ -0,0 +1,81 @@
+import type { EnvelopeFilters, EnvelopeRecord, EnvelopeStatus, SignatureData, SignatureLog } from '@/types';
+import { normalizeCNPJ } from './cnpj';
+
+export const EMPTY_ENVELOPE_FILTERS: EnvelopeFilters = {
+  query: '',
+  signerCPF: '',
+  createdFrom: '',
+  createdTo: '',
+};
+
+/**
+ * Derives the status of an envelope from its log.
+ * An envelope signed again after finalization goes back to "signed"; a refusal
+ * to sign overrides every other status.
+ * @param log - Signature log
+ * @returns Envelope status
+ */
+export function getEnvelopeStatus(log: SignatureLog): EnvelopeStatus {
+  if (log.refusals?.length) return 'refused';
+  if (log.signatures.length === 0) return 'draft';
+
+  const lastSignature = log.signatures[log.signatures.length - 1];
+  if (log.finalizedAt && log.finalizedAt >= lastSignature.timestamp) return 'finalized';
+
+  return 'signed';
+}
+
+/**
+ * Gets the most recent signature of an envelope
+ * @param log - Signature log
+ * @returns Last signature or null
+ */
+export function getLastSigner(log: SignatureLog): SignatureData | null {
+  return log.signatures[log.signatures.length - 1] ?? null;
+}
+
+/**
+ * Converts a local YYYY-MM-DD date to the start of that day
+ * @param value - Date input value
+ * @returns Timestamp in milliseconds
+ */
+function startOfLocalDay(value: string): number {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day).getTime();
+}
+
+/**
+ * Filters envelopes by text (file name, signer name, document ID), signer CPF/CNPJ and creation date
+ * @param envelopes - Envelope records
+ * @param filters - Active filters (empty values are ignored)
+ * @returns Matching envelopes, in the original order
+ */
+export function filterEnvelopes(envelopes: EnvelopeRecord[], filters: EnvelopeFilters): EnvelopeRecord[] {
+  const query = filters.query.trim().toLowerCase();
+  // Keeps the letters of CNPJs, passports and RNEs; CPFs are only digits either way
+  const cpf = normalizeCNPJ(filters.signerCPF);
+  const from = filters.createdFrom ? startOfLocalDay(filters.createdFrom) : null;
+  // Inclusive: everything before the start of the following day
+  const to = filters.createdTo ? startOfLocalDay(filters.createdTo) + 24 * 60 * 60 * 1000 : null;
+
+  return envelopes.filter(({ log }) => {
+    if (query) {
+      const haystack = [
+        log.pdfMetadata.fileName,
+        log.documentId,
+        ...log.signatures.map((signature) => signature.name),
+      ]
+        .join(' ')
+        .toLowerCase();
+      if (!haystack.includes(query)) return false;
+    }
+
+    if (cpf && !log.signatures.some((signature) => signature.cpf.includes(cpf))) return false;
+
+    const createdAt = new Date(log.createdAt).getTime();
+    if (from !== null && createdAt < from) return false;
+    if (to !== null && createdAt >= to) return false;
+
+    return true;
+  });
+}
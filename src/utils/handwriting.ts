@@ -0,0 +1,84 @@
+import type { HandwrittenSignature, SignaturePoint } from '@/types';
+import { getMessages } from '@/i18n';
+import { bytesToBase64 } from './encoding';
+
+export interface PadSize {
+  width: number;
+  height: number;
+}
+
+/** Coordinate space of the signature pad, in CSS pixels */
+export const SIGNATURE_PAD_SIZE: PadSize = { width: 400, height: 150 };
+
+/** Coordinate space of the initials pad, in CSS pixels */
+export const INITIALS_PAD_SIZE: PadSize = { width: 200, height: 100 };
+
+// Stroke width at medium pressure, in pad pixels
+const BASE_LINE_WIDTH = 2.5;
+
+// Resolution of the stored PNG relative to the pad, so the protocol prints sharp
+const IMAGE_SCALE = 2;
+
+/**
+ * Draws handwritten strokes; the line gets thicker with the pen pressure
+ * @param context - Canvas 2D context
+ * @param strokes - Strokes in pad coordinates
+ * @param scale - Ratio between canvas pixels and pad pixels
+ */
+export function drawStrokes(context: CanvasRenderingContext2D, strokes: SignaturePoint[][], scale: number = 1): void {
+  context.lineCap = 'round';
+  context.lineJoin = 'round';
+  context.strokeStyle = '#1e293b';
+  context.fillStyle = '#1e293b';
+
+  for (const stroke of strokes) {
+    // A tap leaves a dot
+    if (stroke.length === 1) {
+      const [point] = stroke;
+      context.beginPath();
+      context.arc(point.x * scale, point.y * scale, (BASE_LINE_WIDTH * (0.5 + point.pressure) * scale) / 2, 0, Math.PI * 2);
+      context.fill();
+      continue;
+    }
+
+    for (let i = 1; i < stroke.length; i++) {
+      const from = stroke[i - 1];
+      const to = stroke[i];
+      context.lineWidth = BASE_LINE_WIDTH * (0.5 + (from.pressure + to.pressure) / 2) * scale;
+      context.beginPath();
+      context.moveTo(from.x * scale, from.y * scale);
+      context.lineTo(to.x * scale, to.y * scale);
+      context.stroke();
+    }
+  }
+}
+
+/**
+ * Renders the strokes to a transparent PNG and bundles them with the image
+ * @param strokes - Strokes drawn on the pad
+ * @param size - Coordinate space of the pad
+ * @returns Handwritten signature with the PNG (base64) and the vector points
+ */
+export async function renderHandwrittenSignature(
+  strokes: SignaturePoint[][],
+  size: PadSize = SIGNATURE_PAD_SIZE
+): Promise<HandwrittenSignature> {
+  const { width, height } = size;
+  const canvas = document.createElement('canvas');
+  canvas.width = width * IMAGE_SCALE;
+  canvas.height = height * IMAGE_SCALE;
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error(getMessages().errors.handwritingFailed);
+  drawStrokes(context, strokes, IMAGE_SCALE);
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error(getMessages().errors.handwritingFailed);
+
+  return {
+    image: bytesToBase64(new Uint8Array(await blob.arrayBuffer())),
+    strokes,
+    width,
+    height,
+  };
+}
@@ -1,3 +1,6 @@
+import forge from 'node-forge';
+import type { AuditEvent, RefusalHashPayload, SignatureHashPayload } from '@/types';
+
 /**
  * Generates a SHA-256 hash from the given data
  * @param data - Data to hash (can be string or Uint8Array)
@@ -21,33 +24,128 @@ export async function generateSHA256(data: string | Uint8Array): Promise<string>
 }
 
 /**
- * Generates a signature hash based on PDF bytes and signer data
+ * Generates a signature hash based on PDF bytes and signer data.
+ * The PNGs of a handwritten signature and of drawn initials, when present, are
+ * appended after the signer fields, preceded by the certificate fingerprint and the stamp
+ * position and followed by the pages viewed before signing; hashes of signatures without
+ * them are unchanged.
+ * Other documents are labeled with their type (and issuer) instead of CPF, so CPF
+ * signatures keep their original hashes. The role, when present, follows the document.
  * @param pdfBytes - The PDF file bytes
- * @param signerName - Normalized signer name
- * @param signerCPF - Normalized CPF (digits only)
- * @param deviceId - Device identifier
- * @param timestamp - ISO timestamp
+ * @param payload - Normalized signer data, device, time, chain link, certificate, stamp, drawing, initials and reading
  * @returns Promise with the hex-encoded hash
  */
 export async function generateSignatureHash(
   pdfBytes: Uint8Array,
-  signerName: string,
-  signerCPF: string,
-  deviceId: string,
-  timestamp: string
+  payload: SignatureHashPayload
 ): Promise<string> {
-  // Create a combined payload: PDF bytes + signer data
-  const signerPayload = `|NAME:${signerName}|CPF:${signerCPF}|DEVICE:${deviceId}|TIME:${timestamp}|`;
+  const {
+    name,
+    cpf,
+    documentType = 'cpf',
+    documentIssuer,
+    role,
+    deviceId,
+    timestamp,
+    previousHash,
+    certificate,
+    placement,
+    handwrittenImage,
+    initials,
+    reading,
+  } = payload;
+  const issuer = documentIssuer ? `ISSUER:${documentIssuer}|` : '';
+  const signerRole = role ? `ROLE:${role}|` : '';
+
+  // Create a combined payload: PDF bytes + signer data + chain link (+ drawings and initials)
+  let signerPayload = `|NAME:${name}|${documentType.toUpperCase()}:${cpf}|${issuer}${signerRole}DEVICE:${deviceId}|TIME:${timestamp}|PREV:${previousHash}|`;
+  const images: Uint8Array[] = [];
+  if (certificate) {
+    signerPayload += `CERT:${certificate}|`;
+  }
+  if (placement) {
+    signerPayload += `PLACEMENT:${placement}|`;
+  }
+  if (handwrittenImage) {
+    signerPayload += `IMAGE:${handwrittenImage.length}|`;
+    images.push(handwrittenImage);
+  }
+  if (typeof initials === 'string') {
+    signerPayload += `INITIALS:${initials}|`;
+  } else if (initials) {
+    signerPayload += `INITIALS_IMAGE:${initials.length}|`;
+    images.push(initials);
+  }
+  if (reading) {
+    signerPayload += `READING:${reading}|`;
+  }
   const signerBytes = new TextEncoder().encode(signerPayload);
-  
-  // Combine PDF bytes and signer payload
-  const combinedBytes = new Uint8Array(pdfBytes.length + signerBytes.length);
+
+  // Combine PDF bytes, signer payload and image bytes
+  const parts = [pdfBytes, signerBytes, ...images];
+  const combinedBytes = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    combinedBytes.set(part, offset);
+    offset += part.length;
+  }
+
+  return generateSHA256(combinedBytes);
+}
+
+/**
+ * Generates the hash of a refusal to sign. The REFUSAL marker keeps it from ever
+ * matching the hash of a signature with the same signer data.
+ * @param pdfBytes - The PDF file bytes
+ * @param payload - Normalized signer data, reason, device, time and chain link
+ * @returns Promise with the hex-encoded hash
+ */
+export async function generateRefusalHash(pdfBytes: Uint8Array, payload: RefusalHashPayload): Promise<string> {
+  const { name, cpf, documentType = 'cpf', documentIssuer, role, reason, deviceId, timestamp, previousHash } = payload;
+  const issuer = documentIssuer ? `ISSUER:${documentIssuer}|` : '';
+  const signerRole = role ? `ROLE:${role}|` : '';
+
+  const refusalPayload = `|REFUSAL|NAME:${name}|${documentType.toUpperCase()}:${cpf}|${issuer}${signerRole}REASON:${reason}|DEVICE:${deviceId}|TIME:${timestamp}|PREV:${previousHash}|`;
+  const refusalBytes = new TextEncoder().encode(refusalPayload);
+
+  const combinedBytes = new Uint8Array(pdfBytes.length + refusalBytes.length);
   combinedBytes.set(pdfBytes, 0);
-  combinedBytes.set(signerBytes, pdfBytes.length);
-  
+  combinedBytes.set(refusalBytes, pdfBytes.length);
+
   return generateSHA256(combinedBytes);
 }
 
+/**
+ * Generates the hash of an audit event, linked to the event before it.
+ * Synchronous (node-forge) so events can be appended inside state updaters;
+ * details are hashed with sorted keys because parsing may reorder them.
+ * @param event - Audit event without its own hash
+ * @returns Hex-encoded SHA-256 hash
+ */
+export function generateAuditEventHash(event: Omit<AuditEvent, 'hash'>): string {
+  const { id, type, timestamp, deviceId, details = {}, previousHash } = event;
+  const sortedDetails = JSON.stringify(Object.entries(details).sort(([a], [b]) => a.localeCompare(b)));
+  const eventPayload = `|AUDIT|ID:${id}|TYPE:${type}|TIME:${timestamp}|DEVICE:${deviceId}|DETAILS:${sortedDetails}|PREV:${previousHash ?? ''}|`;
+
+  const md = forge.md.sha256.create();
+  md.update(eventPayload, 'utf8');
+  return md.digest().toHex();
+}
+
+/**
+ * Generates the genesis value of a signature chain, derived from the document
+ * @param documentId - Document (envelope) identifier
+ * @param pdfBytes - The PDF file bytes
+ * @returns Promise with the hex-encoded genesis hash
+ */
+export async function generateChainGenesis(
+  documentId: string,
+  pdfBytes: Uint8Array
+): Promise<string> {
+  const documentHash = await generateSHA256(pdfBytes);
+  return generateSHA256(`|GENESIS|DOC:${documentId}|SHA256:${documentHash}|`);
+}
+
 /**
  * Abbreviates a hash for display purposes
  * @param hash - Full hash string
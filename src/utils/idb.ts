@@ -0,0 +1,41 @@
+import { getMessages } from '@/i18n';
+
+/**
+ * Wraps an IndexedDB request in a Promise
+ * @param request - IndexedDB request
+ * @returns Promise with the request result
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Opens (and upgrades when needed) an IndexedDB database
+ * @param name - Database name
+ * @param version - Schema version
+ * @param upgrade - Callback that creates/migrates object stores
+ * @returns Promise with the open database
+ */
+export function openDatabase(
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase, oldVersion: number, transaction: IDBTransaction) => void
+): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error(getMessages().errors.indexedDbUnavailable));
+      return;
+    }
+
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = (event) => {
+      upgrade(request.result, event.oldVersion, request.transaction!);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error(getMessages().errors.databaseBlocked));
+  });
+}
@@ -0,0 +1,118 @@
+import type { SignerDocumentType, SignerIdentity } from '@/types';
+import { formatCPF, normalizeCPF, validateCPF } from './cpf';
+import { formatCNPJ, normalizeCNPJ, validateCNPJ } from './cnpj';
+
+export const SIGNER_DOCUMENT_TYPES: readonly SignerDocumentType[] = ['cpf', 'cnpj', 'passport', 'rne', 'rg'];
+
+// Federative units (UF) that issue RGs
+export const BRAZILIAN_STATES: readonly string[] = [
+  'AC', 'AL', 'AM', 'AP', 'BA', 'CE', 'DF', 'ES', 'GO', 'MA', 'MG', 'MS', 'MT', 'PA',
+  'PB', 'PE', 'PI', 'PR', 'RJ', 'RN', 'RO', 'RR', 'RS', 'SC', 'SE', 'SP', 'TO',
+];
+
+// ISO 3166-1 alpha-2 codes of the countries that issue passports
+export const COUNTRY_CODES: readonly string[] = (
+  'AD AE AF AG AI AL AM AO AQ AR AS AT AU AW AX AZ BA BB BD BE BF BG BH BI BJ BL BM BN BO BQ BR BS BT BV ' +
+  'BW BY BZ CA CC CD CF CG CH CI CK CL CM CN CO CR CU CV CW CX CY CZ DE DJ DK DM DO DZ EC EE EG EH ER ES ' +
+  'ET FI FJ FK FM FO FR GA GB GD GE GF GG GH GI GL GM GN GP GQ GR GS GT GU GW GY HK HM HN HR HT HU ID IE ' +
+  'IL IM IN IO IQ IR IS IT JE JM JO JP KE KG KH KI KM KN KP KR KW KY KZ LA LB LC LI LK LR LS LT LU LV LY ' +
+  'MA MC MD ME MF MG MH MK ML MM MN MO MP MQ MR MS MT MU MV MW MX MY MZ NA NC NE NF NG NI NL NO NP NR NU ' +
+  'NZ OM PA PE PF PG PH PK PL PM PN PR PS PT PW PY QA RE RO RS RU RW SA SB SC SD SE SG SH SI SJ SK SL SM ' +
+  'SN SO SR SS ST SV SX SY SZ TC TD TF TG TH TJ TK TL TM TN TO TR TT TV TW TZ UA UG UM US UY UZ VA VC VE ' +
+  'VG VI VN VU WF WS YE YT ZA ZM ZW'
+).split(' ');
+
+// Stored form of the document types validated by format only
+const PASSPORT_PATTERN = /^[0-9A-Z]{6,9}$/;
+const RNE_PATTERN = /^[A-Z]\d{6}[0-9A-Z]$/;
+const RG_PATTERN = /^\d{4,13}[0-9X]$/;
+
+/**
+ * Validates the document number of a signer. Passports, RNE/CRNM and RGs have no
+ * public check digit, so only their format is checked.
+ * @param document - Document number (with or without formatting)
+ * @param type - Document type
+ * @returns true if valid for the type
+ */
+export function validateSignerDocument(document: string, type: SignerDocumentType): boolean {
+  switch (type) {
+    case 'cnpj':
+      return validateCNPJ(document);
+    case 'passport':
+      return PASSPORT_PATTERN.test(normalizeSignerDocument(document, type));
+    case 'rne':
+      return RNE_PATTERN.test(normalizeSignerDocument(document, type));
+    case 'rg':
+      return RG_PATTERN.test(normalizeSignerDocument(document, type));
+    default:
+      return validateCPF(document);
+  }
+}
+
+/**
+ * Normalizes the document number of a signer to the stored form
+ * @param document - Document number
+ * @param type - Document type
+ * @returns CPF digits, RG digits (and a final X), or uppercase letters and digits
+ */
+export function normalizeSignerDocument(document: string, type: SignerDocumentType): string {
+  switch (type) {
+    case 'cpf':
+      return normalizeCPF(document);
+    case 'rg':
+      return document.toUpperCase().replace(/[^0-9X]/g, '');
+    default:
+      return normalizeCNPJ(document);
+  }
+}
+
+/**
+ * Formats the document number of a signer, followed by its issuer
+ * @param document - Stored document number
+ * @param type - Document type (signatures made before CNPJ support have none and are CPF)
+ * @param issuer - Issuing country or state, if any
+ * @returns Formatted number, like "12.345.678-9 (SP)"
+ */
+export function formatSignerDocument(document: string, type: SignerDocumentType = 'cpf', issuer?: string): string {
+  let formatted: string;
+  switch (type) {
+    case 'cnpj':
+      formatted = formatCNPJ(document);
+      break;
+    case 'rne':
+      formatted = document.length === 8 ? `${document.slice(0, 7)}-${document.slice(7)}` : document;
+      break;
+    case 'rg':
+      formatted = document.length === 9 ? document.replace(/(\d{2})(\d{3})(\d{3})(\w)/, '$1.$2.$3-$4') : document;
+      break;
+    case 'passport':
+      formatted = document;
+      break;
+    default:
+      formatted = formatCPF(document);
+  }
+  return issuer ? `${formatted} (${issuer})` : formatted;
+}
+
+/**
+ * Validates the issuer of a signer document
+ * @param issuer - Country code (passport) or UF (RG)
+ * @param type - Document type
+ * @returns true if the type has no issuer, or the issuer is known
+ */
+export function validateDocumentIssuer(issuer: string | undefined, type: SignerDocumentType): boolean {
+  if (type === 'passport') return !!issuer && COUNTRY_CODES.includes(issuer);
+  if (type === 'rg') return !!issuer && BRAZILIAN_STATES.includes(issuer);
+  return issuer === undefined;
+}
+
+/**
+ * Gets the issuer of an identity entered in the signer form
+ * @param identity - Signer identity
+ * @returns Issuing country or state, or undefined for documents without one
+ */
+export function getSignerDocumentIssuer(identity: SignerIdentity): string | undefined {
+  if (identity.type === 'passport') return identity.country;
+  if (identity.type === 'rg') return identity.state;
+  return undefined;
+}
@@ -1,4 +1,18 @@
 export * from './cpf';
+export * from './cnpj';
+export * from './identity';
+export * from './roles';
+export * from './workflow';
 export * from './hash';
 export * from './device';
 export * from './storage';
+export * from './chain';
+export * from './encoding';
+export * from './keys';
+export * from './envelope';
+export * from './transfer';
+export * from './stamp';
+export * from './handwriting';
+export * from './initials';
+export * from './reading';
+export * from './template';
@@ -0,0 +1,28 @@
+import type { SignerInitials } from '@/types';
+import { base64ToBytes } from './encoding';
+
+// Connecting words left out of generated initials ("JOSÉ DA SILVA" → "JS")
+const NAME_PARTICLES = new Set(['DA', 'DAS', 'DE', 'DI', 'DO', 'DOS', 'DU', 'E']);
+
+const graphemeSegmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+
+/**
+ * Generates initials from a normalized name
+ * @param name - Normalized signer name (uppercase, single spaces)
+ * @returns First letter of each word, particles skipped
+ */
+export function generateInitials(name: string): string {
+  const words = name.split(' ').filter((word) => word && !NAME_PARTICLES.has(word));
+  // Whole grapheme so accented and non-Latin letters stay intact
+  return words.map((word) => graphemeSegmenter.segment(word)[Symbol.iterator]().next().value?.segment ?? '').join('');
+}
+
+/**
+ * Returns the part of the initials covered by the signature hash
+ * @param initials - Signer initials
+ * @returns Initials text or PNG bytes of the drawn initials
+ */
+export function getInitialsHashInput(initials: SignerInitials | undefined): string | Uint8Array | undefined {
+  if (!initials) return undefined;
+  return initials.kind === 'text' ? initials.text : base64ToBytes(initials.drawing.image);
+}
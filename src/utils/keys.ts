@@ -0,0 +1,141 @@
+import type { DevicePublicKey, SignatureData } from '@/types';
+import { openDatabase, requestToPromise } from './idb';
+import { base64ToBytes, bytesToBase64, bytesToBase64Url } from './encoding';
+
+const KEYS_DB = {
+  NAME: 'pdf_signature_keys',
+  VERSION: 1,
+  STORE: 'device_keys',
+  CURRENT_KEY: 'current',
+} as const;
+
+const ECDSA_KEY_PARAMS: EcKeyGenParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const ECDSA_SIGN_PARAMS: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+
+interface StoredDeviceKey {
+  id: string;
+  keyPair: CryptoKeyPair;
+  createdAt: string;
+}
+
+let cachedKeyPair: Promise<CryptoKeyPair> | null = null;
+
+/**
+ * Opens the device key database
+ * @returns Promise with the open database
+ */
+function openKeysDatabase(): Promise<IDBDatabase> {
+  return openDatabase(KEYS_DB.NAME, KEYS_DB.VERSION, (db) => {
+    if (!db.objectStoreNames.contains(KEYS_DB.STORE)) {
+      db.createObjectStore(KEYS_DB.STORE, { keyPath: 'id' });
+    }
+  });
+}
+
+/**
+ * Loads the device key pair from IndexedDB, generating it on first use.
+ * The private key is non-extractable, so it never leaves this browser.
+ * @returns Promise with the device key pair
+ */
+export function getOrCreateDeviceKeyPair(): Promise<CryptoKeyPair> {
+  if (!cachedKeyPair) {
+    cachedKeyPair = (async () => {
+      const db = await openKeysDatabase();
+      try {
+        const readStore = db.transaction(KEYS_DB.STORE, 'readonly').objectStore(KEYS_DB.STORE);
+        const stored = await requestToPromise<StoredDeviceKey | undefined>(readStore.get(KEYS_DB.CURRENT_KEY));
+        if (stored) return stored.keyPair;
+
+        const keyPair = await crypto.subtle.generateKey(ECDSA_KEY_PARAMS, false, ['sign', 'verify']);
+        const writeStore = db.transaction(KEYS_DB.STORE, 'readwrite').objectStore(KEYS_DB.STORE);
+        const record: StoredDeviceKey = {
+          id: KEYS_DB.CURRENT_KEY,
+          keyPair,
+          createdAt: new Date().toISOString(),
+        };
+        await requestToPromise(writeStore.put(record));
+        return keyPair;
+      } finally {
+        db.close();
+      }
+    })().catch((error) => {
+      cachedKeyPair = null;
+      throw error;
+    });
+  }
+
+  return cachedKeyPair;
+}
+
+/**
+ * Exports the device public key as a minimal JWK
+ * @param publicKey - Device public key
+ * @returns Public key JWK (kty, crv, x, y)
+ */
+export async function exportDevicePublicKey(publicKey: CryptoKey): Promise<DevicePublicKey> {
+  const jwk = await crypto.subtle.exportKey('jwk', publicKey);
+  return { kty: 'EC', crv: 'P-256', x: jwk.x!, y: jwk.y! };
+}
+
+/**
+ * Computes the RFC 7638 thumbprint of a device public key
+ * @param publicKey - Public key JWK
+ * @returns Base64url SHA-256 thumbprint
+ */
+export async function getPublicKeyThumbprint(publicKey: DevicePublicKey): Promise<string> {
+  // Members in lexicographic order, no whitespace
+  const canonical = `{"crv":"${publicKey.crv}","kty":"${publicKey.kty}","x":"${publicKey.x}","y":"${publicKey.y}"}`;
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical));
+  return bytesToBase64Url(new Uint8Array(digest));
+}
+
+/**
+ * Signs a signature hash with the device private key
+ * @param hash - Hex-encoded signature hash
+ * @returns Base64 ECDSA signature (r || s) and the public key to verify it
+ */
+export async function signWithDeviceKey(
+  hash: string
+): Promise<{ signature: string; publicKey: DevicePublicKey }> {
+  const keyPair = await getOrCreateDeviceKeyPair();
+  const signature = await crypto.subtle.sign(
+    ECDSA_SIGN_PARAMS,
+    keyPair.privateKey,
+    new TextEncoder().encode(hash)
+  );
+
+  return {
+    signature: bytesToBase64(new Uint8Array(signature)),
+    publicKey: await exportDevicePublicKey(keyPair.publicKey),
+  };
+}
+
+/**
+ * Verifies the device signature recorded in a signature (or refusal)
+ * @param signature - Signature data
+ * @returns true if the hash was signed by the recorded device key
+ */
+export async function verifyDeviceSignature(
+  signature: Pick<SignatureData, 'hash' | 'devicePublicKey' | 'deviceSignature'>
+): Promise<boolean> {
+  if (!signature.deviceSignature || !signature.devicePublicKey) return false;
+
+  try {
+    const publicKey = await crypto.subtle.importKey(
+      'jwk',
+      { ...signature.devicePublicKey, ext: true },
+      ECDSA_KEY_PARAMS,
+      false,
+      ['verify']
+    );
+    return await crypto.subtle.verify(
+      ECDSA_SIGN_PARAMS,
+      publicKey,
+      base64ToBytes(signature.deviceSignature),
+      new TextEncoder().encode(signature.hash)
+    );
+  } catch (error) {
+    console.error('Error verifying device signature:', error);
+    return false;
+  }
+}
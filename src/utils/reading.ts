@@ -0,0 +1,78 @@
+import type { ReadingEvidence, ReadingTracker } from '@/types';
+
+/**
+ * Creates a tracker of the pages a signer views on the preview
+ * @param pageCount - Number of pages of the document, if already known
+ * @returns Tracker with no page viewed
+ */
+export function createReadingTracker(pageCount: number = 0): ReadingTracker {
+  return { pageCount, durations: new Map(), viewing: null };
+}
+
+/**
+ * Stops counting time on the page being viewed, if any
+ * @param tracker - Reading tracker, updated in place
+ * @param now - Time the page stopped being displayed, in milliseconds
+ */
+export function stopPageView(tracker: ReadingTracker, now: number = Date.now()): void {
+  const { viewing } = tracker;
+  if (!viewing) return;
+  tracker.durations.set(viewing.page, (tracker.durations.get(viewing.page) ?? 0) + Math.max(0, now - viewing.since));
+  tracker.viewing = null;
+}
+
+/**
+ * Starts counting time on a page displayed on the preview
+ * @param tracker - Reading tracker, updated in place
+ * @param page - Displayed page (1-based)
+ * @param pageCount - Number of pages of the document
+ * @param now - Time the page started being displayed, in milliseconds
+ */
+export function startPageView(tracker: ReadingTracker, page: number, pageCount: number, now: number = Date.now()): void {
+  stopPageView(tracker, now);
+  tracker.pageCount = pageCount;
+  if (!tracker.durations.has(page)) tracker.durations.set(page, 0);
+  tracker.viewing = { page, since: now };
+}
+
+/**
+ * Takes a snapshot of the pages viewed so far, counting the page still displayed
+ * @param tracker - Reading tracker
+ * @param now - Reference time, in milliseconds
+ * @returns Viewed pages with the whole milliseconds spent on each
+ */
+export function getReadingEvidence(tracker: ReadingTracker, now: number = Date.now()): ReadingEvidence {
+  const pages = [...tracker.durations].map(([page, duration]) => {
+    const elapsed = tracker.viewing?.page === page ? Math.max(0, now - tracker.viewing.since) : 0;
+    return { page, durationMs: Math.round(duration + elapsed) };
+  });
+  return { pageCount: tracker.pageCount, pages };
+}
+
+/**
+ * Checks whether every page of the document was viewed
+ * @param reading - Reading evidence
+ * @returns true if the document has pages and all of them were displayed
+ */
+export function hasReadAllPages(reading: ReadingEvidence): boolean {
+  return reading.pageCount > 0 && reading.pages.length >= reading.pageCount;
+}
+
+/**
+ * Sums the time spent on the pages of the document
+ * @param reading - Reading evidence
+ * @returns Total time in milliseconds
+ */
+export function getTotalReadingTime(reading: ReadingEvidence): number {
+  return reading.pages.reduce((total, page) => total + page.durationMs, 0);
+}
+
+/**
+ * Returns the part of the reading evidence covered by the signature hash
+ * @param reading - Reading evidence
+ * @returns Page count followed by the time on each page, like "3:1=4200,2=1800,3=950"
+ */
+export function getReadingHashInput(reading: ReadingEvidence | undefined): string | undefined {
+  if (!reading) return undefined;
+  return `${reading.pageCount}:${reading.pages.map((page) => `${page.page}=${page.durationMs}`).join(',')}`;
+}
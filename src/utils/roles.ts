@@ -0,0 +1,37 @@
+import type { SignatureData, SignerRole } from '@/types';
+
+/** Signer roles, in the order their groups are printed on the protocol */
+export const SIGNER_ROLES: readonly SignerRole[] = [
+  'party',
+  'witness',
+  'approver',
+  'intervening',
+  'legal-representative',
+  'issuer',
+];
+
+export interface SignatureRoleGroup {
+  /** Null for signatures made before roles existed */
+  role: SignerRole | null;
+  signatures: SignatureData[];
+}
+
+/**
+ * Groups signatures by role, keeping the signing order inside each group
+ * @param signatures - Signatures in chain order
+ * @returns Non-empty groups in the order of SIGNER_ROLES, signatures without a role last
+ */
+export function groupSignaturesByRole(signatures: SignatureData[]): SignatureRoleGroup[] {
+  return [...SIGNER_ROLES, null]
+    .map((role) => ({ role, signatures: signatures.filter((signature) => (signature.role ?? null) === role) }))
+    .filter((group) => group.signatures.length > 0);
+}
+
+/**
+ * Orders signatures as they are printed on the protocol
+ * @param signatures - Signatures in chain order
+ * @returns Signatures grouped by role
+ */
+export function orderSignaturesByRole(signatures: SignatureData[]): SignatureData[] {
+  return groupSignaturesByRole(signatures).flatMap((group) => group.signatures);
+}
@@ -0,0 +1,42 @@
+import type { SignaturePlacement } from '@/types';
+
+export type PageRotation = 0 | 90 | 180 | 270;
+
+/** Size of the visual signature stamp as seen on screen, in PDF units */
+export const SIGNATURE_STAMP_SIZE = { width: 180, height: 60 };
+
+/**
+ * Normalizes a page rotation (/Rotate) to a quarter turn between 0 and 270
+ * @param angle - Rotation in degrees, possibly negative or above 360
+ * @returns Clockwise rotation
+ */
+export function normalizeRotation(angle: number): PageRotation {
+  const quarter = Math.round(angle / 90);
+  return ((((quarter % 4) + 4) % 4) * 90) as PageRotation;
+}
+
+/**
+ * Returns the part of the stamp placement covered by the signature hash
+ * @param placement - Stamp rectangle
+ * @returns Page index followed by the rectangle, like "0:36,700,180,60"
+ */
+export function getPlacementHashInput(placement: SignaturePlacement | undefined): string | undefined {
+  if (!placement) return undefined;
+  const { pageIndex, x, y, width, height } = placement;
+  return `${pageIndex}:${x},${y},${width},${height}`;
+}
+
+/**
+ * Keeps a stamp inside the page, in PDF user space
+ * @param placement - Stamp rectangle
+ * @param view - Page box as [xMin, yMin, xMax, yMax]
+ * @returns Placement moved inside the page box
+ */
+export function clampPlacement(placement: SignaturePlacement, view: [number, number, number, number]): SignaturePlacement {
+  const [xMin, yMin, xMax, yMax] = view;
+  return {
+    ...placement,
+    x: Math.min(Math.max(placement.x, xMin), Math.max(xMin, xMax - placement.width)),
+    y: Math.min(Math.max(placement.y, yMin), Math.max(yMin, yMax - placement.height)),
+  };
+}
@@ -1,43 +1,443 @@
-import type { SignatureLog, SignatureData, PDFMetadata } from '@/types';
+import type {
+  AuditEvent,
+  AuditEventDetails,
+  AuditEventType,
+  SignatureLog,
+  SignatureData,
+  SignatureRefusal,
+  PDFMetadata,
+  Envelope,
+  EnvelopeRecord,
+  LogImportResult,
+  StorageQuota,
+} from '@/types';
+import { getMessages } from '@/i18n';
+import { openDatabase, requestToPromise } from './idb';
+import { generateAuditEventHash, generateChainGenesis } from './hash';
 
 const STORAGE_KEYS = {
   DEVICE_ID: 'pdf_signature_device_id',
-  CURRENT_LOG: 'pdf_signature_current_log',
+  /** Single-log key used before the IndexedDB repository; only read for migration */
+  LEGACY_CURRENT_LOG: 'pdf_signature_current_log',
+  CURRENT_ENVELOPE: 'pdf_signature_current_envelope',
 } as const;
 
+const ENVELOPES_DB = {
+  NAME: 'pdf_signature_envelopes',
+  VERSION: 2,
+  /** Signature logs, keyed by documentId */
+  ENVELOPES_STORE: 'envelopes',
+  /** PDF bytes, kept apart so listing envelopes does not load every document */
+  DOCUMENTS_STORE: 'documents',
+  /** Audit trails of deleted envelopes, keyed by documentId */
+  CLEARED_TRAILS_STORE: 'cleared_trails',
+} as const;
+
+interface StoredDocument {
+  id: string;
+  bytes: Uint8Array;
+}
+
+interface ClearedTrail {
+  id: string;
+  contentHash?: string;
+  clearedAt: string;
+  auditTrail: AuditEvent[];
+}
+
+/**
+ * Opens the envelope repository database
+ * @returns Promise with the open database
+ */
+function openEnvelopesDatabase(): Promise<IDBDatabase> {
+  return openDatabase(ENVELOPES_DB.NAME, ENVELOPES_DB.VERSION, (db) => {
+    if (!db.objectStoreNames.contains(ENVELOPES_DB.ENVELOPES_STORE)) {
+      db.createObjectStore(ENVELOPES_DB.ENVELOPES_STORE, { keyPath: 'id' });
+    }
+    if (!db.objectStoreNames.contains(ENVELOPES_DB.DOCUMENTS_STORE)) {
+      db.createObjectStore(ENVELOPES_DB.DOCUMENTS_STORE, { keyPath: 'id' });
+    }
+    if (!db.objectStoreNames.contains(ENVELOPES_DB.CLEARED_TRAILS_STORE)) {
+      db.createObjectStore(ENVELOPES_DB.CLEARED_TRAILS_STORE, { keyPath: 'id' });
+    }
+  });
+}
+
+/**
+ * Resolves when a transaction commits
+ * @param transaction - IndexedDB transaction
+ * @returns Promise resolved on completion
+ */
+function transactionToPromise(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error(getMessages().errors.transactionAborted));
+  });
+}
+
 /**
- * Saves the current signature log to localStorage
- * @param log - Signature log to save
+ * Saves an envelope (signature log and, optionally, its PDF bytes).
+ * Existing PDF bytes are kept when pdfBytes is omitted.
+ * @param log - Signature log of the envelope
+ * @param pdfBytes - Current PDF bytes
  */
-export function saveSignatureLog(log: SignatureLog): void {
+export async function saveEnvelope(log: SignatureLog, pdfBytes?: Uint8Array | null): Promise<void> {
+  const db = await openEnvelopesDatabase();
   try {
-    localStorage.setItem(STORAGE_KEYS.CURRENT_LOG, JSON.stringify(log));
+    const transaction = db.transaction(
+      [ENVELOPES_DB.ENVELOPES_STORE, ENVELOPES_DB.DOCUMENTS_STORE],
+      'readwrite'
+    );
+    const envelopes = transaction.objectStore(ENVELOPES_DB.ENVELOPES_STORE);
+    const documents = transaction.objectStore(ENVELOPES_DB.DOCUMENTS_STORE);
+
+    const existing = await requestToPromise<EnvelopeRecord | undefined>(envelopes.get(log.documentId));
+    const hasPdf = pdfBytes ? true : (existing?.hasPdf ?? false);
+    if (pdfBytes) {
+      const document: StoredDocument = { id: log.documentId, bytes: pdfBytes };
+      documents.put(document);
+    }
+    const record: EnvelopeRecord = { id: log.documentId, log, hasPdf };
+    envelopes.put(record);
+
+    await transactionToPromise(transaction);
   } catch (error) {
-    console.error('Error saving signature log to localStorage:', error);
-    throw new Error('Não foi possível salvar o log de assinaturas. O armazenamento local pode estar cheio.');
+    console.error('Error saving envelope to IndexedDB:', error);
+    if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+      throw new Error(getMessages().errors.storageFull);
+    }
+    throw new Error(getMessages().errors.storageFailed);
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Loads an envelope with its PDF bytes
+ * @param id - Envelope ID (documentId)
+ * @returns Envelope or null if not found
+ */
+export async function loadEnvelope(id: string): Promise<Envelope | null> {
+  const db = await openEnvelopesDatabase();
+  try {
+    const transaction = db.transaction(
+      [ENVELOPES_DB.ENVELOPES_STORE, ENVELOPES_DB.DOCUMENTS_STORE],
+      'readonly'
+    );
+    const [record, document] = await Promise.all([
+      requestToPromise<EnvelopeRecord | undefined>(transaction.objectStore(ENVELOPES_DB.ENVELOPES_STORE).get(id)),
+      requestToPromise<StoredDocument | undefined>(transaction.objectStore(ENVELOPES_DB.DOCUMENTS_STORE).get(id)),
+    ]);
+    if (!record) return null;
+    return { ...record, pdfBytes: document?.bytes ?? null };
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Lists all stored envelopes (without PDF bytes), most recently updated first
+ * @returns Envelope records
+ */
+export async function listEnvelopes(): Promise<EnvelopeRecord[]> {
+  const db = await openEnvelopesDatabase();
+  try {
+    const store = db.transaction(ENVELOPES_DB.ENVELOPES_STORE, 'readonly').objectStore(ENVELOPES_DB.ENVELOPES_STORE);
+    const records = await requestToPromise<EnvelopeRecord[]>(store.getAll());
+    return records.sort((a, b) => b.log.updatedAt.localeCompare(a.log.updatedAt));
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Deletes an envelope and its PDF bytes. Its audit trail, ending with a "cleared"
+ * event, is kept apart and restored if the same document starts a new envelope.
+ * @param id - Envelope ID (documentId)
+ * @param deviceId - Device where the envelope is deleted
+ */
+export async function deleteEnvelope(id: string, deviceId: string): Promise<void> {
+  const db = await openEnvelopesDatabase();
+  try {
+    const transaction = db.transaction(
+      [ENVELOPES_DB.ENVELOPES_STORE, ENVELOPES_DB.DOCUMENTS_STORE, ENVELOPES_DB.CLEARED_TRAILS_STORE],
+      'readwrite'
+    );
+    const envelopes = transaction.objectStore(ENVELOPES_DB.ENVELOPES_STORE);
+
+    const record = await requestToPromise<EnvelopeRecord | undefined>(envelopes.get(id));
+    if (record) {
+      const { pdfMetadata, auditTrail = [] } = addAuditEventToLog(record.log, 'cleared', deviceId, {
+        fileName: record.log.pdfMetadata.fileName,
+      });
+      const cleared: ClearedTrail = {
+        id,
+        ...(pdfMetadata.contentHash && { contentHash: pdfMetadata.contentHash }),
+        clearedAt: new Date().toISOString(),
+        auditTrail,
+      };
+      transaction.objectStore(ENVELOPES_DB.CLEARED_TRAILS_STORE).put(cleared);
+    }
+    envelopes.delete(id);
+    transaction.objectStore(ENVELOPES_DB.DOCUMENTS_STORE).delete(id);
+    await transactionToPromise(transaction);
+  } finally {
+    db.close();
+  }
+
+  if (getCurrentEnvelopeId() === id) {
+    setCurrentEnvelopeId(null);
+  }
+}
+
+/**
+ * Finds the audit trail of the last deleted envelope of a document
+ * @param contentHash - SHA-256 of the PDF content
+ * @returns Audit events up to the "cleared" one, or an empty list
+ */
+export async function getClearedAuditTrail(contentHash: string): Promise<AuditEvent[]> {
+  const db = await openEnvelopesDatabase();
+  try {
+    const store = db
+      .transaction(ENVELOPES_DB.CLEARED_TRAILS_STORE, 'readonly')
+      .objectStore(ENVELOPES_DB.CLEARED_TRAILS_STORE);
+    const trails = await requestToPromise<ClearedTrail[]>(store.getAll());
+    const [latest] = trails
+      .filter((trail) => trail.contentHash === contentHash)
+      .sort((a, b) => b.clearedAt.localeCompare(a.clearedAt));
+    return latest?.auditTrail ?? [];
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Checks that one list of hashes starts with the other
+ * @param first - Hashes in chain order
+ * @param second - Hashes in chain order
+ * @returns true if the shorter list is a prefix of the longer one
+ */
+function isSameChainPrefix(first: string[], second: string[]): boolean {
+  const shorter = first.length <= second.length ? first : second;
+  const longer = shorter === first ? second : first;
+  return shorter.every((hash, index) => hash === longer[index]);
+}
+
+/**
+ * Joins two lists of records, keeping the stored ones first and adding the imported
+ * records whose id is not stored yet
+ * @param stored - Records saved in this browser
+ * @param imported - Records of the imported log
+ * @returns Union of both lists
+ */
+function mergeById<T extends { id: string }>(stored: T[], imported: T[]): T[] {
+  const storedIds = new Set(stored.map((record) => record.id));
+  return [...stored, ...imported.filter((record) => !storedIds.has(record.id))];
+}
+
+/**
+ * Merges an imported log into the stored one. Either side may hold more signatures or
+ * refusals, as long as both lists start the same way and no signature follows a refusal.
+ * Only the signatures, refusals and audit events are taken from the import, joined by
+ * id; every other field of the stored log is kept.
+ * @param stored - Log saved in this browser
+ * @param imported - Validated imported log
+ * @returns Merged log, or null when the import adds nothing
+ */
+function mergeImportedLog(stored: SignatureLog, imported: SignatureLog): SignatureLog | null {
+  const storedRefusals = stored.refusals ?? [];
+  const importedRefusals = imported.refusals ?? [];
+  const signatures = mergeById(stored.signatures, imported.signatures);
+  const refusals = mergeById(storedRefusals, importedRefusals);
+
+  // A refusal links to the last signature made before it
+  const lastHash = signatures[signatures.length - 1]?.hash;
+  const hashes = (records: { hash: string }[]) => records.map((record) => record.hash);
+  const diverges =
+    !isSameChainPrefix(hashes(stored.signatures), hashes(imported.signatures)) ||
+    !isSameChainPrefix(hashes(storedRefusals), hashes(importedRefusals)) ||
+    (!!lastHash && refusals.some((refusal) => refusal.previousHash !== lastHash));
+  if (diverges) {
+    throw new Error(getMessages().errors.importDiverges(imported.pdfMetadata.fileName));
+  }
+
+  const auditTrail = mergeAuditTrails(stored.auditTrail ?? [], imported.auditTrail ?? []);
+
+  const addsSignatures = signatures.length > stored.signatures.length;
+  const addsRefusals = refusals.length > storedRefusals.length;
+  const addsEvents = auditTrail.length > (stored.auditTrail?.length ?? 0);
+  if (!addsSignatures && !addsRefusals && !addsEvents) return null;
+  return {
+    ...stored,
+    genesisHash: stored.genesisHash ?? imported.genesisHash,
+    signatures,
+    ...(refusals.length > 0 && { refusals }),
+    ...(auditTrail.length > 0 && { auditTrail }),
+    updatedAt: imported.updatedAt > stored.updatedAt ? imported.updatedAt : stored.updatedAt,
+  };
+}
+
+/**
+ * Merges two audit trails of the same envelope. Stored events keep their order and the
+ * imported ones not stored yet follow them, so each event still comes after the one it
+ * links to; events recorded before chaining go first.
+ * @param stored - Trail saved in this browser
+ * @param imported - Trail of the imported log
+ * @returns Union of both trails
+ */
+function mergeAuditTrails(stored: AuditEvent[], imported: AuditEvent[]): AuditEvent[] {
+  const merged = mergeById(stored, imported);
+  return [...merged.filter((event) => !event.hash), ...merged.filter((event) => event.hash)];
+}
+
+/**
+ * Stores imported logs as envelopes (without PDF bytes).
+ * A stored envelope is only updated when the imported log extends its signatures,
+ * refusals or audit trail; logs that diverge from the stored ones are rejected.
+ * @param logs - Validated signature logs
+ * @returns Number of envelopes created, updated and left unchanged
+ */
+export async function importSignatureLogs(logs: SignatureLog[]): Promise<LogImportResult> {
+  const result: LogImportResult = { imported: 0, updated: 0, skipped: 0 };
+  const plan: SignatureLog[] = [];
+
+  // Check every log before writing anything
+  for (const log of logs) {
+    const existing = await loadEnvelope(log.documentId);
+    if (!existing) {
+      plan.push(log);
+      result.imported++;
+      continue;
+    }
+
+    const merged = mergeImportedLog(existing.log, log);
+    if (merged) {
+      plan.push(merged);
+      result.updated++;
+    } else {
+      result.skipped++;
+    }
+  }
+
+  for (const log of plan) {
+    await saveEnvelope(log);
+  }
+
+  return result;
+}
+
+/**
+ * Finds the most recently updated envelope holding the same document content
+ * @param metadata - PDF metadata with the content hash
+ * @param pdfBytes - PDF bytes, used to match logs created before content hashing
+ * @returns Matching envelope record or null
+ */
+export async function findEnvelopeByContent(
+  metadata: PDFMetadata,
+  pdfBytes: Uint8Array
+): Promise<EnvelopeRecord | null> {
+  const records = await listEnvelopes();
+  const match = records.find((record) => isPDFMatchingLog(record.log, metadata));
+  if (match) return match;
+
+  // Older logs have no content hash, but their chain genesis commits to the document SHA-256
+  for (const record of records) {
+    const { pdfMetadata, genesisHash } = record.log;
+    if (pdfMetadata.contentHash || !genesisHash) continue;
+    if ((await generateChainGenesis(record.id, pdfBytes)) === genesisHash) return record;
   }
+
+  return null;
 }
 
 /**
- * Loads the current signature log from localStorage
- * @returns Signature log or null if not found
+ * Reports how much of the browser storage quota is in use
+ * @returns Usage and quota in bytes, or null when the Storage API is unavailable
  */
-export function loadSignatureLog(): SignatureLog | null {
+export async function getStorageQuota(): Promise<StorageQuota | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+
   try {
-    const data = localStorage.getItem(STORAGE_KEYS.CURRENT_LOG);
-    if (!data) return null;
-    return JSON.parse(data) as SignatureLog;
+    const [estimate, persisted] = await Promise.all([
+      navigator.storage.estimate(),
+      navigator.storage.persisted ? navigator.storage.persisted() : Promise.resolve(false),
+    ]);
+    return {
+      usage: estimate.usage ?? 0,
+      quota: estimate.quota ?? 0,
+      persisted,
+    };
   } catch (error) {
-    console.error('Error loading signature log from localStorage:', error);
+    console.error('Error estimating storage quota:', error);
     return null;
   }
 }
 
 /**
- * Clears the current signature log from localStorage
+ * Asks the browser not to evict the repository under storage pressure
+ * @returns true if storage is persistent
+ */
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.persist) return false;
+
+  try {
+    return await navigator.storage.persist();
+  } catch (error) {
+    console.error('Error requesting persistent storage:', error);
+    return false;
+  }
+}
+
+/**
+ * Gets the ID of the envelope open in the editor
+ * @returns Envelope ID or null
+ */
+export function getCurrentEnvelopeId(): string | null {
+  return localStorage.getItem(STORAGE_KEYS.CURRENT_ENVELOPE);
+}
+
+/**
+ * Sets (or clears) the ID of the envelope open in the editor
+ * @param id - Envelope ID or null
+ */
+export function setCurrentEnvelopeId(id: string | null): void {
+  if (id) {
+    localStorage.setItem(STORAGE_KEYS.CURRENT_ENVELOPE, id);
+  } else {
+    localStorage.removeItem(STORAGE_KEYS.CURRENT_ENVELOPE);
+  }
+}
+
+/**
+ * Moves the log kept under the legacy localStorage key into the repository.
+ * The legacy key is removed only after the envelope is saved.
+ * @returns Migrated log or null when there was nothing to migrate
  */
-export function clearSignatureLog(): void {
-  localStorage.removeItem(STORAGE_KEYS.CURRENT_LOG);
+export async function migrateLegacySignatureLog(): Promise<SignatureLog | null> {
+  const data = localStorage.getItem(STORAGE_KEYS.LEGACY_CURRENT_LOG);
+  if (!data) return null;
+
+  let log: SignatureLog;
+  try {
+    log = JSON.parse(data) as SignatureLog;
+  } catch (error) {
+    console.error('Discarding unreadable legacy signature log:', error);
+    localStorage.removeItem(STORAGE_KEYS.LEGACY_CURRENT_LOG);
+    return null;
+  }
+
+  // Keep a log already migrated by another tab
+  const existing = await loadEnvelope(log.documentId);
+  if (!existing) {
+    await saveEnvelope(log);
+  }
+  localStorage.removeItem(STORAGE_KEYS.LEGACY_CURRENT_LOG);
+  if (!getCurrentEnvelopeId()) {
+    setCurrentEnvelopeId(log.documentId);
+  }
+
+  return existing?.log ?? log;
 }
 
 /**
@@ -57,7 +457,8 @@ export function createSignatureLog(pdfMetadata: PDFMetadata): SignatureLog {
 }
 
 /**
- * Adds a signature to an existing log
+ * Adds a signature to an existing log.
+ * The first signature's link to the chain genesis is kept in the log.
  * @param log - Existing signature log
  * @param signature - Signature data to add
  * @returns Updated signature log
@@ -68,24 +469,67 @@ export function addSignatureToLog(
 ): SignatureLog {
   return {
     ...log,
+    genesisHash: log.genesisHash ?? (log.signatures.length === 0 ? signature.previousHash : undefined),
     signatures: [...log.signatures, signature],
     updatedAt: new Date().toISOString(),
   };
 }
 
 /**
- * Checks if a PDF metadata matches the current log
+ * Adds a refusal to sign to an existing log.
+ * A refusal made before any signature links to the chain genesis, which is kept in the log.
+ * @param log - Existing signature log
+ * @param refusal - Refusal to add
+ * @returns Updated signature log
+ */
+export function addRefusalToLog(log: SignatureLog, refusal: SignatureRefusal): SignatureLog {
+  return {
+    ...log,
+    genesisHash: log.genesisHash ?? (log.signatures.length === 0 ? refusal.previousHash : undefined),
+    refusals: [...(log.refusals ?? []), refusal],
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Appends an event to the audit trail of a log, linked by hash to the last event.
+ * Events never change updatedAt, which tracks changes to the signatures and settings
+ * of the envelope.
+ * @param log - Existing signature log
+ * @param type - Event type
+ * @param deviceId - Device where the event happened
+ * @param details - Data of the event
+ * @returns Updated signature log
+ */
+export function addAuditEventToLog(
+  log: SignatureLog,
+  type: AuditEventType,
+  deviceId: string,
+  details?: AuditEventDetails
+): SignatureLog {
+  const trail = log.auditTrail ?? [];
+  const previousHash = trail[trail.length - 1]?.hash;
+  const event: Omit<AuditEvent, 'hash'> = {
+    id: crypto.randomUUID(),
+    type,
+    timestamp: new Date().toISOString(),
+    deviceId,
+    ...(details && { details }),
+    ...(previousHash && { previousHash }),
+  };
+  return { ...log, auditTrail: [...trail, { ...event, hash: generateAuditEventHash(event) }] };
+}
+
+/**
+ * Checks if a PDF has the same content as the document of a log.
+ * File name, size and modification date are ignored: only the SHA-256 of the bytes counts.
  * @param log - Signature log
  * @param metadata - PDF metadata to check
- * @returns true if metadata matches
+ * @returns true if the content hashes match
  */
 export function isPDFMatchingLog(
   log: SignatureLog,
   metadata: PDFMetadata
 ): boolean {
-  return (
-    log.pdfMetadata.fileName === metadata.fileName &&
-    log.pdfMetadata.fileSize === metadata.fileSize &&
-    log.pdfMetadata.lastModified === metadata.lastModified
-  );
+  return !!log.pdfMetadata.contentHash && log.pdfMetadata.contentHash === metadata.contentHash;
 }
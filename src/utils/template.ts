@@ -0,0 +1,97 @@
+import type { ProtocolTemplate } from '@/types';
+import { protocolTemplateSchema } from '@/schemas/template';
+import { getMessages } from '@/i18n';
+
+const TEMPLATE_STORAGE_KEY = 'pdf_signature_protocol_template';
+
+export const DEFAULT_PROTOCOL_TEMPLATE: ProtocolTemplate = {
+  organizationName: '',
+  logo: null,
+  palette: {
+    title: '#1a4d80',
+    section: '#336699',
+    text: '#333333',
+    muted: '#666666',
+  },
+  // Blank labels are printed with the texts of the protocol language
+  labels: {
+    title: '',
+    hashLabel: '',
+    documentSection: '',
+    signaturesSection: '',
+    authenticitySection: '',
+    auditSection: '',
+    disclaimerSection: '',
+    footer: '',
+  },
+  fontSizes: {
+    title: 16,
+    section: 12,
+    normal: 9,
+    small: 8,
+  },
+  sections: ['document', 'signatures', 'authenticity', 'audit', 'qrcode', 'details'],
+  disclaimer: '',
+};
+
+/**
+ * Loads the protocol template saved in the settings screen.
+ * Fields added in later versions take their default value.
+ * @returns Saved template, or the default one when none is saved or it is unreadable
+ */
+export function loadProtocolTemplate(): ProtocolTemplate {
+  const data = localStorage.getItem(TEMPLATE_STORAGE_KEY);
+  if (!data) return DEFAULT_PROTOCOL_TEMPLATE;
+
+  try {
+    const saved = JSON.parse(data) as Partial<ProtocolTemplate>;
+    return protocolTemplateSchema.parse({
+      ...DEFAULT_PROTOCOL_TEMPLATE,
+      ...saved,
+      palette: { ...DEFAULT_PROTOCOL_TEMPLATE.palette, ...saved.palette },
+      labels: { ...DEFAULT_PROTOCOL_TEMPLATE.labels, ...saved.labels },
+      fontSizes: { ...DEFAULT_PROTOCOL_TEMPLATE.fontSizes, ...saved.fontSizes },
+    });
+  } catch (error) {
+    console.error('Discarding unreadable protocol template:', error);
+    return DEFAULT_PROTOCOL_TEMPLATE;
+  }
+}
+
+/**
+ * Validates and saves the protocol template
+ * @param template - Template edited in the settings screen
+ * @returns Saved template (trimmed)
+ * @throws Error with the first validation message
+ */
+export function saveProtocolTemplate(template: ProtocolTemplate): ProtocolTemplate {
+  const result = protocolTemplateSchema.safeParse(template);
+  if (!result.success) {
+    throw new Error(result.error.issues[0]?.message ?? getMessages().errors.templateInvalid);
+  }
+
+  try {
+    localStorage.setItem(TEMPLATE_STORAGE_KEY, JSON.stringify(result.data));
+  } catch (error) {
+    console.error('Error saving protocol template:', error);
+    throw new Error(getMessages().errors.templateSaveFailed);
+  }
+  return result.data;
+}
+
+/**
+ * Removes the saved template so the default one is used again
+ */
+export function clearProtocolTemplate(): void {
+  localStorage.removeItem(TEMPLATE_STORAGE_KEY);
+}
+
+/**
+ * Converts a #rrggbb color to the 0-1 components used by pdf-lib
+ * @param hex - Color as #rrggbb
+ * @returns Red, green and blue components
+ */
+export function hexToRGB(hex: string): [number, number, number] {
+  const value = parseInt(hex.slice(1), 16);
+  return [((value >> 16) & 0xff) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255];
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import type { SignatureLog } from '@/types';
+import { escapeCSVField, exportLogsToCSV, importLogsFromFile } from './transfer';
+
+describe('escapeCSVField', () => {
+  it('keeps plain values as they are', () => {
+    expect(escapeCSVField('MARIA SOUZA')).toBe('MARIA SOUZA');
+    expect(escapeCSVField('')).toBe('');
+  });
+
+  it('quotes values with separators, quotes or line breaks', () => {
+    expect(escapeCSVField('Souza, Maria')).toBe('"Souza, Maria"');
+    expect(escapeCSVField('contrato "final".pdf')).toBe('"contrato ""final"".pdf"');
+    expect(escapeCSVField('linha 1\nlinha 2')).toBe('"linha 1\nlinha 2"');
+  });
+
+  it.each(['=1+1', '+5511999999999', '-2', '@SUM(A1)', '\tTAB'])(
+    'puts an apostrophe before the formula-like value %j',
+    (value) => {
+      expect(escapeCSVField(value)).toBe(`'${value}`);
+    }
+  );
+
+  it('escapes values that already start with an apostrophe before a formula', () => {
+    expect(escapeCSVField("'=1+1")).toBe("''=1+1");
+    expect(escapeCSVField("'MARIA")).toBe("'MARIA");
+  });
+
+  it('quotes formula-like values with separators after the apostrophe', () => {
+    expect(escapeCSVField('=HYPERLINK("http://x", "y")')).toBe('"\'=HYPERLINK(""http://x"", ""y"")"');
+    expect(escapeCSVField('\rCR')).toBe('"\'\rCR"');
+  });
+});
+
+describe('CSV export and import', () => {
+  it('restores formula-like values on import', async () => {
+    const log: SignatureLog = {
+      documentId: 'e2b7a8f0-0000-4000-8000-000000000002',
+      pdfMetadata: { fileName: "=cmd|' /C calc'!A0.pdf", fileSize: 1024, lastModified: 0 },
+      signatures: [
+        {
+          id: 'signature-1',
+          name: "'=MARIA SOUZA",
+          cpf: '52998224725',
+          deviceId: '-device',
+          timestamp: '2025-01-01T12:00:00.000Z',
+          hash: 'a'.repeat(64),
+        },
+      ],
+      createdAt: '2025-01-01T12:00:00.000Z',
+      updatedAt: '2025-01-01T12:00:00.000Z',
+    };
+
+    const csv = exportLogsToCSV([log]);
+    expect(csv).toContain(`,'=cmd|' /C calc'!A0.pdf,`);
+    expect(csv).toContain(`,''=MARIA SOUZA,`);
+
+    const [imported] = await importLogsFromFile(csv, 'logs.csv');
+    expect(imported.pdfMetadata.fileName).toBe(log.pdfMetadata.fileName);
+    expect(imported.signatures[0].name).toBe("'=MARIA SOUZA");
+    expect(imported.signatures[0].deviceId).toBe('-device');
+  });
+});
@@ -0,0 +1,442 @@
+import type { z } from 'zod';
+import type { SignatureData, SignatureLog, SignatureLogExport } from '@/types';
+import { signatureLogSchema } from '@/schemas/log';
+import {
+  signatureLogExportSchema,
+  SIGNATURE_LOG_EXPORT_FORMAT,
+  SIGNATURE_LOG_EXPORT_VERSION,
+} from '@/schemas/export';
+import { getMessages } from '@/i18n';
+import { verifyAuditTrail, verifySignatureChain } from './chain';
+import { verifyDeviceSignature } from './keys';
+
+// One row per signature; log fields are repeated on every row of the same document
+const LOG_CSV_COLUMNS = [
+  'document_id',
+  'file_name',
+  'file_size',
+  'last_modified',
+  'content_hash',
+  'genesis_hash',
+  'log_created_at',
+  'log_updated_at',
+  'log_finalized_at',
+  'log_author',
+  'protocol_locale',
+  'log_workflow',
+  'log_refusals',
+  'log_audit_trail',
+  'log_require_reading',
+  'signature_index',
+  'signature_id',
+  'name',
+  'cpf',
+  'document_type',
+  'document_issuer',
+  'role',
+  'device_id',
+  'timestamp',
+  'hash',
+  'previous_hash',
+  'device_public_key',
+  'device_signature',
+  'certificate',
+  'timestamp_token',
+  'placement',
+  'handwritten',
+  'initials',
+  'reading',
+] as const;
+
+type LogCSVColumn = (typeof LOG_CSV_COLUMNS)[number];
+type LogCSVRow = Record<LogCSVColumn, string>;
+
+// Columns added after the first release; files exported before them remain importable
+const OPTIONAL_CSV_COLUMNS: ReadonlySet<LogCSVColumn> = new Set([
+  'log_author',
+  'protocol_locale',
+  'log_workflow',
+  'log_refusals',
+  'log_audit_trail',
+  'log_require_reading',
+  'document_type',
+  'document_issuer',
+  'role',
+  'placement',
+  'handwritten',
+  'initials',
+  'reading',
+]);
+
+// Lets spreadsheet software detect UTF-8
+const UTF8_BOM = '\uFEFF';
+
+/**
+ * Formats the first zod issue as a readable message
+ * @param error - Zod validation error
+ * @returns Message like "logs.0.signatures.1.cpf - Número do documento inválido para o tipo informado"
+ */
+function describeIssue(error: z.ZodError): string {
+  const issue = error.issues[0];
+  return getMessages().errors.schemaIssue(issue.path.join('.'), issue.message);
+}
+
+/**
+ * Wraps logs in the versioned export format
+ * @param logs - Signature logs to export
+ * @returns Export document
+ */
+export function createLogExport(logs: SignatureLog[]): SignatureLogExport {
+  return {
+    format: SIGNATURE_LOG_EXPORT_FORMAT,
+    version: SIGNATURE_LOG_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    logs,
+  };
+}
+
+/**
+ * Serializes logs to the versioned JSON export format
+ * @param logs - Signature logs to export
+ * @returns JSON text
+ */
+export function exportLogsToJSON(logs: SignatureLog[]): string {
+  return JSON.stringify(createLogExport(logs), null, 2);
+}
+
+// Values a spreadsheet would read as a formula, behind any apostrophes added on export
+const CSV_FORMULA_PATTERN = /^'*[=+\-@\t\r]/;
+
+/**
+ * Quotes a CSV field when needed (RFC 4180). Values that a spreadsheet would read
+ * as a formula get a leading apostrophe, so names and file names cannot run one.
+ * @param value - Field value
+ * @returns Escaped field
+ */
+export function escapeCSVField(value: string): string {
+  const text = CSV_FORMULA_PATTERN.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serializes logs to a flat CSV with one row per signature.
+ * Logs without signatures produce a single row with empty signature columns.
+ * @param logs - Signature logs to export
+ * @returns CSV text
+ */
+export function exportLogsToCSV(logs: SignatureLog[]): string {
+  const rows = logs.flatMap((log) => {
+    const logFields = {
+      document_id: log.documentId,
+      file_name: log.pdfMetadata.fileName,
+      file_size: String(log.pdfMetadata.fileSize),
+      last_modified: String(log.pdfMetadata.lastModified),
+      content_hash: log.pdfMetadata.contentHash ?? '',
+      genesis_hash: log.genesisHash ?? '',
+      log_created_at: log.createdAt,
+      log_updated_at: log.updatedAt,
+      log_finalized_at: log.finalizedAt ?? '',
+      log_author: log.author ?? '',
+      protocol_locale: log.protocolLocale ?? '',
+      log_workflow: log.workflow ? JSON.stringify(log.workflow) : '',
+      log_refusals: log.refusals?.length ? JSON.stringify(log.refusals) : '',
+      log_audit_trail: log.auditTrail?.length ? JSON.stringify(log.auditTrail) : '',
+      log_require_reading: log.requireFullReading ? 'true' : '',
+    };
+
+    const signatures: (SignatureData | null)[] = log.signatures.length > 0 ? log.signatures : [null];
+    return signatures.map((signature, index): LogCSVRow => ({
+      ...logFields,
+      signature_index: signature ? String(index + 1) : '',
+      signature_id: signature?.id ?? '',
+      name: signature?.name ?? '',
+      cpf: signature?.cpf ?? '',
+      document_type: signature?.documentType ?? '',
+      document_issuer: signature?.documentIssuer ?? '',
+      role: signature?.role ?? '',
+      device_id: signature?.deviceId ?? '',
+      timestamp: signature?.timestamp ?? '',
+      hash: signature?.hash ?? '',
+      previous_hash: signature?.previousHash ?? '',
+      device_public_key: signature?.devicePublicKey ? JSON.stringify(signature.devicePublicKey) : '',
+      device_signature: signature?.deviceSignature ?? '',
+      certificate: signature?.certificate ? JSON.stringify(signature.certificate) : '',
+      timestamp_token: signature?.timestampToken ? JSON.stringify(signature.timestampToken) : '',
+      placement: signature?.placement ? JSON.stringify(signature.placement) : '',
+      handwritten: signature?.handwritten ? JSON.stringify(signature.handwritten) : '',
+      initials: signature?.initials ? JSON.stringify(signature.initials) : '',
+      reading: signature?.reading ? JSON.stringify(signature.reading) : '',
+    }));
+  });
+
+  const lines = [
+    LOG_CSV_COLUMNS.join(','),
+    ...rows.map((row) => LOG_CSV_COLUMNS.map((column) => escapeCSVField(row[column])).join(',')),
+  ];
+  return `${UTF8_BOM}${lines.join('\r\n')}\r\n`;
+}
+
+/**
+ * Removes the apostrophe that escapeCSVField puts before formula-like values
+ * @param value - Parsed field
+ * @returns Original value
+ */
+function unescapeCSVField(value: string): string {
+  return value.startsWith("'") && CSV_FORMULA_PATTERN.test(value) ? value.slice(1) : value;
+}
+
+/**
+ * Parses CSV text into rows of fields (RFC 4180, quoted fields may span lines)
+ * @param text - CSV text
+ * @returns Rows of raw field values
+ */
+function parseCSV(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error(getMessages().errors.csvUnclosedQuote);
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((fields) => fields.some((value) => value !== ''));
+}
+
+/**
+ * Parses a JSON cell of the CSV export
+ * @param value - Cell value
+ * @param column - Column name (for error messages)
+ * @param line - Record number (for error messages)
+ * @returns Parsed value or undefined when empty
+ */
+function parseJSONCell(value: string, column: string, line: number): unknown {
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new Error(getMessages().errors.csvInvalidJson(line, column));
+  }
+}
+
+/**
+ * Rebuilds signature logs from the flat CSV export
+ * @param text - CSV text
+ * @returns Unvalidated log objects
+ */
+function csvToLogs(text: string): unknown[] {
+  const [header, ...rows] = parseCSV(text);
+  if (!header) {
+    throw new Error(getMessages().errors.csvEmpty);
+  }
+
+  const missing = LOG_CSV_COLUMNS.filter((column) => !OPTIONAL_CSV_COLUMNS.has(column) && !header.includes(column));
+  if (missing.length > 0) {
+    throw new Error(getMessages().errors.csvMissingColumns(missing.join(', ')));
+  }
+  if (rows.length === 0) {
+    throw new Error(getMessages().errors.noLogs);
+  }
+
+  const logs = new Map<string, Record<string, unknown> & { signatures: Record<string, unknown>[] }>();
+  const optional = (value: string) => value || undefined;
+
+  rows.forEach((fields, rowIndex) => {
+    // Records are numbered after the header; quoted fields may span several lines
+    const line = rowIndex + 1;
+    if (fields.length !== header.length) {
+      throw new Error(getMessages().errors.csvColumnCount(line, header.length, fields.length));
+    }
+    const row = Object.fromEntries([
+      ...[...OPTIONAL_CSV_COLUMNS].map((column) => [column, '']),
+      ...header.map((column, index) => [column, unescapeCSVField(fields[index])]),
+    ]) as LogCSVRow;
+
+    let log = logs.get(row.document_id);
+    if (!log) {
+      log = {
+        documentId: row.document_id,
+        pdfMetadata: {
+          fileName: row.file_name,
+          fileSize: Number(row.file_size),
+          lastModified: Number(row.last_modified),
+          contentHash: optional(row.content_hash),
+        },
+        signatures: [],
+        genesisHash: optional(row.genesis_hash),
+        createdAt: row.log_created_at,
+        updatedAt: row.log_updated_at,
+        finalizedAt: optional(row.log_finalized_at),
+        author: optional(row.log_author),
+        protocolLocale: optional(row.protocol_locale),
+        workflow: parseJSONCell(row.log_workflow, 'log_workflow', line),
+        refusals: parseJSONCell(row.log_refusals, 'log_refusals', line),
+        auditTrail: parseJSONCell(row.log_audit_trail, 'log_audit_trail', line),
+        requireFullReading: parseJSONCell(row.log_require_reading, 'log_require_reading', line),
+      };
+      logs.set(row.document_id, log);
+    }
+
+    if (!row.signature_id) return;
+
+    if (Number(row.signature_index) !== log.signatures.length + 1) {
+      throw new Error(getMessages().errors.csvSignatureOrder(line, row.document_id));
+    }
+    log.signatures.push({
+      id: row.signature_id,
+      name: row.name,
+      cpf: row.cpf,
+      documentType: optional(row.document_type),
+      documentIssuer: optional(row.document_issuer),
+      role: optional(row.role),
+      deviceId: row.device_id,
+      timestamp: row.timestamp,
+      hash: row.hash,
+      previousHash: optional(row.previous_hash),
+      devicePublicKey: parseJSONCell(row.device_public_key, 'device_public_key', line),
+      deviceSignature: optional(row.device_signature),
+      certificate: parseJSONCell(row.certificate, 'certificate', line),
+      timestampToken: parseJSONCell(row.timestamp_token, 'timestamp_token', line),
+      placement: parseJSONCell(row.placement, 'placement', line),
+      handwritten: parseJSONCell(row.handwritten, 'handwritten', line),
+      initials: parseJSONCell(row.initials, 'initials', line),
+      reading: parseJSONCell(row.reading, 'reading', line),
+    });
+  });
+
+  return [...logs.values()];
+}
+
+/**
+ * Checks that the hashes recorded in an imported log line up: the chain links
+ * and the device signatures over each hash
+ * @param log - Validated signature log
+ */
+async function verifyImportedLog(log: SignatureLog): Promise<void> {
+  const { errors } = getMessages();
+  const { fileName } = log.pdfMetadata;
+
+  // Logs created before hash chaining have no links to check; refusals are always chained
+  const isChained = log.signatures.some((signature) => signature.previousHash) || !!log.refusals?.length;
+  if (isChained) {
+    const chain = await verifySignatureChain(log);
+    if (chain.failure) {
+      throw new Error(errors.importedChainBroken(fileName, errors.chainBreak(chain.failure)));
+    }
+  }
+
+  const trail = verifyAuditTrail(log.auditTrail ?? []);
+  if (trail.failure) {
+    throw new Error(errors.importedAuditTrailBroken(fileName, errors.chainBreak(trail.failure)));
+  }
+
+  for (let i = 0; i < log.signatures.length; i++) {
+    const signature = log.signatures[i];
+    if (signature.deviceSignature && !(await verifyDeviceSignature(signature))) {
+      throw new Error(errors.importedDeviceSignature(fileName, i + 1));
+    }
+  }
+
+  for (const [i, refusal] of (log.refusals ?? []).entries()) {
+    if (refusal.deviceSignature && !(await verifyDeviceSignature(refusal))) {
+      throw new Error(errors.importedRefusalDeviceSignature(fileName, i + 1));
+    }
+  }
+}
+
+/**
+ * Parses and validates an exported logs file (versioned JSON or flat CSV).
+ * The whole file is rejected if any log is malformed or its hashes do not line up.
+ * @param content - File content
+ * @param fileName - File name, used to detect the format
+ * @returns Validated signature logs
+ */
+export async function importLogsFromFile(content: string, fileName: string): Promise<SignatureLog[]> {
+  const text = content.startsWith(UTF8_BOM) ? content.slice(1) : content;
+  const isJSON = /\.json$/i.test(fileName) || text.trimStart().startsWith('{');
+
+  let logs: SignatureLog[];
+  if (isJSON) {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error(getMessages().errors.jsonMalformed);
+    }
+    const result = signatureLogExportSchema.safeParse(data);
+    if (!result.success) {
+      throw new Error(getMessages().errors.exportInvalid(describeIssue(result.error)));
+    }
+    logs = result.data.logs;
+  } else {
+    logs = csvToLogs(text).map((data, index) => {
+      const result = signatureLogSchema.safeParse(data);
+      if (!result.success) {
+        throw new Error(getMessages().errors.csvInvalidLog(index + 1, describeIssue(result.error)));
+      }
+      return result.data;
+    });
+  }
+
+  const ids = new Set<string>();
+  for (const log of logs) {
+    if (ids.has(log.documentId)) {
+      throw new Error(getMessages().errors.duplicateDocument(log.documentId));
+    }
+    ids.add(log.documentId);
+    await verifyImportedLog(log);
+  }
+
+  return logs;
+}
+
+/**
+ * Triggers a browser download of in-memory data
+ * @param data - File content
+ * @param fileName - Suggested file name
+ * @param mimeType - MIME type
+ */
+export function downloadFile(data: BlobPart, fileName: string, mimeType: string): void {
+  const blob = new Blob([data], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = fileName;
+  link.href = url;
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
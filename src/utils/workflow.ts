@@ -0,0 +1,178 @@
+import type {
+  ExpectedSigner,
+  ExpectedSignerState,
+  SignatureLog,
+  SignerIdentity,
+  SignerTurnError,
+  SigningWorkflow,
+  WorkflowStatus,
+} from '@/types';
+import { normalizeCPF, normalizeName } from './cpf';
+import { normalizeSignerDocument } from './identity';
+
+/**
+ * Checks whether the deadline of a workflow has passed
+ * @param workflow - Signing workflow
+ * @param now - Reference date
+ * @returns true if the workflow has a deadline before now
+ */
+function isPastDeadline(workflow: SigningWorkflow, now: Date): boolean {
+  return !!workflow.expiresAt && new Date(workflow.expiresAt).getTime() <= now.getTime();
+}
+
+/**
+ * Gets the expected signers that already signed. Signatures are matched by CPF,
+ * the only document expected signers are identified by.
+ * @param log - Signature log with a workflow
+ * @returns IDs of the expected signers with a signature
+ */
+function getSignedExpectedSignerIds(log: SignatureLog): Set<string> {
+  const signedCPFs = new Set(
+    log.signatures
+      .filter((signature) => (signature.documentType ?? 'cpf') === 'cpf')
+      .map((signature) => signature.cpf)
+  );
+  return new Set(
+    (log.workflow?.signers ?? []).filter((signer) => signedCPFs.has(signer.cpf)).map((signer) => signer.id)
+  );
+}
+
+/**
+ * Derives the status of the signing workflow of an envelope. Envelopes without a
+ * workflow are complete as soon as they have a signature; a refusal to sign ends
+ * any workflow as refused.
+ * @param log - Signature log
+ * @param now - Reference date for the deadline
+ * @returns Workflow status
+ */
+export function getWorkflowStatus(log: SignatureLog, now: Date = new Date()): WorkflowStatus {
+  const { workflow } = log;
+  if (log.refusals?.length) return 'refused';
+  if (!workflow) return log.signatures.length > 0 ? 'completed' : 'pending';
+
+  const signed = getSignedExpectedSignerIds(log);
+  const required = workflow.signers.filter((signer) => signer.required);
+  // Workflows with only optional signers are complete with any of them
+  const completed = required.length > 0 ? required.every((signer) => signed.has(signer.id)) : signed.size > 0;
+
+  if (completed) return 'completed';
+  if (isPastDeadline(workflow, now)) return 'expired';
+  return signed.size > 0 ? 'partially-signed' : 'pending';
+}
+
+/**
+ * Gets the expected signers whose turn it is. In sequential order, optional signers
+ * may be skipped: the turn goes from the last signer who signed up to the next
+ * required one. In parallel order, every signer who has not signed yet may sign.
+ * @param log - Signature log
+ * @param now - Reference date for the deadline
+ * @returns Signers allowed to sign now; empty without a workflow, after the deadline or a refusal
+ */
+export function getSignersOnTurn(log: SignatureLog, now: Date = new Date()): ExpectedSigner[] {
+  const { workflow } = log;
+  if (!workflow || isPastDeadline(workflow, now) || log.refusals?.length) return [];
+
+  const signed = getSignedExpectedSignerIds(log);
+  if (workflow.order === 'parallel') {
+    return workflow.signers.filter((signer) => !signed.has(signer.id));
+  }
+
+  let lastSigned = -1;
+  workflow.signers.forEach((signer, index) => {
+    if (signed.has(signer.id)) lastSigned = index;
+  });
+
+  const onTurn: ExpectedSigner[] = [];
+  for (const signer of workflow.signers.slice(lastSigned + 1)) {
+    onTurn.push(signer);
+    if (signer.required) break;
+  }
+  return onTurn;
+}
+
+/**
+ * Gets the progress of each expected signer of an envelope
+ * @param log - Signature log
+ * @param now - Reference date for the deadline
+ * @returns State by expected signer ID
+ */
+export function getExpectedSignerStates(log: SignatureLog, now: Date = new Date()): Map<string, ExpectedSignerState> {
+  const signers = log.workflow?.signers ?? [];
+  const signed = getSignedExpectedSignerIds(log);
+  const onTurn = new Set(getSignersOnTurn(log, now).map((signer) => signer.id));
+  const sequential = log.workflow?.order === 'sequential';
+  const refusedCPFs = new Set(
+    (log.refusals ?? []).filter((refusal) => (refusal.documentType ?? 'cpf') === 'cpf').map((refusal) => refusal.cpf)
+  );
+
+  return new Map(
+    signers.map((signer, index): [string, ExpectedSignerState] => {
+      if (signed.has(signer.id)) return [signer.id, 'signed'];
+      if (refusedCPFs.has(signer.cpf)) return [signer.id, 'refused'];
+      if (onTurn.has(signer.id)) return [signer.id, 'on-turn'];
+      const passedOver = sequential && signers.slice(index + 1).some((next) => signed.has(next.id));
+      return [signer.id, passedOver ? 'skipped' : 'waiting'];
+    })
+  );
+}
+
+/**
+ * Checks whether a signer may sign an envelope now
+ * @param log - Signature log
+ * @param name - Name entered in the signer form
+ * @param identity - Identity entered in the signer form
+ * @param now - Reference date for the deadline
+ * @returns Reason the signer is refused, or null if allowed (always without a workflow, unless refused)
+ */
+export function getSignerTurnError(
+  log: SignatureLog,
+  name: string,
+  identity: SignerIdentity,
+  now: Date = new Date()
+): SignerTurnError | null {
+  const { workflow } = log;
+  if (log.refusals?.length) return 'refused';
+  if (!workflow) return null;
+  if (isPastDeadline(workflow, now)) return 'expired';
+
+  const cpf = identity.type === 'cpf' ? normalizeCPF(identity.number) : null;
+  const expected = workflow.signers.find((signer) => signer.cpf === cpf);
+  if (!expected) return 'not-expected';
+  if (getSignedExpectedSignerIds(log).has(expected.id)) return 'already-signed';
+  if (!getSignersOnTurn(log, now).some((signer) => signer.id === expected.id)) return 'out-of-turn';
+  if (normalizeName(name) !== expected.name) return 'name-mismatch';
+  return null;
+}
+
+/**
+ * Checks whether a signer may decline to sign an envelope. Unlike signing, expected
+ * signers may decline out of turn, as long as they have not signed.
+ * @param log - Signature log
+ * @param name - Name entered in the signer form
+ * @param identity - Identity entered in the signer form
+ * @param now - Reference date for the deadline
+ * @returns Reason the refusal is not accepted, or null if allowed
+ */
+export function getSignerRefusalError(
+  log: SignatureLog,
+  name: string,
+  identity: SignerIdentity,
+  now: Date = new Date()
+): SignerTurnError | null {
+  if (log.refusals?.length) return 'refused';
+
+  const document = normalizeSignerDocument(identity.number, identity.type);
+  const hasSigned = log.signatures.some(
+    (signature) => signature.cpf === document && (signature.documentType ?? 'cpf') === identity.type
+  );
+
+  const { workflow } = log;
+  if (!workflow) return hasSigned ? 'already-signed' : null;
+  if (isPastDeadline(workflow, now)) return 'expired';
+
+  const expected = identity.type === 'cpf' ? workflow.signers.find((signer) => signer.cpf === document) : undefined;
+  if (!expected) return 'not-expected';
+  if (hasSigned) return 'already-signed';
+  if (normalizeName(name) !== expected.name) return 'name-mismatch';
+  return null;
+}
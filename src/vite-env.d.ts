@@ -0,0 +1,16 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** RFC 3161 time-stamping authority endpoint; without it only development builds use the local stand-in TSA */
+  readonly VITE_TSA_URL?: string;
+  /** "true" enables the local stand-in TSA outside development builds (demos only) */
+  readonly VITE_TSA_LOCAL?: string;
+  /** PEM certificates of the trusted TSAs or of the CAs issuing them */
+  readonly VITE_TSA_TRUSTED_CERTS?: string;
+  /** URL encoded in the verification QR codes; {documentId}, {sha256} and {hashSicfar} are replaced */
+  readonly VITE_VERIFICATION_URL_TEMPLATE?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}